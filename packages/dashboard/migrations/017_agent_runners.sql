@@ -0,0 +1,14 @@
+-- Migration 017: Pluggable agent runners
+-- Date: 2026-10-19
+-- Description: Lets each project (and optionally each session type) pick the CLI agent
+--              the orchestrator spawns. 'claude' keeps the existing Claude Code behaviour;
+--              'shell' runs an arbitrary command with the prompt on stdin.
+
+-- Project-level default runner
+ALTER TABLE task_lists ADD COLUMN agent_runner TEXT NOT NULL DEFAULT 'claude';
+-- Shell command for the 'shell' runner (ignored for 'claude')
+ALTER TABLE task_lists ADD COLUMN agent_command TEXT;
+
+-- Session-type override: NULL = inherit the project's runner
+ALTER TABLE llm_session_config ADD COLUMN agent_runner TEXT;
+ALTER TABLE llm_session_config ADD COLUMN agent_command TEXT;
@@ -0,0 +1,18 @@
+-- Migration 018: Orchestrator wake-up signals
+-- Date: 2026-10-19
+-- Description: Append-only "work available" feed. Task status changes and new human
+--              messages insert a row; orchestrators long-poll /api/orchestrator/signals
+--              and start a poll cycle as soon as one arrives.
+
+CREATE TABLE IF NOT EXISTS work_signals (
+  -- Monotonic cursor for long-poll subscribers
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workspace_id TEXT NOT NULL,
+  -- 'task_status' | 'human_message'
+  reason TEXT NOT NULL,
+  task_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_signals_workspace ON work_signals(workspace_id, id);
@@ -0,0 +1,14 @@
+-- Migration 019: Task leases for multiple orchestrators
+-- Date: 2026-10-19
+-- Description: Orchestrators claim a task through POST /api/tasks/:id/claim, which
+--              atomically grants a time-bounded lease to one holder. Holders renew the
+--              lease while their session runs; expired leases are reclaimed and the task
+--              goes back to the queue.
+
+ALTER TABLE tasks ADD COLUMN lease_holder TEXT;
+ALTER TABLE tasks ADD COLUMN lease_expires_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_lease_expiry ON tasks(workspace_id, lease_expires_at);
+
+-- Which orchestrator instance owns a session (NULL = started before leases existed)
+ALTER TABLE sessions ADD COLUMN holder_id TEXT;
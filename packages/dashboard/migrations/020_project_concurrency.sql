@@ -0,0 +1,7 @@
+-- Migration 020: Per-project session concurrency
+-- Date: 2026-10-19
+-- Description: Each orchestrator session now runs in its own git worktree on the task
+--              branch, so one project can host several sessions at once. The limit is
+--              per project; 1 keeps the previous one-session-per-project behaviour.
+
+ALTER TABLE task_lists ADD COLUMN max_concurrent_sessions INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,21 @@
+-- Migration 021: Session transcripts
+-- Date: 2026-10-19
+-- Description: The orchestrator streams the agent's output (assistant messages, tool
+--              calls, file edits, tool results) to POST /api/sessions/:id/transcript
+--              in chunks. seq is assigned by the orchestrator, so a chunk that is
+--              re-sent after a failed request is ignored instead of duplicated.
+
+CREATE TABLE IF NOT EXISTS session_transcript_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('system', 'assistant', 'tool_use', 'file_edit', 'tool_result', 'stderr', 'result')),
+  tool_name TEXT,
+  content TEXT NOT NULL,
+  metadata TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_session_seq ON session_transcript_entries(session_id, seq);
@@ -0,0 +1,31 @@
+-- Migration 023: Budget limits
+-- Date: 2026-10-19
+-- Description: Daily and monthly spend caps for the workspace and for individual
+--              projects, plus a per-task cap. The orchestrator stops starting sessions
+--              once a cap would be exceeded and stops running sessions when a cap is
+--              reached. Spend is the sum of sessions.cost_usd (migration 022).
+
+CREATE TABLE budget_limits (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  -- NULL = workspace budget; non-null = project budget
+  task_list_id TEXT,
+  -- NULL = no cap. Days and months are UTC.
+  daily_limit_usd REAL,
+  monthly_limit_usd REAL,
+  -- Cap on a single task's total cost; a project value overrides the workspace value
+  task_limit_usd REAL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (task_list_id) REFERENCES task_lists(id) ON DELETE CASCADE
+);
+
+-- Partial unique indexes to handle NULL task_list_id correctly in SQLite
+CREATE UNIQUE INDEX idx_budget_limits_workspace
+  ON budget_limits(workspace_id)
+  WHERE task_list_id IS NULL;
+
+CREATE UNIQUE INDEX idx_budget_limits_project
+  ON budget_limits(workspace_id, task_list_id)
+  WHERE task_list_id IS NOT NULL;
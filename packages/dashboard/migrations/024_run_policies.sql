@@ -0,0 +1,35 @@
+-- Migration 024: Run policies
+-- Date: 2026-10-19
+-- Description: Retry limits, session timeouts and retry backoff stored per workspace
+--              and per project, each optionally per LLM session type, instead of the
+--              orchestrator's process-wide env vars. Tasks can override the retry limit
+--              and timeout, and record when a failed task may be retried.
+
+CREATE TABLE run_policies (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  -- NULL = workspace policy; non-null = project policy
+  task_list_id TEXT,
+  -- NULL = every session type; otherwise an LLM session type ('task', 'ai_review', ...)
+  session_type TEXT,
+  -- NULL fields inherit from the next broader policy, then the orchestrator's env
+  max_retries INTEGER,
+  session_timeout_minutes INTEGER,
+  retry_backoff_seconds INTEGER,
+  retry_backoff_max_seconds INTEGER,
+  -- Only read from the workspace-wide policy (no project, no session type)
+  max_concurrent_sessions INTEGER,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (task_list_id) REFERENCES task_lists(id) ON DELETE CASCADE
+);
+
+-- One policy per scope; COALESCE because SQLite treats NULLs as distinct in unique indexes
+CREATE UNIQUE INDEX idx_run_policies_scope
+  ON run_policies(workspace_id, COALESCE(task_list_id, ''), COALESCE(session_type, ''));
+
+ALTER TABLE tasks ADD COLUMN max_retries INTEGER;
+ALTER TABLE tasks ADD COLUMN session_timeout_minutes INTEGER;
+-- Set by the orchestrator after a failure (exponential backoff); cleared on a status change
+ALTER TABLE tasks ADD COLUMN next_attempt_at TEXT;
@@ -0,0 +1,47 @@
+-- Migration 025: Orchestrator registration and control commands
+-- Date: 2026-10-19
+-- Description: Orchestrators register themselves and send a heartbeat with their version,
+--              scheduling state, running sessions and effective config. The dashboard
+--              queues commands for a specific orchestrator (pause, resume, drain, kill a
+--              session, poll now); they are handed out with the next heartbeat and the
+--              orchestrator reports back the outcome.
+
+CREATE TABLE IF NOT EXISTS orchestrators (
+  -- The daemon's ORCHESTRATOR_ID (also the holder_id of its leases and sessions)
+  id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  hostname TEXT,
+  pid INTEGER,
+  version TEXT,
+  -- 'running' | 'paused' | 'draining' | 'stopped'
+  state TEXT NOT NULL DEFAULT 'running',
+  -- JSON object of the settings the daemon runs with (no secrets)
+  config TEXT NOT NULL DEFAULT '{}',
+  -- JSON array of { session_id, task_id, project_id, started_at }
+  active_sessions TEXT NOT NULL DEFAULT '[]',
+  started_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_heartbeat_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (workspace_id, id),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS orchestrator_commands (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workspace_id TEXT NOT NULL,
+  orchestrator_id TEXT NOT NULL,
+  -- 'pause' | 'resume' | 'drain' | 'kill_session' | 'poll'
+  command TEXT NOT NULL,
+  -- Target of 'kill_session'
+  session_id TEXT,
+  -- 'pending' -> 'delivered' (handed out with a heartbeat) -> 'done' | 'failed'
+  status TEXT NOT NULL DEFAULT 'pending',
+  result TEXT,
+  -- User who issued the command (NULL when issued with an API key)
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT,
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_orchestrator_commands_target
+  ON orchestrator_commands(workspace_id, orchestrator_id, status);
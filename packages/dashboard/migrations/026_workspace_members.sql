@@ -0,0 +1,45 @@
+-- Migration 026: Workspace members, roles and invite links
+-- Date: 2026-10-19
+-- Description: Users could only belong to the workspace created at signup. Membership
+--              now lives in workspace_members with an owner/admin/member/viewer role,
+--              and admins share single-use invite links (no email involved) to add
+--              teammates. users.workspace_id remains the personal workspace; the
+--              workspace a user last switched to is remembered for the next login.
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  -- User who created the invite this member joined through (NULL for the signup owner)
+  invited_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (workspace_id, user_id),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+-- Every existing user owns their signup workspace
+INSERT OR IGNORE INTO workspace_members (workspace_id, user_id, role)
+  SELECT workspace_id, id, 'owner' FROM users;
+
+ALTER TABLE users ADD COLUMN last_workspace_id TEXT;
+
+CREATE TABLE IF NOT EXISTS workspace_invites (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  -- SHA-256 of the token in the invite link; the token itself is shown once
+  token_hash TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member', 'viewer')),
+  created_by TEXT,
+  expires_at TEXT NOT NULL,
+  -- Single use: set when a user accepts the invite
+  accepted_by TEXT,
+  accepted_at TEXT,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invites_workspace ON workspace_invites(workspace_id, created_at);
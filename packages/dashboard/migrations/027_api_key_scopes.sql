@@ -0,0 +1,10 @@
+-- Migration 027: Scoped API keys
+-- Date: 2026-10-19
+-- Description: API keys could do anything their creator's role allows. Keys now
+--              carry a list of scopes (tasks:read, tasks:write, comments:write,
+--              sessions:write, workspace:admin, llm-config:admin, keys:admin) and can
+--              be restricted to specific projects. Both are JSON arrays; NULL keeps
+--              the old unrestricted behaviour for existing keys.
+
+ALTER TABLE api_keys ADD COLUMN scopes TEXT;
+ALTER TABLE api_keys ADD COLUMN task_list_ids TEXT;
@@ -0,0 +1,21 @@
+-- Migration 028: Rate limit tiers for API keys
+-- Date: 2026-10-19
+-- Description: Every API request was limited to the standard 100/min, so an
+--              orchestrator polling many statuses could hit 429 and stall. Keys now
+--              carry a rate limit tier ('standard' | 'orchestrator'); NULL derives it
+--              from the key's scopes (keys that can report sessions get the
+--              orchestrator tier). Workspaces can override the per-minute limit of
+--              each tier.
+
+ALTER TABLE api_keys ADD COLUMN rate_limit_tier TEXT;
+
+CREATE TABLE IF NOT EXISTS workspace_rate_limits (
+  workspace_id TEXT NOT NULL,
+  -- 'standard' | 'orchestrator'
+  tier TEXT NOT NULL,
+  -- Requests allowed per one-minute window
+  max_requests INTEGER NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (workspace_id, tier),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
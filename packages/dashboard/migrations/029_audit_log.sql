@@ -0,0 +1,36 @@
+-- Migration 029: Audit log
+-- Date: 2026-10-19
+-- Description: Nothing recorded who changed a task's status, bulk-deleted tasks,
+--              revoked an API key or edited LLM provider credentials. The audit log
+--              records every mutation from the task, project, API key, feature toggle
+--              and LLM config routes with its actor (user, API key or bot), action,
+--              entity and the before/after values of the changed fields. Entries are
+--              never updated; they are only removed together with their workspace.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workspace_id TEXT NOT NULL,
+  -- 'user' | 'api_key' | 'bot'
+  actor_type TEXT NOT NULL,
+  -- users.id or api_keys.id; NULL for bots
+  actor_id TEXT,
+  -- User name/email, key name or bot name at the time of the change
+  actor_name TEXT,
+  -- '<entity>.<verb>', e.g. 'task.update'
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  -- JSON object of { field: { before, after } } for the changed fields; secrets are redacted
+  changes TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace ON audit_log(workspace_id, id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(workspace_id, entity_type, entity_id);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_append_only
+BEFORE UPDATE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
@@ -0,0 +1,33 @@
+-- Migration 030: Task transitions
+-- Date: 2026-10-19
+-- Description: tasks only stores the current status, so analytics had to guess cycle
+--              times from started_at/completed_at. Every change of a task's status,
+--              priority, assignee or labels is now recorded as a transition with its
+--              timestamp and actor. The task timeline and time-in-status analytics are
+--              built from these rows. Existing tasks get one status row at their last
+--              update, so time-in-status starts counting from the migration.
+
+CREATE TABLE IF NOT EXISTS task_transitions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workspace_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  -- 'status' | 'priority' | 'assigned_to' | 'labels'
+  field TEXT NOT NULL,
+  -- NULL from_value = the task was created; labels are stored as their JSON array
+  from_value TEXT,
+  to_value TEXT,
+  -- Same actor columns as audit_log
+  actor_type TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_transitions_task ON task_transitions(task_id, id);
+CREATE INDEX IF NOT EXISTS idx_task_transitions_field ON task_transitions(workspace_id, field, created_at);
+
+INSERT INTO task_transitions (workspace_id, task_id, field, from_value, to_value, actor_type, actor_name, created_at)
+SELECT workspace_id, id, 'status', NULL, status, 'bot', 'migration', COALESCE(updated_at, created_at)
+FROM tasks;
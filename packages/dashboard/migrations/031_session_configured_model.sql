@@ -0,0 +1,8 @@
+-- Migration 031: Configured model on sessions
+-- Date: 2026-10-19
+-- Description: sessions.model is what the agent reports, which runners other than
+--              Claude may never do. The orchestrator now also records the model its
+--              LLM session config resolved to, so the agent effectiveness report can
+--              compare provider/model combinations for every session.
+
+ALTER TABLE sessions ADD COLUMN configured_model TEXT;
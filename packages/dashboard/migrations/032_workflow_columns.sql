@@ -0,0 +1,146 @@
+-- Migration 032: Custom workflow columns
+-- Date: 2026-10-19
+-- Description: The board only knew the built-in statuses plus the three feature-toggle
+--              columns. Workspaces can now add their own columns ("Security review",
+--              "Awaiting deploy", ...) for the whole workspace or a single project, with
+--              an icon, position, WIP limit and whether the orchestrator runs an agent on
+--              tasks in the column. Custom columns use 'custom_<slug>' statuses, so the
+--              tasks.status CHECK constraint is dropped; the API validates statuses
+--              against the workspace's columns instead.
+
+CREATE TABLE IF NOT EXISTS workflow_columns (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  -- NULL = shown on every project's board
+  task_list_id TEXT,
+  -- Task status for the column, always 'custom_<slug>'
+  status TEXT NOT NULL,
+  label TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT '📌',
+  -- Built-in status the column follows on the board; columns sharing one are ordered by position
+  after_status TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  wip_limit INTEGER,
+  -- 1 = the orchestrator runs an agent with the column's instructions on its tasks
+  orchestrated INTEGER NOT NULL DEFAULT 0,
+  instructions TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (workspace_id, status),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (task_list_id) REFERENCES task_lists(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_columns_workspace ON workflow_columns(workspace_id, after_status, position);
+
+-- Recreate tasks without the status CHECK constraint.
+-- With foreign keys enforced, DROP TABLE deletes the old rows first and that fires
+-- ON DELETE actions on every table referencing tasks. Unlike migrations 011/015, the
+-- referencing rows are copied aside and restored so comments, dependencies, transitions
+-- and session links survive the rebuild.
+
+-- Step 1: Copy rows that reference tasks
+CREATE TABLE _tasks_parents AS SELECT id, parent_task_id FROM tasks WHERE parent_task_id IS NOT NULL;
+CREATE TABLE _task_comments_backup AS SELECT * FROM task_comments;
+CREATE TABLE _task_dependencies_backup AS SELECT * FROM task_dependencies;
+CREATE TABLE _task_transitions_backup AS SELECT * FROM task_transitions;
+CREATE TABLE _sessions_tasks AS SELECT id, current_task_id FROM sessions WHERE current_task_id IS NOT NULL;
+CREATE TABLE _session_events_tasks AS SELECT id, task_id FROM session_events WHERE task_id IS NOT NULL;
+CREATE TABLE _workers_tasks AS SELECT id, current_task_id FROM workers WHERE current_task_id IS NOT NULL;
+
+-- Step 2: Create the new tasks table
+CREATE TABLE tasks_new (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  task_list_id TEXT REFERENCES task_lists(id) ON DELETE SET NULL,
+  parent_task_id TEXT REFERENCES tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  -- Built-in statuses, or 'custom_<slug>' from workflow_columns
+  status TEXT NOT NULL DEFAULT 'backlog',
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK(priority IN ('low', 'medium', 'high', 'urgent')),
+  labels TEXT NOT NULL DEFAULT '[]',
+  assignee TEXT,
+  assigned_to TEXT,
+  "order" INTEGER NOT NULL DEFAULT 0,
+  loop_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  files_changed TEXT NOT NULL DEFAULT '[]',
+  completion_notes TEXT,
+  pr_url TEXT,
+  branch_name TEXT,
+  claude_session_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  started_at TEXT,
+  completed_at TEXT,
+  lease_holder TEXT,
+  lease_expires_at TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  max_retries INTEGER,
+  session_timeout_minutes INTEGER,
+  next_attempt_at TEXT,
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+-- Step 3: Copy all tasks. parent_task_id still points at the old table here, so it
+-- is restored after the rename instead of cascading away with the drop.
+INSERT INTO tasks_new (
+  id, workspace_id, task_list_id, parent_task_id, title, description,
+  status, priority, labels, assignee, assigned_to, "order",
+  loop_count, error_count, files_changed, completion_notes,
+  pr_url, branch_name, claude_session_id,
+  created_at, updated_at, started_at, completed_at,
+  lease_holder, lease_expires_at,
+  input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd,
+  max_retries, session_timeout_minutes, next_attempt_at
+)
+SELECT
+  id, workspace_id, task_list_id, NULL, title, description,
+  status, priority, labels, assignee, assigned_to, "order",
+  loop_count, error_count, files_changed, completion_notes,
+  pr_url, branch_name, claude_session_id,
+  created_at, updated_at, started_at, completed_at,
+  lease_holder, lease_expires_at,
+  input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd,
+  max_retries, session_timeout_minutes, next_attempt_at
+FROM tasks;
+
+-- Step 4: Swap the tables
+DROP TABLE tasks;
+ALTER TABLE tasks_new RENAME TO tasks;
+
+-- Step 5: Recreate all indexes
+CREATE INDEX idx_tasks_workspace_status ON tasks(workspace_id, status);
+CREATE INDEX idx_tasks_status ON tasks(status);
+CREATE INDEX idx_tasks_priority ON tasks(priority);
+CREATE INDEX idx_tasks_workspace_created ON tasks(workspace_id, created_at DESC);
+CREATE INDEX idx_tasks_task_list ON tasks(task_list_id);
+CREATE INDEX idx_tasks_status_list_order ON tasks(status, task_list_id, "order");
+CREATE INDEX idx_tasks_parent_task ON tasks(parent_task_id);
+CREATE INDEX idx_tasks_lease_expiry ON tasks(workspace_id, lease_expires_at);
+
+-- Step 6: Restore the referencing rows
+UPDATE tasks SET parent_task_id = (SELECT parent_task_id FROM _tasks_parents p WHERE p.id = tasks.id)
+WHERE id IN (SELECT id FROM _tasks_parents);
+INSERT OR IGNORE INTO task_comments SELECT * FROM _task_comments_backup;
+INSERT OR IGNORE INTO task_dependencies SELECT * FROM _task_dependencies_backup;
+INSERT OR IGNORE INTO task_transitions SELECT * FROM _task_transitions_backup;
+UPDATE sessions SET current_task_id = (SELECT current_task_id FROM _sessions_tasks b WHERE b.id = sessions.id)
+WHERE id IN (SELECT id FROM _sessions_tasks);
+UPDATE session_events SET task_id = (SELECT task_id FROM _session_events_tasks b WHERE b.id = session_events.id)
+WHERE id IN (SELECT id FROM _session_events_tasks);
+UPDATE workers SET current_task_id = (SELECT current_task_id FROM _workers_tasks b WHERE b.id = workers.id)
+WHERE id IN (SELECT id FROM _workers_tasks);
+
+DROP TABLE _tasks_parents;
+DROP TABLE _task_comments_backup;
+DROP TABLE _task_dependencies_backup;
+DROP TABLE _task_transitions_backup;
+DROP TABLE _sessions_tasks;
+DROP TABLE _session_events_tasks;
+DROP TABLE _workers_tasks;
@@ -0,0 +1,23 @@
+-- Migration 033: WIP limits
+-- Date: 2026-10-19
+-- Description: Columns had no cap on how many tasks they hold, so human reviewers got
+--              buried. Built-in columns can now have a workspace-wide WIP limit (custom
+--              columns already carry wip_limit). The board highlights columns at or over
+--              their limit and, with block_when_full, refuses drops into a full column;
+--              the orchestrator stops starting work that would move tasks into a column
+--              at its limit.
+
+CREATE TABLE IF NOT EXISTS column_wip_limits (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  -- Built-in task status the limit applies to
+  status TEXT NOT NULL,
+  wip_limit INTEGER NOT NULL,
+  block_when_full INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (workspace_id, status),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+ALTER TABLE workflow_columns ADD COLUMN block_when_full INTEGER NOT NULL DEFAULT 0;
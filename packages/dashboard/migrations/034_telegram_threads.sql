@@ -0,0 +1,22 @@
+-- Migration 034: Telegram threads
+-- Date: 2026-10-19
+-- Description: Answering an agent's question meant opening the dashboard to post a
+--              human_message comment. The bot now remembers which task each message it
+--              sends is about, so a Telegram reply to one becomes a human_message comment
+--              on that task. The reply itself is recorded with the comment it became,
+--              and the agent's answer to that comment is sent back as a reply to it.
+
+CREATE TABLE IF NOT EXISTS telegram_messages (
+  chat_id TEXT NOT NULL,
+  message_id INTEGER NOT NULL,
+  workspace_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  -- Set for a user's reply that became a human_message comment
+  comment_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (chat_id, message_id),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_messages_comment ON telegram_messages(comment_id);
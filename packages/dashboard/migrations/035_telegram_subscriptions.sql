@@ -0,0 +1,46 @@
+-- Migration 035: Telegram subscriptions
+-- Date: 2026-10-19
+-- Description: notification_config held one Telegram chat per workspace, and linking
+--              another chat replaced it. Chats now subscribe separately: any number
+--              of private and group chats per workspace, each with its own projects,
+--              event types and quiet hours. Existing links become subscriptions with
+--              the event types their notify_on_* flags allowed. notification_config
+--              is no longer read for Telegram.
+
+CREATE TABLE IF NOT EXISTS telegram_subscriptions (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  -- A chat belongs to one workspace; linking it again moves it
+  chat_id TEXT NOT NULL UNIQUE,
+  -- 'private', 'group' or 'supergroup'
+  chat_type TEXT NOT NULL DEFAULT 'private',
+  -- Group title, or the first name of the user in a private chat
+  chat_title TEXT,
+  -- JSON array of task_list ids; NULL = every project
+  task_list_ids TEXT,
+  -- JSON array of event types to send
+  event_types TEXT NOT NULL DEFAULT '["task_completed","stuck","needs_input","error","budget_exceeded"]',
+  -- 'HH:MM' in timezone; notifications arrive silently in between. Both or neither set.
+  quiet_hours_start TEXT,
+  quiet_hours_end TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_subscriptions_workspace ON telegram_subscriptions(workspace_id);
+
+INSERT OR IGNORE INTO telegram_subscriptions (id, workspace_id, chat_id, event_types)
+SELECT
+  'tgs_' || lower(hex(randomblob(10))),
+  nc.workspace_id,
+  nc.telegram_chat_id,
+  (SELECT json_group_array(e.value)
+   FROM json_each('["task_completed","stuck","needs_input","error","budget_exceeded"]') e
+   WHERE (e.value = 'task_completed' AND nc.notify_on_complete)
+      OR (e.value IN ('stuck', 'needs_input', 'budget_exceeded') AND nc.notify_on_stuck)
+      OR (e.value = 'error' AND nc.notify_on_error))
+FROM notification_config nc
+WHERE nc.telegram_enabled = 1 AND nc.telegram_chat_id IS NOT NULL;
@@ -0,0 +1,54 @@
+-- Migration 036: Outbound webhooks
+-- Date: 2026-10-19
+-- Description: Notifications only went to Telegram, and task changes from the task
+--              routes emitted nothing. Webhooks post task, comment and session events
+--              to a URL of the workspace's choosing, signed with a per-webhook secret.
+--              Every attempt is logged in webhook_deliveries; a failed delivery stays
+--              pending with a next_attempt_at that backs off exponentially until it
+--              succeeds or runs out of attempts.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  -- 'json' (signed event envelope), 'slack' or 'discord'
+  format TEXT NOT NULL DEFAULT 'json',
+  -- JSON array of event types, e.g. ["task.moved","session.stuck"]
+  event_types TEXT NOT NULL,
+  -- HMAC-SHA256 key for X-Taskinfa-Signature-256; only shown when the webhook is created
+  secret TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_workspace ON webhooks(workspace_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  -- Shared by the deliveries of one event to several webhooks, and by redeliveries
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  -- Request body as sent
+  payload TEXT NOT NULL,
+  -- 'pending' | 'succeeded' | 'failed'
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Outcome of the last attempt; response_body is truncated
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  -- Set while pending; NULL once the delivery succeeded or failed for good
+  next_attempt_at TEXT,
+  last_attempt_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE,
+  FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(workspace_id, status, next_attempt_at);
@@ -0,0 +1,10 @@
+-- Migration 037: Telegram chats act with their linking key
+-- Date: 2026-10-19
+-- Description: A linked chat could read and change any task of its workspace, whatever
+--              the scopes, projects or creator role of the API key it was linked with.
+--              Subscriptions now remember that key; the bot looks it up for every
+--              command and button press and applies its restrictions as the API does.
+--              Chats linked before have no key: they keep their notifications but must
+--              be linked again to run commands.
+
+ALTER TABLE telegram_subscriptions ADD COLUMN api_key_id TEXT;
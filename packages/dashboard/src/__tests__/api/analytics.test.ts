@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { GET as getAnalytics } from '@/app/api/analytics/route';
+import { GET as getAgentEffectiveness } from '@/app/api/analytics/agents/route';
+import { cumulativeFlow, percentile, reworkRounds, summarizeVisits } from '@/lib/analytics/flow';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query } from '@/lib/db/client';
+import type { AgentEffectivenessResponse } from '@taskinfa/shared';
+
+describe('flow metrics', () => {
+  it('should interpolate percentiles', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    expect(percentile(sorted, 50)).toBe(5.5);
+    expect(percentile(sorted, 95)).toBeCloseTo(9.55);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('should summarize visits per status', () => {
+    const summary = summarizeVisits([
+      { status: 'review', hours: 10 },
+      { status: 'review', hours: 2 },
+      { status: 'in_progress', hours: 3 },
+    ]);
+
+    expect(summary[0]).toEqual({
+      status: 'review',
+      avg_hours: 6,
+      total_hours: 12,
+      p50_hours: 6,
+      p85_hours: 8.8,
+      p95_hours: 9.6,
+      visits: 2,
+    });
+    expect(summary[1]).toMatchObject({ status: 'in_progress', visits: 1 });
+  });
+
+  it('should count each task in its latest status at the end of each day', () => {
+    const points = cumulativeFlow(
+      [
+        { task_id: 'a', to_value: 'todo', created_at: '2026-10-01 09:00:00' },
+        { task_id: 'b', to_value: 'todo', created_at: '2026-10-01 10:00:00' },
+        { task_id: 'a', to_value: 'in_progress', created_at: '2026-10-02 09:00:00' },
+        { task_id: 'a', to_value: 'done', created_at: '2026-10-02 18:00:00' },
+      ],
+      ['2026-09-30', '2026-10-01', '2026-10-02']
+    );
+
+    expect(points).toEqual([
+      { date: '2026-09-30' },
+      { date: '2026-10-01', todo: 2 },
+      { date: '2026-10-02', todo: 1, done: 1 },
+    ]);
+  });
+
+  it('should bucket rework rounds', () => {
+    const { histogram, totals } = reworkRounds([
+      { status: 'review_rejected', rounds: 1 },
+      { status: 'review_rejected', rounds: 6 },
+      { status: 'test_failed', rounds: 2 },
+    ]);
+
+    expect(histogram).toEqual([
+      { rounds: '1', review_rejected: 1, test_failed: 0 },
+      { rounds: '2', review_rejected: 0, test_failed: 1 },
+      { rounds: '3', review_rejected: 0, test_failed: 0 },
+      { rounds: '4+', review_rejected: 1, test_failed: 0 },
+    ]);
+    expect(totals).toEqual([
+      { status: 'review_rejected', tasks: 2, rounds: 7 },
+      { status: 'test_failed', tasks: 1, rounds: 2 },
+    ]);
+  });
+});
+
+describe('GET /api/analytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function createRequest(path: string): NextRequest {
+    return new NextRequest(`http://localhost:3000${path}`);
+  }
+
+  it('should limit every query to the selected project', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'viewer',
+      authType: 'session',
+    });
+
+    const res = await getAnalytics(createRequest('/api/analytics?period=day&project_id=web'));
+    const data = await res.json() as { cumulativeFlow: unknown[]; projectId: string };
+
+    expect(res.status).toBe(200);
+    expect(data.projectId).toBe('web');
+    expect(data.cumulativeFlow).toHaveLength(31);
+    for (const [, sql, params] of vi.mocked(query).mock.calls) {
+      expect(sql).toMatch(/(task_list_id|project_id) = \?/);
+      expect(params).toContain('web');
+    }
+  });
+
+  it('should reject projects outside an API key restriction', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      keyId: 'key_1',
+      role: 'member',
+      authType: 'apiKey',
+      taskListIds: ['api'],
+    });
+
+    const res = await getAnalytics(createRequest('/api/analytics?project_id=web'));
+
+    expect(res.status).toBe(403);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/analytics/agents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'viewer',
+      authType: 'session',
+    });
+  });
+
+  it('should turn session counts into rates per provider/model/session type', async () => {
+    vi.mocked(query).mockResolvedValue([
+      {
+        provider: 'zai', model: 'glm-4.6', session_type: 'task', sessions: 4, finished: 4, completed: 3, retries: 1,
+        reviewed: 3, rejected: 1, tested: 0, passed: 0, avg_duration_minutes: 12.5, cost_usd: 2,
+      },
+      {
+        provider: 'anthropic', model: null, session_type: 'ai_review', sessions: 2, finished: 0, completed: 0, retries: 0,
+        reviewed: 0, rejected: 0, tested: 0, passed: 0, avg_duration_minutes: null, cost_usd: 0.5,
+      },
+    ]);
+
+    const res = await getAgentEffectiveness(new NextRequest('http://localhost:3000/api/analytics/agents?period=month'));
+    const data = await res.json() as AgentEffectivenessResponse;
+
+    expect(res.status).toBe(200);
+    expect(data.rows[0]).toEqual({
+      provider: 'zai',
+      model: 'glm-4.6',
+      session_type: 'task',
+      sessions: 4,
+      success_rate: 75,
+      retries: 1,
+      review_rejection_rate: 33.3,
+      test_pass_rate: null,
+      avg_duration_minutes: 12.5,
+      cost_usd: 2,
+      avg_cost_usd: 0.5,
+    });
+    expect(data.rows[1]).toMatchObject({ success_rate: 0, review_rejection_rate: null, avg_duration_minutes: 0 });
+    const [, , params] = vi.mocked(query).mock.calls[0];
+    expect(params).toContain('-365 days');
+  });
+});
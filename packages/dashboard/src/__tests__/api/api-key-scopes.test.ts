@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import type { ApiKeyScope } from '@taskinfa/shared';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+  generateApiKey: vi.fn().mockResolvedValue({ key: 'tk_new', id: 'key_new' }),
+}));
+
+import { GET as listTasks, POST as createTask } from '@/app/api/tasks/route';
+import { PATCH as updateTask } from '@/app/api/tasks/[id]/route';
+import { POST as createKey } from '@/app/api/keys/route';
+import { authenticateRequestUnified, generateApiKey } from '@/lib/auth/jwt';
+import { query, queryOne, execute } from '@/lib/db/client';
+
+function mockKey(scopes: ApiKeyScope[] | null, taskListIds: string[] | null = null) {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    userId: 'user_1',
+    keyId: 'key_1',
+    role: 'admin',
+    authType: 'apiKey',
+    scopes,
+    taskListIds,
+  });
+}
+
+function createRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('scope checks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should let a read-only key list tasks but not create them', async () => {
+    mockKey(['tasks:read']);
+
+    const listRes = await listTasks(createRequest('/api/tasks', 'GET'));
+    expect(listRes.status).toBe(200);
+
+    const createRes = await createTask(createRequest('/api/tasks', 'POST', { title: 'New', task_list_id: 'tl_1' }));
+    const data = await createRes.json() as { error: string };
+    expect(createRes.status).toBe(403);
+    expect(data.error).toContain('tasks:write');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should treat keys without scopes as unrestricted', async () => {
+    mockKey(null);
+
+    const res = await listTasks(createRequest('/api/tasks', 'GET'));
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('project restrictions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only list tasks from the allowed projects', async () => {
+    mockKey(['tasks:read'], ['tl_1', 'tl_2']);
+
+    const res = await listTasks(createRequest('/api/tasks', 'GET'));
+
+    expect(res.status).toBe(200);
+    const [, sql, params] = vi.mocked(query).mock.calls.find(([, s]) => String(s).startsWith('SELECT tasks.*'))!;
+    expect(sql).toContain('tasks.task_list_id IN (?, ?)');
+    expect(params).toEqual(expect.arrayContaining(['tl_1', 'tl_2']));
+  });
+
+  it('should not create tasks in other projects', async () => {
+    mockKey(['tasks:write'], ['tl_1']);
+
+    const res = await createTask(createRequest('/api/tasks', 'POST', { title: 'New', task_list_id: 'tl_other' }));
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should not update tasks in other projects', async () => {
+    mockKey(['tasks:write'], ['tl_1']);
+    vi.mocked(queryOne).mockResolvedValueOnce({ task_list_id: 'tl_other' });
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { priority: 'high' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(generateApiKey).mockResolvedValue({ key: 'tk_new', id: 'key_new' });
+  });
+
+  it('should require keys:admin', async () => {
+    mockKey(['tasks:read']);
+
+    const res = await createKey(createRequest('/api/keys', 'POST', { name: 'Bot' }));
+
+    expect(res.status).toBe(403);
+    expect(generateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('should not grant scopes the calling key lacks', async () => {
+    mockKey(['keys:admin', 'tasks:read']);
+
+    const res = await createKey(createRequest('/api/keys', 'POST', { name: 'Bot', scopes: ['tasks:write'] }));
+
+    expect(res.status).toBe(403);
+    expect(generateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('should inherit the calling key\'s restrictions when none are given', async () => {
+    mockKey(['keys:admin', 'tasks:read'], ['tl_1']);
+    vi.mocked(query).mockResolvedValue([{ created_at: '2026-10-19 10:00:00', expires_at: null }]);
+
+    const res = await createKey(createRequest('/api/keys', 'POST', { name: 'Bot' }));
+    const data = await res.json() as { scopes: string[]; task_list_ids: string[] };
+
+    expect(res.status).toBe(201);
+    expect(data.scopes).toEqual(['keys:admin', 'tasks:read']);
+    expect(data.task_list_ids).toEqual(['tl_1']);
+    expect(generateApiKey).toHaveBeenCalledWith('ws_1', 'Bot', 'user_1', undefined, {
+      scopes: ['keys:admin', 'tasks:read'],
+      taskListIds: ['tl_1'],
+      rateLimitTier: null,
+    });
+  });
+
+  it('should reject unknown scopes', async () => {
+    mockKey(null);
+
+    const res = await createKey(createRequest('/api/keys', 'POST', { name: 'Bot', scopes: ['everything'] }));
+
+    expect(res.status).toBe(400);
+  });
+});
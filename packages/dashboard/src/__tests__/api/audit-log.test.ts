@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { diffChanges } from '@taskinfa/shared';
+import type { WorkspaceRole } from '@taskinfa/shared';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client; bound statements remember their args so audit batches can be checked
+const mockBind = vi.fn((...args: unknown[]) => ({
+  args,
+  run: vi.fn().mockResolvedValue({ success: true }),
+  first: vi.fn().mockResolvedValue(null),
+}));
+const mockBatch = vi.fn().mockResolvedValue([]);
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({ bind: mockBind })),
+    batch: mockBatch,
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { PATCH as updateTask } from '@/app/api/tasks/[id]/route';
+import { GET as listAuditLog } from '@/app/api/audit-log/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne } from '@/lib/db/client';
+
+function mockAuth(role: WorkspaceRole, authType: 'session' | 'apiKey' = 'session') {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    userId: 'user_1',
+    keyId: authType === 'apiKey' ? 'key_1' : undefined,
+    role,
+    authType,
+  });
+}
+
+function createRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('diffChanges', () => {
+  it('should keep only changed fields', () => {
+    const changes = diffChanges(
+      { id: 'task_1', status: 'todo', priority: 'high', updated_at: '2026-10-19 10:00:00' },
+      { id: 'task_1', status: 'done', priority: 'high', updated_at: '2026-10-19 11:00:00' }
+    );
+
+    expect(changes).toEqual({ status: { before: 'todo', after: 'done' } });
+  });
+
+  it('should redact credentials', () => {
+    const changes = diffChanges({ auth_token: 'sk-old' }, { auth_token: 'sk-new' });
+
+    expect(changes).toEqual({ auth_token: { before: '[redacted]', after: '[redacted]' } });
+  });
+
+  it('should record every field of a deleted entity', () => {
+    const changes = diffChanges({ title: 'Gone', status: 'todo' }, null);
+
+    expect(changes).toEqual({
+      title: { before: 'Gone', after: null },
+      status: { before: 'todo', after: null },
+    });
+  });
+});
+
+describe('audit entries from routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record the status change of a task with the API key as actor', async () => {
+    mockAuth('member', 'apiKey');
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce({ id: 'task_1', status: 'todo', title: 'Fix it', labels: '[]', files_changed: '[]' })
+      .mockResolvedValueOnce({ id: 'task_1', status: 'review', title: 'Fix it', labels: '[]', files_changed: '[]' });
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { status: 'review' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockBatch).toHaveBeenCalledTimes(1);
+    const [args] = mockBatch.mock.calls[0][0].map((statement: { args: unknown[] }) => statement.args);
+    expect(args.slice(0, 7)).toEqual(['ws_1', 'api_key', 'key_1', 'key_1', 'task.update', 'task', 'task_1']);
+    expect(JSON.parse(args[7] as string)).toEqual({ status: { before: 'todo', after: 'review' } });
+  });
+
+  it('should record an orchestrator as a bot named after its ID', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      keyId: 'key_1',
+      role: 'member',
+      authType: 'apiKey',
+      orchestratorId: 'build-box-42',
+    });
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce({ id: 'task_1', status: 'todo', title: 'Fix it', labels: '[]', files_changed: '[]' })
+      .mockResolvedValueOnce({ id: 'task_1', status: 'in_progress', title: 'Fix it', labels: '[]', files_changed: '[]' });
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { status: 'in_progress' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    const [audit, transition] = mockBatch.mock.calls[0][0].map((statement: { args: unknown[] }) => statement.args);
+    expect(audit.slice(0, 5)).toEqual(['ws_1', 'bot', 'key_1', 'Orchestrator (build-box-42)', 'task.update']);
+    expect(transition.slice(5)).toEqual(['bot', 'key_1', 'Orchestrator (build-box-42)']);
+  });
+
+  it('should not record updates that changed nothing', async () => {
+    mockAuth('member');
+    const task = { id: 'task_1', status: 'todo', title: 'Fix it', labels: '[]', files_changed: '[]' };
+    vi.mocked(queryOne).mockResolvedValueOnce(task).mockResolvedValueOnce(task);
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { title: 'Fix it' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/audit-log', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only be readable by admins', async () => {
+    mockAuth('member');
+
+    const res = await listAuditLog(createRequest('/api/audit-log', 'GET'));
+
+    expect(res.status).toBe(403);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should filter by entity and action prefix and page by id', async () => {
+    mockAuth('admin');
+    vi.mocked(query).mockResolvedValue([
+      { id: 9, action: 'task.delete', changes: '{}' },
+      { id: 7, action: 'task.update', changes: '{}' },
+    ]);
+
+    const res = await listAuditLog(createRequest('/api/audit-log?entity_type=task&action=task&limit=1', 'GET'));
+    const data = await res.json() as { entries: { id: number }[]; next_cursor: number | null };
+
+    expect(res.status).toBe(200);
+    const [, sql, params] = vi.mocked(query).mock.calls[0];
+    expect(sql).toContain('entity_type = ?');
+    expect(sql).toContain("action LIKE ? || '.%'");
+    expect(params).toEqual(['ws_1', 'task', 'task', 2]);
+    expect(data.entries).toHaveLength(1);
+    expect(data.next_cursor).toBe(9);
+  });
+
+  it('should export CSV', async () => {
+    mockAuth('owner');
+    vi.mocked(query).mockResolvedValue([{
+      id: 3,
+      created_at: '2026-10-19 10:00:00',
+      actor_type: 'user',
+      actor_id: 'user_1',
+      actor_name: 'Ada, Admin',
+      action: 'task_list.update',
+      entity_type: 'task_list',
+      entity_id: 'web',
+      changes: '{"name":{"before":"Web","after":"Website"}}',
+    }]);
+
+    const res = await listAuditLog(createRequest('/api/audit-log?format=csv', 'GET'));
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/csv');
+    expect(res.headers.get('Content-Disposition')).toContain('attachment');
+    expect(body.split('\n')[0]).toBe('id,created_at,actor_type,actor_id,actor_name,action,entity_type,entity_id,changes');
+    expect(body).toContain('"Ada, Admin"');
+    expect(body).toContain('"{""name"":{""before"":""Web"",""after"":""Website""}}"');
+  });
+});
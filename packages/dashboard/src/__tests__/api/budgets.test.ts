@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { GET, PUT } from '@/app/api/budgets/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne, execute } from '@/lib/db/client';
+
+function mockAuth() {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    role: 'admin',
+    authType: 'apiKey',
+  });
+}
+
+function createPutRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/budgets', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /api/budgets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue(null);
+
+    const res = await GET(new NextRequest('http://localhost:3000/api/budgets'));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should sum project spend into the workspace spend', async () => {
+    mockAuth();
+    vi.mocked(query)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { project_id: 'tl_1', daily_usd: 1.5, monthly_usd: 12 },
+        { project_id: null, daily_usd: 0.5, monthly_usd: 3 },
+      ]);
+    vi.mocked(queryOne).mockResolvedValueOnce({ avg_cost: 0.8 });
+
+    const res = await GET(new NextRequest('http://localhost:3000/api/budgets'));
+    const data = await res.json() as {
+      spend: { workspace: { daily_usd: number; monthly_usd: number }; projects: Record<string, unknown> };
+      avg_session_cost_usd: number;
+    };
+
+    expect(res.status).toBe(200);
+    expect(data.spend.workspace).toEqual({ daily_usd: 2, monthly_usd: 15 });
+    expect(data.spend.projects).toEqual({ tl_1: { daily_usd: 1.5, monthly_usd: 12 } });
+    expect(data.avg_session_cost_usd).toBe(0.8);
+  });
+});
+
+describe('PUT /api/budgets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject non-positive caps', async () => {
+    mockAuth();
+
+    const res = await PUT(createPutRequest({ daily_limit_usd: 0 }));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should return 404 for a project outside the workspace', async () => {
+    mockAuth();
+
+    const res = await PUT(createPutRequest({ task_list_id: 'tl_other', daily_limit_usd: 5 }));
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should create the workspace budget', async () => {
+    mockAuth();
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'budget_1', task_list_id: null, daily_limit_usd: 5, monthly_limit_usd: null, task_limit_usd: 2 });
+
+    const res = await PUT(createPutRequest({ daily_limit_usd: 5, task_limit_usd: 2 }));
+    const data = await res.json() as { limit: { id: string } };
+
+    expect(res.status).toBe(200);
+    expect(data.limit.id).toBe('budget_1');
+    const [, sql, values] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('INSERT INTO budget_limits');
+    expect(values?.slice(1)).toEqual(['ws_1', null, 5, null, 2]);
+  });
+
+  it('should remove the budget when every cap is cleared', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce({ id: 'budget_1', task_list_id: null });
+
+    const res = await PUT(createPutRequest({ daily_limit_usd: null }));
+    const data = await res.json();
+
+    expect(data).toEqual({ limit: null });
+    expect(vi.mocked(execute).mock.calls[0][1]).toContain('DELETE FROM budget_limits');
+  });
+});
@@ -22,6 +22,9 @@ vi.mock('@/lib/auth/jwt', () => ({
 import { POST, GET } from '@/app/api/events/route';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
 import { query, queryOne, execute } from '@/lib/db/client';
+import { forwardAgentReply } from '@/lib/notifications/telegram';
+import { taskKeyboard } from '@taskinfa/shared';
+import type { TaskComment } from '@taskinfa/shared';
 
 function createPostRequest(body: Record<string, unknown>): NextRequest {
   return new NextRequest('http://localhost:3000/api/events', {
@@ -56,6 +59,7 @@ describe('POST /api/events', () => {
   it('should return 400 for missing event_type', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     const req = createPostRequest({});
@@ -67,6 +71,7 @@ describe('POST /api/events', () => {
   it('should return 400 for invalid event_type', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     const req = createPostRequest({ event_type: 'invalid_type' });
@@ -78,6 +83,7 @@ describe('POST /api/events', () => {
   it('should create an event successfully', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
     // No notification config found
     vi.mocked(queryOne).mockResolvedValue(null);
@@ -100,6 +106,7 @@ describe('POST /api/events', () => {
   it('should update session status for stuck event', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(queryOne).mockResolvedValue(null);
 
@@ -118,6 +125,7 @@ describe('POST /api/events', () => {
   it('should accept all valid event types', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(queryOne).mockResolvedValue(null);
 
@@ -131,6 +139,7 @@ describe('POST /api/events', () => {
       vi.clearAllMocks();
       vi.mocked(authenticateRequestUnified).mockResolvedValue({
         workspaceId: 'ws_1',
+        role: 'member',
       });
       vi.mocked(queryOne).mockResolvedValue(null);
 
@@ -159,6 +168,7 @@ describe('GET /api/events', () => {
   it('should return events for authenticated user', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     const mockEvents = [
@@ -186,6 +196,7 @@ describe('GET /api/events', () => {
   it('should filter by session_id', async () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(query).mockResolvedValueOnce([]);
 
@@ -196,3 +207,89 @@ describe('GET /api/events', () => {
     expect(vi.mocked(query)).toHaveBeenCalled();
   });
 });
+
+describe('Telegram notifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+  });
+
+  it('should offer approve and reject only for tasks awaiting review', () => {
+    const review = taskKeyboard({ id: 'task_1', status: 'review', error_count: 0 }, 'https://app.test');
+    const done = taskKeyboard({ id: 'task_1', status: 'done', error_count: 2 }, 'https://app.test');
+
+    expect(review.inline_keyboard.flat().map((b) => b.callback_data ?? b.url)).toEqual([
+      't:approve:task_1', 't:reject:task_1', 't:retry:task_1', 'https://app.test/dashboard?task=task_1',
+    ]);
+    expect(done.inline_keyboard.flat().map((b) => b.callback_data ?? b.url)).toEqual([
+      't:reset:task_1', 'https://app.test/dashboard?task=task_1',
+    ]);
+  });
+
+  it('should attach task buttons to the notification', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('TELEGRAM_BOT_TOKEN', 'bot-token');
+    vi.mocked(query).mockResolvedValueOnce([{
+      id: 'tgs_1', workspace_id: 'ws_1', chat_id: '42', chat_type: 'private', chat_title: 'Ana', task_list_ids: null,
+      event_types: '["error"]', quiet_hours_start: null, quiet_hours_end: null, timezone: 'UTC', enabled: 1,
+    }]);
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce({ id: 'task_1', task_list_id: 'web', title: 'Fix login', status: 'in_progress', error_count: 1, pr_url: null });
+
+    try {
+      const res = await POST(createPostRequest({ event_type: 'error', task_id: 'task_1', message: 'Build failed' }));
+
+      expect(res.status).toBe(201);
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.chat_id).toBe('42');
+      expect(body.reply_markup.inline_keyboard[0].map((b: { text: string }) => b.text)).toEqual([
+        '🔁 Retry', '🧹 Reset errors (1)',
+      ]);
+      expect(body.reply_markup.inline_keyboard[1][0].url).toBe('http://localhost:3000/dashboard?task=task_1');
+    } finally {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should send an agent answer back as a reply to the Telegram message', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ ok: true, result: { message_id: 77 } })));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('TELEGRAM_BOT_TOKEN', 'bot-token');
+    vi.mocked(queryOne).mockResolvedValueOnce({ chat_id: '42', message_id: 12, title: 'Fix login' });
+    const answer = {
+      id: 'cmt_2', task_id: 'task_1', author: 'orchestrator', author_type: 'bot',
+      content: 'Done, see the PR', comment_type: 'summary',
+    } as TaskComment;
+
+    try {
+      await forwardAgentReply({} as never, 'ws_1', answer);
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body).toMatchObject({ chat_id: '42', reply_to_message_id: 12 });
+      expect(body.text).toContain('Done, see the PR');
+      // The answer can be replied to in turn
+      const [, sql, params] = vi.mocked(execute).mock.calls[0];
+      expect(sql).toContain('INSERT OR IGNORE INTO telegram_messages');
+      expect(params).toEqual(['42', 77, 'ws_1', 'task_1']);
+    } finally {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should not forward progress updates', async () => {
+    await forwardAgentReply({} as never, 'ws_1', {
+      id: 'cmt_2', task_id: 'task_1', author: 'orchestrator', author_type: 'bot',
+      content: 'Working on it', comment_type: 'progress',
+    } as TaskComment);
+
+    expect(queryOne).not.toHaveBeenCalled();
+  });
+});
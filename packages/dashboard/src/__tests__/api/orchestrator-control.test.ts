@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { POST as createCommand } from '@/app/api/orchestrator/commands/route';
+import { POST as heartbeat } from '@/app/api/orchestrator/heartbeat/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne, execute } from '@/lib/db/client';
+
+function mockAuth() {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    role: 'admin',
+    userId: 'user_1',
+    authType: 'session',
+  });
+}
+
+function createPostRequest(path: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function pendingCommand(id: number, command: string) {
+  return {
+    id,
+    orchestrator_id: 'host-1',
+    command,
+    session_id: null,
+    status: 'pending',
+    result: null,
+    created_by: 'user_1',
+    created_at: '2026-10-19 10:00:00',
+    completed_at: null,
+  };
+}
+
+describe('POST /api/orchestrator/commands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require a session for kill_session', async () => {
+    mockAuth();
+
+    const res = await createCommand(createPostRequest('/api/orchestrator/commands', {
+      command: 'kill_session',
+      orchestrator_id: 'host-1',
+    }));
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should require an orchestrator for other commands', async () => {
+    mockAuth();
+
+    const res = await createCommand(createPostRequest('/api/orchestrator/commands', { command: 'pause' }));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should return 404 for an unknown orchestrator', async () => {
+    mockAuth();
+
+    const res = await createCommand(createPostRequest('/api/orchestrator/commands', {
+      command: 'pause',
+      orchestrator_id: 'host-9',
+    }));
+
+    expect(res.status).toBe(404);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should send kill_session to the orchestrator running the session and wake it', async () => {
+    mockAuth();
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce({ status: 'active', holder_id: 'host-1' })
+      .mockResolvedValueOnce({ id: 'host-1' })
+      .mockResolvedValueOnce({ ...pendingCommand(7, 'kill_session'), session_id: 'ses_1' });
+    vi.mocked(execute).mockResolvedValueOnce({ success: true, meta: { last_row_id: 7 } });
+
+    const res = await createCommand(createPostRequest('/api/orchestrator/commands', {
+      command: 'kill_session',
+      session_id: 'ses_1',
+    }));
+
+    expect(res.status).toBe(201);
+    const [, insertSql, insertValues] = vi.mocked(execute).mock.calls[0];
+    expect(insertSql).toContain('INSERT INTO orchestrator_commands');
+    expect(insertValues).toEqual(['ws_1', 'host-1', 'kill_session', 'ses_1', 'user_1']);
+    const [, signalSql, signalValues] = vi.mocked(execute).mock.calls[1];
+    expect(signalSql).toContain('INSERT INTO work_signals');
+    expect(signalValues).toEqual(['ws_1', 'orchestrator_command', null]);
+    const data = await res.json() as { command: { id: number } };
+    expect(data.command.id).toBe(7);
+  });
+
+  it('should reject killing a session that is no longer running', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce({ status: 'completed', holder_id: 'host-1' });
+
+    const res = await createCommand(createPostRequest('/api/orchestrator/commands', {
+      command: 'kill_session',
+      session_id: 'ses_1',
+    }));
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /api/orchestrator/heartbeat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should register a new orchestrator and hand out its pending commands', async () => {
+    mockAuth();
+    vi.mocked(query).mockResolvedValueOnce([pendingCommand(3, 'pause'), pendingCommand(4, 'poll')]);
+
+    const res = await heartbeat(createPostRequest('/api/orchestrator/heartbeat', {
+      orchestrator_id: 'host-1',
+      hostname: 'host',
+      pid: 42,
+      version: '1.2.0',
+      state: 'running',
+      config: { maxConcurrent: 3 },
+      active_sessions: [],
+    }));
+
+    expect(res.status).toBe(200);
+    const [, insertSql, insertValues] = vi.mocked(execute).mock.calls[0];
+    expect(insertSql).toContain('INSERT INTO orchestrators');
+    expect(insertValues).toEqual(['host-1', 'ws_1', 'host', 42, '1.2.0', 'running', '{"maxConcurrent":3}', '[]']);
+    const [, deliverSql, deliverValues] = vi.mocked(execute).mock.calls[1];
+    expect(deliverSql).toContain("status = 'delivered'");
+    expect(deliverValues).toEqual(['ws_1', 3, 4]);
+    const data = await res.json() as { commands: { id: number; status: string }[] };
+    expect(data.commands.map(c => [c.id, c.status])).toEqual([[3, 'delivered'], [4, 'delivered']]);
+  });
+
+  it('should not hand out commands to a stopping orchestrator', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce({ pid: 42 });
+
+    const res = await heartbeat(createPostRequest('/api/orchestrator/heartbeat', {
+      orchestrator_id: 'host-1',
+      state: 'stopped',
+    }));
+
+    expect(res.status).toBe(200);
+    expect(query).not.toHaveBeenCalled();
+    expect(vi.mocked(execute).mock.calls[0][1]).toContain('UPDATE orchestrators');
+    const data = await res.json() as { commands: unknown[] };
+    expect(data.commands).toEqual([]);
+  });
+
+  it('should reject an unknown state', async () => {
+    mockAuth();
+
+    const res = await heartbeat(createPostRequest('/api/orchestrator/heartbeat', {
+      orchestrator_id: 'host-1',
+      state: 'sleeping',
+    }));
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { GET } from '@/app/api/orchestrator/signals/route';
+import { emitWorkSignal } from '@/lib/orchestrator/signals';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne, execute } from '@/lib/db/client';
+
+function createGetRequest(params: Record<string, string> = {}): NextRequest {
+  const url = new URL('http://localhost:3000/api/orchestrator/signals');
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return new NextRequest(url);
+}
+
+describe('GET /api/orchestrator/signals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue(null);
+
+    const res = await GET(createGetRequest());
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should return the current cursor for a new subscriber', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      role: 'member',
+      authType: 'apiKey',
+    });
+    vi.mocked(queryOne).mockResolvedValueOnce({ cursor: 42 });
+
+    const res = await GET(createGetRequest());
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toEqual({ signals: [], cursor: 42 });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should return signals newer than the cursor', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      role: 'member',
+      authType: 'apiKey',
+    });
+    vi.mocked(query).mockResolvedValueOnce([
+      { id: 43, reason: 'task_status', task_id: 'task_1', created_at: '2026-01-01 00:00:00' },
+      { id: 44, reason: 'human_message', task_id: 'task_2', created_at: '2026-01-01 00:00:01' },
+    ]);
+
+    const res = await GET(createGetRequest({ after: '42', wait: '0' }));
+    const data = await res.json() as { signals: unknown[]; cursor: number };
+
+    expect(res.status).toBe(200);
+    expect(data.signals).toHaveLength(2);
+    expect(data.cursor).toBe(44);
+    expect(vi.mocked(query).mock.calls[0][2]).toEqual(['ws_1', 42]);
+  });
+
+  it('should keep the cursor when nothing arrives before the wait expires', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      role: 'member',
+      authType: 'apiKey',
+    });
+
+    const res = await GET(createGetRequest({ after: '7', wait: '0' }));
+    const data = await res.json();
+
+    expect(data).toEqual({ signals: [], cursor: 7 });
+  });
+
+  it('should reject a wait above the maximum', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      role: 'member',
+      authType: 'apiKey',
+    });
+
+    const res = await GET(createGetRequest({ after: '7', wait: '600' }));
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('emitWorkSignal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should prune expired signals for the workspace after inserting', async () => {
+    await emitWorkSignal({} as never, 'ws_1', 'task_status', 'task_1');
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(execute).mock.calls[0][1]).toContain('INSERT INTO work_signals');
+    expect(vi.mocked(execute).mock.calls[0][2]).toEqual(['ws_1', 'task_status', 'task_1']);
+    expect(vi.mocked(execute).mock.calls[1][1]).toContain('DELETE FROM work_signals');
+    expect(vi.mocked(execute).mock.calls[1][2]).toEqual(['ws_1']);
+  });
+
+  it('should not throw when the insert fails', async () => {
+    vi.mocked(execute).mockRejectedValueOnce(new Error('D1 unavailable'));
+
+    await expect(emitWorkSignal({} as never, 'ws_1', 'human_message')).resolves.toBeUndefined();
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { resolveRateLimitTier } from '@taskinfa/shared';
+import type { RateLimitTier } from '@taskinfa/shared';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { GET as listRateLimits, PUT as updateRateLimit } from '@/app/api/rate-limits/route';
+import { rateLimitApi } from '@/lib/middleware/apiRateLimit';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { getDb, query, execute } from '@/lib/db/client';
+import type { D1Database } from '@/lib/db/client';
+
+// Minimal D1 stand-in: workspace overrides by tier, and the number of requests in the window
+function fakeDb(overrides: Partial<Record<RateLimitTier, number>>, count: number) {
+  return {
+    prepare: (sql: string) => ({
+      bind: (...params: unknown[]) => ({
+        first: async () => {
+          if (sql.includes('workspace_rate_limits')) {
+            const max = overrides[params[1] as RateLimitTier];
+            return max === undefined ? null : { max_requests: max };
+          }
+          return { count };
+        },
+        run: async () => ({ success: true }),
+      }),
+    }),
+  } as unknown as D1Database;
+}
+
+function createRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('resolveRateLimitTier', () => {
+  it('should derive the tier from the scopes when none is set', () => {
+    expect(resolveRateLimitTier(null, ['tasks:read', 'sessions:write'])).toBe('orchestrator');
+    expect(resolveRateLimitTier(null, ['tasks:read'])).toBe('standard');
+    expect(resolveRateLimitTier(null, null)).toBe('orchestrator');
+  });
+
+  it('should prefer the tier set at creation', () => {
+    expect(resolveRateLimitTier('standard', ['sessions:write'])).toBe('standard');
+  });
+});
+
+describe('rateLimitApi', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should apply the orchestrator tier to orchestrator keys', async () => {
+    vi.mocked(getDb).mockReturnValue(fakeDb({}, 150));
+
+    const rl = await rateLimitApi(createRequest('/api/tasks', 'GET'), {
+      workspaceId: 'ws_1',
+      keyId: 'key_1',
+      role: 'member',
+      authType: 'apiKey',
+      rateLimitTier: 'orchestrator',
+    });
+
+    expect('result' in rl && rl.result.limit).toBe(1000);
+  });
+
+  it('should keep sessions on the standard tier', async () => {
+    vi.mocked(getDb).mockReturnValue(fakeDb({}, 150));
+
+    const rl = await rateLimitApi(createRequest('/api/tasks', 'GET'), {
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+
+    expect('response' in rl && rl.response.status).toBe(429);
+  });
+
+  it('should apply the workspace override', async () => {
+    vi.mocked(getDb).mockReturnValue(fakeDb({ orchestrator: 2000 }, 1500));
+
+    const rl = await rateLimitApi(createRequest('/api/tasks', 'GET'), {
+      workspaceId: 'ws_1',
+      keyId: 'key_1',
+      role: 'member',
+      authType: 'apiKey',
+      rateLimitTier: 'orchestrator',
+    });
+
+    expect('result' in rl && rl.result.limit).toBe(2000);
+  });
+});
+
+describe('/api/rate-limits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getDb).mockReturnValue({} as D1Database);
+  });
+
+  it('should list every tier with its default and override', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'viewer',
+      authType: 'session',
+    });
+    vi.mocked(query).mockResolvedValue([{ tier: 'orchestrator', max_requests: 2000 }]);
+
+    const res = await listRateLimits(createRequest('/api/rate-limits', 'GET'));
+    const data = await res.json() as { limits: { tier: string; default_max_requests: number; max_requests: number | null }[] };
+
+    expect(res.status).toBe(200);
+    expect(data.limits).toEqual([
+      expect.objectContaining({ tier: 'standard', default_max_requests: 100, max_requests: null }),
+      expect.objectContaining({ tier: 'orchestrator', default_max_requests: 1000, max_requests: 2000 }),
+    ]);
+  });
+
+  it('should only let admins change limits', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+
+    const res = await updateRateLimit(createRequest('/api/rate-limits', 'PUT', { tier: 'standard', max_requests: 500 }));
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject limits outside the bounds', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'admin',
+      authType: 'session',
+    });
+
+    const res = await updateRateLimit(createRequest('/api/rate-limits', 'PUT', { tier: 'standard', max_requests: 1 }));
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should remove the override when the limit is cleared', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'admin',
+      authType: 'session',
+    });
+
+    const res = await updateRateLimit(createRequest('/api/rate-limits', 'PUT', { tier: 'orchestrator', max_requests: null }));
+
+    expect(res.status).toBe(200);
+    expect(execute).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining('DELETE FROM workspace_rate_limits'),
+      ['ws_1', 'orchestrator']
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { PUT } from '@/app/api/run-policies/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { queryOne, execute } from '@/lib/db/client';
+
+function mockAuth() {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    role: 'admin',
+    authType: 'apiKey',
+  });
+}
+
+function createPutRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/run-policies', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('PUT /api/run-policies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue(null);
+
+    const res = await PUT(createPutRequest({ max_retries: 2 }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should reject unknown session types', async () => {
+    mockAuth();
+
+    const res = await PUT(createPutRequest({ session_type: 'deploy', max_retries: 2 }));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject values outside the bounds', async () => {
+    mockAuth();
+
+    const res = await PUT(createPutRequest({ session_timeout_minutes: 0 }));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should only accept max_concurrent_sessions on the workspace-wide policy', async () => {
+    mockAuth();
+
+    const res = await PUT(createPutRequest({ session_type: 'task', max_concurrent_sessions: 4 }));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should create a project policy for a session type', async () => {
+    mockAuth();
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce({ id: 'tl_1' })
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'rpol_1', task_list_id: 'tl_1', session_type: 'ai_review', max_retries: 1 });
+
+    const res = await PUT(createPutRequest({ task_list_id: 'tl_1', session_type: 'ai_review', max_retries: 1, retry_backoff_seconds: 30 }));
+    const data = await res.json() as { policy: { id: string } };
+
+    expect(res.status).toBe(200);
+    expect(data.policy.id).toBe('rpol_1');
+    const [, sql, values] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('INSERT INTO run_policies');
+    expect(values?.slice(1)).toEqual(['ws_1', 'tl_1', 'ai_review', 1, null, 30, null, null]);
+  });
+
+  it('should remove the policy when every setting is cleared', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce({ id: 'rpol_1' });
+
+    const res = await PUT(createPutRequest({ max_retries: null }));
+    const data = await res.json();
+
+    expect(data).toEqual({ policy: null });
+    expect(vi.mocked(execute).mock.calls[0]).toEqual([{}, 'DELETE FROM run_policies WHERE id = ?', ['rpol_1']]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client; bound statements remember their args so batch contents can be checked
+const mockBind = vi.fn((...args: unknown[]) => ({
+  args,
+  run: vi.fn().mockResolvedValue({ success: true }),
+  first: vi.fn().mockResolvedValue(null),
+  all: vi.fn().mockResolvedValue({ success: true, results: [] }),
+}));
+const mockBatch = vi.fn().mockResolvedValue([]);
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({ bind: mockBind })),
+    batch: mockBatch,
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { GET, POST } from '@/app/api/sessions/[id]/transcript/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne } from '@/lib/db/client';
+
+const params = { params: Promise.resolve({ id: 'sess_1' }) };
+
+function mockAuth() {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    role: 'member',
+    authType: 'apiKey',
+  });
+}
+
+function createPostRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/sessions/sess_1/transcript', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function transcriptRow(seq: number) {
+  return {
+    id: seq + 1,
+    session_id: 'sess_1',
+    seq,
+    kind: 'assistant',
+    tool_name: null,
+    content: `line ${seq}`,
+    metadata: '{}',
+    created_at: '2026-01-01 00:00:00',
+  };
+}
+
+describe('GET /api/sessions/[id]/transcript', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue(null);
+
+    const res = await GET(new NextRequest('http://localhost:3000/api/sessions/sess_1/transcript'), params);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should return 404 for a session in another workspace', async () => {
+    mockAuth();
+
+    const res = await GET(new NextRequest('http://localhost:3000/api/sessions/sess_1/transcript'), params);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should page entries after the cursor', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce({ id: 'sess_1' });
+    vi.mocked(query).mockResolvedValueOnce([transcriptRow(5), transcriptRow(6), transcriptRow(7)]);
+
+    const res = await GET(
+      new NextRequest('http://localhost:3000/api/sessions/sess_1/transcript?after=4&limit=2'),
+      params
+    );
+    const data = await res.json() as { entries: Array<{ seq: number; metadata: unknown }>; cursor: number; has_more: boolean };
+
+    expect(res.status).toBe(200);
+    expect(data.entries.map(e => e.seq)).toEqual([5, 6]);
+    expect(data.entries[0].metadata).toEqual({});
+    expect(data.cursor).toBe(6);
+    expect(data.has_more).toBe(true);
+    expect(vi.mocked(query).mock.calls[0][2]).toEqual(['sess_1', 4, 3]);
+  });
+});
+
+describe('POST /api/sessions/[id]/transcript', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject an empty chunk', async () => {
+    mockAuth();
+
+    const res = await POST(createPostRequest({ entries: [] }), params);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject unknown entry kinds', async () => {
+    mockAuth();
+
+    const res = await POST(createPostRequest({ entries: [{ seq: 0, kind: 'thinking', content: 'hmm' }] }), params);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should insert entries idempotently in one batch', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce({ id: 'sess_1' });
+
+    const res = await POST(createPostRequest({
+      entries: [
+        { seq: 0, kind: 'assistant', content: 'Reading the code' },
+        { seq: 1, kind: 'file_edit', tool_name: 'Edit', content: '{}', metadata: { file_path: 'src/a.ts' } },
+      ],
+    }), params);
+    const data = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(data).toEqual({ appended: 2 });
+    expect(mockBatch).toHaveBeenCalledTimes(1);
+    const statements = mockBatch.mock.calls[0][0] as Array<{ args: unknown[] }>;
+    expect(statements).toHaveLength(2);
+    expect(statements[1].args).toEqual([
+      'sess_1', 'ws_1', 1, 'file_edit', 'Edit', '{}', JSON.stringify({ file_path: 'src/a.ts' }),
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { PATCH } from '@/app/api/sessions/[id]/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { queryOne, execute } from '@/lib/db/client';
+
+const params = { params: Promise.resolve({ id: 'sess_1' }) };
+
+function mockAuth() {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    role: 'member',
+    authType: 'apiKey',
+  });
+}
+
+function createPatchRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/sessions/sess_1', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function existingSession(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sess_1',
+    workspace_id: 'ws_1',
+    current_task_id: 'task_1',
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_read_tokens: 0,
+    cache_creation_tokens: 0,
+    cost_usd: 0,
+    ...overrides,
+  };
+}
+
+describe('PATCH /api/sessions/[id] usage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reject negative usage', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce(existingSession());
+
+    const res = await PATCH(createPatchRequest({ usage: { input_tokens: -5 } }), params);
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should store the model and usage on the session', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce(existingSession());
+
+    const res = await PATCH(createPatchRequest({
+      model: 'claude-sonnet-4-5',
+      usage: { input_tokens: 1200, output_tokens: 300, cost_usd: 0.042 },
+    }), params);
+
+    expect(res.status).toBe(200);
+    const [, sql, values] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('model = ?');
+    expect(sql).toContain('cost_usd = ?');
+    expect(values).toEqual(['claude-sonnet-4-5', 1200, 300, 0, 0, 0.042, 'sess_1', 'ws_1']);
+  });
+
+  it('should add only the difference to the task totals', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce(existingSession({ input_tokens: 1000, output_tokens: 200, cost_usd: 0.03 }));
+
+    await PATCH(createPatchRequest({
+      usage: { input_tokens: 1500, output_tokens: 250, cache_read_tokens: 0, cache_creation_tokens: 0, cost_usd: 0.05 },
+    }), params);
+
+    const [, sql, values] = vi.mocked(execute).mock.calls[1];
+    expect(sql).toContain('input_tokens = input_tokens + ?');
+    expect(values?.slice(0, 2)).toEqual([500, 50]);
+    expect(values?.[4]).toBeCloseTo(0.02);
+    expect(values?.slice(5)).toEqual(['task_1', 'ws_1']);
+  });
+
+  it('should not touch tasks for a session without a task', async () => {
+    mockAuth();
+    vi.mocked(queryOne).mockResolvedValueOnce(existingSession({ current_task_id: null }));
+
+    await PATCH(createPatchRequest({ usage: { input_tokens: 10 } }), params);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
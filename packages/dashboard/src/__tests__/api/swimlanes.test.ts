@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({
+      bind: () => ({
+        run: vi.fn().mockResolvedValue({ success: true }),
+        first: vi.fn().mockResolvedValue(null),
+      }),
+    })),
+    batch: vi.fn().mockResolvedValue([]),
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { PATCH as updateTask } from '@/app/api/tasks/[id]/route';
+import { getSwimlanes, swimlaneUpdate } from '@/lib/workflow/swimlanes';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { execute, query, queryOne } from '@/lib/db/client';
+import type { Task, TaskList } from '@taskinfa/shared';
+
+function task(overrides: Partial<Task>): Task {
+  return {
+    id: 'task_1',
+    workspace_id: 'ws_1',
+    task_list_id: 'web',
+    title: 'Task',
+    status: 'todo',
+    priority: 'medium',
+    labels: [],
+    assigned_to: null,
+    order: 0,
+    ...overrides,
+  } as Task;
+}
+
+const taskLists = [
+  { id: 'web', name: 'Web' },
+  { id: 'api', name: 'API' },
+] as TaskList[];
+
+describe('getSwimlanes', () => {
+  it('should give every project a lane, in project order', () => {
+    const lanes = getSwimlanes([task({ id: 'a', task_list_id: 'api' }), task({ id: 'b', task_list_id: null })], 'task_list_id', taskLists);
+
+    expect(lanes.map((l) => [l.label, l.tasks.length])).toEqual([['Web', 0], ['API', 1], ['No project', 1]]);
+  });
+
+  it('should order priority lanes highest first', () => {
+    const lanes = getSwimlanes([task({ priority: 'low' })], 'priority', taskLists);
+
+    expect(lanes.map((l) => l.key)).toEqual(['urgent', 'high', 'medium', 'low']);
+  });
+
+  it('should group by first label, with unlabelled tasks last', () => {
+    const lanes = getSwimlanes([
+      task({ id: 'a', labels: ['ui', 'bug'] }),
+      task({ id: 'b', labels: ['bug'] }),
+      task({ id: 'c', labels: [] }),
+    ], 'label', taskLists);
+
+    expect(lanes.map((l) => [l.key, l.tasks.map((t) => t.id)])).toEqual([['bug', ['b']], ['ui', ['a']], ['', ['c']]]);
+  });
+});
+
+describe('swimlaneUpdate', () => {
+  it('should swap the lane label and keep the others', () => {
+    expect(swimlaneUpdate(task({ labels: ['ui', 'bug'] }), 'label', 'backend')).toEqual({ labels: ['backend', 'bug'] });
+  });
+
+  it('should unassign a task dropped into Unassigned', () => {
+    expect(swimlaneUpdate(task({ assigned_to: 'bot-1' }), 'assigned_to', '')).toEqual({ assigned_to: null });
+  });
+
+  it('should refuse to take a task out of its project', () => {
+    expect(swimlaneUpdate(task({}), 'task_list_id', '')).toBeNull();
+  });
+});
+
+describe('PATCH /api/tasks/[id] with task_list_id', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+  });
+
+  it('should move the task to another project', async () => {
+    const before = { ...task({}), labels: '[]', files_changed: '[]' };
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(before)
+      .mockResolvedValueOnce({ id: 'api' })
+      .mockResolvedValueOnce({ ...before, task_list_id: 'api' });
+
+    const res = await updateTask(
+      new NextRequest('http://localhost:3000/api/tasks/task_1', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ task_list_id: 'api' }),
+      }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    const update = vi.mocked(execute).mock.calls.find(([, sql]) => sql.startsWith('UPDATE tasks'));
+    expect(update?.[1]).toContain('task_list_id = ?');
+    expect(update?.[2]).toContain('api');
+  });
+
+  it('should refuse a project whose board lacks the task\'s custom column', async () => {
+    const before = { ...task({ status: 'custom_security_review' }), labels: '[]', files_changed: '[]' };
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(before)
+      .mockResolvedValueOnce({ id: 'api' });
+    vi.mocked(query)
+      .mockResolvedValueOnce([]) // feature toggles
+      .mockResolvedValueOnce([{
+        id: 'wfc_1', workspace_id: 'ws_1', task_list_id: 'web', status: 'custom_security_review', label: 'Security review',
+        icon: '🛡️', after_status: 'in_progress', position: 0, wip_limit: null, block_when_full: 0, orchestrated: 0,
+        instructions: null, created_at: '', updated_at: '',
+      }]);
+
+    const res = await updateTask(
+      new NextRequest('http://localhost:3000/api/tasks/task_1', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ task_list_id: 'api' }),
+      }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { POST, DELETE } from '@/app/api/tasks/[id]/claim/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { queryOne, execute } from '@/lib/db/client';
+
+const params = { params: Promise.resolve({ id: 'task_1' }) };
+
+function createClaimRequest(body: Record<string, unknown>): NextRequest {
+  return new NextRequest('http://localhost:3000/api/tasks/task_1/claim', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function mockAuth() {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    role: 'member',
+    authType: 'apiKey',
+  });
+}
+
+describe('POST /api/tasks/[id]/claim', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue(null);
+
+    const res = await POST(createClaimRequest({ holder_id: 'host-a' }), params);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should require holder_id', async () => {
+    mockAuth();
+
+    const res = await POST(createClaimRequest({}), params);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should grant a lease when the update wins', async () => {
+    mockAuth();
+    vi.mocked(execute).mockResolvedValueOnce({ success: true, meta: { changes: 1 } });
+    vi.mocked(queryOne).mockResolvedValueOnce({
+      id: 'task_1',
+      status: 'in_progress',
+      labels: '[]',
+      files_changed: '[]',
+      lease_holder: 'host-a',
+      lease_expires_at: '2026-01-01 00:05:00',
+    });
+
+    const res = await POST(
+      createClaimRequest({ holder_id: 'host-a', expected_status: 'todo', status: 'in_progress' }),
+      params
+    );
+    const data = await res.json() as { lease: { holder_id: string; expires_at: string } };
+
+    expect(res.status).toBe(200);
+    expect(data.lease).toEqual({ holder_id: 'host-a', expires_at: '2026-01-01 00:05:00' });
+    const [, sql, sqlParams] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('lease_holder = ?');
+    expect(sqlParams).toEqual(expect.arrayContaining(['host-a', '+300 seconds', 'in_progress', 'todo']));
+  });
+
+  it('should return 409 when another holder has the lease', async () => {
+    mockAuth();
+    vi.mocked(execute).mockResolvedValueOnce({ success: true, meta: { changes: 0 } });
+    vi.mocked(queryOne).mockResolvedValueOnce({
+      id: 'task_1',
+      status: 'in_progress',
+      lease_holder: 'host-b',
+      lease_expires_at: '2026-01-01 00:05:00',
+    });
+
+    const res = await POST(createClaimRequest({ holder_id: 'host-a', expected_status: 'todo' }), params);
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should return 404 for a missing task', async () => {
+    mockAuth();
+    vi.mocked(execute).mockResolvedValueOnce({ success: true, meta: { changes: 0 } });
+
+    const res = await POST(createClaimRequest({ holder_id: 'host-a' }), params);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/tasks/[id]/claim', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should release only the caller\'s lease', async () => {
+    mockAuth();
+    vi.mocked(execute).mockResolvedValueOnce({ success: true, meta: { changes: 1 } });
+
+    const req = new NextRequest('http://localhost:3000/api/tasks/task_1/claim?holder_id=host-a', { method: 'DELETE' });
+    const res = await DELETE(req, params);
+    const data = await res.json();
+
+    expect(data).toEqual({ released: true });
+    expect(vi.mocked(execute).mock.calls[0][2]).toEqual(['task_1', 'ws_1', 'host-a']);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client; prepared statements remember their SQL and args so batches can be checked
+const mockBatch = vi.fn().mockResolvedValue([]);
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn((sql: string) => ({
+      bind: (...args: unknown[]) => ({
+        sql,
+        args,
+        run: vi.fn().mockResolvedValue({ success: true }),
+        first: vi.fn().mockResolvedValue(null),
+      }),
+    })),
+    batch: mockBatch,
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { PATCH as updateTask } from '@/app/api/tasks/[id]/route';
+import { GET as getTimeline } from '@/app/api/tasks/[id]/timeline/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne } from '@/lib/db/client';
+import type { TaskTimelineResponse } from '@taskinfa/shared';
+
+function createRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const baseTask = { id: 'task_1', title: 'Fix it', status: 'todo', priority: 'medium', assigned_to: null, labels: '[]', files_changed: '[]' };
+
+describe('task transitions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+  });
+
+  function transitionArgs(): unknown[][] {
+    return mockBatch.mock.calls.flatMap(([statements]) =>
+      (statements as { sql: string; args: unknown[] }[])
+        .filter((statement) => statement.sql.includes('task_transitions'))
+        .map((statement) => statement.args)
+    );
+  }
+
+  it('should record status, priority and label changes with the actor', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(baseTask)
+      .mockResolvedValueOnce({ ...baseTask, status: 'in_progress', priority: 'high', labels: '["bug"]' });
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { status: 'in_progress', priority: 'high', labels: ['bug'] }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    expect(transitionArgs()).toEqual([
+      ['ws_1', 'task_1', 'status', 'todo', 'in_progress', 'user', 'user_1', 'user_1'],
+      ['ws_1', 'task_1', 'priority', 'medium', 'high', 'user', 'user_1', 'user_1'],
+      ['ws_1', 'task_1', 'labels', '[]', '["bug"]', 'user', 'user_1', 'user_1'],
+    ]);
+  });
+
+  it('should not record fields outside the tracked set', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(baseTask)
+      .mockResolvedValueOnce({ ...baseTask, title: 'Fix it properly' });
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { title: 'Fix it properly' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockBatch).toHaveBeenCalledTimes(1);
+    expect(transitionArgs()).toEqual([]);
+  });
+});
+
+describe('GET /api/tasks/[id]/timeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'viewer',
+      authType: 'session',
+    });
+  });
+
+  it('should return 404 for a task outside the workspace', async () => {
+    const res = await getTimeline(
+      createRequest('/api/tasks/task_9/timeline', 'GET'),
+      { params: Promise.resolve({ id: 'task_9' }) }
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should merge transitions, comments and session events oldest first', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce({ id: 'task_1' });
+    vi.mocked(query)
+      .mockResolvedValueOnce([
+        { id: 2, field: 'status', from_value: 'todo', to_value: 'in_progress', created_at: '2026-10-19 10:05:00' },
+        { id: 1, field: 'status', from_value: null, to_value: 'todo', created_at: '2026-10-19 10:00:00' },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'cmt_1', content: 'Looks good', comment_type: 'comment', created_at: '2026-10-19 10:10:00' },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'evt_1', event_type: 'task_claimed', metadata: '{"loop":1}', created_at: '2026-10-19 10:05:00' },
+      ]);
+
+    const res = await getTimeline(
+      createRequest('/api/tasks/task_1/timeline', 'GET'),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+    const data = await res.json() as TaskTimelineResponse;
+
+    expect(res.status).toBe(200);
+    expect(data.entries.map((entry) => entry.kind)).toEqual(['transition', 'transition', 'session_event', 'comment']);
+    const event = data.entries[2];
+    expect(event.kind === 'session_event' && event.event.metadata).toEqual({ loop: 1 });
+  });
+});
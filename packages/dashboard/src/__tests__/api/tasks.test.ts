@@ -57,6 +57,7 @@ describe('GET /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     const mockTasks = [
@@ -89,6 +90,7 @@ describe('GET /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(query)
       .mockResolvedValueOnce([]) // feature toggles
@@ -106,6 +108,7 @@ describe('GET /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(query)
       .mockResolvedValueOnce([]) // feature toggles
@@ -121,6 +124,7 @@ describe('GET /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(query).mockResolvedValueOnce([]); // feature toggles
 
@@ -134,6 +138,7 @@ describe('GET /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(query).mockResolvedValueOnce([]); // feature toggles
 
@@ -147,6 +152,7 @@ describe('GET /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
     vi.mocked(query)
       .mockResolvedValueOnce([]) // feature toggles
@@ -177,6 +183,7 @@ describe('POST /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     const req = createPostRequest({ task_list_id: 'tl_1' });
@@ -189,6 +196,7 @@ describe('POST /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     const req = createPostRequest({ title: 'New task' });
@@ -201,6 +209,7 @@ describe('POST /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     // Task list exists
@@ -235,6 +244,7 @@ describe('POST /api/tasks', () => {
     vi.mocked(authenticateRequestUnified).mockResolvedValue({
       userId: 'user_1',
       workspaceId: 'ws_1',
+      role: 'member',
     });
 
     vi.mocked(query).mockResolvedValueOnce([]); // task list not found
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({
+      bind: () => ({
+        run: vi.fn().mockResolvedValue({ success: true }),
+        first: vi.fn().mockResolvedValue(null),
+      }),
+    })),
+    batch: vi.fn().mockResolvedValue([]),
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { PATCH } from '@/app/api/telegram-subscriptions/[id]/route';
+import { isQuietTime, matchingSubscriptions, toTelegramSubscription } from '@/lib/notifications/subscriptions';
+import { sendTelegramNotification } from '@/lib/notifications/telegram';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { execute, query, queryOne } from '@/lib/db/client';
+import type { TelegramSubscriptionRow } from '@/lib/notifications/subscriptions';
+
+function row(overrides: Partial<TelegramSubscriptionRow> = {}): TelegramSubscriptionRow {
+  return {
+    id: 'tgs_1',
+    workspace_id: 'ws_1',
+    chat_id: '42',
+    chat_type: 'private',
+    chat_title: 'Ana',
+    task_list_ids: null,
+    event_types: '["task_completed","stuck","needs_input","error","budget_exceeded"]',
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    timezone: 'UTC',
+    enabled: 1,
+    created_at: '2026-10-19 10:00:00',
+    updated_at: '2026-10-19 10:00:00',
+    ...overrides,
+  };
+}
+
+function patchRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/telegram-subscriptions/tgs_1', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const params = { params: Promise.resolve({ id: 'tgs_1' }) };
+
+describe('isQuietTime', () => {
+  const overnight = { quiet_hours_start: '22:00', quiet_hours_end: '07:00', timezone: 'UTC' };
+
+  it('should handle windows that span midnight', () => {
+    expect(isQuietTime(overnight, new Date('2026-10-19T23:30:00Z'))).toBe(true);
+    expect(isQuietTime(overnight, new Date('2026-10-19T06:59:00Z'))).toBe(true);
+    expect(isQuietTime(overnight, new Date('2026-10-19T07:00:00Z'))).toBe(false);
+  });
+
+  it('should use the subscription timezone', () => {
+    // 21:30 UTC is 23:30 in Berlin summer time
+    const berlin = { ...overnight, timezone: 'Europe/Berlin' };
+    expect(isQuietTime(berlin, new Date('2026-07-01T21:30:00Z'))).toBe(true);
+    expect(isQuietTime(overnight, new Date('2026-07-01T21:30:00Z'))).toBe(false);
+  });
+});
+
+describe('matchingSubscriptions', () => {
+  const all = toTelegramSubscription(row());
+  const web = toTelegramSubscription(row({ id: 'tgs_2', task_list_ids: '["web"]', event_types: '["error"]' }));
+  const muted = toTelegramSubscription(row({ id: 'tgs_3', enabled: 0 }));
+
+  it('should filter by project and event type', () => {
+    expect(matchingSubscriptions([all, web, muted], 'error', 'web').map((s) => s.id)).toEqual(['tgs_1', 'tgs_2']);
+    expect(matchingSubscriptions([all, web, muted], 'error', 'api').map((s) => s.id)).toEqual(['tgs_1']);
+    expect(matchingSubscriptions([all, web, muted], 'stuck', 'web').map((s) => s.id)).toEqual(['tgs_1']);
+  });
+
+  it('should send events without a project only to chats following every project', () => {
+    expect(matchingSubscriptions([all, web], 'error', null).map((s) => s.id)).toEqual(['tgs_1']);
+  });
+});
+
+describe('sendTelegramNotification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fan out to every matching chat, silently during quiet hours', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('TELEGRAM_BOT_TOKEN', 'bot-token');
+    vi.mocked(query).mockResolvedValueOnce([
+      row(),
+      // Always quiet: the whole day except one minute
+      row({ id: 'tgs_2', chat_id: '-100', chat_type: 'group', quiet_hours_start: '00:00', quiet_hours_end: '23:59' }),
+      row({ id: 'tgs_3', chat_id: '77', task_list_ids: '["api"]' }),
+    ]);
+    vi.mocked(queryOne).mockResolvedValueOnce({
+      id: 'task_1', task_list_id: 'web', title: 'Fix login', status: 'review', error_count: 0, pr_url: null,
+    });
+
+    try {
+      await sendTelegramNotification({} as never, 'ws_1', 'task_completed', 'Done', 'task_1', 'https://app.test');
+
+      const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+      expect(bodies.map((b) => b.chat_id)).toEqual(['42', '-100']);
+      expect(bodies[0].disable_notification).toBeUndefined();
+      expect(bodies[1].disable_notification).toBe(true);
+    } finally {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe('PATCH /api/telegram-subscriptions/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'admin',
+      authType: 'session',
+    });
+  });
+
+  it('should subscribe the chat to chosen projects and events', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(row())
+      .mockResolvedValueOnce(row({ task_list_ids: '["web"]', event_types: '["stuck","error"]' }));
+    vi.mocked(query).mockResolvedValueOnce([{ id: 'web' }]);
+
+    const res = await PATCH(patchRequest({ task_list_ids: ['web'], event_types: ['stuck', 'error'] }), params);
+    const data = await res.json() as { subscription: { task_list_ids: string[]; event_types: string[] } };
+
+    expect(res.status).toBe(200);
+    expect(data.subscription).toMatchObject({ task_list_ids: ['web'], event_types: ['stuck', 'error'] });
+    const [, sql, values] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('UPDATE telegram_subscriptions SET task_list_ids = ?, event_types = ?');
+    expect(values).toEqual(['["web"]', '["stuck","error"]', 'tgs_1', 'ws_1']);
+  });
+
+  it('should reject projects of other workspaces', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce(row());
+    vi.mocked(query).mockResolvedValueOnce([]);
+
+    const res = await PATCH(patchRequest({ task_list_ids: ['other'] }), params);
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should require both ends of the quiet hours', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce(row());
+
+    const res = await PATCH(patchRequest({ quiet_hours_start: '22:00' }), params);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject an unknown timezone', async () => {
+    const res = await PATCH(patchRequest({ timezone: 'Mars/Olympus' }), params);
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,341 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createHmac } from 'node:crypto';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({
+      bind: () => ({
+        run: vi.fn().mockResolvedValue({ success: true }),
+        first: vi.fn().mockResolvedValue(null),
+      }),
+    })),
+    batch: vi.fn().mockResolvedValue([]),
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { POST as createWebhook } from '@/app/api/webhooks/route';
+import { POST as redeliver } from '@/app/api/webhooks/[id]/deliveries/[deliveryId]/redeliver/route';
+import {
+  dispatchWebhookEvent,
+  isPrivateHost,
+  sendDueWebhookDeliveries,
+  sessionStatusEvent,
+  taskChangeEvents,
+  type WebhookRow,
+} from '@/lib/notifications/webhooks';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { execute, query, queryOne } from '@/lib/db/client';
+
+function row(overrides: Partial<WebhookRow> = {}): WebhookRow {
+  return {
+    id: 'wh_1',
+    workspace_id: 'ws_1',
+    name: 'CI',
+    url: 'https://hooks.test/ci',
+    format: 'json',
+    event_types: '["task.moved"]',
+    secret: 'whsec_test',
+    enabled: 1,
+    created_at: '2026-10-19 10:00:00',
+    updated_at: '2026-10-19 10:00:00',
+    ...overrides,
+  };
+}
+
+function deliveryUpdates() {
+  return vi.mocked(execute).mock.calls.filter(([, sql]) => sql.startsWith('UPDATE webhook_deliveries SET status'));
+}
+
+// A database with the given webhooks; queued deliveries are collected from its batch
+function webhookDb(webhooks: WebhookRow[]) {
+  const queued: unknown[][] = [];
+  const db = {
+    prepare: () => ({
+      bind: (...args: unknown[]) => ({ args, all: async () => ({ results: webhooks }) }),
+    }),
+    batch: async (statements: Array<{ args: unknown[] }>) => {
+      queued.push(...statements.map((statement) => statement.args));
+      return [];
+    },
+  };
+  return { db: db as never, queued };
+}
+
+// Collects the work a dispatch leaves for after the response
+function mockWaitUntil(): Promise<unknown>[] {
+  const work: Promise<unknown>[] = [];
+  vi.mocked(getCloudflareContext).mockReturnValue({ ctx: { waitUntil: (p: Promise<unknown>) => work.push(p) } } as never);
+  return work;
+}
+
+// The due deliveries the sweep after a dispatch finds: the ones just queued
+function dueQueued(queued: unknown[][], webhooks: WebhookRow[]) {
+  vi.mocked(query).mockImplementationOnce(async () => queued.map(([id, webhookId, , , eventType, payload]) => {
+    const webhook = webhooks.find((w) => w.id === webhookId)!;
+    return { id, event_type: eventType, payload, attempts: 0, url: webhook.url, secret: webhook.secret };
+  }) as never);
+  vi.mocked(execute).mockResolvedValue({ success: true, meta: { changes: 1 } } as never);
+}
+
+describe('webhook events', () => {
+  it('should tell a move from an edit', () => {
+    const before = { status: 'todo', title: 'Fix login', priority: 'low', started_at: null };
+    const after = { status: 'in_progress', title: 'Fix login', priority: 'high', started_at: '2026-10-19 10:00:00' };
+
+    expect(taskChangeEvents(before, after)).toEqual([
+      { event: 'task.moved', data: { task: after, from_status: 'todo', to_status: 'in_progress' } },
+      { event: 'task.updated', data: { task: after, previous: { priority: 'low' } } },
+    ]);
+    expect(taskChangeEvents(before, { ...before })).toEqual([]);
+  });
+
+  it('should end a session once', () => {
+    expect(sessionStatusEvent('active', 'stuck')).toBe('session.stuck');
+    expect(sessionStatusEvent('stuck', 'completed')).toBe('session.ended');
+    expect(sessionStatusEvent('completed', 'error')).toBeNull();
+    expect(sessionStatusEvent('active', 'idle')).toBeNull();
+  });
+});
+
+describe('dispatchWebhookEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(execute).mockReset().mockResolvedValue({ success: true } as never);
+  });
+
+  it('should queue deliveries for subscribed webhooks only and send them after the response', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+    const webhooks = [
+      row(),
+      row({ id: 'wh_2', url: 'https://hooks.slack.test/x', format: 'slack', event_types: '["task.moved","task.created"]' }),
+      row({ id: 'wh_3', event_types: '["comment.added"]' }),
+    ];
+    const { db, queued } = webhookDb(webhooks);
+    const work = mockWaitUntil();
+
+    try {
+      dueQueued(queued, webhooks);
+      await dispatchWebhookEvent(db, 'ws_1', 'task.moved', {
+        task: { id: 'task_1', title: 'Fix login' }, from_status: 'todo', to_status: 'done',
+      });
+
+      expect(queued.map(([, webhookId]) => webhookId)).toEqual(['wh_1', 'wh_2']);
+      expect(queued[0][3]).toBe(queued[1][3]);
+      expect(work).toHaveLength(1);
+      await Promise.all(work);
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://hooks.test/ci', 'https://hooks.slack.test/x']);
+      const [, json] = fetchMock.mock.calls[0];
+      expect(JSON.parse(json.body)).toMatchObject({ event: 'task.moved', workspace_id: 'ws_1', data: { to_status: 'done' } });
+      const expected = createHmac('sha256', 'whsec_test').update(json.body).digest('hex');
+      expect(json.headers['X-Taskinfa-Signature-256']).toBe(`sha256=${expected}`);
+      expect(json.redirect).toBe('manual');
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ text: 'Task moved: Fix login (todo → done)' });
+      expect(deliveryUpdates().map(([, , values]) => values?.[0])).toEqual(['succeeded', 'succeeded']);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should leave deliveries beyond the first few to the sweep', async () => {
+    const webhooks = Array.from({ length: 7 }, (_, i) => row({ id: `wh_${i}` }));
+    const { db, queued } = webhookDb(webhooks);
+    mockWaitUntil();
+
+    await dispatchWebhookEvent(db, 'ws_1', 'task.moved', {});
+
+    expect(queued).toHaveLength(7);
+    const [, , values] = vi.mocked(query).mock.calls[0];
+    expect(values).toEqual(['ws_1', 5]);
+  });
+
+  it('should not throw when the endpoint is down', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')));
+    const webhooks = [row()];
+    const { db, queued } = webhookDb(webhooks);
+    const work = mockWaitUntil();
+
+    try {
+      dueQueued(queued, webhooks);
+      await expect(dispatchWebhookEvent(db, 'ws_1', 'task.moved', {})).resolves.toBeUndefined();
+      await Promise.all(work);
+
+      const [, sql, values] = deliveryUpdates()[0];
+      expect(sql).toContain("next_attempt_at = datetime('now', ?)");
+      expect(values).toEqual(['pending', 1, null, null, 'connect ECONNREFUSED', '+60 seconds', expect.any(String)]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should not throw when the webhooks cannot be loaded', async () => {
+    const db = { prepare: () => ({ bind: () => ({ all: vi.fn().mockRejectedValue(new Error('D1 down')) }) }) };
+
+    await expect(dispatchWebhookEvent(db as never, 'ws_1', 'task.moved', {})).resolves.toBeUndefined();
+  });
+});
+
+describe('isPrivateHost', () => {
+  it('should refuse this machine, private networks and link-local addresses', () => {
+    const hosts = [
+      'localhost', 'app.localhost', '127.0.0.1', '0.0.0.0', '10.1.2.3', '172.16.0.1', '192.168.1.1',
+      '169.254.169.254', '100.64.0.1', '[::1]', '[::]', '[fd12::1]', '[fe80::1]',
+    ];
+    for (const host of hosts) {
+      expect(isPrivateHost(host), host).toBe(true);
+    }
+    // As URL normalizes it: decimal IPv4 and IPv4-mapped IPv6
+    expect(isPrivateHost(new URL('http://2130706433/').hostname)).toBe(true);
+    expect(isPrivateHost(new URL('http://[::ffff:169.254.169.254]/').hostname)).toBe(true);
+  });
+
+  it('should allow public hosts', () => {
+    for (const host of ['hooks.slack.com', '8.8.8.8', '172.32.0.1', '[2606:4700::1111]', '[::ffff:8.8.8.8]']) {
+      expect(isPrivateHost(new URL(`https://${host}/`).hostname), host).toBe(false);
+    }
+  });
+});
+
+describe('sendDueWebhookDeliveries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(execute).mockReset().mockResolvedValue({ success: true } as never);
+  });
+
+  it('should back off exponentially and give up after the last attempt', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response('nope', { status: 503 })));
+    const due = { event_type: 'task.moved', payload: '{}', url: 'https://hooks.test/ci', secret: 'whsec_test' };
+    vi.mocked(query).mockResolvedValueOnce([
+      { ...due, id: 'whd_1', attempts: 2 },
+      { ...due, id: 'whd_2', attempts: 5 },
+      { ...due, id: 'whd_3', attempts: 1 },
+    ]);
+    vi.mocked(execute)
+      .mockResolvedValueOnce({ success: true, meta: { changes: 1 } } as never)
+      .mockResolvedValueOnce({ success: true } as never)
+      .mockResolvedValueOnce({ success: true, meta: { changes: 1 } } as never)
+      .mockResolvedValueOnce({ success: true } as never)
+      // Another sweep took whd_3 first
+      .mockResolvedValueOnce({ success: true, meta: { changes: 0 } } as never);
+
+    try {
+      const result = await sendDueWebhookDeliveries({} as never, 'ws_1', 20);
+
+      expect(result).toEqual({ attempted: 2, succeeded: 0 });
+      const updates = deliveryUpdates();
+      expect(updates[0][2]).toEqual(['pending', 3, 503, 'nope', null, '+960 seconds', 'whd_1']);
+      expect(updates[1][1]).toContain('next_attempt_at = NULL');
+      expect(updates[1][2]).toEqual(['failed', 6, 503, 'nope', null, 'whd_2']);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should fail a delivery to a private address without sending it', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.mocked(query).mockResolvedValueOnce([
+      { id: 'whd_1', event_type: 'task.moved', payload: '{}', attempts: 0, url: 'http://169.254.169.254/latest', secret: 'whsec_test' },
+    ]);
+    vi.mocked(execute).mockResolvedValueOnce({ success: true, meta: { changes: 1 } } as never);
+
+    try {
+      await sendDueWebhookDeliveries({} as never, 'ws_1', 20);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(deliveryUpdates()[0][2]).toEqual(['failed', 1, null, null, 'url points to a local or private address', 'whd_1']);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('webhook routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'admin',
+      authType: 'session',
+    });
+  });
+
+  it('should return the secret only when the webhook is created', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce(row({ secret: 'whsec_abcdefghijkl' }));
+
+    const res = await createWebhook(new NextRequest('http://localhost:3000/api/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'CI', url: 'https://hooks.test/ci', event_types: ['task.moved', 'task.moved'] }),
+    }));
+    const data = await res.json() as { webhook: { secret: string; secret_preview: string; event_types: string[] } };
+
+    expect(res.status).toBe(201);
+    expect(data.webhook.secret).toBe('whsec_abcdefghijkl');
+    expect(data.webhook.secret_preview).toBe('whsec_abcd...');
+    const [, , values] = vi.mocked(execute).mock.calls[0];
+    expect(values?.[5]).toBe('["task.moved"]');
+  });
+
+  it('should reject a URL that is not http(s)', async () => {
+    const res = await createWebhook(new NextRequest('http://localhost:3000/api/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'CI', url: 'ftp://hooks.test/ci', event_types: ['task.moved'] }),
+    }));
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject a URL on a private address', async () => {
+    const res = await createWebhook(new NextRequest('http://localhost:3000/api/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'CI', url: 'http://169.254.169.254/latest/meta-data', event_types: ['task.moved'] }),
+    }));
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should redeliver the logged body as a new delivery of the same event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response('ok')));
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(row({ enabled: 0 }))
+      .mockResolvedValueOnce({ id: 'whd_1', event_id: 'whe_1', event_type: 'task.moved', payload: '{"a":1}' })
+      .mockResolvedValueOnce({ id: 'whd_2', event_id: 'whe_1', status: 'succeeded' });
+
+    try {
+      const res = await redeliver(
+        new NextRequest('http://localhost:3000/api/webhooks/wh_1/deliveries/whd_1/redeliver', { method: 'POST' }),
+        { params: Promise.resolve({ id: 'wh_1', deliveryId: 'whd_1' }) }
+      );
+
+      expect(res.status).toBe(201);
+      const [, sql, values] = vi.mocked(execute).mock.calls[0];
+      expect(sql).toContain('INSERT INTO webhook_deliveries');
+      expect(values?.slice(1, 6)).toEqual(['wh_1', 'ws_1', 'whe_1', 'task.moved', '{"a":1}']);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
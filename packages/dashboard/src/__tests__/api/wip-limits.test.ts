@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({
+      bind: () => ({
+        run: vi.fn().mockResolvedValue({ success: true }),
+        first: vi.fn().mockResolvedValue(null),
+      }),
+    })),
+    batch: vi.fn().mockResolvedValue([]),
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { GET, PUT } from '@/app/api/wip-limits/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { execute, query, queryOne } from '@/lib/db/client';
+import { getStatusColumns, isColumnFull } from '@taskinfa/shared';
+import type { ColumnWipLimit } from '@taskinfa/shared';
+
+function createRequest(method: string, body?: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/wip-limits', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const reviewLimit: ColumnWipLimit = {
+  id: 'wip_1',
+  workspace_id: 'ws_1',
+  status: 'review',
+  wip_limit: 3,
+  block_when_full: true,
+  created_at: '2026-10-19 10:00:00',
+  updated_at: '2026-10-19 10:00:00',
+};
+
+const noFeatures = { refinement: false, ai_review: false, local_testing: false };
+
+describe('getStatusColumns with WIP limits', () => {
+  it('should apply limits to built-in columns without changing the defaults', () => {
+    const review = getStatusColumns(noFeatures, [], [reviewLimit]).find((c) => c.status === 'review')!;
+
+    expect(review).toMatchObject({ wipLimit: 3, blockWhenFull: true });
+    expect(isColumnFull(review, 2)).toBe(false);
+    expect(isColumnFull(review, 3)).toBe(true);
+    expect(getStatusColumns(noFeatures).find((c) => c.status === 'review')?.wipLimit).toBeUndefined();
+  });
+});
+
+describe('/api/wip-limits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'admin',
+      authType: 'session',
+    });
+  });
+
+  it('should return limits with task counts per status', async () => {
+    vi.mocked(query)
+      .mockResolvedValueOnce([{ status: 'review', count: 4 }, { status: 'todo', count: 2 }])
+      .mockResolvedValueOnce([{ ...reviewLimit, block_when_full: 1 }]);
+
+    const res = await GET(createRequest('GET'));
+    const data = await res.json() as { limits: ColumnWipLimit[]; counts: Record<string, number> };
+
+    expect(res.status).toBe(200);
+    expect(data.counts).toEqual({ review: 4, todo: 2 });
+    expect(data.limits[0]).toMatchObject({ status: 'review', wip_limit: 3, block_when_full: true });
+  });
+
+  it('should reject limits on backlog and done', async () => {
+    const res = await PUT(createRequest('PUT', { status: 'done', wip_limit: 5 }));
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should create a limit', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...reviewLimit, block_when_full: 1 });
+
+    const res = await PUT(createRequest('PUT', { status: 'review', wip_limit: 3, block_when_full: true }));
+
+    expect(res.status).toBe(200);
+    const [, sql, params] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('INSERT INTO column_wip_limits');
+    expect(params).toEqual([expect.stringMatching(/^wip_/), 'ws_1', 'review', 3, 1]);
+  });
+
+  it('should remove the limit when wip_limit is null', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce({ ...reviewLimit, block_when_full: 1 });
+
+    const res = await PUT(createRequest('PUT', { status: 'review', wip_limit: null }));
+    const data = await res.json() as { limit: ColumnWipLimit | null };
+
+    expect(res.status).toBe(200);
+    expect(data.limit).toBeNull();
+    expect(vi.mocked(execute).mock.calls[0][1]).toContain('DELETE FROM column_wip_limits');
+  });
+
+  it('should require an admin', async () => {
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+
+    const res = await PUT(createRequest('PUT', { status: 'review', wip_limit: 3 }));
+
+    expect(res.status).toBe(403);
+  });
+});
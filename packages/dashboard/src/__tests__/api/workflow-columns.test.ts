@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn(() => ({
+    prepare: vi.fn(() => ({
+      bind: () => ({
+        run: vi.fn().mockResolvedValue({ success: true }),
+        first: vi.fn().mockResolvedValue(null),
+      }),
+    })),
+    batch: vi.fn().mockResolvedValue([]),
+  })),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+}));
+
+import { POST as createColumn } from '@/app/api/workflow-columns/route';
+import { DELETE as deleteColumn } from '@/app/api/workflow-columns/[id]/route';
+import { PATCH as updateTask } from '@/app/api/tasks/[id]/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { execute, query, queryOne } from '@/lib/db/client';
+import { getStatusColumns } from '@taskinfa/shared';
+import type { WorkflowColumn } from '@taskinfa/shared';
+
+function createRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function column(overrides: Partial<WorkflowColumn>): WorkflowColumn {
+  return {
+    id: 'wfc_1',
+    workspace_id: 'ws_1',
+    task_list_id: null,
+    status: 'custom_security_review',
+    label: 'Security review',
+    icon: '🛡️',
+    after_status: 'in_progress',
+    position: 0,
+    wip_limit: null,
+    block_when_full: false,
+    orchestrated: false,
+    instructions: null,
+    created_at: '2026-10-19 10:00:00',
+    updated_at: '2026-10-19 10:00:00',
+    ...overrides,
+  };
+}
+
+const noFeatures = { refinement: false, ai_review: false, local_testing: false };
+
+describe('getStatusColumns with workflow columns', () => {
+  it('should place custom columns after their status, ordered by position', () => {
+    const statuses = getStatusColumns(noFeatures, [
+      column({ id: 'wfc_2', status: 'custom_deploy', label: 'Awaiting deploy', after_status: 'review', position: 1 }),
+      column({}),
+      column({ id: 'wfc_3', status: 'custom_qa', label: 'QA', after_status: 'review', position: 0 }),
+    ]).map((c) => c.status);
+
+    expect(statuses).toEqual([
+      'backlog', 'todo', 'in_progress', 'custom_security_review', 'review', 'custom_qa', 'custom_deploy', 'done',
+    ]);
+  });
+
+  it('should put columns after a hidden feature column before Done', () => {
+    const columns = getStatusColumns(noFeatures, [column({ after_status: 'ai_review' })]);
+
+    expect(columns.map((c) => c.status)).toEqual(['backlog', 'todo', 'in_progress', 'review', 'custom_security_review', 'done']);
+    expect(columns[4]).toMatchObject({ workflowColumnId: 'wfc_1', wipLimit: null, orchestrated: false });
+  });
+});
+
+describe('/api/workflow-columns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'admin',
+      authType: 'session',
+    });
+  });
+
+  it('should derive the custom status from the label', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(null) // no column with that status yet
+      .mockResolvedValueOnce({ ...column({}), orchestrated: 0 });
+
+    const res = await createColumn(createRequest('/api/workflow-columns', 'POST', {
+      label: 'Security review',
+      after_status: 'in_progress',
+    }));
+
+    expect(res.status).toBe(201);
+    const [, sql, params] = vi.mocked(execute).mock.calls[0];
+    expect(sql).toContain('INSERT INTO workflow_columns');
+    expect(params).toContain('custom_security_review');
+  });
+
+  it('should require instructions for orchestrated columns', async () => {
+    const res = await createColumn(createRequest('/api/workflow-columns', 'POST', {
+      label: 'Security review',
+      after_status: 'in_progress',
+      orchestrated: true,
+    }));
+
+    expect(res.status).toBe(400);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject a duplicate status', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce({ id: 'wfc_1' });
+
+    const res = await createColumn(createRequest('/api/workflow-columns', 'POST', {
+      label: 'Security Review!',
+      after_status: 'in_progress',
+    }));
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should refuse to delete a column that still has tasks', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce({ ...column({}), orchestrated: 0 })
+      .mockResolvedValueOnce({ count: 2 });
+
+    const res = await deleteColumn(
+      createRequest('/api/workflow-columns/wfc_1', 'DELETE'),
+      { params: Promise.resolve({ id: 'wfc_1' }) }
+    );
+
+    expect(res.status).toBe(409);
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /api/tasks/[id] with custom statuses', () => {
+  const task = { id: 'task_1', task_list_id: 'web', status: 'in_progress', labels: '[]', files_changed: '[]' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authenticateRequestUnified).mockResolvedValue({
+      workspaceId: 'ws_1',
+      userId: 'user_1',
+      role: 'member',
+      authType: 'session',
+    });
+  });
+
+  it('should accept a custom column on the task\'s project board', async () => {
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(task)
+      .mockResolvedValueOnce({ ...task, status: 'custom_security_review' });
+    vi.mocked(query)
+      .mockResolvedValueOnce([]) // feature toggles
+      .mockResolvedValueOnce([{ ...column({ task_list_id: 'web' }), orchestrated: 0 }]);
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { status: 'custom_security_review' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should reject a custom column of another project', async () => {
+    vi.mocked(queryOne).mockResolvedValueOnce(task);
+    vi.mocked(query)
+      .mockResolvedValueOnce([]) // feature toggles
+      .mockResolvedValueOnce([{ ...column({ task_list_id: 'api' }), orchestrated: 0 }]);
+
+    const res = await updateTask(
+      createRequest('/api/tasks/task_1', 'PATCH', { status: 'custom_security_review' }),
+      { params: Promise.resolve({ id: 'task_1' }) }
+    );
+
+    expect(res.status).toBe(400);
+  });
+});
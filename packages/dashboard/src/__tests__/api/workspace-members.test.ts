@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import type { WorkspaceRole } from '@taskinfa/shared';
+
+// Mock the Cloudflare context
+vi.mock('@opennextjs/cloudflare', () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+// Mock db/client
+vi.mock('@/lib/db/client', () => ({
+  getDb: vi.fn().mockReturnValue({}),
+  query: vi.fn().mockResolvedValue([]),
+  queryOne: vi.fn().mockResolvedValue(null),
+  execute: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock auth
+vi.mock('@/lib/auth/jwt', () => ({
+  authenticateRequestUnified: vi.fn().mockResolvedValue(null),
+  hashKey: vi.fn(async (value: string) => `hash:${value}`),
+}));
+
+import { POST as createTask } from '@/app/api/tasks/route';
+import { PATCH as updateToggle } from '@/app/api/feature-toggles/[feature_key]/route';
+import { GET as listMembers } from '@/app/api/workspace/members/route';
+import { PATCH as updateMember, DELETE as removeMember } from '@/app/api/workspace/members/[userId]/route';
+import { POST as createInvite } from '@/app/api/workspace/invites/route';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { query, queryOne, execute } from '@/lib/db/client';
+
+function mockAuth(role: WorkspaceRole) {
+  vi.mocked(authenticateRequestUnified).mockResolvedValue({
+    workspaceId: 'ws_1',
+    userId: 'user_1',
+    role,
+    authType: 'session',
+  });
+}
+
+function createRequest(path: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function member(userId: string, role: WorkspaceRole) {
+  return { user_id: userId, email: `${userId}@example.com`, name: null, role, created_at: '2026-10-19 10:00:00' };
+}
+
+describe('viewer permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth('viewer');
+  });
+
+  it('should not let a viewer create tasks', async () => {
+    const res = await createTask(createRequest('/api/tasks', 'POST', { title: 'New task', task_list_id: 'tl_1' }));
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should not let a viewer change feature toggles', async () => {
+    const res = await updateToggle(
+      createRequest('/api/feature-toggles/ai_review', 'PATCH', { enabled: true }),
+      { params: Promise.resolve({ feature_key: 'ai_review' }) }
+    );
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should let a viewer list members', async () => {
+    vi.mocked(query).mockResolvedValue([member('user_1', 'viewer')]);
+
+    const res = await listMembers(createRequest('/api/workspace/members', 'GET'));
+    const data = await res.json() as { members: unknown[] };
+
+    expect(res.status).toBe(200);
+    expect(data.members).toHaveLength(1);
+  });
+
+  it('should let a viewer leave the workspace', async () => {
+    vi.mocked(queryOne).mockResolvedValue(member('user_1', 'viewer'));
+
+    const res = await removeMember(
+      createRequest('/api/workspace/members/user_1', 'DELETE'),
+      { params: Promise.resolve({ userId: 'user_1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    expect(execute).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining('DELETE FROM workspace_members'),
+      ['ws_1', 'user_1']
+    );
+  });
+});
+
+describe('PATCH /api/workspace/members/[userId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not let an admin grant the owner role', async () => {
+    mockAuth('admin');
+    vi.mocked(queryOne).mockResolvedValue(member('user_2', 'member'));
+
+    const res = await updateMember(
+      createRequest('/api/workspace/members/user_2', 'PATCH', { role: 'owner' }),
+      { params: Promise.resolve({ userId: 'user_2' }) }
+    );
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should keep the last owner', async () => {
+    mockAuth('owner');
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(member('user_1', 'owner'))
+      .mockResolvedValueOnce({ count: 1 });
+
+    const res = await updateMember(
+      createRequest('/api/workspace/members/user_1', 'PATCH', { role: 'admin' }),
+      { params: Promise.resolve({ userId: 'user_1' }) }
+    );
+
+    expect(res.status).toBe(409);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should let an owner demote another owner', async () => {
+    mockAuth('owner');
+    vi.mocked(queryOne)
+      .mockResolvedValueOnce(member('user_2', 'owner'))
+      .mockResolvedValueOnce({ count: 2 });
+
+    const res = await updateMember(
+      createRequest('/api/workspace/members/user_2', 'PATCH', { role: 'member' }),
+      { params: Promise.resolve({ userId: 'user_2' }) }
+    );
+    const data = await res.json() as { member: { role: string } };
+
+    expect(res.status).toBe(200);
+    expect(data.member.role).toBe('member');
+  });
+});
+
+describe('POST /api/workspace/invites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the token once and store only its hash', async () => {
+    mockAuth('admin');
+    vi.mocked(queryOne).mockResolvedValue({ id: 'inv_1', role: 'member' });
+
+    const res = await createInvite(createRequest('/api/workspace/invites', 'POST', { role: 'member' }));
+    const data = await res.json() as { token: string };
+
+    expect(res.status).toBe(201);
+    expect(data.token).toHaveLength(32);
+    const params = vi.mocked(execute).mock.calls[0][2] as unknown[];
+    expect(params).toContain(`hash:${data.token}`);
+    expect(params).not.toContain(data.token);
+    expect(params).toContain('+7 days');
+  });
+
+  it('should only let owners invite admins', async () => {
+    mockAuth('admin');
+
+    const res = await createInvite(createRequest('/api/workspace/invites', 'POST', { role: 'admin' }));
+
+    expect(res.status).toBe(403);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should not let members create invites', async () => {
+    mockAuth('member');
+
+    const res = await createInvite(createRequest('/api/workspace/invites', 'POST', { role: 'viewer' }));
+
+    expect(res.status).toBe(403);
+  });
+});
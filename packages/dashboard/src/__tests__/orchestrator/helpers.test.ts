@@ -172,4 +172,342 @@ describe('Orchestrator Logic', () => {
       expect(parseConfigLine('no equals here')).toBeNull();
     });
   });
+
+  describe('Agent runner resolution', () => {
+    interface SessionConfig {
+      task_list_id: string | null;
+      session_type: string;
+      agent_runner?: 'claude' | 'shell' | null;
+      agent_command?: string | null;
+    }
+
+    function resolveRunnerKind(
+      configs: SessionConfig[],
+      project: { agent_runner?: 'claude' | 'shell'; agent_command?: string | null } | null,
+      sessionType: string,
+      projectId: string
+    ): { kind: string; command: string | null } {
+      const cfg =
+        configs.find(c => c.task_list_id === projectId && c.session_type === sessionType && c.agent_runner) ??
+        configs.find(c => c.task_list_id === null && c.session_type === sessionType && c.agent_runner);
+      const kind = cfg?.agent_runner ?? project?.agent_runner ?? 'claude';
+      const command = cfg ? cfg.agent_command ?? null : project?.agent_command ?? null;
+      if (kind === 'shell' && command) return { kind, command };
+      return { kind: 'claude', command: null };
+    }
+
+    it('should default to claude', () => {
+      expect(resolveRunnerKind([], null, 'task', 'proj_a')).toEqual({ kind: 'claude', command: null });
+    });
+
+    it('should use the project runner', () => {
+      const project = { agent_runner: 'shell' as const, agent_command: './fake-agent.sh' };
+      expect(resolveRunnerKind([], project, 'task', 'proj_a')).toEqual({ kind: 'shell', command: './fake-agent.sh' });
+    });
+
+    it('should prefer a session-type override over the project runner', () => {
+      const project = { agent_runner: 'shell' as const, agent_command: './fake-agent.sh' };
+      const configs = [{ task_list_id: 'proj_a', session_type: 'ai_review', agent_runner: 'claude' as const }];
+      expect(resolveRunnerKind(configs, project, 'ai_review', 'proj_a').kind).toBe('claude');
+      expect(resolveRunnerKind(configs, project, 'task', 'proj_a').kind).toBe('shell');
+    });
+
+    it('should ignore session configs without a runner', () => {
+      const project = { agent_runner: 'shell' as const, agent_command: 'aider --yes' };
+      const configs = [{ task_list_id: null, session_type: 'task', agent_runner: null }];
+      expect(resolveRunnerKind(configs, project, 'task', 'proj_a').command).toBe('aider --yes');
+    });
+
+    it('should fall back to claude when a shell runner has no command', () => {
+      const configs = [{ task_list_id: null, session_type: 'task', agent_runner: 'shell' as const, agent_command: null }];
+      expect(resolveRunnerKind(configs, null, 'task', 'proj_a').kind).toBe('claude');
+    });
+  });
+
+  describe('Claude stream parsing', () => {
+    interface Entry {
+      kind: string;
+      tool_name?: string;
+      content: string;
+      metadata?: Record<string, unknown>;
+    }
+
+    // Subset of the events `claude --output-format stream-json` emits
+    interface StreamEvent {
+      type: string;
+      session_id?: string;
+      message?: { content?: Array<{ type: string; text?: string; name?: string; input?: Record<string, unknown> }> | string };
+      result?: string;
+    }
+
+    const FILE_EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+    function parseLine(line: string): { entries: Entry[]; resultText?: string; sessionId?: string } {
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        return { entries: [{ kind: 'assistant', content: line }] };
+      }
+      const blocks = Array.isArray(event.message?.content) ? event.message.content : [];
+      const entries: Entry[] = [];
+      if (event.type === 'assistant') {
+        for (const block of blocks) {
+          if (block.type === 'text' && block.text) entries.push({ kind: 'assistant', content: block.text });
+          else if (block.type === 'tool_use' && block.name) {
+            const fileEdit = FILE_EDIT_TOOLS.includes(block.name);
+            entries.push({
+              kind: fileEdit ? 'file_edit' : 'tool_use',
+              tool_name: block.name,
+              content: JSON.stringify(block.input ?? {}, null, 2),
+              metadata: fileEdit ? { file_path: block.input?.file_path ?? block.input?.notebook_path } : {},
+            });
+          }
+        }
+        return { entries };
+      }
+      if (event.type === 'result') {
+        entries.push({ kind: 'result', content: event.result ?? '' });
+        return { entries, resultText: event.result, sessionId: event.session_id };
+      }
+      return { entries };
+    }
+
+    it('should split assistant messages into text and tool calls', () => {
+      const line = JSON.stringify({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'Fixing the bug' },
+            { type: 'tool_use', name: 'Bash', input: { command: 'npm test' } },
+            { type: 'tool_use', name: 'Edit', input: { file_path: 'src/a.ts', old_string: 'a', new_string: 'b' } },
+          ],
+        },
+      });
+      const { entries } = parseLine(line);
+      expect(entries.map(e => e.kind)).toEqual(['assistant', 'tool_use', 'file_edit']);
+      expect(entries[2].metadata).toEqual({ file_path: 'src/a.ts' });
+    });
+
+    it('should take the result text and session ID from the final event', () => {
+      const output = parseLine(JSON.stringify({ type: 'result', result: 'Done, PR opened', session_id: 'abc' }));
+      expect(output.resultText).toBe('Done, PR opened');
+      expect(output.sessionId).toBe('abc');
+    });
+
+    it('should keep non-JSON lines as text', () => {
+      expect(parseLine('Warning: something').entries).toEqual([{ kind: 'assistant', content: 'Warning: something' }]);
+    });
+  });
+
+  describe('Stage task selection', () => {
+    const MAX_RETRIES = 3;
+
+    interface Stage {
+      fifo?: boolean;
+      countsFailures: boolean;
+      hasRetryLimitEscalation: boolean;
+    }
+
+    interface Task {
+      id: string;
+      priority: string;
+      error_count: number;
+    }
+
+    const priorityOrder: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+    function pickStageTasks(stage: Stage, tasks: Task[], limit: number): Task[] {
+      const ordered = stage.fifo
+        ? tasks
+        : [...tasks].sort((a, b) => (priorityOrder[a.priority] ?? 2) - (priorityOrder[b.priority] ?? 2));
+      if (!stage.countsFailures || stage.hasRetryLimitEscalation) return ordered.slice(0, limit);
+      return ordered.filter(t => t.error_count < MAX_RETRIES).slice(0, limit);
+    }
+
+    const tasks = [
+      { id: 'old', priority: 'low', error_count: 0 },
+      { id: 'urgent', priority: 'urgent', error_count: 3 },
+      { id: 'high', priority: 'high', error_count: 1 },
+    ];
+
+    it('should keep API order for fifo stages', () => {
+      expect(pickStageTasks({ fifo: true, countsFailures: false, hasRetryLimitEscalation: false }, tasks, 1)[0]?.id).toBe('old');
+    });
+
+    it('should hand exhausted tasks to stages that can escalate them', () => {
+      expect(pickStageTasks({ countsFailures: true, hasRetryLimitEscalation: true }, tasks, 1)[0]?.id).toBe('urgent');
+    });
+
+    it('should skip exhausted tasks when the stage has nowhere to send them', () => {
+      expect(pickStageTasks({ countsFailures: true, hasRetryLimitEscalation: false }, tasks, 1)[0]?.id).toBe('high');
+    });
+
+    it('should return nothing when every task is exhausted', () => {
+      const exhausted = tasks.map(t => ({ ...t, error_count: MAX_RETRIES }));
+      expect(pickStageTasks({ countsFailures: true, hasRetryLimitEscalation: false }, exhausted, 2)).toEqual([]);
+    });
+
+    it('should pick up to the project\'s free session slots', () => {
+      const stage = { countsFailures: true, hasRetryLimitEscalation: false };
+      expect(pickStageTasks(stage, tasks, 2).map(t => t.id)).toEqual(['high', 'old']);
+      expect(pickStageTasks(stage, tasks, 5)).toHaveLength(2);
+    });
+  });
+
+  describe('Budget checks', () => {
+    interface Limit {
+      task_list_id: string | null;
+      daily_limit_usd: number | null;
+      monthly_limit_usd: number | null;
+      task_limit_usd: number | null;
+    }
+    interface Budgets {
+      limits: Limit[];
+      spend: { workspace: { daily_usd: number; monthly_usd: number }; projects: Record<string, { daily_usd: number; monthly_usd: number }> };
+    }
+
+    function findBudgetTrip(budgets: Budgets, projectId: string, taskId: string, taskCostUsd: number, extra: number) {
+      const day = new Date().toISOString().slice(0, 10);
+      const month = day.slice(0, 7);
+      const workspaceLimit = budgets.limits.find(l => l.task_list_id === null);
+      const projectLimit = budgets.limits.find(l => l.task_list_id === projectId);
+      const projectSpend = budgets.spend.projects[projectId] ?? { daily_usd: 0, monthly_usd: 0 };
+
+      const checks: Array<[string, string, number, number | null | undefined]> = [
+        [`workspace:${day}`, 'Workspace daily budget', budgets.spend.workspace.daily_usd, workspaceLimit?.daily_limit_usd],
+        [`workspace:${month}`, 'Workspace monthly budget', budgets.spend.workspace.monthly_usd, workspaceLimit?.monthly_limit_usd],
+        [`project:${projectId}:${day}`, 'Project daily budget', projectSpend.daily_usd, projectLimit?.daily_limit_usd],
+        [`project:${projectId}:${month}`, 'Project monthly budget', projectSpend.monthly_usd, projectLimit?.monthly_limit_usd],
+        [`task:${taskId}`, 'Task budget', taskCostUsd, projectLimit?.task_limit_usd ?? workspaceLimit?.task_limit_usd],
+      ];
+
+      for (const [scope, label, spent, limit] of checks) {
+        if (limit == null) continue;
+        const tripped = extra > 0 ? spent + extra > limit : spent >= limit;
+        if (tripped) {
+          return { key: `${scope}:${limit}`, label };
+        }
+      }
+      return null;
+    }
+
+    const limit = (overrides: Partial<Limit>): Limit => ({
+      task_list_id: null, daily_limit_usd: null, monthly_limit_usd: null, task_limit_usd: null, ...overrides,
+    });
+    const budgets = (limits: Limit[], workspaceDaily = 0, projectDaily = 0): Budgets => ({
+      limits,
+      spend: {
+        workspace: { daily_usd: workspaceDaily, monthly_usd: workspaceDaily },
+        projects: { p1: { daily_usd: projectDaily, monthly_usd: projectDaily } },
+      },
+    });
+
+    it('should allow anything without caps', () => {
+      expect(findBudgetTrip(budgets([], 500, 500), 'p1', 't1', 100, 5)).toBeNull();
+    });
+
+    it('should refuse a session the average cost would push over the cap', () => {
+      const b = budgets([limit({ daily_limit_usd: 10 })], 8);
+      expect(findBudgetTrip(b, 'p1', 't1', 0, 1)).toBeNull();
+      expect(findBudgetTrip(b, 'p1', 't1', 0, 3)?.label).toBe('Workspace daily budget');
+    });
+
+    it('should only stop running sessions once the cap is reached', () => {
+      expect(findBudgetTrip(budgets([limit({ monthly_limit_usd: 10 })], 9.5), 'p1', 't1', 0, 0)).toBeNull();
+      expect(findBudgetTrip(budgets([limit({ monthly_limit_usd: 10 })], 10), 'p1', 't1', 0, 0)?.label).toBe('Workspace monthly budget');
+    });
+
+    it('should check project budgets against the project\'s own spend', () => {
+      const b = budgets([limit({ task_list_id: 'p1', daily_limit_usd: 5 })], 50, 4);
+      expect(findBudgetTrip(b, 'p1', 't1', 0, 0)).toBeNull();
+      expect(findBudgetTrip(b, 'p1', 't1', 0, 2)?.label).toBe('Project daily budget');
+      expect(findBudgetTrip(b, 'p2', 't1', 0, 2)).toBeNull();
+    });
+
+    it('should let a project per-task cap override the workspace one', () => {
+      const b = budgets([limit({ task_limit_usd: 2 }), limit({ task_list_id: 'p1', task_limit_usd: 20 })]);
+      expect(findBudgetTrip(b, 'p1', 't1', 5, 0)).toBeNull();
+      expect(findBudgetTrip(b, 'p2', 't1', 5, 0)?.key).toBe('task:t1:2');
+    });
+  });
+
+  describe('Run policy resolution', () => {
+    interface Policy {
+      task_list_id: string | null;
+      session_type: string | null;
+      max_retries: number | null;
+      session_timeout_minutes: number | null;
+      retry_backoff_seconds: number | null;
+      retry_backoff_max_seconds: number | null;
+    }
+    type Field = Exclude<keyof Policy, 'task_list_id' | 'session_type'>;
+    const MAX_RETRIES = 3;
+    const SESSION_TIMEOUT_MS = 45 * 60_000;
+
+    function resolveRunSettings(
+      policies: Policy[],
+      projectId: string,
+      sessionType: string,
+      task: { max_retries: number | null; session_timeout_minutes: number | null }
+    ) {
+      const layers = [
+        policies.find(p => p.task_list_id === projectId && p.session_type === sessionType),
+        policies.find(p => p.task_list_id === projectId && p.session_type === null),
+        policies.find(p => p.task_list_id === null && p.session_type === sessionType),
+        policies.find(p => p.task_list_id === null && p.session_type === null),
+      ];
+      const pick = (field: Field): number | null =>
+        layers.find(layer => layer?.[field] != null)?.[field] ?? null;
+
+      const timeoutMinutes = task.session_timeout_minutes ?? pick('session_timeout_minutes');
+      return {
+        maxRetries: task.max_retries ?? pick('max_retries') ?? MAX_RETRIES,
+        sessionTimeoutMs: timeoutMinutes != null ? timeoutMinutes * 60_000 : SESSION_TIMEOUT_MS,
+        backoffMs: (pick('retry_backoff_seconds') ?? 60) * 1000,
+        backoffMaxMs: (pick('retry_backoff_max_seconds') ?? 3600) * 1000,
+      };
+    }
+
+    function retryDelayMs(settings: { backoffMs: number; backoffMaxMs: number }, errorCount: number): number {
+      return Math.min(settings.backoffMs * 2 ** Math.max(errorCount - 1, 0), settings.backoffMaxMs);
+    }
+
+    const policy = (overrides: Partial<Policy>): Policy => ({
+      task_list_id: null, session_type: null, max_retries: null, session_timeout_minutes: null,
+      retry_backoff_seconds: null, retry_backoff_max_seconds: null, ...overrides,
+    });
+    const noOverrides = { max_retries: null, session_timeout_minutes: null };
+
+    it('should fall back to the env defaults', () => {
+      expect(resolveRunSettings([], 'p1', 'task', noOverrides)).toEqual({
+        maxRetries: 3, sessionTimeoutMs: 45 * 60_000, backoffMs: 60_000, backoffMaxMs: 3_600_000,
+      });
+    });
+
+    it('should prefer the most specific policy per field', () => {
+      const policies = [
+        policy({ max_retries: 5, session_timeout_minutes: 30 }),
+        policy({ session_type: 'ai_review', max_retries: 1 }),
+        policy({ task_list_id: 'p1', session_timeout_minutes: 90 }),
+      ];
+      const review = resolveRunSettings(policies, 'p1', 'ai_review', noOverrides);
+      expect(review.maxRetries).toBe(1);
+      expect(review.sessionTimeoutMs).toBe(90 * 60_000);
+      expect(resolveRunSettings(policies, 'p2', 'task', noOverrides).maxRetries).toBe(5);
+    });
+
+    it('should let the task override everything', () => {
+      const policies = [policy({ task_list_id: 'p1', session_type: 'task', max_retries: 2 })];
+      expect(resolveRunSettings(policies, 'p1', 'task', { max_retries: 8, session_timeout_minutes: 5 })).toMatchObject({
+        maxRetries: 8, sessionTimeoutMs: 5 * 60_000,
+      });
+    });
+
+    it('should double the retry delay per failure up to the cap', () => {
+      const settings = { backoffMs: 60_000, backoffMaxMs: 300_000 };
+      expect([1, 2, 3, 4].map(n => retryDelayMs(settings, n))).toEqual([60_000, 120_000, 240_000, 300_000]);
+      expect(retryDelayMs({ backoffMs: 0, backoffMaxMs: 300_000 }, 3)).toBe(0);
+    });
+  });
 });
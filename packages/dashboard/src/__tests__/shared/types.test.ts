@@ -78,6 +78,7 @@ describe('Shared Types', () => {
         created_at: '2026-01-01T00:00:00Z',
         updated_at: '2026-01-01T00:00:00Z',
         last_login_at: null,
+        last_workspace_id: null,
       };
 
       expect(user.email).toBe('test@example.com');
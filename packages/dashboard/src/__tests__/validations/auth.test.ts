@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateEmail, normalizeEmail } from '@/lib/validations/auth';
+import { validateEmail, normalizeEmail, safeRedirectPath } from '@/lib/validations/auth';
 
 describe('validateEmail', () => {
   it('should accept valid email addresses', () => {
@@ -33,3 +33,28 @@ describe('normalizeEmail', () => {
     expect(normalizeEmail('  Test@Example.COM  ')).toBe('test@example.com');
   });
 });
+
+describe('safeRedirectPath', () => {
+  it('should keep paths on this site', () => {
+    expect(safeRedirectPath('/dashboard/tasks?view=board')).toBe('/dashboard/tasks?view=board');
+    expect(safeRedirectPath('/invite/abc%20def')).toBe('/invite/abc%20def');
+  });
+
+  it('should fall back to the dashboard without a path', () => {
+    expect(safeRedirectPath(undefined)).toBe('/dashboard');
+    expect(safeRedirectPath('')).toBe('/dashboard');
+    expect(safeRedirectPath('dashboard')).toBe('/dashboard');
+    expect(safeRedirectPath('/%E0%A4%A')).toBe('/dashboard');
+  });
+
+  it('should reject paths that lead to another site', () => {
+    expect(safeRedirectPath('//evil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('https://evil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('/\\evil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('/%5Cevil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('/%2F/evil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('/\t/evil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('/\n/evil.com')).toBe('/dashboard');
+    expect(safeRedirectPath('/%09/evil.com')).toBe('/dashboard');
+  });
+});
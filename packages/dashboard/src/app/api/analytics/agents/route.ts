@@ -0,0 +1,122 @@
+// API Route: /api/analytics/agents
+// Agent effectiveness: compare LLM providers and models per session type
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope, requireTaskListAccess, taskListCondition } from '@/lib/auth/scopes';
+import { getDb, query } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { createErrorResponse, authenticationError, validateEnum, validateString } from '@/lib/utils';
+import { IMPLEMENTING_SESSION_TYPES } from '@taskinfa/shared';
+import type { AgentEffectivenessResponse, AgentEffectivenessRow } from '@taskinfa/shared';
+
+const PERIOD_DAYS = { day: 30, week: 90, month: 365 } as const;
+
+interface EffectivenessRow extends Pick<AgentEffectivenessRow, 'provider' | 'model' | 'session_type' | 'sessions' | 'retries' | 'cost_usd'> {
+  finished: number;
+  completed: number;
+  reviewed: number;
+  rejected: number;
+  tested: number;
+  passed: number;
+  avg_duration_minutes: number | null;
+}
+
+const percent = (part: number, whole: number) => Math.round((part / whole) * 1000) / 10;
+
+// The first time the task left `status` after the session started, if it has yet
+const verdict = (status: string) => `CASE WHEN s.session_type IN (${IMPLEMENTING_SESSION_TYPES.map(() => '?').join(', ')}) THEN (
+         SELECT tt.to_value FROM task_transitions tt
+         WHERE tt.task_id = s.current_task_id AND tt.field = 'status' AND tt.from_value = '${status}'
+           AND tt.created_at >= s.started_at
+         ORDER BY tt.id LIMIT 1
+       ) END`;
+
+// GET /api/analytics/agents - Success, retries, review/test outcomes, duration and cost
+// by provider/model/session type for sessions started in the period
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { searchParams } = new URL(request.url);
+    const period = validateEnum(
+      searchParams.get('period'),
+      ['day', 'week', 'month'] as const,
+      { fieldName: 'period', required: false }
+    ) || 'week';
+    const projectId = validateString(searchParams.get('project_id'), {
+      fieldName: 'project_id',
+      required: false,
+      maxLength: 100,
+    });
+    if (projectId) {
+      requireTaskListAccess(auth, projectId);
+    }
+    const project = projectId
+      ? { sql: ' AND s.project_id = ?', params: [projectId] }
+      : taskListCondition(auth, 's.project_id');
+
+    const db = getDb();
+    const rows = await query<EffectivenessRow>(
+      db,
+      `SELECT provider, model, session_type,
+              COUNT(*) as sessions,
+              SUM(CASE WHEN status IN ('completed', 'error', 'stuck') THEN 1 ELSE 0 END) as finished,
+              SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
+              SUM(CASE WHEN current_task_id IS NOT NULL THEN 1 ELSE 0 END) - COUNT(DISTINCT current_task_id) as retries,
+              SUM(CASE WHEN review_verdict IS NOT NULL THEN 1 ELSE 0 END) as reviewed,
+              SUM(CASE WHEN review_verdict = 'review_rejected' THEN 1 ELSE 0 END) as rejected,
+              SUM(CASE WHEN test_verdict IS NOT NULL THEN 1 ELSE 0 END) as tested,
+              SUM(CASE WHEN test_verdict IS NOT NULL AND test_verdict != 'test_failed' THEN 1 ELSE 0 END) as passed,
+              ROUND(AVG(CASE WHEN status IN ('completed', 'error', 'stuck')
+                THEN (julianday(COALESCE(last_event_at, updated_at)) - julianday(started_at)) * 1440
+              END), 1) as avg_duration_minutes,
+              ROUND(COALESCE(SUM(cost_usd), 0), 4) as cost_usd
+       FROM (
+         SELECT s.provider, COALESCE(s.model, s.configured_model) as model, s.session_type, s.status,
+                s.current_task_id, s.started_at, s.last_event_at, s.updated_at, s.cost_usd,
+                ${verdict('ai_review')} as review_verdict,
+                ${verdict('testing')} as test_verdict
+         FROM sessions s
+         WHERE s.workspace_id = ? AND s.started_at >= datetime('now', ?)${project.sql}
+       )
+       GROUP BY provider, model, session_type
+       ORDER BY session_type, sessions DESC`,
+      [
+        ...IMPLEMENTING_SESSION_TYPES,
+        ...IMPLEMENTING_SESSION_TYPES,
+        auth.workspaceId,
+        `-${PERIOD_DAYS[period]} days`,
+        ...project.params,
+      ]
+    );
+
+    const response: AgentEffectivenessResponse = {
+      rows: rows.map((row) => ({
+        provider: row.provider,
+        model: row.model,
+        session_type: row.session_type,
+        sessions: row.sessions,
+        success_rate: row.finished ? percent(row.completed, row.finished) : 0,
+        retries: row.retries,
+        review_rejection_rate: row.reviewed ? percent(row.rejected, row.reviewed) : null,
+        test_pass_rate: row.tested ? percent(row.passed, row.tested) : null,
+        avg_duration_minutes: row.avg_duration_minutes ?? 0,
+        cost_usd: row.cost_usd,
+        avg_cost_usd: Math.round((row.cost_usd / row.sessions) * 10000) / 10000,
+      })),
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'get_agent_effectiveness',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -3,8 +3,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope, requireTaskListAccess, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query } from '@/lib/db/client';
-import { createErrorResponse, authenticationError, validateEnum } from '@/lib/utils';
+import { cumulativeFlow, reworkRounds, summarizeVisits, REWORK_STATUSES } from '@/lib/analytics/flow';
+import { createErrorResponse, authenticationError, validateEnum, validateString } from '@/lib/utils';
+import type { LeadCycleTimeRow, ReworkStatus, TaskStatus } from '@taskinfa/shared';
 
 interface ThroughputRow {
   date: string;
@@ -35,6 +38,17 @@ interface SessionAnalyticsRow {
   avg_duration_hours: number;
 }
 
+interface SpendRow {
+  key: string | null;
+  label: string | null;
+  sessions: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+}
+
 interface BottleneckRow {
   id: string;
   title: string;
@@ -51,6 +65,7 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
 
     const { searchParams } = new URL(request.url);
     const period = validateEnum(
@@ -58,10 +73,27 @@ export async function GET(request: NextRequest) {
       ['day', 'week', 'month'] as const,
       { fieldName: 'period', required: false }
     ) || 'week';
+    const projectId = validateString(searchParams.get('project_id'), {
+      fieldName: 'project_id',
+      required: false,
+      maxLength: 100,
+    });
+    if (projectId) {
+      requireTaskListAccess(auth, projectId);
+    }
 
     const db = getDb();
     const workspaceId = auth.workspaceId;
 
+    // Limits a query to the selected project, or to the key's projects when none is selected
+    const projectCondition = (column: string) => projectId
+      ? { sql: ` AND ${column} = ?`, params: [projectId] }
+      : taskListCondition(auth, column);
+    const taskProject = projectCondition('task_list_id');
+    const aliasedTaskProject = projectCondition('t.task_list_id');
+    const sessionProject = projectCondition('project_id');
+    const aliasedSessionProject = projectCondition('s.project_id');
+
     // Determine date format and range based on period
     let dateFormat: string;
     let daysBack: number;
@@ -88,10 +120,10 @@ export async function GET(request: NextRequest) {
        WHERE workspace_id = ?
          AND status = 'done'
          AND completed_at IS NOT NULL
-         AND completed_at >= datetime('now', ?)
+         AND completed_at >= datetime('now', ?)${taskProject.sql}
        GROUP BY date
        ORDER BY date ASC`,
-      [dateFormat, workspaceId, `-${daysBack} days`]
+      [dateFormat, workspaceId, `-${daysBack} days`, ...taskProject.params]
     );
 
     // 2. Cycle time: average hours from created to done, by priority
@@ -106,7 +138,7 @@ export async function GET(request: NextRequest) {
        WHERE workspace_id = ?
          AND status = 'done'
          AND completed_at IS NOT NULL
-         AND created_at IS NOT NULL
+         AND created_at IS NOT NULL${taskProject.sql}
        GROUP BY priority
        ORDER BY CASE priority
          WHEN 'urgent' THEN 1
@@ -114,7 +146,7 @@ export async function GET(request: NextRequest) {
          WHEN 'medium' THEN 3
          WHEN 'low' THEN 4
        END`,
-      [workspaceId]
+      [workspaceId, ...taskProject.params]
     );
 
     // 3. Status distribution
@@ -122,7 +154,7 @@ export async function GET(request: NextRequest) {
       db,
       `SELECT status, COUNT(*) as count
        FROM tasks
-       WHERE workspace_id = ?
+       WHERE workspace_id = ?${taskProject.sql}
        GROUP BY status
        ORDER BY CASE status
          WHEN 'backlog' THEN 1
@@ -131,7 +163,7 @@ export async function GET(request: NextRequest) {
          WHEN 'review' THEN 4
          WHEN 'done' THEN 5
        END`,
-      [workspaceId]
+      [workspaceId, ...taskProject.params]
     );
 
     // 4. Burndown: tasks remaining (not done) at each date
@@ -147,16 +179,16 @@ export async function GET(request: NextRequest) {
        SELECT d.date,
          (SELECT COUNT(*) FROM tasks
           WHERE workspace_id = ?
-            AND date(created_at) <= d.date) -
+            AND date(created_at) <= d.date${taskProject.sql}) -
          (SELECT COUNT(*) FROM tasks
           WHERE workspace_id = ?
             AND status = 'done'
             AND completed_at IS NOT NULL
-            AND date(completed_at) <= d.date) as remaining
+            AND date(completed_at) <= d.date${taskProject.sql}) as remaining
        FROM dates d
        WHERE strftime('%w', d.date) = '1' OR d.date = date('now')
        ORDER BY d.date ASC`,
-      [workspaceId, workspaceId]
+      [workspaceId, ...taskProject.params, workspaceId, ...taskProject.params]
     );
 
     const burndown: BurndownRow[] = burndownData.map(row => ({
@@ -179,8 +211,8 @@ export async function GET(request: NextRequest) {
            END
          ), 1) as avg_duration_hours
        FROM sessions
-       WHERE workspace_id = ?`,
-      [workspaceId]
+       WHERE workspace_id = ?${sessionProject.sql}`,
+      [workspaceId, ...sessionProject.params]
     );
 
     const sessionRetryData = await query<{ total_retries: number; tasks_with_retries: number }>(
@@ -190,8 +222,8 @@ export async function GET(request: NextRequest) {
          SUM(CASE WHEN error_count > 0 THEN 1 ELSE 0 END) as tasks_with_retries
        FROM tasks
        WHERE workspace_id = ?
-         AND assigned_to IS NOT NULL`,
-      [workspaceId]
+         AND assigned_to IS NOT NULL${taskProject.sql}`,
+      [workspaceId, ...taskProject.params]
     );
 
     const stats = sessionStats[0];
@@ -210,20 +242,136 @@ export async function GET(request: NextRequest) {
         : 0,
     };
 
-    // 6. Bottleneck detection: tasks stuck in review or in_progress for > 24 hours
-    const bottlenecks = await query<BottleneckRow>(
+    // 6. Spend: token usage and cost of sessions started in the window
+    const spendColumns = `COUNT(*) as sessions,
+         COALESCE(SUM(s.input_tokens), 0) as input_tokens,
+         COALESCE(SUM(s.output_tokens), 0) as output_tokens,
+         COALESCE(SUM(s.cache_read_tokens), 0) as cache_read_tokens,
+         COALESCE(SUM(s.cache_creation_tokens), 0) as cache_creation_tokens,
+         ROUND(COALESCE(SUM(s.cost_usd), 0), 4) as cost_usd`;
+    const spendWindow = [workspaceId, `-${daysBack} days`, ...aliasedSessionProject.params];
+
+    const spendBy = (keyColumn: string, labelColumn: string) => query<SpendRow>(
+      db,
+      `SELECT ${keyColumn} as key, ${labelColumn} as label, ${spendColumns}
+       FROM sessions s
+       LEFT JOIN task_lists tl ON s.project_id = tl.id
+       WHERE s.workspace_id = ? AND s.started_at >= datetime('now', ?)${aliasedSessionProject.sql}
+       GROUP BY ${keyColumn}
+       ORDER BY cost_usd DESC`,
+      spendWindow
+    );
+
+    const [spendTotals] = await query<Omit<SpendRow, 'key' | 'label'>>(
       db,
-      `SELECT t.id, t.title, t.status, t.priority,
-              ROUND((julianday('now') - julianday(t.updated_at)) * 24, 1) as hours_in_status,
-              tl.name as task_list_name
+      `SELECT ${spendColumns}
+       FROM sessions s
+       WHERE s.workspace_id = ? AND s.started_at >= datetime('now', ?)${aliasedSessionProject.sql}`,
+      spendWindow
+    );
+
+    const spend = {
+      totals: spendTotals ?? {
+        sessions: 0, input_tokens: 0, output_tokens: 0, cache_read_tokens: 0, cache_creation_tokens: 0, cost_usd: 0,
+      },
+      byProject: await spendBy('s.project_id', 'tl.name'),
+      bySessionType: await spendBy('s.session_type', 's.session_type'),
+      byProvider: await spendBy('s.provider', 's.provider'),
+    };
+
+    // Status transitions of the selected tasks; tasks created before transitions were
+    // recorded start with the status they had at the migration
+    const statusTransitions = `SELECT tt.* FROM task_transitions tt
+       JOIN tasks t ON tt.task_id = t.id
+       WHERE tt.workspace_id = ? AND tt.field = 'status'${aliasedTaskProject.sql}`;
+    const statusTransitionParams = [workspaceId, ...aliasedTaskProject.params];
+
+    // 7. Time in status: each visit lasts until the task's next transition (or now),
+    // counted for the visits that started in the window. Done is where tasks end up,
+    // so time spent there says nothing about the flow.
+    const visits = await query<{ status: TaskStatus; hours: number }>(
+      db,
+      `WITH visits AS (
+         SELECT to_value as status, created_at,
+                (julianday(COALESCE(
+                  LEAD(created_at) OVER (PARTITION BY task_id ORDER BY id),
+                  datetime('now')
+                )) - julianday(created_at)) * 24 as hours
+         FROM (${statusTransitions})
+       )
+       SELECT status, hours FROM visits
+       WHERE created_at >= datetime('now', ?) AND status != 'done'`,
+      [...statusTransitionParams, `-${daysBack} days`]
+    );
+    const timeInStatus = summarizeVisits(visits);
+
+    // 8. Cumulative flow: tasks per status at the end of each day (weekly for the year view)
+    const flowTransitions = await query<{ task_id: string; to_value: TaskStatus; created_at: string }>(
+      db,
+      `SELECT task_id, to_value, created_at FROM (${statusTransitions}) ORDER BY created_at ASC, id ASC`,
+      statusTransitionParams
+    );
+    const flowStep = period === 'month' ? 7 : 1;
+    const flowDates: string[] = [];
+    for (let daysAgo = daysBack - (daysBack % flowStep); daysAgo >= 0; daysAgo -= flowStep) {
+      flowDates.push(new Date(Date.now() - daysAgo * 86_400_000).toISOString().slice(0, 10));
+    }
+    const cumulativeFlowData = cumulativeFlow(flowTransitions, flowDates);
+
+    // 9. Lead time (created → done) vs cycle time (first in_progress → done) of the
+    // tasks completed in each period
+    const leadCycleTime = await query<LeadCycleTimeRow>(
+      db,
+      `SELECT strftime(?, t.completed_at) as date,
+              ROUND(AVG((julianday(t.completed_at) - julianday(t.created_at)) * 24), 1) as lead_hours,
+              ROUND(AVG((julianday(t.completed_at) - julianday(COALESCE(ip.started, t.started_at))) * 24), 1) as cycle_hours,
+              COUNT(*) as tasks
        FROM tasks t
-       LEFT JOIN task_lists tl ON t.task_list_id = tl.id
+       LEFT JOIN (
+         SELECT task_id, MIN(created_at) as started FROM task_transitions
+         WHERE workspace_id = ? AND field = 'status' AND to_value = 'in_progress'
+         GROUP BY task_id
+       ) ip ON ip.task_id = t.id
        WHERE t.workspace_id = ?
-         AND t.status IN ('in_progress', 'review')
-         AND (julianday('now') - julianday(t.updated_at)) * 24 > 24
+         AND t.status = 'done'
+         AND t.completed_at >= datetime('now', ?)${aliasedTaskProject.sql}
+       GROUP BY date
+       ORDER BY date ASC`,
+      [dateFormat, workspaceId, workspaceId, `-${daysBack} days`, ...aliasedTaskProject.params]
+    );
+
+    // 10. Rework: how many times tasks went back to review_rejected / test_failed in the window
+    const reworkRows = await query<{ status: ReworkStatus; rounds: number }>(
+      db,
+      `SELECT to_value as status, COUNT(*) as rounds
+       FROM (${statusTransitions})
+       WHERE to_value IN (${REWORK_STATUSES.map(() => '?').join(', ')})
+         AND created_at >= datetime('now', ?)
+       GROUP BY to_value, task_id`,
+      [...statusTransitionParams, ...REWORK_STATUSES, `-${daysBack} days`]
+    );
+    const rework = reworkRounds(reworkRows);
+
+    // 11. Bottleneck detection: tasks stuck in review or in_progress for > 24 hours,
+    // measured from their last status transition
+    const bottlenecks = await query<BottleneckRow>(
+      db,
+      `SELECT id, title, status, priority, hours_in_status, task_list_name
+       FROM (
+         SELECT t.id, t.title, t.status, t.priority, tl.name as task_list_name,
+                ROUND((julianday('now') - julianday(COALESCE(
+                  (SELECT MAX(tt.created_at) FROM task_transitions tt WHERE tt.task_id = t.id AND tt.field = 'status'),
+                  t.updated_at
+                ))) * 24, 1) as hours_in_status
+         FROM tasks t
+         LEFT JOIN task_lists tl ON t.task_list_id = tl.id
+         WHERE t.workspace_id = ?
+           AND t.status IN ('in_progress', 'review')${aliasedTaskProject.sql}
+       )
+       WHERE hours_in_status > 24
        ORDER BY hours_in_status DESC
        LIMIT 20`,
-      [workspaceId]
+      [workspaceId, ...aliasedTaskProject.params]
     );
 
     return NextResponse.json({
@@ -232,8 +380,14 @@ export async function GET(request: NextRequest) {
       statusDistribution,
       burndown,
       sessionAnalytics,
+      spend,
+      timeInStatus,
+      cumulativeFlow: cumulativeFlowData,
+      leadCycleTime,
+      rework,
       bottlenecks,
       period,
+      projectId,
     });
   } catch (error) {
     return createErrorResponse(error, { operation: 'get_analytics' });
@@ -0,0 +1,172 @@
+// API Route: /api/audit-log
+// Read and export the workspace audit log (newest first)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit, applyRateLimitHeaders } from '@/lib/middleware/apiRateLimit';
+import {
+  safeJsonParseObject,
+  createErrorResponse,
+  authenticationError,
+  validateEnum,
+  validateInteger,
+  validateString,
+} from '@/lib/utils';
+import { AUDIT_ENTITY_TYPE_LABELS } from '@taskinfa/shared';
+import type {
+  AuditActorType,
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+  ListAuditLogResponse,
+} from '@taskinfa/shared';
+
+const ACTOR_TYPES: AuditActorType[] = ['user', 'api_key', 'bot'];
+const ENTITY_TYPES = Object.keys(AUDIT_ENTITY_TYPE_LABELS) as AuditEntityType[];
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 5000;
+
+const CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'actor_type',
+  'actor_id',
+  'actor_name',
+  'action',
+  'entity_type',
+  'entity_id',
+  'changes',
+] as const;
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: AuditLogEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(entry[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// GET /api/audit-log - Filter by actor, action, entity and time range
+// ?format=csv or ?format=json downloads up to 5000 matching entries instead of a page.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { searchParams } = new URL(request.url);
+    const format = validateEnum(searchParams.get('format'), ['json', 'csv'] as const, {
+      fieldName: 'format',
+      required: false,
+    });
+    const actorType = validateEnum(searchParams.get('actor_type'), ACTOR_TYPES, {
+      fieldName: 'actor_type',
+      required: false,
+    });
+    const entityType = validateEnum(searchParams.get('entity_type'), ENTITY_TYPES, {
+      fieldName: 'entity_type',
+      required: false,
+    });
+    const actorId = validateString(searchParams.get('actor_id'), { fieldName: 'actor_id', required: false, maxLength: 100 });
+    const entityId = validateString(searchParams.get('entity_id'), { fieldName: 'entity_id', required: false, maxLength: 200 });
+    const action = validateString(searchParams.get('action'), { fieldName: 'action', required: false, maxLength: 100 });
+    const since = validateString(searchParams.get('since'), { fieldName: 'since', required: false, maxLength: 30 });
+    const until = validateString(searchParams.get('until'), { fieldName: 'until', required: false, maxLength: 30 });
+    const before = searchParams.get('before')
+      ? validateInteger(searchParams.get('before'), { fieldName: 'before', min: 1 })
+      : null;
+    const limit = format
+      ? MAX_EXPORT_ROWS
+      : validateInteger(searchParams.get('limit'), { fieldName: 'limit', min: 1, max: MAX_PAGE_SIZE, defaultValue: PAGE_SIZE });
+
+    const conditions = ['workspace_id = ?'];
+    const params: (string | number)[] = [auth.workspaceId];
+
+    if (actorType) {
+      conditions.push('actor_type = ?');
+      params.push(actorType);
+    }
+    if (actorId) {
+      conditions.push('actor_id = ?');
+      params.push(actorId);
+    }
+    // "task" matches every task.* action; "task.update" only that one
+    if (action) {
+      conditions.push(action.includes('.') ? 'action = ?' : "action LIKE ? || '.%'");
+      params.push(action);
+    }
+    if (entityType) {
+      conditions.push('entity_type = ?');
+      params.push(entityType);
+    }
+    if (entityId) {
+      conditions.push('entity_id = ?');
+      params.push(entityId);
+    }
+    if (since) {
+      conditions.push('created_at >= datetime(?)');
+      params.push(since);
+    }
+    if (until) {
+      conditions.push('created_at <= datetime(?)');
+      params.push(until);
+    }
+    if (before !== null) {
+      conditions.push('id < ?');
+      params.push(before);
+    }
+
+    const db = getDb();
+    const rows = await query<Omit<AuditLogEntry, 'changes'> & { changes: string }>(
+      db,
+      `SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const entries: AuditLogEntry[] = rows.slice(0, limit).map((row) => ({
+      ...row,
+      changes: safeJsonParseObject<AuditChanges>(row.changes, {}),
+    }));
+
+    if (format) {
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      const response = new NextResponse(
+        format === 'csv' ? toCsv(entries) : JSON.stringify(entries, null, 2),
+        {
+          headers: {
+            'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+        }
+      );
+      return applyRateLimitHeaders(response, rl.result);
+    }
+
+    const response: ListAuditLogResponse = {
+      entries,
+      next_cursor: rows.length > limit ? entries[entries.length - 1].id : null,
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_audit_log',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -5,7 +5,7 @@ import { normalizeEmail } from '@/lib/validations/auth';
 import { createSession, setSessionCookie } from '@/lib/auth/session';
 import { rateLimitAuth, applyRateLimitHeaders } from '@/lib/middleware/apiRateLimit';
 import type { LoginRequest, LoginResponse, User, Workspace } from '@taskinfa/shared';
-import { createErrorResponse, authenticationError, authorizationError, internalError } from '@/lib/utils';
+import { createErrorResponse, authenticationError, authorizationError } from '@/lib/utils';
 
 
 export async function POST(request: NextRequest) {
@@ -54,19 +54,24 @@ export async function POST(request: NextRequest) {
       [user.id]
     );
 
-    // Fetch workspace
+    // Open the workspace the user last switched to, falling back to their own,
+    // then to any workspace they still belong to
     const workspace = await queryOne<Workspace>(
       db,
-      'SELECT * FROM workspaces WHERE id = ?',
-      [user.workspace_id]
+      `SELECT w.* FROM workspace_members m
+       JOIN workspaces w ON w.id = m.workspace_id
+       WHERE m.user_id = ?
+       ORDER BY m.workspace_id = ? DESC, m.workspace_id = ? DESC, m.created_at ASC
+       LIMIT 1`,
+      [user.id, user.last_workspace_id ?? '', user.workspace_id]
     );
 
     if (!workspace) {
-      throw internalError('Workspace not found');
+      throw authorizationError('You are not a member of any workspace');
     }
 
     // Create session token
-    const sessionToken = await createSession(user.id, user.workspace_id);
+    const sessionToken = await createSession(user.id, workspace.id);
 
     // Prepare response without password_hash
     const { password_hash, ...userWithoutPassword } = user;
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDb, queryOne } from '@/lib/db/client';
+import { getDb, query, queryOne } from '@/lib/db/client';
 import { requireAuth } from '@/lib/auth/middleware';
 import { createErrorResponse } from '@/lib/utils/errors';
-import type { GetMeResponse, User, Workspace } from '@taskinfa/shared';
+import type { GetMeResponse, User, Workspace, WorkspaceMembership } from '@taskinfa/shared';
 
 
 export async function GET(request: NextRequest) {
@@ -33,14 +33,25 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Fetch workspace
+    // Fetch the session's workspace and every workspace the user belongs to
     const workspace = await queryOne<Workspace>(
       db,
       'SELECT * FROM workspaces WHERE id = ?',
-      [user.workspace_id]
+      [session.workspaceId]
     );
 
-    if (!workspace) {
+    const workspaces = await query<WorkspaceMembership>(
+      db,
+      `SELECT m.workspace_id, w.name as workspace_name, m.role
+       FROM workspace_members m
+       JOIN workspaces w ON w.id = m.workspace_id
+       WHERE m.user_id = ?
+       ORDER BY w.name ASC`,
+      [session.userId]
+    );
+
+    const current = workspaces.find(m => m.workspace_id === session.workspaceId);
+    if (!workspace || !current) {
       return NextResponse.json(
         { error: 'Workspace not found' },
         { status: 404 }
@@ -56,6 +67,8 @@ export async function GET(request: NextRequest) {
         is_active: Boolean(userWithoutPassword.is_active),
       },
       workspace,
+      role: current.role,
+      workspaces,
     };
 
     return NextResponse.json(response, { status: 200 });
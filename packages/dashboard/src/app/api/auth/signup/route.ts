@@ -70,6 +70,12 @@ export async function POST(request: NextRequest) {
       [userId, normalizedEmail, passwordHash, name || null, workspaceId]
     );
 
+    await execute(
+      db,
+      `INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'owner')`,
+      [workspaceId, userId]
+    );
+
     // Fetch created user and workspace
     const user = await queryOne<User>(db, 'SELECT * FROM users WHERE id = ?', [userId]);
     const workspace = await queryOne<Workspace>(db, 'SELECT * FROM workspaces WHERE id = ?', [workspaceId]);
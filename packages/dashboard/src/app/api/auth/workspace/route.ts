@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, execute, queryOne } from '@/lib/db/client';
+import { requireAuth } from '@/lib/auth/middleware';
+import { createSession, setSessionCookie } from '@/lib/auth/session';
+import { createErrorResponse, authenticationError, notFoundError, validateString } from '@/lib/utils';
+import type { SwitchWorkspaceRequest, Workspace } from '@taskinfa/shared';
+
+
+// POST /api/auth/workspace - Switch the session to another workspace the user belongs to
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth(request);
+    if (!session) {
+      throw authenticationError();
+    }
+
+    const body: SwitchWorkspaceRequest = await request.json();
+    const workspaceId = validateString(body.workspace_id, {
+      fieldName: 'workspace_id',
+      required: true,
+    }) as string;
+
+    const db = getDb();
+
+    const workspace = await queryOne<Workspace>(
+      db,
+      `SELECT w.* FROM workspace_members m
+       JOIN workspaces w ON w.id = m.workspace_id
+       WHERE m.workspace_id = ? AND m.user_id = ?`,
+      [workspaceId, session.userId]
+    );
+    if (!workspace) {
+      throw notFoundError('Workspace');
+    }
+
+    await execute(
+      db,
+      `UPDATE users SET last_workspace_id = ?, updated_at = datetime('now') WHERE id = ?`,
+      [workspaceId, session.userId]
+    );
+
+    const sessionToken = await createSession(session.userId, workspaceId);
+    return setSessionCookie(NextResponse.json({ workspace }, { status: 200 }), sessionToken);
+  } catch (error) {
+    return createErrorResponse(error, { operation: 'switch_workspace' });
+  }
+}
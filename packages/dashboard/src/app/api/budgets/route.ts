@@ -0,0 +1,183 @@
+// API Route: /api/budgets
+// Workspace and project spend caps, with the spend they are measured against
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { nanoid } from 'nanoid';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validationError,
+} from '@/lib/utils';
+import type {
+  BudgetLimit,
+  BudgetSpend,
+  GetBudgetsResponse,
+  UpsertBudgetRequest,
+  UpsertBudgetResponse,
+} from '@taskinfa/shared';
+
+const LIMIT_FIELDS = ['daily_limit_usd', 'monthly_limit_usd', 'task_limit_usd'] as const;
+
+// Window for the average session cost the orchestrator uses to predict the next session
+const AVG_COST_WINDOW = '-30 days';
+
+function validateAmount(value: unknown, fieldName: string): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw validationError(`${fieldName} must be a positive number or null`);
+  }
+  return value;
+}
+
+async function findLimit(
+  db: ReturnType<typeof getDb>,
+  workspaceId: string,
+  taskListId: string | null
+): Promise<BudgetLimit | null> {
+  return taskListId === null
+    ? queryOne<BudgetLimit>(
+      db,
+      'SELECT * FROM budget_limits WHERE workspace_id = ? AND task_list_id IS NULL',
+      [workspaceId]
+    )
+    : queryOne<BudgetLimit>(
+      db,
+      'SELECT * FROM budget_limits WHERE workspace_id = ? AND task_list_id = ?',
+      [workspaceId, taskListId]
+    );
+}
+
+// GET /api/budgets - All caps plus today's and this month's spend (UTC)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+
+    const limits = await query<BudgetLimit>(
+      db,
+      'SELECT * FROM budget_limits WHERE workspace_id = ? ORDER BY task_list_id IS NOT NULL, created_at ASC',
+      [auth.workspaceId]
+    );
+
+    // Today is always inside this month, so one pass over the month covers both
+    const spendRows = await query<BudgetSpend & { project_id: string | null }>(
+      db,
+      `SELECT project_id,
+         COALESCE(SUM(CASE WHEN started_at >= date('now') THEN cost_usd ELSE 0 END), 0) as daily_usd,
+         COALESCE(SUM(cost_usd), 0) as monthly_usd
+       FROM sessions
+       WHERE workspace_id = ? AND started_at >= date('now', 'start of month')
+       GROUP BY project_id`,
+      [auth.workspaceId]
+    );
+
+    const workspace: BudgetSpend = { daily_usd: 0, monthly_usd: 0 };
+    const projects: Record<string, BudgetSpend> = {};
+    for (const row of spendRows) {
+      workspace.daily_usd += row.daily_usd;
+      workspace.monthly_usd += row.monthly_usd;
+      if (row.project_id) {
+        projects[row.project_id] = { daily_usd: row.daily_usd, monthly_usd: row.monthly_usd };
+      }
+    }
+
+    const avg = await queryOne<{ avg_cost: number | null }>(
+      db,
+      `SELECT AVG(cost_usd) as avg_cost FROM sessions
+       WHERE workspace_id = ? AND cost_usd > 0 AND started_at >= datetime('now', ?)`,
+      [auth.workspaceId, AVG_COST_WINDOW]
+    );
+
+    const response: GetBudgetsResponse = {
+      limits,
+      spend: { workspace, projects },
+      avg_session_cost_usd: avg?.avg_cost ?? 0,
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'get_budgets',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// PUT /api/budgets - Set the workspace caps, or a project's when task_list_id is given
+// null (or omitted) clears a cap; clearing all of them removes the budget.
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: UpsertBudgetRequest = await request.json();
+    const taskListId = body.task_list_id ?? null;
+    const values = LIMIT_FIELDS.map(field => validateAmount(body[field], field));
+
+    const db = getDb();
+
+    if (taskListId !== null) {
+      const project = await queryOne<{ id: string }>(
+        db,
+        'SELECT id FROM task_lists WHERE id = ? AND workspace_id = ?',
+        [taskListId, auth.workspaceId]
+      );
+      if (!project) {
+        throw notFoundError('Project');
+      }
+    }
+
+    const existing = await findLimit(db, auth.workspaceId, taskListId);
+
+    if (values.every(v => v === null)) {
+      if (existing) {
+        await execute(db, 'DELETE FROM budget_limits WHERE id = ?', [existing.id]);
+      }
+      const response: UpsertBudgetResponse = { limit: null };
+      return jsonWithRateLimit(response, rl.result);
+    }
+
+    if (existing) {
+      await execute(
+        db,
+        `UPDATE budget_limits
+         SET daily_limit_usd = ?, monthly_limit_usd = ?, task_limit_usd = ?, updated_at = datetime('now')
+         WHERE id = ?`,
+        [...values, existing.id]
+      );
+    } else {
+      await execute(
+        db,
+        `INSERT INTO budget_limits (id, workspace_id, task_list_id, daily_limit_usd, monthly_limit_usd, task_limit_usd)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [`budget_${nanoid()}`, auth.workspaceId, taskListId, ...values]
+      );
+    }
+
+    const response: UpsertBudgetResponse = { limit: await findLimit(db, auth.workspaceId, taskListId) };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'upsert_budget',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
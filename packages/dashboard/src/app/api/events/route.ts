@@ -1,10 +1,15 @@
 // API Route: /api/events
 // Accepts status events from Claude hooks, writes to session_events
-// Triggers Telegram notification for critical events
+// Triggers Telegram notification for critical events, and session webhooks when the
+// event changes the session's status
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { sendTelegramNotification } from '@/lib/notifications/telegram';
+import { dispatchSessionEvent, sessionStatusEvent } from '@/lib/notifications/webhooks';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
 import { nanoid } from 'nanoid';
 import {
@@ -14,15 +19,15 @@ import {
   validateString,
   validateEnum,
 } from '@/lib/utils';
-import type { SessionEvent, CreateEventRequest, NotificationConfig } from '@taskinfa/shared';
+import type { Session, SessionEvent, CreateEventRequest } from '@taskinfa/shared';
 
 const VALID_EVENT_TYPES = [
   'task_claimed', 'task_progress', 'task_completed',
   'stuck', 'needs_input', 'error',
-  'session_start', 'session_end', 'notification',
+  'session_start', 'session_end', 'budget_exceeded', 'notification',
 ] as const;
 
-const NOTIFY_EVENT_TYPES = new Set(['stuck', 'needs_input', 'error', 'task_completed']);
+const NOTIFY_EVENT_TYPES = new Set(['stuck', 'needs_input', 'error', 'task_completed', 'budget_exceeded']);
 
 // POST /api/events — create a new event
 export async function POST(request: NextRequest) {
@@ -31,6 +36,8 @@ export async function POST(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'sessions:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -81,19 +88,32 @@ export async function POST(request: NextRequest) {
       );
 
       // Update session status based on event type
-      if (eventType === 'stuck' || eventType === 'needs_input') {
-        await execute(db, `UPDATE sessions SET status = 'stuck' WHERE id = ?`, [sessionId]);
-      } else if (eventType === 'error') {
-        await execute(db, `UPDATE sessions SET status = 'error' WHERE id = ?`, [sessionId]);
-      } else if (eventType === 'session_end') {
-        await execute(db, `UPDATE sessions SET status = 'completed' WHERE id = ?`, [sessionId]);
+      const nextStatus = eventType === 'stuck' || eventType === 'needs_input'
+        ? 'stuck'
+        : eventType === 'error'
+          ? 'error'
+          : eventType === 'session_end'
+            ? 'completed'
+            : null;
+      if (nextStatus) {
+        const session = await queryOne<Session>(
+          db,
+          'SELECT * FROM sessions WHERE id = ? AND workspace_id = ?',
+          [sessionId, auth.workspaceId]
+        );
+        await execute(db, `UPDATE sessions SET status = ? WHERE id = ?`, [nextStatus, sessionId]);
+
+        const statusEvent = session && sessionStatusEvent(session.status, nextStatus);
+        if (statusEvent) {
+          await dispatchSessionEvent(db, auth.workspaceId, statusEvent, { ...session, status: nextStatus }, message);
+        }
       }
     }
 
     // Trigger Telegram notification for critical events
     if (NOTIFY_EVENT_TYPES.has(eventType)) {
       try {
-        await sendTelegramNotification(db, auth.workspaceId, eventType, message || '', taskId);
+        await sendTelegramNotification(db, auth.workspaceId, eventType, message || '', taskId, new URL(request.url).origin);
       } catch (notifyErr) {
         console.error('Telegram notification failed:', notifyErr);
       }
@@ -122,6 +142,7 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -167,57 +188,3 @@ export async function GET(request: NextRequest) {
     return createErrorResponse(error, { operation: 'list_events' });
   }
 }
-
-// Helper: send Telegram notification
-async function sendTelegramNotification(
-  db: ReturnType<typeof getDb>,
-  workspaceId: string,
-  eventType: string,
-  message: string,
-  taskId: string | null | undefined
-) {
-  const config = await queryOne<NotificationConfig>(
-    db,
-    'SELECT * FROM notification_config WHERE workspace_id = ?',
-    [workspaceId]
-  );
-
-  if (!config || !config.telegram_enabled || !config.telegram_chat_id) return;
-
-  // Check notification preferences
-  if (eventType === 'task_completed' && !config.notify_on_complete) return;
-  if ((eventType === 'stuck' || eventType === 'needs_input') && !config.notify_on_stuck) return;
-  if (eventType === 'error' && !config.notify_on_error) return;
-
-  const emoji: Record<string, string> = {
-    task_completed: '\u2705',
-    stuck: '\u26a0\ufe0f',
-    needs_input: '\u2753',
-    error: '\u274c',
-  };
-
-  let taskInfo = '';
-  let prLink = '';
-  if (taskId) {
-    const task = await queryOne<{ title: string; pr_url: string | null }>(db, 'SELECT title, pr_url FROM tasks WHERE id = ?', [taskId]);
-    if (task) {
-      taskInfo = `\nTask: ${task.title}`;
-      if (task.pr_url) prLink = `\n[View PR](${task.pr_url})`;
-    }
-  }
-
-  const text = `${emoji[eventType] || '\u2139\ufe0f'} *${eventType.replace(/_/g, ' ').toUpperCase()}*${taskInfo}\n${message}${prLink}`;
-
-  const botToken = process.env.TELEGRAM_BOT_TOKEN;
-  if (!botToken) return;
-
-  await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      chat_id: config.telegram_chat_id,
-      text,
-      parse_mode: 'Markdown',
-    }),
-  });
-}
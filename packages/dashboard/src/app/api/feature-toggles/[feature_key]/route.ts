@@ -3,7 +3,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, queryOne, execute } from '@/lib/db/client';
+import { recordAudit } from '@/lib/audit/log';
 import type { FeatureToggle, FeatureKey, UpdateFeatureToggleRequest } from '@taskinfa/shared';
 import { DEFAULT_FEATURE_CONFIGS } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
@@ -26,6 +29,8 @@ export async function PATCH(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
 
     const { feature_key } = await params;
 
@@ -109,6 +114,14 @@ export async function PATCH(
       throw new Error('Failed to retrieve updated toggle');
     }
 
+    await recordAudit(db, auth, {
+      action: 'feature_toggle.update',
+      entityType: 'feature_toggle',
+      entityId: feature_key,
+      before: existing,
+      after: toggle,
+    });
+
     const parsedToggle: FeatureToggle = {
       ...toggle,
       enabled: Boolean(toggle.enabled),
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, query } from '@/lib/db/client';
 import type { FeatureToggle, FeatureKey } from '@taskinfa/shared';
 import { DEFAULT_FEATURE_CONFIGS } from '@taskinfa/shared';
@@ -21,6 +22,7 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
 
     const db = getDb();
     const rows = await query<FeatureToggle>(
@@ -0,0 +1,140 @@
+// API Route: /api/invites/[token]
+// Look at and accept an invite link; the signed-in user joins the inviting workspace
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hashKey } from '@/lib/auth/jwt';
+import { requireAuth } from '@/lib/auth/middleware';
+import { createSession, setSessionCookie } from '@/lib/auth/session';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import {
+  createErrorResponse,
+  authenticationError,
+  conflictError,
+  notFoundError,
+} from '@/lib/utils';
+import type {
+  InviteRole,
+  Workspace,
+  InvitePreviewResponse,
+  AcceptInviteResponse,
+} from '@taskinfa/shared';
+
+interface InviteRow {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  role: InviteRole;
+  created_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  expired: number;
+}
+
+// Used, revoked and expired links all look the same to whoever holds them
+async function findUsableInvite(db: ReturnType<typeof getDb>, token: string): Promise<InviteRow> {
+  const invite = await queryOne<InviteRow>(
+    db,
+    `SELECT i.id, i.workspace_id, w.name as workspace_name, i.role, i.created_by, i.expires_at,
+            i.accepted_at, i.revoked_at, (i.expires_at <= datetime('now')) as expired
+     FROM workspace_invites i
+     JOIN workspaces w ON w.id = i.workspace_id
+     WHERE i.token_hash = ?`,
+    [await hashKey(token)]
+  );
+  if (!invite || invite.accepted_at || invite.revoked_at || invite.expired) {
+    throw notFoundError('Invite');
+  }
+  return invite;
+}
+
+async function isMember(db: ReturnType<typeof getDb>, workspaceId: string, userId: string): Promise<boolean> {
+  const member = await queryOne<{ role: string }>(
+    db,
+    'SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?',
+    [workspaceId, userId]
+  );
+  return !!member;
+}
+
+// GET /api/invites/[token] - Which workspace and role the invite is for
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await requireAuth(request);
+    if (!session) {
+      throw authenticationError();
+    }
+
+    const { token } = await params;
+    const db = getDb();
+    const invite = await findUsableInvite(db, token);
+
+    const response: InvitePreviewResponse = {
+      workspace_name: invite.workspace_name,
+      role: invite.role,
+      expires_at: invite.expires_at,
+      already_member: await isMember(db, invite.workspace_id, session.userId),
+    };
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return createErrorResponse(error, { operation: 'get_invite' });
+  }
+}
+
+// POST /api/invites/[token] - Accept the invite and switch the session to its workspace
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await requireAuth(request);
+    if (!session) {
+      throw authenticationError();
+    }
+
+    const { token } = await params;
+    const db = getDb();
+    const invite = await findUsableInvite(db, token);
+
+    if (await isMember(db, invite.workspace_id, session.userId)) {
+      throw conflictError('You are already a member of this workspace');
+    }
+
+    // Claim the invite first so two people can't both use it
+    const claimed = await execute(
+      db,
+      `UPDATE workspace_invites SET accepted_by = ?, accepted_at = datetime('now')
+       WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [session.userId, invite.id]
+    );
+    if (!claimed.meta?.changes) {
+      throw notFoundError('Invite');
+    }
+
+    await execute(
+      db,
+      `INSERT INTO workspace_members (workspace_id, user_id, role, invited_by) VALUES (?, ?, ?, ?)`,
+      [invite.workspace_id, session.userId, invite.role, invite.created_by]
+    );
+    await execute(
+      db,
+      `UPDATE users SET last_workspace_id = ?, updated_at = datetime('now') WHERE id = ?`,
+      [invite.workspace_id, session.userId]
+    );
+
+    const workspace = await queryOne<Workspace>(
+      db,
+      'SELECT * FROM workspaces WHERE id = ?',
+      [invite.workspace_id]
+    );
+
+    const response: AcceptInviteResponse = { workspace: workspace as Workspace, role: invite.role };
+    const sessionToken = await createSession(session.userId, invite.workspace_id);
+    return setSessionCookie(NextResponse.json(response, { status: 200 }), sessionToken);
+  } catch (error) {
+    return createErrorResponse(error, { operation: 'accept_invite' });
+  }
+}
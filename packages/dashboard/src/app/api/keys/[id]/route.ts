@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb, execute, queryOne } from '@/lib/db/client';
-import { requireAuth } from '@/lib/auth/middleware';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
+import { recordAudit } from '@/lib/audit/log';
 import { createErrorResponse } from '@/lib/utils/errors';
 import type { UpdateApiKeyRequest, UpdateApiKeyResponse, ApiKey } from '@taskinfa/shared';
 
@@ -11,15 +13,16 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify session authentication
-    const session = await requireAuth(request);
+    // Dashboard session, or an API key with the keys:admin scope
+    const auth = await authenticateRequestUnified(request);
 
-    if (!session) {
+    if (!auth?.userId) {
       return NextResponse.json(
         { error: 'Not authenticated' },
         { status: 401 }
       );
     }
+    requireScope(auth, 'keys:admin');
 
     const { id } = await params;
     const db = getDb();
@@ -27,7 +30,7 @@ export async function DELETE(
     // Verify key exists and belongs to user
     const key = await queryOne<ApiKey>(
       db,
-      'SELECT id, user_id FROM api_keys WHERE id = ?',
+      'SELECT id, workspace_id, user_id, name FROM api_keys WHERE id = ?',
       [id]
     );
 
@@ -39,7 +42,7 @@ export async function DELETE(
     }
 
     // Verify ownership
-    if (key.user_id !== session.userId) {
+    if (key.user_id !== auth.userId) {
       return NextResponse.json(
         { error: 'Unauthorized to delete this API key' },
         { status: 403 }
@@ -53,6 +56,14 @@ export async function DELETE(
       [id]
     );
 
+    await recordAudit(db, { ...auth, workspaceId: key.workspace_id }, {
+      action: 'api_key.revoke',
+      entityType: 'api_key',
+      entityId: id,
+      before: { name: key.name, is_active: true },
+      after: { name: key.name, is_active: false },
+    });
+
     return NextResponse.json(
       { success: true, message: 'API key revoked successfully' },
       { status: 200 }
@@ -69,15 +80,16 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify session authentication
-    const session = await requireAuth(request);
+    // Dashboard session, or an API key with the keys:admin scope
+    const auth = await authenticateRequestUnified(request);
 
-    if (!session) {
+    if (!auth?.userId) {
       return NextResponse.json(
         { error: 'Not authenticated' },
         { status: 401 }
       );
     }
+    requireScope(auth, 'keys:admin');
 
     const { id } = await params;
     const body: UpdateApiKeyRequest = await request.json();
@@ -103,7 +115,7 @@ export async function PATCH(
     // Verify key exists and belongs to user
     const key = await queryOne<ApiKey>(
       db,
-      'SELECT id, user_id, is_active FROM api_keys WHERE id = ?',
+      'SELECT id, workspace_id, user_id, name, is_active FROM api_keys WHERE id = ?',
       [id]
     );
 
@@ -115,7 +127,7 @@ export async function PATCH(
     }
 
     // Verify ownership
-    if (key.user_id !== session.userId) {
+    if (key.user_id !== auth.userId) {
       return NextResponse.json(
         { error: 'Unauthorized to update this API key' },
         { status: 403 }
@@ -137,6 +149,14 @@ export async function PATCH(
       [name.trim(), id]
     );
 
+    await recordAudit(db, { ...auth, workspaceId: key.workspace_id }, {
+      action: 'api_key.rename',
+      entityType: 'api_key',
+      entityId: id,
+      before: { name: key.name },
+      after: { name: name.trim() },
+    });
+
     const response: UpdateApiKeyResponse = {
       success: true,
       key: {
@@ -1,49 +1,108 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb, query } from '@/lib/db/client';
-import { requireAuth } from '@/lib/auth/middleware';
-import { generateApiKey } from '@/lib/auth/jwt';
+import { authenticateRequestUnified, generateApiKey } from '@/lib/auth/jwt';
+import { parseKeyRestriction, requireScope } from '@/lib/auth/scopes';
+import { recordAudit } from '@/lib/audit/log';
 import { createErrorResponse } from '@/lib/utils/errors';
-import { checkRateLimit, createRateLimitResponse, sessionRateLimitKey, RATE_LIMITS } from '@/lib/middleware/rateLimit';
+import {
+  checkRateLimit,
+  createRateLimitResponse,
+  sessionRateLimitKey,
+  apiKeyRateLimitKey,
+  getTierRateLimit,
+  RATE_LIMITS,
+  type RateLimitConfig,
+} from '@/lib/middleware/rateLimit';
 import { applyRateLimitHeaders } from '@/lib/middleware/apiRateLimit';
-import type { CreateApiKeyRequest, CreateApiKeyResponse, ListApiKeysResponse, ApiKey } from '@taskinfa/shared';
+import { API_KEY_SCOPES, RATE_LIMIT_TIERS, resolveRateLimitTier } from '@taskinfa/shared';
+import type {
+  ApiKeyScope,
+  RateLimitTier,
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+  ListApiKeysResponse,
+} from '@taskinfa/shared';
 
 
 // GET /api/keys - List user's API keys
 export async function GET(request: NextRequest) {
   try {
-    // Verify session authentication
-    const session = await requireAuth(request);
+    // Dashboard session, or an API key with the keys:admin scope
+    const auth = await authenticateRequestUnified(request);
 
-    if (!session) {
+    if (!auth?.userId) {
       return NextResponse.json(
         { error: 'Not authenticated' },
         { status: 401 }
       );
     }
+    requireScope(auth, 'keys:admin');
 
     const db = getDb();
 
-    // Fetch user's active API keys
-    const keys = await query<ApiKey & { key_preview?: string }>(
+    // Fetch user's active API keys for the current workspace; keys act with the creator's role there
+    const keys = await query<{
+      id: string;
+      name: string;
+      key_hash: string;
+      key_preview: string | null;
+      last_used_at: string | null;
+      created_at: string;
+      expires_at: string | null;
+      is_active: number;
+      scopes: string | null;
+      task_list_ids: string | null;
+      rate_limit_tier: RateLimitTier | null;
+    }>(
       db,
-      `SELECT id, name, key_hash, key_preview, last_used_at, created_at, expires_at, is_active
+      `SELECT id, name, key_hash, key_preview, last_used_at, created_at, expires_at, is_active, scopes, task_list_ids, rate_limit_tier
        FROM api_keys
-       WHERE user_id = ? AND is_active = 1
+       WHERE user_id = ? AND workspace_id = ? AND is_active = 1
        ORDER BY created_at DESC`,
-      [session.userId]
+      [auth.userId, auth.workspaceId]
     );
 
+    // Usage in the current window, against the limit of each key's tier
+    const tierLimits: Record<RateLimitTier, RateLimitConfig> = {
+      standard: await getTierRateLimit(db, auth.workspaceId, 'standard'),
+      orchestrator: await getTierRateLimit(db, auth.workspaceId, 'orchestrator'),
+    };
+    // Both tiers count requests in the same one-minute window
+    const windowMs = RATE_LIMITS.API_STANDARD.windowMs;
+    const counts = keys.length === 0 ? [] : await query<{ key: string; count: number }>(
+      db,
+      `SELECT key, COUNT(*) as count FROM rate_limit_entries
+       WHERE key IN (${keys.map(() => '?').join(', ')}) AND timestamp > ?
+       GROUP BY key`,
+      [...keys.map((key) => apiKeyRateLimitKey(key.id)), Date.now() - windowMs]
+    );
+    const usedByKey = new Map(counts.map((row) => [row.key, row.count]));
+
     // Format response with key previews
     const response: ListApiKeysResponse = {
-      keys: keys.map((key) => ({
-        id: key.id,
-        name: key.name,
-        key_preview: key.key_preview || `tk_${key.key_hash.substring(0, 6)}...`,
-        last_used_at: key.last_used_at,
-        created_at: key.created_at,
-        expires_at: key.expires_at,
-        is_active: Boolean(key.is_active),
-      })),
+      keys: keys.map((key) => {
+        const scopes = parseKeyRestriction<ApiKeyScope>(key.scopes);
+        const tier = resolveRateLimitTier(key.rate_limit_tier, scopes);
+        const limit = tierLimits[tier];
+        return {
+          id: key.id,
+          name: key.name,
+          key_preview: key.key_preview || `tk_${key.key_hash.substring(0, 6)}...`,
+          last_used_at: key.last_used_at,
+          created_at: key.created_at,
+          expires_at: key.expires_at,
+          is_active: Boolean(key.is_active),
+          scopes,
+          task_list_ids: parseKeyRestriction<string>(key.task_list_ids),
+          rate_limit_tier: key.rate_limit_tier,
+          usage: {
+            tier,
+            used: usedByKey.get(apiKeyRateLimitKey(key.id)) ?? 0,
+            limit: limit.maxRequests,
+            window_seconds: limit.windowMs / 1000,
+          },
+        };
+      }),
     };
 
     return NextResponse.json(response, { status: 200 });
@@ -54,28 +113,30 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/keys - Generate new API key
+// A key can only hand out scopes and projects it has itself.
 export async function POST(request: NextRequest) {
   try {
-    // Verify session authentication
-    const session = await requireAuth(request);
+    // Dashboard session, or an API key with the keys:admin scope
+    const auth = await authenticateRequestUnified(request);
 
-    if (!session) {
+    if (!auth?.userId) {
       return NextResponse.json(
         { error: 'Not authenticated' },
         { status: 401 }
       );
     }
+    requireScope(auth, 'keys:admin');
 
     // D1-based rate limiting (10/hour per user)
     const db = getDb();
-    const rlKey = sessionRateLimitKey(session.userId, 'api-key-create');
+    const rlKey = sessionRateLimitKey(auth.userId, 'api-key-create');
     const rl = await checkRateLimit(db, rlKey, RATE_LIMITS.API_KEY_CREATE);
     if (!rl.allowed) {
       return createRateLimitResponse(rl);
     }
 
     const body: CreateApiKeyRequest = await request.json();
-    const { name, expiresInDays } = body;
+    const { name, expiresInDays, scopes, taskListIds, rateLimitTier } = body;
 
     // Validate name
     if (!name || name.trim().length === 0) {
@@ -102,16 +163,79 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate scopes if provided; omitted means every scope the caller has
+    if (scopes !== undefined) {
+      if (!Array.isArray(scopes) || scopes.length === 0) {
+        return NextResponse.json(
+          { error: 'Select at least one scope' },
+          { status: 400 }
+        );
+      }
+      const unknown = scopes.find((scope) => !API_KEY_SCOPES.includes(scope));
+      if (unknown !== undefined) {
+        return NextResponse.json(
+          { error: `Unknown scope: ${String(unknown)}` },
+          { status: 400 }
+        );
+      }
+      const missing = scopes.find((scope) => auth.scopes && !auth.scopes.includes(scope));
+      if (missing) {
+        return NextResponse.json(
+          { error: `Cannot grant the ${missing} scope without having it` },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Validate project restriction if provided; omitted means every project the caller can reach
+    if (taskListIds !== undefined) {
+      if (!Array.isArray(taskListIds) || taskListIds.length === 0 || taskListIds.some((id) => typeof id !== 'string')) {
+        return NextResponse.json(
+          { error: 'Select at least one project' },
+          { status: 400 }
+        );
+      }
+      const found = await query<{ id: string }>(
+        db,
+        `SELECT id FROM task_lists WHERE workspace_id = ? AND id IN (${taskListIds.map(() => '?').join(', ')})`,
+        [auth.workspaceId, ...taskListIds]
+      );
+      if (found.length !== new Set(taskListIds).size) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 400 }
+        );
+      }
+      if (auth.taskListIds && taskListIds.some((id) => !auth.taskListIds?.includes(id))) {
+        return NextResponse.json(
+          { error: 'Cannot grant access to projects outside this key\'s restriction' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Validate rate limit tier if provided; omitted means derived from the scopes
+    if (rateLimitTier !== undefined && !RATE_LIMIT_TIERS.includes(rateLimitTier)) {
+      return NextResponse.json(
+        { error: `Unknown rate limit tier: ${String(rateLimitTier)}` },
+        { status: 400 }
+      );
+    }
+
+    const keyScopes = scopes ? [...new Set(scopes)] : auth.scopes ?? null;
+    const keyTaskListIds = taskListIds ? [...new Set(taskListIds)] : auth.taskListIds ?? null;
+
     // Generate API key with user_id
     const { key, id } = await generateApiKey(
-      session.workspaceId,
+      auth.workspaceId,
       name.trim(),
-      session.userId,
-      expiresInDays
+      auth.userId,
+      expiresInDays,
+      { scopes: keyScopes, taskListIds: keyTaskListIds, rateLimitTier: rateLimitTier ?? null }
     );
 
     // Fetch created key details
-    const keyRecord = await query<ApiKey>(
+    const keyRecord = await query<{ created_at: string; expires_at: string | null }>(
       db,
       'SELECT created_at, expires_at FROM api_keys WHERE id = ?',
       [id]
@@ -124,12 +248,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await recordAudit(db, auth, {
+      action: 'api_key.create',
+      entityType: 'api_key',
+      entityId: id,
+      after: {
+        name: name.trim(),
+        expires_at: keyRecord[0].expires_at,
+        scopes: keyScopes,
+        task_list_ids: keyTaskListIds,
+        rate_limit_tier: rateLimitTier ?? null,
+      },
+    });
+
     const response: CreateApiKeyResponse = {
       key, // Plaintext key - ONLY shown once
       id,
       name: name.trim(),
       created_at: keyRecord[0].created_at,
       expires_at: keyRecord[0].expires_at,
+      scopes: keyScopes,
+      task_list_ids: keyTaskListIds,
+      rate_limit_tier: rateLimitTier ?? null,
       warning: "Save this key now. You won't be able to see it again.",
     };
 
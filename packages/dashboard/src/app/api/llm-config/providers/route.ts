@@ -3,7 +3,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, queryOne, execute } from '@/lib/db/client';
+import { recordAudit } from '@/lib/audit/log';
 import type { LlmProviderRecord, LlmProvider } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
 import {
@@ -28,6 +31,8 @@ export async function PATCH(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'llm-config:admin');
 
     const body = await request.json();
     const { provider, base_url, auth_token } = body as {
@@ -92,6 +97,14 @@ export async function PATCH(request: NextRequest) {
       throw new Error('Failed to retrieve updated provider');
     }
 
+    await recordAudit(db, auth, {
+      action: 'llm_provider.update',
+      entityType: 'llm_provider',
+      entityId: provider,
+      before: existing,
+      after: providerRecord,
+    });
+
     return NextResponse.json({ provider: providerRecord });
   } catch (error) {
     return createErrorResponse(error, {
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, query } from '@/lib/db/client';
 import type { LlmProviderRecord, LlmSessionConfig, GetLlmConfigResponse } from '@taskinfa/shared';
 import { createErrorResponse, authenticationError } from '@/lib/utils';
@@ -14,6 +15,7 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'llm-config:admin');
 
     const db = getDb();
 
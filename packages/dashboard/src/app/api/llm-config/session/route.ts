@@ -3,8 +3,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, queryOne, execute } from '@/lib/db/client';
-import type { LlmSessionConfig, LlmSessionType, LlmProvider } from '@taskinfa/shared';
+import { recordAudit } from '@/lib/audit/log';
+import type { LlmSessionConfig, LlmSessionType, LlmProvider, AgentRunnerKind } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
 import {
   createErrorResponse,
@@ -31,6 +34,8 @@ const VALID_PROVIDERS: LlmProvider[] = [
   'custom',
 ];
 
+const VALID_AGENT_RUNNERS: AgentRunnerKind[] = ['claude', 'shell'];
+
 // PATCH /api/llm-config/session - Upsert a session config
 export async function PATCH(request: NextRequest) {
   try {
@@ -38,13 +43,17 @@ export async function PATCH(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'llm-config:admin');
 
     const body = await request.json();
-    const { task_list_id, session_type, provider, model } = body as {
+    const { task_list_id, session_type, provider, model, agent_runner, agent_command } = body as {
       task_list_id?: string | null;
       session_type: LlmSessionType;
       provider: LlmProvider;
       model?: string | null;
+      agent_runner?: AgentRunnerKind | null;
+      agent_command?: string | null;
     };
 
     if (!session_type || !VALID_SESSION_TYPES.includes(session_type)) {
@@ -59,8 +68,19 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    if (agent_runner != null && !VALID_AGENT_RUNNERS.includes(agent_runner)) {
+      throw validationError(
+        `Invalid agent_runner: ${agent_runner}. Valid runners: ${VALID_AGENT_RUNNERS.join(', ')}`
+      );
+    }
+
+    if (agent_runner === 'shell' && !agent_command?.trim()) {
+      throw validationError('agent_command is required for the shell runner');
+    }
+
     const db = getDb();
     const effectiveTaskListId = task_list_id ?? null;
+    const effectiveCommand = agent_runner === 'shell' ? agent_command!.trim() : null;
 
     // Find existing config — handle NULL task_list_id carefully
     let existing: LlmSessionConfig | null;
@@ -81,17 +101,25 @@ export async function PATCH(request: NextRequest) {
     if (existing) {
       await execute(
         db,
-        `UPDATE llm_session_config SET provider = ?, model = ?, updated_at = datetime('now') WHERE id = ?`,
-        [provider, model ?? null, existing.id]
+        `UPDATE llm_session_config SET provider = ?, model = ?, agent_runner = ?, agent_command = ?, updated_at = datetime('now') WHERE id = ?`,
+        // Runner columns are only touched when agent_runner is sent, so provider-only
+        // saves from the settings UI keep an existing runner override
+        [
+          provider,
+          model ?? null,
+          agent_runner === undefined ? existing.agent_runner : agent_runner,
+          agent_runner === undefined ? existing.agent_command : effectiveCommand,
+          existing.id,
+        ]
       );
     } else {
       const id = `llmsc_${nanoid()}`;
 
       await execute(
         db,
-        `INSERT INTO llm_session_config (id, workspace_id, task_list_id, session_type, provider, model)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [id, auth.workspaceId, effectiveTaskListId, session_type, provider, model ?? null]
+        `INSERT INTO llm_session_config (id, workspace_id, task_list_id, session_type, provider, model, agent_runner, agent_command)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, auth.workspaceId, effectiveTaskListId, session_type, provider, model ?? null, agent_runner ?? null, effectiveCommand]
       );
     }
 
@@ -115,6 +143,14 @@ export async function PATCH(request: NextRequest) {
       throw new Error('Failed to retrieve updated session config');
     }
 
+    await recordAudit(db, auth, {
+      action: 'llm_session_config.update',
+      entityType: 'llm_session_config',
+      entityId: sessionConfig.id,
+      before: existing,
+      after: sessionConfig,
+    });
+
     return NextResponse.json({ session_config: sessionConfig });
   } catch (error) {
     return createErrorResponse(error, {
@@ -131,6 +167,8 @@ export async function DELETE(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'llm-config:admin');
 
     const body = await request.json();
     const { task_list_id, session_type } = body as {
@@ -147,18 +185,30 @@ export async function DELETE(request: NextRequest) {
     const db = getDb();
     const effectiveTaskListId = task_list_id ?? null;
 
-    if (effectiveTaskListId === null) {
-      await execute(
-        db,
-        'DELETE FROM llm_session_config WHERE workspace_id = ? AND session_type = ? AND task_list_id IS NULL',
-        [auth.workspaceId, session_type]
-      );
-    } else {
-      await execute(
-        db,
-        'DELETE FROM llm_session_config WHERE workspace_id = ? AND session_type = ? AND task_list_id = ?',
-        [auth.workspaceId, session_type, effectiveTaskListId]
-      );
+    // Same NULL handling as PATCH; the row is kept for the audit log
+    const condition = effectiveTaskListId === null
+      ? { sql: 'workspace_id = ? AND session_type = ? AND task_list_id IS NULL', params: [auth.workspaceId, session_type] }
+      : { sql: 'workspace_id = ? AND session_type = ? AND task_list_id = ?', params: [auth.workspaceId, session_type, effectiveTaskListId] };
+
+    const existing = await queryOne<LlmSessionConfig>(
+      db,
+      `SELECT * FROM llm_session_config WHERE ${condition.sql}`,
+      condition.params
+    );
+
+    await execute(
+      db,
+      `DELETE FROM llm_session_config WHERE ${condition.sql}`,
+      condition.params
+    );
+
+    if (existing) {
+      await recordAudit(db, auth, {
+        action: 'llm_session_config.delete',
+        entityType: 'llm_session_config',
+        entityId: existing.id,
+        before: existing,
+      });
     }
 
     return NextResponse.json({ deleted: true });
@@ -0,0 +1,79 @@
+// API Route: /api/orchestrator/commands/[id]
+// Orchestrators report the outcome of a control command they were handed
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validateEnum,
+  validateInteger,
+  validateString,
+} from '@/lib/utils';
+import { COMMAND_COLUMNS } from '@/lib/orchestrator/control';
+import type { OrchestratorCommand, CompleteOrchestratorCommandRequest } from '@taskinfa/shared';
+
+const COMPLETION_STATUSES = ['done', 'failed'] as const;
+
+// PATCH /api/orchestrator/commands/[id] - Mark a command done or failed, with an optional result message
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'sessions:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id: idParam } = await params;
+    const id = validateInteger(idParam, { fieldName: 'id', min: 1 });
+    const body: CompleteOrchestratorCommandRequest = await request.json();
+
+    const status = validateEnum(body.status, COMPLETION_STATUSES, {
+      fieldName: 'status',
+      required: true,
+    });
+    const result = validateString(body.result, { fieldName: 'result', maxLength: 1000 });
+
+    const db = getDb();
+
+    const existing = await queryOne<{ id: number }>(
+      db,
+      'SELECT id FROM orchestrator_commands WHERE id = ? AND workspace_id = ?',
+      [id, auth.workspaceId]
+    );
+    if (!existing) {
+      throw notFoundError('Command');
+    }
+
+    await execute(
+      db,
+      `UPDATE orchestrator_commands SET status = ?, result = ?, completed_at = datetime('now')
+       WHERE id = ? AND workspace_id = ?`,
+      [status, result, id, auth.workspaceId]
+    );
+
+    const command = await queryOne<OrchestratorCommand>(
+      db,
+      `SELECT ${COMMAND_COLUMNS}
+       FROM orchestrator_commands WHERE id = ?`,
+      [id]
+    );
+    return jsonWithRateLimit({ command }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'complete_orchestrator_command',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,117 @@
+// API Route: /api/orchestrator/commands
+// Queue a control command (pause, resume, drain, kill a session, poll now) for an orchestrator
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validationError,
+  validateEnum,
+  validateString,
+} from '@/lib/utils';
+import { COMMAND_COLUMNS, ORCHESTRATOR_COMMANDS } from '@/lib/orchestrator/control';
+import { emitWorkSignal } from '@/lib/orchestrator/signals';
+import type {
+  OrchestratorCommand,
+  CreateOrchestratorCommandRequest,
+  CreateOrchestratorCommandResponse,
+} from '@taskinfa/shared';
+
+// POST /api/orchestrator/commands - Queue a command; the orchestrator picks it up with its next heartbeat
+// kill_session may omit orchestrator_id: the command goes to the orchestrator running the session.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: CreateOrchestratorCommandRequest = await request.json();
+
+    const command = validateEnum(body.command, ORCHESTRATOR_COMMANDS, {
+      fieldName: 'command',
+      required: true,
+    });
+    let orchestratorId = validateString(body.orchestrator_id, {
+      fieldName: 'orchestrator_id',
+      maxLength: 200,
+    });
+    const sessionId = validateString(body.session_id, { fieldName: 'session_id' });
+
+    const db = getDb();
+
+    if (command === 'kill_session') {
+      if (!sessionId) {
+        throw validationError('session_id is required for kill_session');
+      }
+      const session = await queryOne<{ status: string; holder_id: string | null }>(
+        db,
+        'SELECT status, holder_id FROM sessions WHERE id = ? AND workspace_id = ?',
+        [sessionId, auth.workspaceId]
+      );
+      if (!session) {
+        throw notFoundError('Session');
+      }
+      if (!['active', 'idle', 'stuck'].includes(session.status)) {
+        throw validationError('Session is not running');
+      }
+      if (!session.holder_id) {
+        throw validationError('Session was not started by a registered orchestrator');
+      }
+      if (orchestratorId && orchestratorId !== session.holder_id) {
+        throw validationError('Session belongs to a different orchestrator');
+      }
+      orchestratorId = session.holder_id;
+    } else if (sessionId) {
+      throw validationError('session_id is only valid for kill_session');
+    }
+
+    if (!orchestratorId) {
+      throw validationError('orchestrator_id is required');
+    }
+
+    const orchestrator = await queryOne<{ id: string }>(
+      db,
+      'SELECT id FROM orchestrators WHERE workspace_id = ? AND id = ?',
+      [auth.workspaceId, orchestratorId]
+    );
+    if (!orchestrator) {
+      throw notFoundError('Orchestrator');
+    }
+
+    const result = await execute(
+      db,
+      `INSERT INTO orchestrator_commands (workspace_id, orchestrator_id, command, session_id, created_by)
+       VALUES (?, ?, ?, ?, ?)`,
+      [auth.workspaceId, orchestratorId, command, sessionId, auth.userId ?? null]
+    );
+
+    // Wake the orchestrator's long-poll so it heartbeats right away instead of on its timer
+    await emitWorkSignal(db, auth.workspaceId, 'orchestrator_command');
+
+    const created = await queryOne<OrchestratorCommand>(
+      db,
+      `SELECT ${COMMAND_COLUMNS}
+       FROM orchestrator_commands WHERE id = ?`,
+      [result.meta?.last_row_id]
+    );
+
+    const response: CreateOrchestratorCommandResponse = { command: created as OrchestratorCommand };
+    return jsonWithRateLimit(response, rl.result, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'create_orchestrator_command',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,129 @@
+// API Route: /api/orchestrator/heartbeat
+// Orchestrator registration and status reports; the response carries queued control commands
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  validationError,
+  validateEnum,
+  validateInteger,
+  validateString,
+} from '@/lib/utils';
+import { COMMAND_COLUMNS, ORCHESTRATOR_STATES } from '@/lib/orchestrator/control';
+import type {
+  OrchestratorCommand,
+  OrchestratorHeartbeatRequest,
+  OrchestratorHeartbeatResponse,
+} from '@taskinfa/shared';
+
+const MAX_REPORTED_SESSIONS = 100;
+
+// POST /api/orchestrator/heartbeat - Register or refresh an orchestrator and collect its commands
+// A new pid under the same orchestrator_id is a restart: started_at is reset.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'sessions:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: OrchestratorHeartbeatRequest = await request.json();
+
+    const orchestratorId = validateString(body.orchestrator_id, {
+      fieldName: 'orchestrator_id',
+      required: true,
+      maxLength: 200,
+    }) as string;
+    const state = validateEnum(body.state, ORCHESTRATOR_STATES, {
+      fieldName: 'state',
+      required: true,
+    });
+    const hostname = validateString(body.hostname, { fieldName: 'hostname', maxLength: 255 });
+    const version = validateString(body.version, { fieldName: 'version', maxLength: 100 });
+    const pid = body.pid === undefined || body.pid === null
+      ? null
+      : validateInteger(String(body.pid), { fieldName: 'pid', min: 0 });
+
+    const config = body.config ?? {};
+    if (typeof config !== 'object' || Array.isArray(config)) {
+      throw validationError('config must be an object');
+    }
+    const activeSessions = body.active_sessions ?? [];
+    if (!Array.isArray(activeSessions) || activeSessions.length > MAX_REPORTED_SESSIONS) {
+      throw validationError(`active_sessions must be an array of at most ${MAX_REPORTED_SESSIONS} sessions`);
+    }
+
+    const db = getDb();
+
+    const existing = await queryOne<{ pid: number | null }>(
+      db,
+      'SELECT pid FROM orchestrators WHERE workspace_id = ? AND id = ?',
+      [auth.workspaceId, orchestratorId]
+    );
+
+    if (existing) {
+      await execute(
+        db,
+        `UPDATE orchestrators
+         SET hostname = ?, pid = ?, version = ?, state = ?, config = ?, active_sessions = ?,
+             started_at = CASE WHEN pid IS ? THEN started_at ELSE datetime('now') END,
+             last_heartbeat_at = datetime('now')
+         WHERE workspace_id = ? AND id = ?`,
+        [
+          hostname, pid, version, state, JSON.stringify(config), JSON.stringify(activeSessions),
+          pid, auth.workspaceId, orchestratorId,
+        ]
+      );
+    } else {
+      await execute(
+        db,
+        `INSERT INTO orchestrators (id, workspace_id, hostname, pid, version, state, config, active_sessions)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          orchestratorId, auth.workspaceId, hostname, pid, version, state,
+          JSON.stringify(config), JSON.stringify(activeSessions),
+        ]
+      );
+    }
+
+    // A stopping orchestrator won't act on anything; leave its commands queued
+    let commands: OrchestratorCommand[] = [];
+    if (state !== 'stopped') {
+      commands = await query<OrchestratorCommand>(
+        db,
+        `SELECT ${COMMAND_COLUMNS}
+         FROM orchestrator_commands
+         WHERE workspace_id = ? AND orchestrator_id = ? AND status = 'pending'
+         ORDER BY id ASC`,
+        [auth.workspaceId, orchestratorId]
+      );
+      if (commands.length > 0) {
+        await execute(
+          db,
+          `UPDATE orchestrator_commands SET status = 'delivered'
+           WHERE workspace_id = ? AND id IN (${commands.map(() => '?').join(', ')})`,
+          [auth.workspaceId, ...commands.map(c => c.id)]
+        );
+        commands = commands.map(c => ({ ...c, status: 'delivered' as const }));
+      }
+    }
+
+    const response: OrchestratorHeartbeatResponse = { commands };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'orchestrator_heartbeat',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+// API Route: /api/orchestrator
+// Registered orchestrators with their last heartbeat, plus recent control commands
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { createErrorResponse, authenticationError } from '@/lib/utils';
+import {
+  COMMAND_COLUMNS,
+  ORCHESTRATOR_ONLINE_WINDOW,
+  toOrchestratorInstance,
+  type OrchestratorRow,
+} from '@/lib/orchestrator/control';
+import type { OrchestratorCommand, ListOrchestratorsResponse } from '@taskinfa/shared';
+
+// Orchestrators that have not sent a heartbeat for this long are no longer listed
+const LIST_WINDOW = '-1 day';
+const RECENT_COMMANDS = 20;
+
+// GET /api/orchestrator - Orchestrators seen in the last day, online ones first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+
+    const rows = await query<OrchestratorRow>(
+      db,
+      `SELECT *, (state != 'stopped' AND last_heartbeat_at >= datetime('now', ?)) as online
+       FROM orchestrators
+       WHERE workspace_id = ? AND last_heartbeat_at >= datetime('now', ?)
+       ORDER BY online DESC, last_heartbeat_at DESC`,
+      [ORCHESTRATOR_ONLINE_WINDOW, auth.workspaceId, LIST_WINDOW]
+    );
+
+    const commands = await query<OrchestratorCommand>(
+      db,
+      `SELECT ${COMMAND_COLUMNS}
+       FROM orchestrator_commands
+       WHERE workspace_id = ?
+       ORDER BY id DESC LIMIT ?`,
+      [auth.workspaceId, RECENT_COMMANDS]
+    );
+
+    const response: ListOrchestratorsResponse = {
+      orchestrators: rows.map(toOrchestratorInstance),
+      commands,
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_orchestrators',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
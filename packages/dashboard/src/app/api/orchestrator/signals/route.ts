@@ -0,0 +1,85 @@
+// API Route: /api/orchestrator/signals
+// Long-poll feed of "work available" signals (task status changes, new human messages)
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne } from '@/lib/db/client';
+import { pruneWorkSignals } from '@/lib/orchestrator/signals';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  validateInteger,
+} from '@/lib/utils';
+import type { WorkSignal, GetWorkSignalsResponse } from '@taskinfa/shared';
+
+const DEFAULT_WAIT_SECONDS = 25;
+const MAX_WAIT_SECONDS = 50;
+const CHECK_INTERVAL_MS = 2000;
+
+// GET /api/orchestrator/signals?after=<cursor>&wait=<seconds>
+// Without `after`, returns the current cursor immediately so a new subscriber starts from now.
+// With `after`, holds the request until a newer signal exists or `wait` seconds pass.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { searchParams } = new URL(request.url);
+    const afterParam = searchParams.get('after');
+    const wait = validateInteger(searchParams.get('wait'), {
+      fieldName: 'wait',
+      min: 0,
+      max: MAX_WAIT_SECONDS,
+      defaultValue: DEFAULT_WAIT_SECONDS,
+    });
+
+    const db = getDb();
+
+    if (afterParam === null || afterParam === '') {
+      // New subscriber: prune old signals and hand out the current position
+      await pruneWorkSignals(db, auth.workspaceId);
+      const latest = await queryOne<{ cursor: number | null }>(
+        db,
+        'SELECT MAX(id) as cursor FROM work_signals WHERE workspace_id = ?',
+        [auth.workspaceId]
+      );
+      const response: GetWorkSignalsResponse = { signals: [], cursor: latest?.cursor ?? 0 };
+      return jsonWithRateLimit(response, rl.result);
+    }
+
+    const after = validateInteger(afterParam, { fieldName: 'after', min: 0 });
+    const deadline = Date.now() + wait * 1000;
+
+    for (;;) {
+      const signals = await query<WorkSignal>(
+        db,
+        `SELECT id, reason, task_id, created_at FROM work_signals
+         WHERE workspace_id = ? AND id > ?
+         ORDER BY id ASC LIMIT 100`,
+        [auth.workspaceId, after]
+      );
+
+      if (signals.length > 0 || Date.now() + CHECK_INTERVAL_MS > deadline || request.signal.aborted) {
+        const response: GetWorkSignalsResponse = {
+          signals,
+          cursor: signals.length > 0 ? signals[signals.length - 1].id : after,
+        };
+        return jsonWithRateLimit(response, rl.result);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, CHECK_INTERVAL_MS));
+    }
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'get_work_signals',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
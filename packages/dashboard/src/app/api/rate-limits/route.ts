@@ -0,0 +1,112 @@
+// API Route: /api/rate-limits
+// Per-minute API limit of each rate limit tier, with workspace overrides
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { API_TIER_LIMITS } from '@/lib/middleware/rateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+import { RATE_LIMIT_TIERS, RATE_LIMIT_OVERRIDE_BOUNDS } from '@taskinfa/shared';
+import type {
+  RateLimitTier,
+  WorkspaceRateLimit,
+  ListRateLimitsResponse,
+  UpdateRateLimitRequest,
+  UpdateRateLimitResponse,
+} from '@taskinfa/shared';
+
+function toRateLimit(tier: RateLimitTier, override: number | null): WorkspaceRateLimit {
+  const config = API_TIER_LIMITS[tier];
+  return {
+    tier,
+    default_max_requests: config.maxRequests,
+    max_requests: override,
+    window_seconds: config.windowMs / 1000,
+  };
+}
+
+// GET /api/rate-limits - Every tier with its default and the workspace override
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const overrides = await query<{ tier: RateLimitTier; max_requests: number }>(
+      db,
+      'SELECT tier, max_requests FROM workspace_rate_limits WHERE workspace_id = ?',
+      [auth.workspaceId]
+    );
+
+    const response: ListRateLimitsResponse = {
+      limits: RATE_LIMIT_TIERS.map((tier) =>
+        toRateLimit(tier, overrides.find((o) => o.tier === tier)?.max_requests ?? null)
+      ),
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_rate_limits',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// PUT /api/rate-limits - Override the limit of a tier; null restores the default
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: UpdateRateLimitRequest = await request.json();
+    const tier = validateEnum(body.tier, RATE_LIMIT_TIERS, { fieldName: 'tier', required: true }) as RateLimitTier;
+    const maxRequests = body.max_requests === null || body.max_requests === undefined
+      ? null
+      : validateInteger(String(body.max_requests), { fieldName: 'max_requests', ...RATE_LIMIT_OVERRIDE_BOUNDS });
+
+    const db = getDb();
+
+    if (maxRequests === null) {
+      await execute(
+        db,
+        'DELETE FROM workspace_rate_limits WHERE workspace_id = ? AND tier = ?',
+        [auth.workspaceId, tier]
+      );
+    } else {
+      await execute(
+        db,
+        `INSERT INTO workspace_rate_limits (workspace_id, tier, max_requests)
+         VALUES (?, ?, ?)
+         ON CONFLICT (workspace_id, tier) DO UPDATE SET max_requests = excluded.max_requests, updated_at = datetime('now')`,
+        [auth.workspaceId, tier, maxRequests]
+      );
+    }
+
+    const response: UpdateRateLimitResponse = { limit: toRateLimit(tier, maxRequests) };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'update_rate_limit',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
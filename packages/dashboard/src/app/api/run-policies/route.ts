@@ -0,0 +1,155 @@
+// API Route: /api/run-policies
+// Retry limits, session timeouts and retry backoff per workspace, project and session type
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { nanoid } from 'nanoid';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validationError,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+import { LLM_SESSION_TYPE_LABELS, RUN_POLICY_BOUNDS } from '@taskinfa/shared';
+import type {
+  LlmSessionType,
+  RunPolicy,
+  RunPolicySettings,
+  ListRunPoliciesResponse,
+  UpsertRunPolicyRequest,
+  UpsertRunPolicyResponse,
+} from '@taskinfa/shared';
+
+const VALID_SESSION_TYPES = Object.keys(LLM_SESSION_TYPE_LABELS) as LlmSessionType[];
+const SETTING_FIELDS = Object.keys(RUN_POLICY_BOUNDS) as (keyof RunPolicySettings)[];
+
+async function findPolicy(
+  db: ReturnType<typeof getDb>,
+  workspaceId: string,
+  taskListId: string | null,
+  sessionType: LlmSessionType | null
+): Promise<RunPolicy | null> {
+  return queryOne<RunPolicy>(
+    db,
+    `SELECT * FROM run_policies
+     WHERE workspace_id = ? AND COALESCE(task_list_id, '') = ? AND COALESCE(session_type, '') = ?`,
+    [workspaceId, taskListId ?? '', sessionType ?? '']
+  );
+}
+
+// GET /api/run-policies - All policies of the workspace, broadest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const policies = await query<RunPolicy>(
+      db,
+      `SELECT * FROM run_policies WHERE workspace_id = ?
+       ORDER BY task_list_id IS NOT NULL, task_list_id, session_type IS NOT NULL, session_type`,
+      [auth.workspaceId]
+    );
+
+    const response: ListRunPoliciesResponse = { policies };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_run_policies',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// PUT /api/run-policies - Set the policy for a scope (workspace, or task_list_id, and/or session_type)
+// null (or omitted) settings inherit; clearing all of them removes the policy.
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: UpsertRunPolicyRequest = await request.json();
+    const taskListId = body.task_list_id ?? null;
+    const sessionType = validateEnum(body.session_type ?? null, VALID_SESSION_TYPES, {
+      fieldName: 'session_type',
+      required: false,
+    });
+
+    const values = SETTING_FIELDS.map((field) => {
+      const value = body[field];
+      if (value === undefined || value === null) return null;
+      return validateInteger(String(value), { fieldName: field, ...RUN_POLICY_BOUNDS[field] });
+    });
+
+    const concurrencyIndex = SETTING_FIELDS.indexOf('max_concurrent_sessions');
+    if (values[concurrencyIndex] !== null && (taskListId !== null || sessionType !== null)) {
+      throw validationError('max_concurrent_sessions can only be set on the workspace-wide policy');
+    }
+
+    const db = getDb();
+
+    if (taskListId !== null) {
+      const project = await queryOne<{ id: string }>(
+        db,
+        'SELECT id FROM task_lists WHERE id = ? AND workspace_id = ?',
+        [taskListId, auth.workspaceId]
+      );
+      if (!project) {
+        throw notFoundError('Project');
+      }
+    }
+
+    const existing = await findPolicy(db, auth.workspaceId, taskListId, sessionType);
+
+    if (values.every(v => v === null)) {
+      if (existing) {
+        await execute(db, 'DELETE FROM run_policies WHERE id = ?', [existing.id]);
+      }
+      const response: UpsertRunPolicyResponse = { policy: null };
+      return jsonWithRateLimit(response, rl.result);
+    }
+
+    if (existing) {
+      await execute(
+        db,
+        `UPDATE run_policies SET ${SETTING_FIELDS.map(f => `${f} = ?`).join(', ')}, updated_at = datetime('now')
+         WHERE id = ?`,
+        [...values, existing.id]
+      );
+    } else {
+      await execute(
+        db,
+        `INSERT INTO run_policies (id, workspace_id, task_list_id, session_type, ${SETTING_FIELDS.join(', ')})
+         VALUES (?, ?, ?, ?, ${SETTING_FIELDS.map(() => '?').join(', ')})`,
+        [`rpol_${nanoid()}`, auth.workspaceId, taskListId, sessionType, ...values]
+      );
+    }
+
+    const response: UpsertRunPolicyResponse = {
+      policy: await findPolicy(db, auth.workspaceId, taskListId, sessionType),
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'upsert_run_policy',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, execute, queryOne } from '@/lib/db/client';
 import {
   createErrorResponse,
@@ -15,6 +16,7 @@ export async function DELETE(
   try {
     const auth = await authenticateRequestUnified(request);
     if (!auth) throw authenticationError();
+    requireScope(auth, 'tasks:read');
 
     const { id } = await params;
     const db = getDb();
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
 import { nanoid } from 'nanoid';
 import {
@@ -14,6 +15,7 @@ export async function GET(request: NextRequest) {
   try {
     const auth = await authenticateRequestUnified(request);
     if (!auth) throw authenticationError();
+    requireScope(auth, 'tasks:read');
 
     const db = getDb();
     const filters = await query(
@@ -33,6 +35,7 @@ export async function POST(request: NextRequest) {
   try {
     const auth = await authenticateRequestUnified(request);
     if (!auth) throw authenticationError();
+    requireScope(auth, 'tasks:read');
 
     const body = await request.json() as { name?: string; filters?: Record<string, unknown> };
     const name = validateString(body.name, { fieldName: 'name', required: true, minLength: 1, maxLength: 100 });
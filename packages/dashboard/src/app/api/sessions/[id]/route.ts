@@ -3,18 +3,38 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
 import { getDb, query, queryOne, execute } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { dispatchSessionEvent, sessionStatusEvent } from '@/lib/notifications/webhooks';
 import {
   createErrorResponse,
   authenticationError,
   notFoundError,
+  validationError,
   validateString,
   validateEnum,
 } from '@/lib/utils';
-import type { Session, UpdateSessionRequest } from '@taskinfa/shared';
+import type { Session, SessionUsage, UpdateSessionRequest } from '@taskinfa/shared';
 
 const VALID_STATUSES = ['active', 'idle', 'stuck', 'completed', 'error'] as const;
+const USAGE_FIELDS = ['input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_creation_tokens', 'cost_usd'] as const;
+
+function validateUsage(usage: unknown): SessionUsage {
+  if (!usage || typeof usage !== 'object') {
+    throw validationError('usage must be an object');
+  }
+  const result = {} as SessionUsage;
+  for (const field of USAGE_FIELDS) {
+    const value = (usage as Record<string, unknown>)[field] ?? 0;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw validationError(`usage.${field} must be a non-negative number`);
+    }
+    result[field] = field === 'cost_usd' ? value : Math.round(value);
+  }
+  return result;
+}
 
 // GET /api/sessions/[id]
 export async function GET(
@@ -26,6 +46,7 @@ export async function GET(
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -74,6 +95,8 @@ export async function PATCH(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'sessions:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -94,7 +117,7 @@ export async function PATCH(
     }
 
     const updates: string[] = [];
-    const values: (string | null)[] = [];
+    const values: (string | number | null)[] = [];
 
     if (body.status !== undefined) {
       const status = validateEnum(body.status, VALID_STATUSES, {
@@ -125,6 +148,29 @@ export async function PATCH(
       values.push(body.last_event_at);
     }
 
+    if (body.model !== undefined) {
+      const model = validateString(body.model, {
+        fieldName: 'model',
+        required: false,
+        maxLength: 200,
+      });
+      updates.push('model = ?');
+      values.push(model || null);
+    }
+
+    // Usage is cumulative per session; the task's totals move by the difference so a
+    // repeated report doesn't count twice
+    let usageDelta: SessionUsage | null = null;
+    if (body.usage !== undefined) {
+      const usage = validateUsage(body.usage);
+      usageDelta = {} as SessionUsage;
+      for (const field of USAGE_FIELDS) {
+        updates.push(`${field} = ?`);
+        values.push(usage[field]);
+        usageDelta[field] = usage[field] - (existing[field] ?? 0);
+      }
+    }
+
     if (updates.length === 0) {
       return jsonWithRateLimit({ session: existing }, rl.result);
     }
@@ -138,12 +184,27 @@ export async function PATCH(
       values
     );
 
+    if (usageDelta && existing.current_task_id) {
+      const delta = usageDelta;
+      await execute(
+        db,
+        `UPDATE tasks SET ${USAGE_FIELDS.map(f => `${f} = ${f} + ?`).join(', ')}
+         WHERE id = ? AND workspace_id = ?`,
+        [...USAGE_FIELDS.map(f => delta[f]), existing.current_task_id, auth.workspaceId]
+      );
+    }
+
     const updated = await queryOne<Session>(
       db,
       'SELECT * FROM sessions WHERE id = ?',
       [id]
     );
 
+    const statusEvent = updated && sessionStatusEvent(existing.status, updated.status);
+    if (updated && statusEvent) {
+      await dispatchSessionEvent(db, auth.workspaceId, statusEvent, updated);
+    }
+
     return jsonWithRateLimit({ session: updated }, rl.result);
   } catch (error) {
     return createErrorResponse(error, { operation: 'update_session' });
@@ -0,0 +1,172 @@
+// API Route: /api/sessions/[id]/transcript
+// Append and read the agent transcript (assistant messages, tool calls, file edits) of a session
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validationError,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+import type {
+  AppendTranscriptRequest,
+  AppendTranscriptResponse,
+  GetTranscriptResponse,
+  SessionTranscriptEntry,
+} from '@taskinfa/shared';
+
+const VALID_KINDS = ['system', 'assistant', 'tool_use', 'file_edit', 'tool_result', 'stderr', 'result'] as const;
+const MAX_ENTRIES_PER_REQUEST = 100;
+const MAX_CONTENT_LENGTH = 20000;
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 500;
+
+async function requireSession(db: ReturnType<typeof getDb>, id: string, workspaceId: string): Promise<void> {
+  const session = await queryOne<{ id: string }>(
+    db,
+    'SELECT id FROM sessions WHERE id = ? AND workspace_id = ?',
+    [id, workspaceId]
+  );
+  if (!session) {
+    throw notFoundError('Session');
+  }
+}
+
+// GET /api/sessions/[id]/transcript?after=<seq>&limit= - Entries after a cursor, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const after = validateInteger(searchParams.get('after'), {
+      fieldName: 'after',
+      min: -1,
+      defaultValue: -1,
+    });
+    const limit = validateInteger(searchParams.get('limit'), {
+      fieldName: 'limit',
+      min: 1,
+      max: MAX_PAGE_SIZE,
+      defaultValue: DEFAULT_PAGE_SIZE,
+    });
+
+    const db = getDb();
+    await requireSession(db, id, auth.workspaceId);
+
+    // One extra row tells the viewer whether to keep paging
+    const rows = await query<SessionTranscriptEntry & { metadata: string }>(
+      db,
+      `SELECT id, session_id, seq, kind, tool_name, content, metadata, created_at
+       FROM session_transcript_entries
+       WHERE session_id = ? AND seq > ?
+       ORDER BY seq ASC
+       LIMIT ?`,
+      [id, after, limit + 1]
+    );
+
+    const page = rows.slice(0, limit);
+    const entries: SessionTranscriptEntry[] = page.map((row) => ({
+      ...row,
+      metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata,
+    }));
+
+    const response: GetTranscriptResponse = {
+      entries,
+      cursor: entries.length > 0 ? entries[entries.length - 1].seq : after,
+      has_more: rows.length > limit,
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'get_session_transcript',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// POST /api/sessions/[id]/transcript - Append a chunk of entries
+// Entries whose seq is already stored are skipped, so the orchestrator can safely re-send.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'sessions:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const body: AppendTranscriptRequest = await request.json();
+
+    if (!Array.isArray(body.entries) || body.entries.length === 0) {
+      throw validationError('entries must be a non-empty array');
+    }
+    if (body.entries.length > MAX_ENTRIES_PER_REQUEST) {
+      throw validationError(`At most ${MAX_ENTRIES_PER_REQUEST} entries per request`);
+    }
+
+    const entries = body.entries.map((entry) => {
+      if (!Number.isInteger(entry.seq) || entry.seq < 0) {
+        throw validationError('Each entry needs a non-negative integer seq');
+      }
+      if (typeof entry.content !== 'string') {
+        throw validationError('Each entry needs string content');
+      }
+      return {
+        seq: entry.seq,
+        kind: validateEnum(entry.kind, VALID_KINDS, { fieldName: 'kind', required: true }),
+        tool_name: typeof entry.tool_name === 'string' ? entry.tool_name.slice(0, 100) : null,
+        content: entry.content.slice(0, MAX_CONTENT_LENGTH),
+        metadata: JSON.stringify(entry.metadata ?? {}),
+      };
+    });
+
+    const db = getDb();
+    await requireSession(db, id, auth.workspaceId);
+
+    const insert = db.prepare(
+      `INSERT OR IGNORE INTO session_transcript_entries
+         (session_id, workspace_id, seq, kind, tool_name, content, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    await db.batch(entries.map((entry) =>
+      insert.bind(id, auth.workspaceId, entry.seq, entry.kind, entry.tool_name, entry.content, entry.metadata)
+    ));
+
+    await execute(
+      db,
+      `UPDATE sessions SET last_event_at = datetime('now'), updated_at = datetime('now') WHERE id = ?`,
+      [id]
+    );
+
+    const response: AppendTranscriptResponse = { appended: entries.length };
+    return jsonWithRateLimit(response, rl.result, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'append_session_transcript',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -3,8 +3,11 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskListAccess, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { dispatchSessionEvent } from '@/lib/notifications/webhooks';
 import { nanoid } from 'nanoid';
 import {
   createErrorResponse,
@@ -13,9 +16,12 @@ import {
   validateString,
   validateEnum,
 } from '@/lib/utils';
-import type { SessionStatus, SessionWithDetails, CreateSessionRequest } from '@taskinfa/shared';
+import type { Session, SessionStatus, SessionWithDetails, CreateSessionRequest, LlmSessionType, LlmProvider } from '@taskinfa/shared';
+import { LLM_SESSION_TYPE_LABELS, LLM_PROVIDER_PRESETS } from '@taskinfa/shared';
 
 const VALID_STATUSES = ['active', 'idle', 'stuck', 'completed', 'error'] as const;
+const VALID_SESSION_TYPES = Object.keys(LLM_SESSION_TYPE_LABELS) as LlmSessionType[];
+const VALID_PROVIDERS = Object.keys(LLM_PROVIDER_PRESETS) as LlmProvider[];
 
 // GET /api/sessions — list sessions
 export async function GET(request: NextRequest) {
@@ -24,6 +30,7 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -33,6 +40,7 @@ export async function GET(request: NextRequest) {
       required: false,
     });
     const projectId = searchParams.get('project_id');
+    const taskId = searchParams.get('task_id');
     const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 100);
 
     const db = getDb();
@@ -55,6 +63,14 @@ export async function GET(request: NextRequest) {
       sql += ' AND s.project_id = ?';
       params.push(projectId);
     }
+    if (taskId) {
+      sql += ' AND s.current_task_id = ?';
+      params.push(taskId);
+    }
+
+    const restriction = taskListCondition(auth, 's.project_id');
+    sql += restriction.sql;
+    params.push(...restriction.params);
 
     sql += ' ORDER BY s.started_at DESC LIMIT ?';
     params.push(limit);
@@ -90,6 +106,8 @@ export async function POST(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'sessions:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -117,17 +135,45 @@ export async function POST(request: NextRequest) {
       maxLength: 2000,
     });
 
+    const holderId = validateString(body.holder_id, {
+      fieldName: 'holder_id',
+      required: false,
+      maxLength: 200,
+    });
+
+    const sessionType = validateEnum(body.session_type, VALID_SESSION_TYPES, {
+      fieldName: 'session_type',
+      required: false,
+    });
+
+    const provider = validateEnum(body.provider, VALID_PROVIDERS, {
+      fieldName: 'provider',
+      required: false,
+    });
+
+    const configuredModel = validateString(body.configured_model, {
+      fieldName: 'configured_model',
+      required: false,
+      maxLength: 200,
+    });
+
+    requireTaskListAccess(auth, projectId);
+
     const db = getDb();
     const sessionId = `ses_${nanoid()}`;
 
     await execute(
       db,
-      `INSERT INTO sessions (id, workspace_id, project_id, current_task_id, status, summary, started_at, last_event_at, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'), datetime('now'), datetime('now'))`,
-      [sessionId, auth.workspaceId, projectId || null, currentTaskId || null, status, summary || null]
+      `INSERT INTO sessions (id, workspace_id, project_id, current_task_id, status, summary, holder_id, session_type, provider, configured_model, started_at, last_event_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'), datetime('now'), datetime('now'))`,
+      [sessionId, auth.workspaceId, projectId || null, currentTaskId || null, status, summary || null, holderId || null, sessionType, provider, configuredModel || null]
     );
 
-    const session = await query(db, 'SELECT * FROM sessions WHERE id = ?', [sessionId]);
+    const session = await query<Session>(db, 'SELECT * FROM sessions WHERE id = ?', [sessionId]);
+
+    if (session[0]) {
+      await dispatchSessionEvent(db, auth.workspaceId, 'session.started', session[0]);
+    }
 
     return jsonWithRateLimit({ session: session[0] }, rl.result, { status: 201 });
   } catch (error) {
@@ -3,16 +3,25 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskListAccess } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
 import type { TaskList } from '@taskinfa/shared';
 import {
   createErrorResponse,
   authenticationError,
   notFoundError,
+  validationError,
   validateString,
+  validateEnum,
+  validateInteger,
 } from '@/lib/utils';
 
+const VALID_AGENT_RUNNERS = ['claude', 'shell'] as const;
+const MAX_PROJECT_CONCURRENCY = 10;
+
 // GET /api/task-lists/[id] - Get task list
 export async function GET(
   request: NextRequest,
@@ -24,6 +33,7 @@ export async function GET(
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -37,6 +47,7 @@ export async function GET(
     if (!taskList[0]) {
       throw notFoundError('Task list not found');
     }
+    requireTaskListAccess(auth, params.id);
 
     return jsonWithRateLimit({ task_list: taskList[0] }, rl.result);
   } catch (error) {
@@ -57,6 +68,8 @@ export async function PATCH(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -72,9 +85,17 @@ export async function PATCH(
     if (!existingTaskList[0]) {
       throw notFoundError('Task list not found');
     }
+    requireTaskListAccess(auth, params.id);
 
     const body: any = await request.json();
-    const { name, description, repository_url, working_directory, is_initialized } = body;
+    const { name, description, repository_url, working_directory, is_initialized, agent_runner, agent_command, max_concurrent_sessions } = body;
+
+    // The orchestrator runs agent_command as a shell command on its machine, so these
+    // need what the same fields in /api/llm-config/session need
+    if (agent_runner !== undefined || agent_command !== undefined) {
+      requireRole(auth, 'admin');
+      requireScope(auth, 'llm-config:admin');
+    }
 
     // Build dynamic UPDATE query
     const updates: string[] = ['updated_at = datetime("now")'];
@@ -126,6 +147,45 @@ export async function PATCH(
       updateParams.push(is_initialized ? '1' : '0');
     }
 
+    if (agent_runner !== undefined || agent_command !== undefined) {
+      // Checked against the stored values for whichever of the two is not being changed
+      const effectiveRunner = agent_runner !== undefined ? agent_runner : existingTaskList[0].agent_runner;
+      const effectiveCommand = agent_command !== undefined ? agent_command : existingTaskList[0].agent_command;
+      if (effectiveRunner === 'shell' && !effectiveCommand) {
+        throw validationError('agent_command is required for the shell runner');
+      }
+    }
+
+    if (agent_runner !== undefined) {
+      const validatedRunner = validateEnum(agent_runner, VALID_AGENT_RUNNERS, {
+        fieldName: 'agent_runner',
+        required: true,
+      });
+      updates.push('agent_runner = ?');
+      updateParams.push(validatedRunner);
+    }
+
+    if (agent_command !== undefined) {
+      const validatedCommand = validateString(agent_command, {
+        fieldName: 'agent_command',
+        required: false,
+        maxLength: 1000,
+      });
+      updates.push('agent_command = ?');
+      updateParams.push(validatedCommand || null);
+    }
+
+    if (max_concurrent_sessions !== undefined) {
+      const validatedConcurrency = validateInteger(String(max_concurrent_sessions), {
+        fieldName: 'max_concurrent_sessions',
+        min: 1,
+        max: MAX_PROJECT_CONCURRENCY,
+        required: true,
+      });
+      updates.push('max_concurrent_sessions = ?');
+      updateParams.push(String(validatedConcurrency));
+    }
+
     updateParams.push(params.id, auth.workspaceId);
 
     const sql = `UPDATE task_lists SET ${updates.join(', ')} WHERE id = ? AND workspace_id = ?`;
@@ -138,6 +198,14 @@ export async function PATCH(
       [params.id]
     );
 
+    await recordAudit(db, auth, {
+      action: 'task_list.update',
+      entityType: 'task_list',
+      entityId: params.id,
+      before: existingTaskList[0],
+      after: taskList[0] ?? null,
+    });
+
     return jsonWithRateLimit({ task_list: taskList[0] }, rl.result);
   } catch (error) {
     return createErrorResponse(error, {
@@ -157,6 +225,8 @@ export async function DELETE(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -172,6 +242,7 @@ export async function DELETE(
     if (!existingTaskList[0]) {
       throw notFoundError('Task list not found');
     }
+    requireTaskListAccess(auth, params.id);
 
     // Check if there are tasks assigned to this task list
     const tasksCount = await query<{ count: number }>(
@@ -196,6 +267,13 @@ export async function DELETE(
       [params.id, auth.workspaceId]
     );
 
+    await recordAudit(db, auth, {
+      action: 'task_list.delete',
+      entityType: 'task_list',
+      entityId: params.id,
+      before: existingTaskList[0],
+    });
+
     return jsonWithRateLimit({ success: true }, rl.result);
   } catch (error) {
     return createErrorResponse(error, {
@@ -3,8 +3,11 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskListAccess, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
 import type { TaskList } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
 import {
@@ -22,14 +25,16 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
     const db = getDb();
+    const restriction = taskListCondition(auth, 'id');
     const taskLists = await query<TaskList>(
       db,
-      'SELECT * FROM task_lists WHERE workspace_id = ? ORDER BY created_at DESC',
-      [auth.workspaceId]
+      `SELECT * FROM task_lists WHERE workspace_id = ?${restriction.sql} ORDER BY created_at DESC`,
+      [auth.workspaceId, ...restriction.params]
     );
 
     return jsonWithRateLimit({
@@ -52,6 +57,10 @@ export async function POST(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
+    // Keys restricted to projects can't add new ones
+    requireTaskListAccess(auth, null);
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -134,6 +143,8 @@ export async function POST(request: NextRequest) {
       throw new Error('Failed to create task list');
     }
 
+    await recordAudit(db, auth, { action: 'task_list.create', entityType: 'task_list', entityId: taskListId, after: taskList[0] });
+
     return jsonWithRateLimit({ task_list: taskList[0] }, rl.result, { status: 201 });
   } catch (error) {
     return createErrorResponse(error, {
@@ -0,0 +1,219 @@
+// API Route: /api/tasks/[id]/claim
+// Atomic, time-bounded task leases so several orchestrators can share a workspace
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskAccess } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import { resolveValidStatuses } from '@/lib/workflow/columns';
+import type { Task, TaskLeaseRequest, TaskLeaseResponse, FeatureKey, FeatureToggle } from '@taskinfa/shared';
+import { isCustomStatus } from '@taskinfa/shared';
+import {
+  safeJsonParseArray,
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  conflictError,
+  validateString,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+
+const DEFAULT_LEASE_SECONDS = 300;
+const MIN_LEASE_SECONDS = 30;
+const MAX_LEASE_SECONDS = 3600;
+
+async function getEnabledFeatures(db: ReturnType<typeof getDb>, workspaceId: string): Promise<Record<FeatureKey, boolean>> {
+  const rows = await query<FeatureToggle>(
+    db,
+    'SELECT * FROM feature_toggles WHERE workspace_id = ?',
+    [workspaceId]
+  );
+  const features: Record<FeatureKey, boolean> = { refinement: false, ai_review: false, local_testing: false };
+  for (const row of rows) {
+    if (row.feature_key in features) {
+      features[row.feature_key as FeatureKey] = Boolean(row.enabled);
+    }
+  }
+  return features;
+}
+
+// POST /api/tasks/[id]/claim - Claim a task, or renew a lease the caller already holds
+// Succeeds only if nobody else holds an unexpired lease (and, for a new claim, the task
+// is still in expected_status). Returns 409 otherwise.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const body: TaskLeaseRequest = await request.json();
+
+    const holderId = validateString(body.holder_id, {
+      fieldName: 'holder_id',
+      required: true,
+      maxLength: 200,
+    }) as string;
+
+    const leaseSeconds = validateInteger(
+      body.lease_seconds !== undefined ? String(body.lease_seconds) : undefined,
+      {
+        fieldName: 'lease_seconds',
+        min: MIN_LEASE_SECONDS,
+        max: MAX_LEASE_SECONDS,
+        defaultValue: DEFAULT_LEASE_SECONDS,
+      }
+    );
+
+    const db = getDb();
+    await requireTaskAccess(db, auth, id);
+    const enabledFeatures = await getEnabledFeatures(db, auth.workspaceId);
+    const validStatuses = await resolveValidStatuses(
+      db, auth.workspaceId, enabledFeatures, isCustomStatus(body.status) ? body.status : body.expected_status
+    );
+
+    const expectedStatus = validateEnum(body.expected_status, validStatuses, {
+      fieldName: 'expected_status',
+      required: false,
+    });
+    const targetStatus = validateEnum(body.status, validStatuses, {
+      fieldName: 'status',
+      required: false,
+    });
+
+    const updates = [
+      'lease_holder = ?',
+      "lease_expires_at = datetime('now', ?)",
+      'updated_at = datetime("now")',
+    ];
+    const updateParams: (string | number | null)[] = [holderId, `+${leaseSeconds} seconds`];
+
+    if (targetStatus) {
+      updates.push('status = ?', "assigned_to = 'orchestrator'");
+      updateParams.push(targetStatus);
+      if (targetStatus === 'in_progress') {
+        updates.push('started_at = COALESCE(started_at, datetime("now"))');
+      }
+    }
+
+    // Claims that move the task are audited; plain lease renewals are not
+    const previous = targetStatus
+      ? await query<Pick<Task, 'status' | 'assigned_to' | 'lease_holder'>>(
+        db,
+        'SELECT status, assigned_to, lease_holder FROM tasks WHERE id = ? AND workspace_id = ?',
+        [id, auth.workspaceId]
+      )
+      : [];
+
+    // Single conditional UPDATE: D1 serialises writes, so exactly one caller wins
+    const result = await execute(
+      db,
+      `UPDATE tasks SET ${updates.join(', ')}
+       WHERE id = ? AND workspace_id = ?
+         AND (
+           lease_holder = ?
+           OR (
+             (lease_holder IS NULL OR lease_expires_at <= datetime('now'))
+             AND (? IS NULL OR status = ?)
+           )
+         )`,
+      [...updateParams, id, auth.workspaceId, holderId, expectedStatus ?? null, expectedStatus ?? null]
+    );
+
+    const task = await queryOne<Task>(
+      db,
+      'SELECT * FROM tasks WHERE id = ? AND workspace_id = ?',
+      [id, auth.workspaceId]
+    );
+
+    if (!task) {
+      throw notFoundError('Task');
+    }
+
+    if (!result.meta?.changes) {
+      if (task.lease_holder && task.lease_holder !== holderId) {
+        throw conflictError(`Task is leased by ${task.lease_holder} until ${task.lease_expires_at}`);
+      }
+      throw conflictError(`Task is no longer in ${expectedStatus} (now ${task.status})`);
+    }
+
+    if (previous[0]) {
+      await recordAudit(db, auth, {
+        action: 'task.claim',
+        entityType: 'task',
+        entityId: id,
+        before: previous[0],
+        after: { status: task.status, assigned_to: task.assigned_to, lease_holder: task.lease_holder },
+      });
+    }
+
+    const response: TaskLeaseResponse = {
+      task: {
+        ...task,
+        labels: safeJsonParseArray<string>(task.labels as unknown as string, []),
+        files_changed: safeJsonParseArray<string>(task.files_changed as unknown as string, []),
+      },
+      lease: { holder_id: holderId, expires_at: task.lease_expires_at as string },
+    };
+
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'claim_task',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// DELETE /api/tasks/[id]/claim?holder_id= - Release a lease (no-op if the caller doesn't hold it)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const holderId = validateString(searchParams.get('holder_id'), {
+      fieldName: 'holder_id',
+      required: true,
+      maxLength: 200,
+    });
+
+    const db = getDb();
+    await requireTaskAccess(db, auth, id);
+    const result = await execute(
+      db,
+      `UPDATE tasks SET lease_holder = NULL, lease_expires_at = NULL, updated_at = datetime("now")
+       WHERE id = ? AND workspace_id = ? AND lease_holder = ?`,
+      [id, auth.workspaceId, holderId]
+    );
+
+    return jsonWithRateLimit({ released: Boolean(result.meta?.changes) }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'release_task',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
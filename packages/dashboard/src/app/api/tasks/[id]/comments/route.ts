@@ -3,8 +3,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskAccess } from '@/lib/auth/scopes';
 import { getDb, query, queryOne, execute } from '@/lib/db/client';
 import { rateLimitApi } from '@/lib/middleware/apiRateLimit';
+import { emitWorkSignal } from '@/lib/orchestrator/signals';
+import { forwardAgentReply } from '@/lib/notifications/telegram';
+import { dispatchWebhookEvent } from '@/lib/notifications/webhooks';
 import type { Task, TaskComment } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
 import {
@@ -24,11 +29,13 @@ export async function GET(
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
     const { id } = await params;
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
 
     // Verify task exists and belongs to workspace
     const task = await queryOne<Task>(
@@ -81,6 +88,8 @@ export async function POST(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'comments:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -109,11 +118,12 @@ export async function POST(
     }
 
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
 
     // Verify task exists and belongs to workspace
-    const task = await queryOne<Task>(
+    const task = await queryOne<Pick<Task, 'id' | 'title' | 'status'>>(
       db,
-      'SELECT id FROM tasks WHERE id = ? AND workspace_id = ?',
+      'SELECT id, title, status FROM tasks WHERE id = ? AND workspace_id = ?',
       [id, auth.workspaceId]
     );
 
@@ -130,12 +140,30 @@ export async function POST(
       [commentId, id, author.trim(), author_type, content.trim(), comment_type, loop_number ?? null]
     );
 
+    // Human messages start a message session — wake the orchestrator now
+    if (comment_type === 'human_message' && author_type === 'user') {
+      await emitWorkSignal(db, auth.workspaceId, 'human_message', id);
+    }
+
     const comment = await queryOne<TaskComment>(
       db,
       'SELECT * FROM task_comments WHERE id = ?',
       [commentId]
     );
 
+    // An answer to a message sent from Telegram goes back to that chat
+    if (comment && author_type === 'bot') {
+      try {
+        await forwardAgentReply(db, auth.workspaceId, comment);
+      } catch (notifyErr) {
+        console.error('Telegram reply failed:', notifyErr);
+      }
+    }
+
+    if (comment) {
+      await dispatchWebhookEvent(db, auth.workspaceId, 'comment.added', { comment, task });
+    }
+
     return NextResponse.json({ comment }, { status: 201 });
   } catch (error) {
     return createErrorResponse(error, {
@@ -3,8 +3,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskAccess } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
 import { rateLimitApi } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
 import type { TaskDependency, Task } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
 import {
@@ -24,11 +27,13 @@ export async function GET(
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
     const { id } = await params;
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
 
     // Verify task exists and belongs to workspace
     const task = await query<Task>(
@@ -78,6 +83,8 @@ export async function POST(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -94,6 +101,7 @@ export async function POST(
     }
 
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
 
     // Verify both tasks exist and belong to the same workspace
     const tasks = await query<Task>(
@@ -150,6 +158,13 @@ export async function POST(
       [depId]
     );
 
+    await recordAudit(db, auth, {
+      action: 'task.dependency_add',
+      entityType: 'task',
+      entityId: id,
+      after: { depends_on_task_id },
+    });
+
     return NextResponse.json({ dependency: dependency[0] }, { status: 201 });
   } catch (error) {
     return createErrorResponse(error, {
@@ -168,6 +183,8 @@ export async function DELETE(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -180,13 +197,23 @@ export async function DELETE(
     }
 
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
 
-    await execute(
+    const result = await execute(
       db,
       'DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_task_id = ? AND workspace_id = ?',
       [id, dependsOnTaskId, auth.workspaceId]
     );
 
+    if (result.meta?.changes) {
+      await recordAudit(db, auth, {
+        action: 'task.dependency_remove',
+        entityType: 'task',
+        entityId: id,
+        before: { depends_on_task_id: dependsOnTaskId },
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     return createErrorResponse(error, {
@@ -3,10 +3,16 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskAccess, requireTaskListAccess } from '@/lib/auth/scopes';
 import { getDb, queryOne, query, execute } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { emitWorkSignal } from '@/lib/orchestrator/signals';
+import { recordAudit } from '@/lib/audit/log';
+import { dispatchWebhookEvent, dispatchWebhookEvents, taskChangeEvents, type WebhookEvent } from '@/lib/notifications/webhooks';
+import { resolveValidStatuses } from '@/lib/workflow/columns';
 import type { Task, TaskDependency, UpdateTaskStatusRequest, FeatureKey, FeatureToggle } from '@taskinfa/shared';
-import { getValidStatuses } from '@taskinfa/shared';
+import { RUN_POLICY_BOUNDS, isCustomStatus, isOrchestratorInputStatus, releasesWipLimit } from '@taskinfa/shared';
 import {
   safeJsonParseArray,
   createErrorResponse,
@@ -15,8 +21,17 @@ import {
   validationError,
   validateEnum,
   validateInteger,
+  validateString,
 } from '@/lib/utils';
 
+function parseTask(task: Task): Task {
+  return {
+    ...task,
+    labels: safeJsonParseArray<string>(task.labels as unknown as string, []),
+    files_changed: safeJsonParseArray<string>(task.files_changed as unknown as string, []),
+  };
+}
+
 async function getEnabledFeatures(db: ReturnType<typeof getDb>, workspaceId: string): Promise<Record<FeatureKey, boolean>> {
   const rows = await query<FeatureToggle>(
     db,
@@ -43,6 +58,7 @@ export async function GET(
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -58,6 +74,7 @@ export async function GET(
     if (!task) {
       throw notFoundError('Task');
     }
+    requireTaskListAccess(auth, task.task_list_id);
 
     // Get subtasks
     const subtasks = await query<Task>(
@@ -120,9 +137,23 @@ interface UpdateTaskRequest extends UpdateTaskStatusRequest {
   description?: string;
   priority?: string;
   labels?: string[];
+  // Moves the task to another project
+  task_list_id?: string;
   pr_url?: string;
   branch_name?: string;
   claude_session_id?: string;
+  max_retries?: number | null;
+  session_timeout_minutes?: number | null;
+  next_attempt_at?: string | null;
+}
+
+// Stored like datetime('now') so it compares with SQLite timestamps
+function toSqliteDateTime(value: string): string {
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw validationError('next_attempt_at must be a valid date');
+  }
+  return new Date(time).toISOString().slice(0, 19).replace('T', ' ');
 }
 
 // PATCH /api/tasks/[id] - Update task
@@ -135,6 +166,8 @@ export async function PATCH(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -152,15 +185,55 @@ export async function PATCH(
       description,
       priority,
       labels,
+      task_list_id,
       pr_url,
       branch_name,
       claude_session_id,
+      max_retries,
+      session_timeout_minutes,
+      next_attempt_at,
     } = body;
 
     // Validate status dynamically based on enabled feature toggles
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
+    const before = await queryOne<Task>(
+      db,
+      'SELECT * FROM tasks WHERE id = ? AND workspace_id = ?',
+      [id, auth.workspaceId]
+    );
+    if (!before) {
+      throw notFoundError('Task');
+    }
+
+    const taskListId = task_list_id !== undefined && task_list_id !== before.task_list_id
+      ? validateString(task_list_id, { fieldName: 'task_list_id', required: true, maxLength: 200 }) as string
+      : undefined;
+    if (taskListId) {
+      requireTaskListAccess(auth, taskListId);
+      const project = await queryOne<{ id: string }>(
+        db,
+        'SELECT id FROM task_lists WHERE id = ? AND workspace_id = ?',
+        [taskListId, auth.workspaceId]
+      );
+      if (!project) {
+        throw notFoundError('Project');
+      }
+    }
+
     const enabledFeatures = await getEnabledFeatures(db, auth.workspaceId);
-    const validStatuses = getValidStatuses(enabledFeatures);
+    // A task moving to another project keeps its column only if that project's board has it
+    const keepsCustomStatus = !status && !!taskListId && isCustomStatus(before.status);
+    const validStatuses = await resolveValidStatuses(
+      db,
+      auth.workspaceId,
+      enabledFeatures,
+      keepsCustomStatus ? before.status : status,
+      taskListId ?? before.task_list_id
+    );
+    if (keepsCustomStatus && !validStatuses.includes(before.status)) {
+      throw validationError(`The ${before.status} column is not on that project's board`);
+    }
 
     const validatedStatus = status ? validateEnum(status,
       validStatuses,
@@ -204,6 +277,11 @@ export async function PATCH(
       updateParams.push(JSON.stringify(labels));
     }
 
+    if (taskListId) {
+      updates.push('task_list_id = ?');
+      updateParams.push(taskListId);
+    }
+
     if (validatedStatus) {
       // Prevent moving blocked tasks to 'todo' or beyond
       if (validatedStatus === 'todo' || validatedStatus === 'in_progress') {
@@ -280,6 +358,31 @@ export async function PATCH(
       updateParams.push(claude_session_id || null);
     }
 
+    // Per-task overrides of the run policy (null = inherit)
+    if (max_retries !== undefined) {
+      updates.push('max_retries = ?');
+      updateParams.push(max_retries === null ? null : validateInteger(String(max_retries), {
+        fieldName: 'max_retries',
+        ...RUN_POLICY_BOUNDS.max_retries,
+      }));
+    }
+
+    if (session_timeout_minutes !== undefined) {
+      updates.push('session_timeout_minutes = ?');
+      updateParams.push(session_timeout_minutes === null ? null : validateInteger(String(session_timeout_minutes), {
+        fieldName: 'session_timeout_minutes',
+        ...RUN_POLICY_BOUNDS.session_timeout_minutes,
+      }));
+    }
+
+    // A retry delay belongs to the attempt that failed; moving the task starts afresh
+    if (next_attempt_at !== undefined) {
+      updates.push('next_attempt_at = ?');
+      updateParams.push(next_attempt_at === null ? null : toSqliteDateTime(next_attempt_at));
+    } else if (validatedStatus) {
+      updates.push('next_attempt_at = NULL');
+    }
+
     updateParams.push(id, auth.workspaceId);
 
     const sql = `UPDATE tasks SET ${updates.join(', ')} WHERE id = ? AND workspace_id = ?`;
@@ -296,6 +399,9 @@ export async function PATCH(
       throw notFoundError('Task');
     }
 
+    await recordAudit(db, auth, { action: 'task.update', entityType: 'task', entityId: id, before, after: task });
+    const webhookEvents: WebhookEvent[] = taskChangeEvents(parseTask(before), parseTask(task));
+
     // Auto-complete parent when all subtasks are done
     if (validatedStatus === 'done' && task.parent_task_id) {
       const siblingCounts = await query<{ total: number; done: number }>(
@@ -306,15 +412,43 @@ export async function PATCH(
         [task.parent_task_id]
       );
       if (siblingCounts[0] && siblingCounts[0].total === siblingCounts[0].done) {
+        const parent = await queryOne<Task>(
+          db,
+          'SELECT * FROM tasks WHERE id = ? AND workspace_id = ?',
+          [task.parent_task_id, auth.workspaceId]
+        );
         await execute(
           db,
           `UPDATE tasks SET status = 'done', completed_at = COALESCE(completed_at, datetime("now")), updated_at = datetime("now")
            WHERE id = ? AND workspace_id = ?`,
           [task.parent_task_id, auth.workspaceId]
         );
+        if (parent) {
+          await recordAudit(db, auth, {
+            action: 'task.update',
+            entityType: 'task',
+            entityId: task.parent_task_id,
+            before: { status: parent.status },
+            after: { status: 'done' },
+          });
+          if (parent.status !== 'done') {
+            webhookEvents.push({
+              event: 'task.moved',
+              data: { task: { ...parseTask(parent), status: 'done' }, from_status: parent.status, to_status: 'done' },
+            });
+          }
+        }
       }
     }
 
+    // Wake the orchestrator when the task lands somewhere it picks work up from,
+    // or leaves a column that may have been holding work back
+    if (isOrchestratorInputStatus(validatedStatus) || releasesWipLimit(before.status, validatedStatus)) {
+      await emitWorkSignal(db, auth.workspaceId, 'task_status', id);
+    }
+
+    await dispatchWebhookEvents(db, auth.workspaceId, webhookEvents);
+
     const parsedTask = {
       ...task,
       labels: safeJsonParseArray<string>(task.labels as unknown as string, []),
@@ -340,18 +474,31 @@ export async function DELETE(
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
     const { id } = await params;
 
     const db = getDb();
+    await requireTaskAccess(db, auth, id);
+    const before = await queryOne<Task>(
+      db,
+      'SELECT * FROM tasks WHERE id = ? AND workspace_id = ?',
+      [id, auth.workspaceId]
+    );
     await execute(
       db,
       'DELETE FROM tasks WHERE id = ? AND workspace_id = ?',
       [id, auth.workspaceId]
     );
 
+    if (before) {
+      await recordAudit(db, auth, { action: 'task.delete', entityType: 'task', entityId: id, before });
+      await dispatchWebhookEvent(db, auth.workspaceId, 'task.deleted', { task: parseTask(before) });
+    }
+
     return jsonWithRateLimit({ success: true }, rl.result);
   } catch (error) {
     return createErrorResponse(error, {
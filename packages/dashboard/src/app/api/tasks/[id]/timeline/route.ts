@@ -0,0 +1,98 @@
+// API Route: /api/tasks/[id]/timeline
+// Full history of a task: field transitions, comments and session events
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope, requireTaskAccess } from '@/lib/auth/scopes';
+import { getDb, query, queryOne } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  safeJsonParseObject,
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+} from '@/lib/utils';
+import type {
+  SessionEvent,
+  Task,
+  TaskComment,
+  TaskTimelineEntry,
+  TaskTimelineResponse,
+  TaskTransition,
+} from '@taskinfa/shared';
+
+// Newest entries of each kind; long-running tasks collect thousands of progress events
+const MAX_ENTRIES_PER_KIND = 500;
+
+// GET /api/tasks/[id]/timeline - Transitions, comments and session events, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const db = getDb();
+    await requireTaskAccess(db, auth, id);
+
+    const task = await queryOne<Pick<Task, 'id'>>(
+      db,
+      'SELECT id FROM tasks WHERE id = ? AND workspace_id = ?',
+      [id, auth.workspaceId]
+    );
+    if (!task) {
+      throw notFoundError('Task');
+    }
+
+    const transitions = await query<TaskTransition>(
+      db,
+      `SELECT * FROM task_transitions WHERE task_id = ? AND workspace_id = ? ORDER BY id DESC LIMIT ?`,
+      [id, auth.workspaceId, MAX_ENTRIES_PER_KIND]
+    );
+    const comments = await query<TaskComment>(
+      db,
+      'SELECT * FROM task_comments WHERE task_id = ? ORDER BY created_at DESC LIMIT ?',
+      [id, MAX_ENTRIES_PER_KIND]
+    );
+    const events = await query<Omit<SessionEvent, 'metadata'> & { metadata: string }>(
+      db,
+      'SELECT * FROM session_events WHERE task_id = ? ORDER BY created_at DESC LIMIT ?',
+      [id, MAX_ENTRIES_PER_KIND]
+    );
+
+    const entries: TaskTimelineEntry[] = [
+      ...transitions.reverse().map((transition): TaskTimelineEntry => ({
+        kind: 'transition',
+        created_at: transition.created_at,
+        transition,
+      })),
+      ...comments.reverse().map((comment): TaskTimelineEntry => ({
+        kind: 'comment',
+        created_at: comment.created_at,
+        comment,
+      })),
+      ...events.reverse().map((event): TaskTimelineEntry => ({
+        kind: 'session_event',
+        created_at: event.created_at,
+        event: { ...event, metadata: safeJsonParseObject<Record<string, unknown>>(event.metadata, {}) },
+      })),
+    ];
+    // Stable sort: entries from the same second keep the order they were written in
+    entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    const response: TaskTimelineResponse = { entries };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'get_task_timeline',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -3,8 +3,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
+import { emitWorkSignal } from '@/lib/orchestrator/signals';
+import { recordAudit } from '@/lib/audit/log';
+import { dispatchWebhookEvents, taskChangeEvents } from '@/lib/notifications/webhooks';
+import { getWorkflowColumns } from '@/lib/workflow/columns';
 import type { Task } from '@taskinfa/shared';
+import { isCustomStatus, isOrchestratorInputStatus, releasesWipLimit } from '@taskinfa/shared';
 import {
   safeJsonParseArray,
   createErrorResponse,
@@ -31,6 +38,8 @@ export async function PATCH(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
 
     const body = await request.json() as { task_ids: string[]; update: Record<string, unknown> };
     const { task_ids, update } = body;
@@ -65,9 +74,14 @@ export async function PATCH(request: NextRequest) {
       assigned_to?: string | null;
     };
 
+    const db = getDb();
+
     // Validate update fields
+    const customStatuses = isCustomStatus(status)
+      ? (await getWorkflowColumns(db, auth.workspaceId)).map((column) => column.status)
+      : [];
     const validatedStatus = status ? validateEnum(status,
-      ['backlog', 'todo', 'in_progress', 'review', 'done'] as const,
+      ['backlog', 'todo', 'in_progress', 'review', 'done', ...customStatuses] as const,
       { fieldName: 'status', required: false }
     ) : undefined;
 
@@ -110,23 +124,47 @@ export async function PATCH(request: NextRequest) {
       throw validationError('At least one update field is required');
     }
 
-    const db = getDb();
 
-    // Build placeholders for IN clause
+    // Build placeholders for IN clause; tasks outside a restricted key's projects are skipped
     const placeholders = validatedIds.map(() => '?').join(', ');
-    const sql = `UPDATE tasks SET ${updates.join(', ')} WHERE id IN (${placeholders}) AND workspace_id = ?`;
-    const params = [...updateParams, ...validatedIds, auth.workspaceId];
+    const restriction = taskListCondition(auth, 'task_list_id');
+    const fetchSql = `SELECT * FROM tasks WHERE id IN (${placeholders}) AND workspace_id = ?${restriction.sql}`;
+    const fetchParams = [...validatedIds, auth.workspaceId, ...restriction.params];
+    const previousTasks = await query<Task>(db, fetchSql, fetchParams);
+
+    const sql = `UPDATE tasks SET ${updates.join(', ')} WHERE id IN (${placeholders}) AND workspace_id = ?${restriction.sql}`;
+    const params = [...updateParams, ...validatedIds, auth.workspaceId, ...restriction.params];
 
     await execute(db, sql, params);
 
     // Fetch updated tasks
-    const fetchSql = `SELECT * FROM tasks WHERE id IN (${placeholders}) AND workspace_id = ?`;
-    const fetchParams = [...validatedIds, auth.workspaceId];
     const updatedTasks = await query<Task>(db, fetchSql, fetchParams);
 
+    await recordAudit(db, auth, updatedTasks.map((task) => ({
+      action: 'task.update' as const,
+      entityType: 'task' as const,
+      entityId: task.id,
+      before: previousTasks.find((previous) => previous.id === task.id) ?? null,
+      after: task,
+    })));
+
+    if (
+      isOrchestratorInputStatus(validatedStatus) ||
+      previousTasks.some((previous) => releasesWipLimit(previous.status, validatedStatus))
+    ) {
+      await emitWorkSignal(db, auth.workspaceId, 'task_status');
+    }
+
+    const parsedPrevious = parseTasks(previousTasks);
+    const parsedUpdated = parseTasks(updatedTasks);
+    await dispatchWebhookEvents(db, auth.workspaceId, parsedUpdated.flatMap((task) => {
+      const previous = parsedPrevious.find((p) => p.id === task.id);
+      return previous ? taskChangeEvents(previous, task) : [];
+    }));
+
     return NextResponse.json({
       updated: updatedTasks.length,
-      tasks: parseTasks(updatedTasks),
+      tasks: parsedUpdated,
     });
   } catch (error) {
     return createErrorResponse(error, {
@@ -142,6 +180,8 @@ export async function DELETE(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
 
     const body = await request.json() as { task_ids: string[] };
     const { task_ids } = body;
@@ -166,21 +206,34 @@ export async function DELETE(request: NextRequest) {
 
     const db = getDb();
     const placeholders = validatedIds.map(() => '?').join(', ');
+    const restriction = taskListCondition(auth, 'task_list_id');
 
-    // Count matching tasks before delete to return accurate count
-    const countResult = await query<{ count: number }>(
+    // Fetch matching tasks before delete to return an accurate count and audit what was removed
+    const deletedTasks = await query<Task>(
       db,
-      `SELECT COUNT(*) as count FROM tasks WHERE id IN (${placeholders}) AND workspace_id = ?`,
-      [...validatedIds, auth.workspaceId]
+      `SELECT * FROM tasks WHERE id IN (${placeholders}) AND workspace_id = ?${restriction.sql}`,
+      [...validatedIds, auth.workspaceId, ...restriction.params]
     );
-    const matchCount = countResult[0]?.count ?? 0;
 
-    const sql = `DELETE FROM tasks WHERE id IN (${placeholders}) AND workspace_id = ?`;
-    const params = [...validatedIds, auth.workspaceId];
+    const sql = `DELETE FROM tasks WHERE id IN (${placeholders}) AND workspace_id = ?${restriction.sql}`;
+    const params = [...validatedIds, auth.workspaceId, ...restriction.params];
 
     await execute(db, sql, params);
 
-    return NextResponse.json({ deleted: matchCount });
+    await recordAudit(db, auth, deletedTasks.map((task) => ({
+      action: 'task.delete' as const,
+      entityType: 'task' as const,
+      entityId: task.id,
+      before: task,
+    })));
+
+    await dispatchWebhookEvents(
+      db,
+      auth.workspaceId,
+      parseTasks(deletedTasks).map((task) => ({ event: 'task.deleted' as const, data: { task } }))
+    );
+
+    return NextResponse.json({ deleted: deletedTasks.length });
   } catch (error) {
     return createErrorResponse(error, {
       operation: 'bulk_delete_tasks',
@@ -0,0 +1,89 @@
+// API Route: /api/tasks/leases/reclaim
+// Hands tasks whose orchestrator lease expired back to the queue
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, taskListCondition } from '@/lib/auth/scopes';
+import { getDb, query, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { emitWorkSignal } from '@/lib/orchestrator/signals';
+import { recordAudit } from '@/lib/audit/log';
+import type { TaskStatus, ReclaimLeasesResponse } from '@taskinfa/shared';
+import { isOrchestratorInputStatus } from '@taskinfa/shared';
+import {
+  createErrorResponse,
+  authenticationError,
+} from '@/lib/utils';
+
+// POST /api/tasks/leases/reclaim - Release expired leases
+// Called by every orchestrator at the start of a poll cycle. A lease only expires when its
+// holder stopped renewing it (crash, network loss), so the run counts as a failed attempt:
+// in_progress tasks go back to todo, others stay in their stage to be picked up again.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const restriction = taskListCondition(auth, 'task_list_id');
+
+    const expired = await query<{ id: string; lease_holder: string; status: TaskStatus; assigned_to: string | null }>(
+      db,
+      `SELECT id, lease_holder, status, assigned_to FROM tasks
+       WHERE workspace_id = ? AND lease_holder IS NOT NULL AND lease_expires_at <= datetime('now')${restriction.sql}`,
+      [auth.workspaceId, ...restriction.params]
+    );
+
+    const reclaimed: ReclaimLeasesResponse['reclaimed'] = [];
+
+    for (const task of expired) {
+      const nextStatus: TaskStatus = task.status === 'in_progress' ? 'todo' : task.status;
+
+      // Re-check expiry so a renewal that lands between SELECT and UPDATE wins
+      const result = await execute(
+        db,
+        `UPDATE tasks SET lease_holder = NULL, lease_expires_at = NULL, assigned_to = NULL,
+           status = ?, error_count = error_count + 1, updated_at = datetime("now")
+         WHERE id = ? AND workspace_id = ? AND lease_holder = ? AND lease_expires_at <= datetime('now')`,
+        [nextStatus, task.id, auth.workspaceId, task.lease_holder]
+      );
+      if (!result.meta?.changes) continue;
+
+      await recordAudit(db, auth, {
+        action: 'task.update',
+        entityType: 'task',
+        entityId: task.id,
+        before: { status: task.status, assigned_to: task.assigned_to, lease_holder: task.lease_holder },
+        after: { status: nextStatus, assigned_to: null, lease_holder: null },
+      });
+
+      await execute(
+        db,
+        `UPDATE sessions SET status = 'error', summary = ?, updated_at = datetime('now')
+         WHERE workspace_id = ? AND current_task_id = ? AND status = 'active'`,
+        [`Lease expired: ${task.lease_holder} stopped renewing`, auth.workspaceId, task.id]
+      );
+
+      if (isOrchestratorInputStatus(nextStatus)) {
+        await emitWorkSignal(db, auth.workspaceId, 'task_status', task.id);
+      }
+
+      reclaimed.push({ task_id: task.id, holder_id: task.lease_holder, status: nextStatus });
+    }
+
+    const response: ReclaimLeasesResponse = { reclaimed };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'reclaim_leases',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
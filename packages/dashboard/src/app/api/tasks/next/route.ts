@@ -3,6 +3,7 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
 import type { Task } from '@taskinfa/shared';
@@ -28,11 +29,13 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
     workspaceId = auth.workspaceId;
 
     const db = getDb();
+    const restriction = taskListCondition(auth, 't.task_list_id');
 
     // Get highest priority unassigned task
     // Priority: urgent > high > medium > low
@@ -54,7 +57,7 @@ export async function GET(request: NextRequest) {
           SELECT 1 FROM task_dependencies td
           JOIN tasks dep ON td.depends_on_task_id = dep.id
           WHERE td.task_id = t.id AND dep.status != 'done'
-        )
+        )${restriction.sql}
       ORDER BY
         CASE t.priority
           WHEN 'urgent' THEN 1
@@ -65,7 +68,7 @@ export async function GET(request: NextRequest) {
         t."order" ASC,
         t.created_at ASC
       LIMIT 1
-    `, [workspaceId]);
+    `, [workspaceId, ...restriction.params]);
 
     if (tasks.length === 0) {
       return jsonWithRateLimit({
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query } from '@/lib/db/client';
 import { rateLimitApi } from '@/lib/middleware/apiRateLimit';
 import type { Task } from '@taskinfa/shared';
@@ -19,10 +20,12 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
     const db = getDb();
+    const restriction = taskListCondition(auth, 't.task_list_id');
 
     // Find tasks where the latest comment is a human_message (not a regular comment)
     // and there's no newer bot comment — meaning the message is unprocessed.
@@ -36,9 +39,9 @@ export async function GET(request: NextRequest) {
        AND c.created_at = (
          SELECT MAX(c2.created_at) FROM task_comments c2 WHERE c2.task_id = t.id
        )
-       AND t.workspace_id = ?
+       AND t.workspace_id = ?${restriction.sql}
        ORDER BY c.created_at ASC`,
-      [auth.workspaceId]
+      [auth.workspaceId, ...restriction.params]
     );
 
     const parsedTasks = tasks.map(t => ({
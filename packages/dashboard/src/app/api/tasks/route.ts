@@ -3,10 +3,14 @@
 
 import { NextRequest } from 'next/server';
 import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskListAccess, taskListCondition } from '@/lib/auth/scopes';
 import { getDb, query, execute } from '@/lib/db/client';
 import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import { dispatchWebhookEvent } from '@/lib/notifications/webhooks';
+import { resolveValidStatuses } from '@/lib/workflow/columns';
 import type { Task, ListTasksRequest, CreateTaskRequest, FeatureKey, FeatureToggle } from '@taskinfa/shared';
-import { getValidStatuses } from '@taskinfa/shared';
 import { nanoid } from 'nanoid';
 import {
   safeJsonParseArray,
@@ -42,6 +46,7 @@ export async function GET(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireScope(auth, 'tasks:read');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -55,7 +60,9 @@ export async function GET(request: NextRequest) {
 
     const db = getDb();
     const enabledFeatures = await getEnabledFeatures(db, auth.workspaceId);
-    const validStatuses = getValidStatuses(enabledFeatures);
+    const validStatuses = await resolveValidStatuses(
+      db, auth.workspaceId, enabledFeatures, searchParams.get('status'), task_list_id
+    );
 
     const status = validateEnum(searchParams.get('status'),
       validStatuses as readonly string[] as readonly [string, ...string[]],
@@ -138,6 +145,10 @@ export async function GET(request: NextRequest) {
       params.push(task_list_id);
     }
 
+    const restriction = taskListCondition(auth, 'tasks.task_list_id');
+    sql += restriction.sql;
+    params.push(...restriction.params);
+
     if (status) {
       sql += ' AND tasks.status = ?';
       params.push(status);
@@ -264,6 +275,8 @@ export async function POST(request: NextRequest) {
     if (!auth) {
       throw authenticationError();
     }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
     const rl = await rateLimitApi(request, auth);
     if ('response' in rl) return rl.response;
 
@@ -292,6 +305,7 @@ export async function POST(request: NextRequest) {
     if (!validatedTaskListId) {
       throw validationError('Task list ID is required');
     }
+    requireTaskListAccess(auth, validatedTaskListId);
 
     const validatedDescription = validateString(description, {
       fieldName: 'description',
@@ -371,12 +385,16 @@ export async function POST(request: NextRequest) {
       throw new Error('Failed to create task');
     }
 
+    await recordAudit(db, auth, { action: 'task.create', entityType: 'task', entityId: taskId, after: task[0] });
+
     const parsedTask = {
       ...task[0],
       labels: safeJsonParseArray<string>(task[0].labels as unknown as string, []),
       files_changed: safeJsonParseArray<string>(task[0].files_changed as unknown as string, []),
     };
 
+    await dispatchWebhookEvent(db, auth.workspaceId, 'task.created', { task: parsedTask });
+
     return jsonWithRateLimit({ task: parsedTask }, rl.result, { status: 201 });
   } catch (error) {
     return createErrorResponse(error, {
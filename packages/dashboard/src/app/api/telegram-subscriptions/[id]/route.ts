@@ -0,0 +1,159 @@
+// API Route: /api/telegram-subscriptions/[id]
+// Change what a linked Telegram chat is notified about, or unlink it
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import {
+  SUBSCRIPTION_FIELDS,
+  toTelegramSubscription,
+  validateSubscriptionFields,
+  type TelegramSubscriptionRow,
+} from '@/lib/notifications/subscriptions';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validationError,
+} from '@/lib/utils';
+import type {
+  TelegramSubscription,
+  TelegramSubscriptionResponse,
+  UpdateTelegramSubscriptionRequest,
+} from '@taskinfa/shared';
+
+async function findSubscription(
+  db: ReturnType<typeof getDb>,
+  workspaceId: string,
+  id: string
+): Promise<TelegramSubscription> {
+  const row = await queryOne<TelegramSubscriptionRow>(
+    db,
+    `SELECT ${SUBSCRIPTION_FIELDS} FROM telegram_subscriptions WHERE id = ? AND workspace_id = ?`,
+    [id, workspaceId]
+  );
+  if (!row) {
+    throw notFoundError('Telegram chat');
+  }
+  return toTelegramSubscription(row);
+}
+
+// PATCH /api/telegram-subscriptions/[id] - Change projects, event types, quiet hours or
+// mute the chat. task_list_ids null subscribes to every project.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const body: UpdateTelegramSubscriptionRequest = await request.json();
+    const fields = validateSubscriptionFields(body);
+    const entries = Object.entries(fields);
+    if (entries.length === 0) {
+      throw validationError('At least one field must be provided');
+    }
+
+    const db = getDb();
+    const before = await findSubscription(db, auth.workspaceId, id);
+
+    const start = fields.quiet_hours_start !== undefined ? fields.quiet_hours_start : before.quiet_hours_start;
+    const end = fields.quiet_hours_end !== undefined ? fields.quiet_hours_end : before.quiet_hours_end;
+    if ((start === null) !== (end === null)) {
+      throw validationError('quiet_hours_start and quiet_hours_end must be set together');
+    }
+
+    if (fields.task_list_ids) {
+      const projects = await query<{ id: string }>(
+        db,
+        `SELECT id FROM task_lists WHERE workspace_id = ? AND id IN (${fields.task_list_ids.map(() => '?').join(', ')})`,
+        [auth.workspaceId, ...fields.task_list_ids]
+      );
+      const unknown = fields.task_list_ids.filter((listId) => !projects.some((p) => p.id === listId));
+      if (unknown.length > 0) {
+        throw validationError(`Unknown project: ${unknown.join(', ')}`);
+      }
+    }
+
+    await execute(
+      db,
+      `UPDATE telegram_subscriptions SET ${entries.map(([field]) => `${field} = ?`).join(', ')}, updated_at = datetime('now')
+       WHERE id = ? AND workspace_id = ?`,
+      [
+        ...entries.map(([, value]) =>
+          typeof value === 'boolean' ? (value ? 1 : 0) : Array.isArray(value) ? JSON.stringify(value) : value
+        ),
+        id,
+        auth.workspaceId,
+      ]
+    );
+
+    const subscription = await findSubscription(db, auth.workspaceId, id);
+
+    await recordAudit(db, auth, {
+      action: 'telegram_subscription.update',
+      entityType: 'telegram_subscription',
+      entityId: id,
+      before,
+      after: subscription,
+    });
+
+    const response: TelegramSubscriptionResponse = { subscription };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'update_telegram_subscription',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// DELETE /api/telegram-subscriptions/[id] - Unlink the chat; the bot stops answering it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const db = getDb();
+    const subscription = await findSubscription(db, auth.workspaceId, id);
+
+    await execute(db, 'DELETE FROM telegram_subscriptions WHERE id = ? AND workspace_id = ?', [id, auth.workspaceId]);
+
+    await recordAudit(db, auth, {
+      action: 'telegram_subscription.delete',
+      entityType: 'telegram_subscription',
+      entityId: id,
+      before: subscription,
+      after: null,
+    });
+
+    return jsonWithRateLimit({ success: true }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'delete_telegram_subscription',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
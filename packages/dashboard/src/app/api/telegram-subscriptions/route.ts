@@ -0,0 +1,35 @@
+// API Route: /api/telegram-subscriptions
+// Telegram chats linked to the workspace. Chats link themselves by sending the bot an
+// API key, so there is no POST here.
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { getTelegramSubscriptions } from '@/lib/notifications/subscriptions';
+import { createErrorResponse, authenticationError } from '@/lib/utils';
+import type { ListTelegramSubscriptionsResponse } from '@taskinfa/shared';
+
+// GET /api/telegram-subscriptions - List linked chats and what each is notified about
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const response: ListTelegramSubscriptionsResponse = {
+      subscriptions: await getTelegramSubscriptions(getDb(), auth.workspaceId),
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_telegram_subscriptions',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
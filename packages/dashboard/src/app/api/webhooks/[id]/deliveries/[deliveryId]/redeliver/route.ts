@@ -0,0 +1,78 @@
+// API Route: /api/webhooks/[id]/deliveries/[deliveryId]/redeliver
+// Sends a logged delivery again, e.g. after fixing the receiving endpoint
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  DELIVERY_FIELDS,
+  WEBHOOK_FIELDS,
+  redeliverWebhook,
+  type WebhookRow,
+} from '@/lib/notifications/webhooks';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+} from '@/lib/utils';
+import type { WebhookDelivery, WebhookDeliveryResponse } from '@taskinfa/shared';
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver - Send the same body as a
+// new delivery, attempted at once and retried like any other. Works on paused webhooks.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id, deliveryId } = await params;
+    const db = getDb();
+
+    const webhook = await queryOne<WebhookRow>(
+      db,
+      `SELECT ${WEBHOOK_FIELDS} FROM webhooks WHERE id = ? AND workspace_id = ?`,
+      [id, auth.workspaceId]
+    );
+    if (!webhook) {
+      throw notFoundError('Webhook');
+    }
+
+    const original = await queryOne<WebhookDelivery>(
+      db,
+      `SELECT ${DELIVERY_FIELDS} FROM webhook_deliveries WHERE id = ? AND webhook_id = ? AND workspace_id = ?`,
+      [deliveryId, id, auth.workspaceId]
+    );
+    if (!original) {
+      throw notFoundError('Delivery');
+    }
+
+    const newId = await redeliverWebhook(db, webhook, original);
+    const delivery = await queryOne<WebhookDelivery>(
+      db,
+      `SELECT ${DELIVERY_FIELDS} FROM webhook_deliveries WHERE id = ?`,
+      [newId]
+    );
+    if (!delivery) {
+      throw notFoundError('Delivery');
+    }
+
+    const response: WebhookDeliveryResponse = { delivery };
+    return jsonWithRateLimit(response, rl.result, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'redeliver_webhook',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// API Route: /api/webhooks/[id]/deliveries
+// Delivery log of a webhook: what was sent, how the endpoint answered and when the
+// next retry is due
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { DELIVERY_FIELDS } from '@/lib/notifications/webhooks';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+import type { ListWebhookDeliveriesResponse, WebhookDelivery, WebhookDeliveryStatus } from '@taskinfa/shared';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+// GET /api/webhooks/[id]/deliveries - Newest deliveries first, optionally ?status=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const status = validateEnum(searchParams.get('status'), DELIVERY_STATUSES, { fieldName: 'status' });
+    const limit = validateInteger(searchParams.get('limit'), { fieldName: 'limit', min: 1, max: 100, defaultValue: 50 });
+
+    const db = getDb();
+    const webhook = await queryOne<{ id: string }>(
+      db,
+      'SELECT id FROM webhooks WHERE id = ? AND workspace_id = ?',
+      [id, auth.workspaceId]
+    );
+    if (!webhook) {
+      throw notFoundError('Webhook');
+    }
+
+    const deliveries = await query<WebhookDelivery>(
+      db,
+      `SELECT ${DELIVERY_FIELDS} FROM webhook_deliveries
+       WHERE webhook_id = ? AND workspace_id = ?${status ? ' AND status = ?' : ''}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [id, auth.workspaceId, ...(status ? [status] : []), limit]
+    );
+
+    const response: ListWebhookDeliveriesResponse = { deliveries };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_webhook_deliveries',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
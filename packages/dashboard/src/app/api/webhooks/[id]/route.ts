@@ -0,0 +1,132 @@
+// API Route: /api/webhooks/[id]
+// Change a webhook's target, format or events, pause it, or delete it with its deliveries
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import {
+  WEBHOOK_FIELDS,
+  toWebhook,
+  validateWebhookFields,
+  type WebhookRow,
+} from '@/lib/notifications/webhooks';
+import {
+  createErrorResponse,
+  authenticationError,
+  notFoundError,
+  validationError,
+} from '@/lib/utils';
+import type { UpdateWebhookRequest, Webhook, WebhookResponse } from '@taskinfa/shared';
+
+async function findWebhook(db: ReturnType<typeof getDb>, workspaceId: string, id: string): Promise<Webhook> {
+  const row = await queryOne<WebhookRow>(
+    db,
+    `SELECT ${WEBHOOK_FIELDS} FROM webhooks WHERE id = ? AND workspace_id = ?`,
+    [id, workspaceId]
+  );
+  if (!row) {
+    throw notFoundError('Webhook');
+  }
+  return toWebhook(row);
+}
+
+// PATCH /api/webhooks/[id] - Update name, url, format, event_types or enabled
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const body: UpdateWebhookRequest = await request.json();
+    const entries = Object.entries(validateWebhookFields(body));
+    if (entries.length === 0) {
+      throw validationError('At least one field must be provided');
+    }
+
+    const db = getDb();
+    const before = await findWebhook(db, auth.workspaceId, id);
+
+    await execute(
+      db,
+      `UPDATE webhooks SET ${entries.map(([field]) => `${field} = ?`).join(', ')}, updated_at = datetime('now')
+       WHERE id = ? AND workspace_id = ?`,
+      [
+        ...entries.map(([, value]) =>
+          typeof value === 'boolean' ? (value ? 1 : 0) : Array.isArray(value) ? JSON.stringify(value) : value
+        ),
+        id,
+        auth.workspaceId,
+      ]
+    );
+
+    const webhook = await findWebhook(db, auth.workspaceId, id);
+
+    await recordAudit(db, auth, {
+      action: 'webhook.update',
+      entityType: 'webhook',
+      entityId: id,
+      before,
+      after: webhook,
+    });
+
+    const response: WebhookResponse = { webhook };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'update_webhook',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// DELETE /api/webhooks/[id] - Delete the webhook; pending deliveries are dropped with it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const db = getDb();
+    const webhook = await findWebhook(db, auth.workspaceId, id);
+
+    await execute(db, 'DELETE FROM webhook_deliveries WHERE webhook_id = ? AND workspace_id = ?', [id, auth.workspaceId]);
+    await execute(db, 'DELETE FROM webhooks WHERE id = ? AND workspace_id = ?', [id, auth.workspaceId]);
+
+    await recordAudit(db, auth, {
+      action: 'webhook.delete',
+      entityType: 'webhook',
+      entityId: id,
+      before: webhook,
+      after: null,
+    });
+
+    return jsonWithRateLimit({ success: true }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'delete_webhook',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
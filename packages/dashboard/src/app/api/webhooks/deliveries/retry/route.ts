@@ -0,0 +1,44 @@
+// API Route: /api/webhooks/deliveries/retry
+// Sends webhook deliveries that are due: retries, and new ones a dispatch left over
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { sendDueWebhookDeliveries } from '@/lib/notifications/webhooks';
+import { createErrorResponse, authenticationError } from '@/lib/utils';
+import type { RetryWebhookDeliveriesResponse } from '@taskinfa/shared';
+
+// Deliveries retried per call; the rest wait for the next one
+const RETRY_BATCH_SIZE = 20;
+
+// POST /api/webhooks/deliveries/retry - Retry due deliveries
+// Called by every orchestrator at the start of a poll cycle, next to the lease reclaim.
+// Workers have no timers of their own, so without an orchestrator retries never happen
+// and events queued by the Telegram bot only go out alongside the dashboard's own.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'member');
+    requireScope(auth, 'tasks:write');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const response: RetryWebhookDeliveriesResponse = await sendDueWebhookDeliveries(
+      getDb(),
+      auth.workspaceId,
+      RETRY_BATCH_SIZE
+    );
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'retry_webhook_deliveries',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,103 @@
+// API Route: /api/webhooks
+// Outbound webhooks of the workspace. URLs often carry credentials (Slack, Discord),
+// so reading them is an admin action too.
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import {
+  WEBHOOK_FIELDS,
+  generateWebhookSecret,
+  getWebhooks,
+  toWebhook,
+  validateWebhookFields,
+  type WebhookRow,
+} from '@/lib/notifications/webhooks';
+import { nanoid } from 'nanoid';
+import {
+  createErrorResponse,
+  authenticationError,
+  validationError,
+} from '@/lib/utils';
+import type { CreateWebhookRequest, ListWebhooksResponse, WebhookResponse } from '@taskinfa/shared';
+
+// GET /api/webhooks - List webhooks; secrets are shown as a preview
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const response: ListWebhooksResponse = { webhooks: await getWebhooks(getDb(), auth.workspaceId) };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_webhooks',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// POST /api/webhooks - Create a webhook. The response carries its signing secret,
+// which is not shown again.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: CreateWebhookRequest = await request.json();
+    const fields = validateWebhookFields(body);
+    if (!fields.name || !fields.url || !fields.event_types) {
+      throw validationError('name, url and event_types are required');
+    }
+
+    const db = getDb();
+    const id = `wh_${nanoid()}`;
+
+    await execute(
+      db,
+      `INSERT INTO webhooks (id, workspace_id, name, url, format, event_types, secret, enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        auth.workspaceId,
+        fields.name,
+        fields.url,
+        fields.format ?? 'json',
+        JSON.stringify(fields.event_types),
+        generateWebhookSecret(),
+        fields.enabled === false ? 0 : 1,
+      ]
+    );
+
+    const row = await queryOne<WebhookRow>(db, `SELECT ${WEBHOOK_FIELDS} FROM webhooks WHERE id = ?`, [id]);
+    if (!row) {
+      throw new Error('Failed to create webhook');
+    }
+
+    await recordAudit(db, auth, { action: 'webhook.create', entityType: 'webhook', entityId: id, after: toWebhook(row) });
+
+    const response: WebhookResponse = { webhook: toWebhook(row, { withSecret: true }) };
+    return jsonWithRateLimit(response, rl.result, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'create_webhook',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,159 @@
+// API Route: /api/wip-limits
+// WIP limits of built-in columns, and how many tasks each column holds right now
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, taskListCondition } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import {
+  MAX_WIP_LIMIT,
+  WIP_LIMIT_FIELDS,
+  WIP_LIMIT_STATUSES,
+  getWipLimits,
+  toColumnWipLimit,
+  type ColumnWipLimitRow,
+} from '@/lib/workflow/columns';
+import { nanoid } from 'nanoid';
+import {
+  createErrorResponse,
+  authenticationError,
+  validationError,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+import type {
+  BuiltinTaskStatus,
+  ColumnWipLimit,
+  GetWipLimitsResponse,
+  TaskStatus,
+  UpsertWipLimitRequest,
+  UpsertWipLimitResponse,
+} from '@taskinfa/shared';
+
+async function findLimit(
+  db: ReturnType<typeof getDb>,
+  workspaceId: string,
+  status: BuiltinTaskStatus
+): Promise<ColumnWipLimit | null> {
+  const row = await queryOne<ColumnWipLimitRow>(
+    db,
+    `SELECT ${WIP_LIMIT_FIELDS} FROM column_wip_limits WHERE workspace_id = ? AND status = ?`,
+    [workspaceId, status]
+  );
+  return row ? toColumnWipLimit(row) : null;
+}
+
+// GET /api/wip-limits - Limits of built-in columns plus task counts per status.
+// Custom columns carry their limits themselves (see /api/workflow-columns).
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const scope = taskListCondition(auth, 'task_list_id');
+    const rows = await query<{ status: TaskStatus; count: number }>(
+      db,
+      `SELECT status, COUNT(*) as count FROM tasks WHERE workspace_id = ?${scope.sql} GROUP BY status`,
+      [auth.workspaceId, ...scope.params]
+    );
+
+    const response: GetWipLimitsResponse = {
+      limits: await getWipLimits(db, auth.workspaceId),
+      counts: Object.fromEntries(rows.map((row) => [row.status, row.count])),
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'get_wip_limits',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// PUT /api/wip-limits - Set the limit of a built-in column; wip_limit null removes it
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: UpsertWipLimitRequest = await request.json();
+    const status = validateEnum(body.status, WIP_LIMIT_STATUSES, {
+      fieldName: 'status',
+      required: true,
+    }) as BuiltinTaskStatus;
+    const wipLimit = body.wip_limit === null || body.wip_limit === undefined
+      ? null
+      : validateInteger(String(body.wip_limit), { fieldName: 'wip_limit', min: 1, max: MAX_WIP_LIMIT });
+    if (body.block_when_full !== undefined && typeof body.block_when_full !== 'boolean') {
+      throw validationError('block_when_full must be a boolean');
+    }
+
+    const db = getDb();
+    const existing = await findLimit(db, auth.workspaceId, status);
+
+    if (wipLimit === null) {
+      if (existing) {
+        await execute(db, 'DELETE FROM column_wip_limits WHERE id = ?', [existing.id]);
+        await recordAudit(db, auth, {
+          action: 'wip_limit.update',
+          entityType: 'wip_limit',
+          entityId: status,
+          before: existing,
+          after: null,
+        });
+      }
+      const response: UpsertWipLimitResponse = { limit: null };
+      return jsonWithRateLimit(response, rl.result);
+    }
+
+    const blockWhenFull = body.block_when_full ?? existing?.block_when_full ?? false;
+    if (existing) {
+      await execute(
+        db,
+        `UPDATE column_wip_limits SET wip_limit = ?, block_when_full = ?, updated_at = datetime('now')
+         WHERE id = ?`,
+        [wipLimit, blockWhenFull ? 1 : 0, existing.id]
+      );
+    } else {
+      await execute(
+        db,
+        `INSERT INTO column_wip_limits (id, workspace_id, status, wip_limit, block_when_full)
+         VALUES (?, ?, ?, ?, ?)`,
+        [`wip_${nanoid()}`, auth.workspaceId, status, wipLimit, blockWhenFull ? 1 : 0]
+      );
+    }
+
+    const limit = await findLimit(db, auth.workspaceId, status);
+
+    await recordAudit(db, auth, {
+      action: 'wip_limit.update',
+      entityType: 'wip_limit',
+      entityId: status,
+      before: existing,
+      after: limit,
+    });
+
+    const response: UpsertWipLimitResponse = { limit };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'upsert_wip_limit',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
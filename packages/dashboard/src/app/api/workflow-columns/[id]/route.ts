@@ -0,0 +1,148 @@
+// API Route: /api/workflow-columns/[id]
+// Update or delete a custom workflow column
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import {
+  WORKFLOW_COLUMN_FIELDS,
+  toWorkflowColumn,
+  validateWorkflowColumnFields,
+  type WorkflowColumnRow,
+} from '@/lib/workflow/columns';
+import {
+  createErrorResponse,
+  authenticationError,
+  conflictError,
+  notFoundError,
+  validationError,
+} from '@/lib/utils';
+import type { UpdateWorkflowColumnRequest, WorkflowColumn, WorkflowColumnResponse } from '@taskinfa/shared';
+
+async function findColumn(db: ReturnType<typeof getDb>, workspaceId: string, id: string): Promise<WorkflowColumn> {
+  const row = await queryOne<WorkflowColumnRow>(
+    db,
+    `SELECT ${WORKFLOW_COLUMN_FIELDS} FROM workflow_columns WHERE id = ? AND workspace_id = ?`,
+    [id, workspaceId]
+  );
+  if (!row) {
+    throw notFoundError('Workflow column');
+  }
+  return toWorkflowColumn(row);
+}
+
+// PATCH /api/workflow-columns/[id] - Change label, icon, placement, WIP limit, blocking or orchestration.
+// The status key is fixed: tasks in the column keep it.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const body: UpdateWorkflowColumnRequest = await request.json();
+    const fields = validateWorkflowColumnFields(body);
+    const entries = Object.entries(fields);
+    if (entries.length === 0) {
+      throw validationError('At least one field must be provided');
+    }
+
+    const db = getDb();
+    const before = await findColumn(db, auth.workspaceId, id);
+
+    const orchestrated = fields.orchestrated ?? before.orchestrated;
+    const instructions = fields.instructions !== undefined ? fields.instructions : before.instructions;
+    if (orchestrated && !instructions) {
+      throw validationError('instructions are required for orchestrated columns');
+    }
+
+    await execute(
+      db,
+      `UPDATE workflow_columns SET ${entries.map(([field]) => `${field} = ?`).join(', ')}, updated_at = datetime('now')
+       WHERE id = ? AND workspace_id = ?`,
+      [
+        ...entries.map(([, value]) => (typeof value === 'boolean' ? (value ? 1 : 0) : value)),
+        id,
+        auth.workspaceId,
+      ]
+    );
+
+    const column = await findColumn(db, auth.workspaceId, id);
+
+    await recordAudit(db, auth, {
+      action: 'workflow_column.update',
+      entityType: 'workflow_column',
+      entityId: id,
+      before,
+      after: column,
+    });
+
+    const response: WorkflowColumnResponse = { column };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'update_workflow_column',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// DELETE /api/workflow-columns/[id] - Remove an empty column
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const db = getDb();
+    const column = await findColumn(db, auth.workspaceId, id);
+
+    // Tasks would be left with a status no board shows
+    const inColumn = await queryOne<{ count: number }>(
+      db,
+      'SELECT COUNT(*) as count FROM tasks WHERE workspace_id = ? AND status = ?',
+      [auth.workspaceId, column.status]
+    );
+    if (inColumn && inColumn.count > 0) {
+      throw conflictError(`Move the ${inColumn.count} task(s) in "${column.label}" to another column first`);
+    }
+
+    await execute(db, 'DELETE FROM workflow_columns WHERE id = ? AND workspace_id = ?', [id, auth.workspaceId]);
+
+    await recordAudit(db, auth, {
+      action: 'workflow_column.delete',
+      entityType: 'workflow_column',
+      entityId: id,
+      before: column,
+      after: null,
+    });
+
+    return jsonWithRateLimit({ success: true }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'delete_workflow_column',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
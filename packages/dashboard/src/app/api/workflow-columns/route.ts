@@ -0,0 +1,165 @@
+// API Route: /api/workflow-columns
+// List and create custom workflow columns
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope, requireTaskListAccess } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { recordAudit } from '@/lib/audit/log';
+import {
+  WORKFLOW_COLUMN_FIELDS,
+  customStatusKey,
+  getWorkflowColumns,
+  toWorkflowColumn,
+  validateWorkflowColumnFields,
+  type WorkflowColumnRow,
+} from '@/lib/workflow/columns';
+import { nanoid } from 'nanoid';
+import {
+  createErrorResponse,
+  authenticationError,
+  conflictError,
+  notFoundError,
+  validationError,
+  validateString,
+} from '@/lib/utils';
+import type {
+  CreateWorkflowColumnRequest,
+  ListWorkflowColumnsResponse,
+  WorkflowColumnResponse,
+} from '@taskinfa/shared';
+
+// GET /api/workflow-columns - All custom columns in the workspace
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const response: ListWorkflowColumnsResponse = {
+      columns: await getWorkflowColumns(getDb(), auth.workspaceId),
+    };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_workflow_columns',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// POST /api/workflow-columns - Add a column for the workspace, or one project with task_list_id
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: CreateWorkflowColumnRequest = await request.json();
+    const fields = validateWorkflowColumnFields(body);
+    if (!fields.label) {
+      throw validationError('label is required');
+    }
+    if (!fields.after_status) {
+      throw validationError('after_status is required');
+    }
+    if (fields.orchestrated && !fields.instructions) {
+      throw validationError('instructions are required for orchestrated columns');
+    }
+
+    const key = validateString(body.key, { fieldName: 'key', required: false, maxLength: 40 });
+    const status = customStatusKey(key ?? fields.label);
+    if (status === 'custom_') {
+      throw validationError('key must contain at least one letter or digit');
+    }
+
+    const taskListId = validateString(body.task_list_id, {
+      fieldName: 'task_list_id',
+      required: false,
+      maxLength: 200,
+    });
+
+    const db = getDb();
+
+    if (taskListId) {
+      requireTaskListAccess(auth, taskListId);
+      const project = await queryOne<{ id: string }>(
+        db,
+        'SELECT id FROM task_lists WHERE id = ? AND workspace_id = ?',
+        [taskListId, auth.workspaceId]
+      );
+      if (!project) {
+        throw notFoundError('Project');
+      }
+    }
+
+    const existing = await queryOne<{ id: string }>(
+      db,
+      'SELECT id FROM workflow_columns WHERE workspace_id = ? AND status = ?',
+      [auth.workspaceId, status]
+    );
+    if (existing) {
+      throw conflictError(`A column with status ${status} already exists`);
+    }
+
+    const columnId = `wfc_${nanoid()}`;
+    await execute(
+      db,
+      `INSERT INTO workflow_columns
+         (id, workspace_id, task_list_id, status, label, icon, after_status, position, wip_limit, block_when_full,
+          orchestrated, instructions)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        columnId,
+        auth.workspaceId,
+        taskListId,
+        status,
+        fields.label,
+        fields.icon ?? '📌',
+        fields.after_status,
+        fields.position ?? 0,
+        fields.wip_limit ?? null,
+        fields.block_when_full ? 1 : 0,
+        fields.orchestrated ? 1 : 0,
+        fields.instructions ?? null,
+      ]
+    );
+
+    const row = await queryOne<WorkflowColumnRow>(
+      db,
+      `SELECT ${WORKFLOW_COLUMN_FIELDS} FROM workflow_columns WHERE id = ?`,
+      [columnId]
+    );
+    if (!row) {
+      throw new Error('Failed to retrieve created column');
+    }
+    const column = toWorkflowColumn(row);
+
+    await recordAudit(db, auth, {
+      action: 'workflow_column.create',
+      entityType: 'workflow_column',
+      entityId: columnId,
+      before: null,
+      after: column,
+    });
+
+    const response: WorkflowColumnResponse = { column };
+    return jsonWithRateLimit(response, rl.result, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'create_workflow_column',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
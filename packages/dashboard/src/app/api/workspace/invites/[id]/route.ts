@@ -0,0 +1,52 @@
+// API Route: /api/workspace/invites/[id]
+// Revoke an invite link before it is used
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { createErrorResponse, authenticationError, notFoundError } from '@/lib/utils';
+
+// DELETE /api/workspace/invites/[id] - Revoke an invite (kept for the record, no longer accepted)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { id } = await params;
+    const db = getDb();
+
+    const invite = await queryOne<{ id: string }>(
+      db,
+      'SELECT id FROM workspace_invites WHERE id = ? AND workspace_id = ? AND accepted_at IS NULL',
+      [id, auth.workspaceId]
+    );
+    if (!invite) {
+      throw notFoundError('Invite');
+    }
+
+    await execute(
+      db,
+      `UPDATE workspace_invites SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL`,
+      [id]
+    );
+
+    return jsonWithRateLimit({ success: true }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'revoke_invite',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,111 @@
+// API Route: /api/workspace/invites
+// Single-use invite links; whoever opens the link while signed in joins with the invite's role
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified, hashKey } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { nanoid } from 'nanoid';
+import {
+  createErrorResponse,
+  authenticationError,
+  validateEnum,
+  validateInteger,
+} from '@/lib/utils';
+import type {
+  InviteRole,
+  WorkspaceInvite,
+  ListInvitesResponse,
+  CreateInviteRequest,
+  CreateInviteResponse,
+} from '@taskinfa/shared';
+
+const INVITE_ROLES: readonly InviteRole[] = ['admin', 'member', 'viewer'];
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+
+const INVITE_COLUMNS =
+  'id, role, created_by, expires_at, accepted_by, accepted_at, revoked_at, created_at';
+
+// GET /api/workspace/invites - Invites that can still be accepted, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const invites = await query<WorkspaceInvite>(
+      db,
+      `SELECT ${INVITE_COLUMNS} FROM workspace_invites
+       WHERE workspace_id = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now')
+       ORDER BY created_at DESC`,
+      [auth.workspaceId]
+    );
+
+    const response: ListInvitesResponse = { invites };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_invites',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// POST /api/workspace/invites - Create an invite; the token is only returned here
+// Only owners may invite admins.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const body: CreateInviteRequest = await request.json();
+    const role = validateEnum(body.role, INVITE_ROLES, { fieldName: 'role', required: true }) as InviteRole;
+    if (role === 'admin') {
+      requireRole(auth, 'owner');
+    }
+    const expiresInDays = validateInteger(
+      body.expires_in_days !== undefined ? String(body.expires_in_days) : undefined,
+      { fieldName: 'expires_in_days', min: 1, max: MAX_EXPIRY_DAYS, defaultValue: DEFAULT_EXPIRY_DAYS }
+    );
+
+    const db = getDb();
+    const id = `inv_${nanoid()}`;
+    const token = nanoid(32);
+
+    await execute(
+      db,
+      `INSERT INTO workspace_invites (id, workspace_id, token_hash, role, created_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now', ?))`,
+      [id, auth.workspaceId, await hashKey(token), role, auth.userId ?? null, `+${expiresInDays} days`]
+    );
+
+    const invite = await queryOne<WorkspaceInvite>(
+      db,
+      `SELECT ${INVITE_COLUMNS} FROM workspace_invites WHERE id = ?`,
+      [id]
+    );
+
+    const response: CreateInviteResponse = { invite: invite as WorkspaceInvite, token };
+    return jsonWithRateLimit(response, rl.result, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'create_invite',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -0,0 +1,144 @@
+// API Route: /api/workspace/members/[userId]
+// Change a member's role or remove them from the workspace
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireRole } from '@/lib/auth/roles';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, queryOne, execute } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import {
+  createErrorResponse,
+  authenticationError,
+  conflictError,
+  notFoundError,
+  validateEnum,
+} from '@/lib/utils';
+import { WORKSPACE_ROLES } from '@taskinfa/shared';
+import type {
+  WorkspaceMember,
+  WorkspaceRole,
+  UpdateMemberRequest,
+  UpdateMemberResponse,
+} from '@taskinfa/shared';
+
+async function findMember(
+  db: ReturnType<typeof getDb>,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceMember | null> {
+  return queryOne<WorkspaceMember>(
+    db,
+    `SELECT m.user_id, u.email, u.name, m.role, m.created_at
+     FROM workspace_members m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.workspace_id = ? AND m.user_id = ?`,
+    [workspaceId, userId]
+  );
+}
+
+// A workspace always keeps at least one owner
+async function assertNotLastOwner(db: ReturnType<typeof getDb>, workspaceId: string): Promise<void> {
+  const owners = await queryOne<{ count: number }>(
+    db,
+    `SELECT COUNT(*) as count FROM workspace_members WHERE workspace_id = ? AND role = 'owner'`,
+    [workspaceId]
+  );
+  if ((owners?.count ?? 0) <= 1) {
+    throw conflictError('A workspace needs at least one owner. Make someone else an owner first.');
+  }
+}
+
+// PATCH /api/workspace/members/[userId] - Change a member's role
+// Admins manage admins, members and viewers; only owners grant or take away the owner role.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireRole(auth, 'admin');
+    requireScope(auth, 'workspace:admin');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const { userId } = await params;
+    const body: UpdateMemberRequest = await request.json();
+    const role = validateEnum(body.role, WORKSPACE_ROLES, { fieldName: 'role', required: true }) as WorkspaceRole;
+
+    const db = getDb();
+    const member = await findMember(db, auth.workspaceId, userId);
+    if (!member) {
+      throw notFoundError('Member');
+    }
+
+    if (member.role === 'owner' || role === 'owner') {
+      requireRole(auth, 'owner');
+    }
+    if (member.role === 'owner' && role !== 'owner') {
+      await assertNotLastOwner(db, auth.workspaceId);
+    }
+
+    await execute(
+      db,
+      'UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?',
+      [role, auth.workspaceId, userId]
+    );
+
+    const response: UpdateMemberResponse = { member: { ...member, role } };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'update_member',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
+
+// DELETE /api/workspace/members/[userId] - Remove a member, or leave the workspace (own user ID)
+// Their API keys for this workspace stop working with the membership.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'workspace:admin');
+    const { userId } = await params;
+    if (userId !== auth.userId) {
+      requireRole(auth, 'admin');
+    }
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const member = await findMember(db, auth.workspaceId, userId);
+    if (!member) {
+      throw notFoundError('Member');
+    }
+
+    if (member.role === 'owner') {
+      requireRole(auth, 'owner');
+      await assertNotLastOwner(db, auth.workspaceId);
+    }
+
+    await execute(
+      db,
+      'DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?',
+      [auth.workspaceId, userId]
+    );
+
+    return jsonWithRateLimit({ success: true }, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'remove_member',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
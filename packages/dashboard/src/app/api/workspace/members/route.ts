@@ -0,0 +1,42 @@
+// API Route: /api/workspace/members
+// People with access to the workspace and their roles
+
+import { NextRequest } from 'next/server';
+import { authenticateRequestUnified } from '@/lib/auth/jwt';
+import { requireScope } from '@/lib/auth/scopes';
+import { getDb, query } from '@/lib/db/client';
+import { rateLimitApi, jsonWithRateLimit } from '@/lib/middleware/apiRateLimit';
+import { createErrorResponse, authenticationError } from '@/lib/utils';
+import type { WorkspaceMember, ListMembersResponse } from '@taskinfa/shared';
+
+// GET /api/workspace/members - All members, owners first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequestUnified(request);
+    if (!auth) {
+      throw authenticationError();
+    }
+    requireScope(auth, 'tasks:read');
+    const rl = await rateLimitApi(request, auth);
+    if ('response' in rl) return rl.response;
+
+    const db = getDb();
+    const members = await query<WorkspaceMember>(
+      db,
+      `SELECT m.user_id, u.email, u.name, m.role, m.created_at
+       FROM workspace_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.workspace_id = ?
+       ORDER BY CASE m.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 WHEN 'member' THEN 2 ELSE 3 END, u.email ASC`,
+      [auth.workspaceId]
+    );
+
+    const response: ListMembersResponse = { members };
+    return jsonWithRateLimit(response, rl.result);
+  } catch (error) {
+    return createErrorResponse(error, {
+      operation: 'list_members',
+      workspaceId: (await authenticateRequestUnified(request))?.workspaceId,
+    });
+  }
+}
@@ -1,6 +1,13 @@
 import SignupForm from '@/components/auth/SignupForm';
+import { safeRedirectPath } from '@/lib/validations/auth';
+
+export default async function SignupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
 
-export default function SignupPage() {
   return (
     <div className="min-h-screen bg-terminal-bg flex flex-col">
       <header className="bg-terminal-surface border-b border-terminal-border">
@@ -17,7 +24,7 @@ export default function SignupPage() {
       </header>
 
       <main className="flex-1 flex items-center justify-center px-4 py-8 sm:py-12">
-        <SignupForm />
+        <SignupForm redirectTo={safeRedirectPath(next)} />
       </main>
 
       <footer className="bg-terminal-surface border-t border-terminal-border">
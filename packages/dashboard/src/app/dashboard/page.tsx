@@ -3,6 +3,7 @@ import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { getDb, query, queryOne } from '@/lib/db/client';
 import { verifySessionToken } from '@/lib/auth/session';
+import { getMemberRole } from '@/lib/auth/roles';
 import KanbanBoard from '@/components/KanbanBoard';
 import LogoutButton from '@/components/auth/LogoutButton';
 import MobileNav from '@/components/MobileNav';
@@ -34,7 +35,9 @@ export default async function DashboardPage() {
     [session.userId]
   );
 
-  if (!user) {
+  const role = await getMemberRole(session.workspaceId, session.userId);
+
+  if (!user || !role) {
     redirect('/auth/login');
   }
 
@@ -154,7 +157,7 @@ export default async function DashboardPage() {
           </div>
         ) : (
           <Suspense fallback={<div className="text-terminal-muted text-center py-8">Loading board...</div>}>
-            <KanbanBoard initialTasks={parsedTasks} taskLists={taskLists} />
+            <KanbanBoard initialTasks={parsedTasks} taskLists={taskLists} readOnly={role === 'viewer'} />
           </Suspense>
         )}
       </main>
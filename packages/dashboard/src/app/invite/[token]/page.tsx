@@ -0,0 +1,40 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { verifySessionToken } from '@/lib/auth/session';
+import InviteAccept from '@/components/auth/InviteAccept';
+
+export const dynamic = 'force-dynamic';
+
+export default async function InvitePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get('session_token')?.value;
+  const session = sessionToken ? await verifySessionToken(sessionToken) : null;
+
+  // Sign in (or sign up) first, then come back here to accept
+  if (!session) {
+    redirect(`/auth/login?next=${encodeURIComponent(`/invite/${token}`)}`);
+  }
+
+  return (
+    <div className="min-h-screen bg-terminal-bg flex flex-col">
+      <header className="bg-terminal-surface border-b border-terminal-border">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
+          <div className="flex items-center gap-2">
+            <span className="text-xl sm:text-2xl">⚡</span>
+            <h1 className="text-xl sm:text-2xl font-bold text-terminal-text">Kanban</h1>
+            <span className="text-xs sm:text-sm text-terminal-muted">by Taskinfa</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center px-4 py-8 sm:py-12">
+        <InviteAccept token={token} />
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { getDb, query } from '@/lib/db/client';
 import { verifySessionToken } from '@/lib/auth/session';
 import LogoutButton from '@/components/auth/LogoutButton';
 import MobileNav from '@/components/MobileNav';
+import OrchestratorControls from '@/components/OrchestratorControls';
 import type { TaskList, User } from '@taskinfa/shared';
 
 export const dynamic = 'force-dynamic';
@@ -192,6 +193,12 @@ export default async function OverviewPage() {
           </div>
         </div>
 
+        {/* Orchestrators */}
+        <h2 className="text-lg font-semibold text-terminal-text mb-4">Orchestrators</h2>
+        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-4 mb-6 sm:mb-8">
+          <OrchestratorControls />
+        </div>
+
         {/* Projects Grid */}
         <h2 className="text-lg font-semibold text-terminal-text mb-4">Projects</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -5,7 +5,16 @@ import { verifySessionToken } from '@/lib/auth/session';
 import LogoutButton from '@/components/auth/LogoutButton';
 import ApiKeyList from '@/components/settings/ApiKeyList';
 import FeatureToggleSettings from '@/components/settings/FeatureToggleSettings';
+import WorkflowColumnSettings from '@/components/settings/WorkflowColumnSettings';
+import WipLimitSettings from '@/components/settings/WipLimitSettings';
 import LlmProviderSettings from '@/components/settings/LlmProviderSettings';
+import BudgetSettings from '@/components/settings/BudgetSettings';
+import RunPolicySettings from '@/components/settings/RunPolicySettings';
+import RateLimitSettings from '@/components/settings/RateLimitSettings';
+import TelegramSubscriptionSettings from '@/components/settings/TelegramSubscriptionSettings';
+import WebhookSettings from '@/components/settings/WebhookSettings';
+import AuditLogSettings from '@/components/settings/AuditLogSettings';
+import WorkspaceMembers from '@/components/settings/WorkspaceMembers';
 import type { User, Workspace } from '@taskinfa/shared';
 
 // Force dynamic rendering since we need access to D1 database and auth
@@ -135,20 +144,65 @@ export default async function SettingsPage() {
             </div>
           </div>
 
+          {/* Members Section */}
+          <div className="card p-4 sm:p-6">
+            <WorkspaceMembers />
+          </div>
+
           {/* Feature Toggles Section */}
           <div className="card p-4 sm:p-6">
             <FeatureToggleSettings />
           </div>
 
+          {/* Workflow Columns Section */}
+          <div className="card p-4 sm:p-6">
+            <WorkflowColumnSettings />
+          </div>
+
+          {/* WIP Limits Section */}
+          <div className="card p-4 sm:p-6">
+            <WipLimitSettings />
+          </div>
+
           {/* LLM Providers Section */}
           <div className="card p-4 sm:p-6">
             <LlmProviderSettings />
           </div>
 
+          {/* Run Policies Section */}
+          <div className="card p-4 sm:p-6">
+            <RunPolicySettings />
+          </div>
+
+          {/* Budgets Section */}
+          <div className="card p-4 sm:p-6">
+            <BudgetSettings />
+          </div>
+
+          {/* Rate Limits Section */}
+          <div className="card p-4 sm:p-6">
+            <RateLimitSettings />
+          </div>
+
+          {/* Telegram Chats Section */}
+          <div className="card p-4 sm:p-6">
+            <TelegramSubscriptionSettings />
+          </div>
+
+          {/* Webhooks Section */}
+          <div className="card p-4 sm:p-6">
+            <WebhookSettings />
+          </div>
+
           {/* API Keys Section */}
           <div className="card p-4 sm:p-6">
             <ApiKeyList />
           </div>
+
+          {/* Audit Log Section */}
+          <div className="card p-4 sm:p-6">
+            <AuditLogSettings />
+          </div>
         </div>
       </main>
 
@@ -2,12 +2,13 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import type { Task, TaskList, TaskStatus, TaskPriority, TaskFilters, SavedFilter, SessionWithDetails, FeatureKey, FeatureToggle } from '@taskinfa/shared';
-import { getStatusColumns } from '@taskinfa/shared';
+import type { Task, TaskList, TaskStatus, TaskPriority, TaskFilters, SavedFilter, SessionWithDetails, FeatureKey, FeatureToggle, WorkflowColumn, ColumnWipLimit, GetWipLimitsResponse, StatusColumn } from '@taskinfa/shared';
+import { getStatusColumns, isColumnFull, workflowColumnsFor } from '@taskinfa/shared';
 import { useTaskStream } from '@/hooks/useTaskStream';
 import TaskCard from './TaskCard';
 import TaskModal from './TaskModal';
 import SessionsPanel from './SessionsPanel';
+import { getSwimlanes, swimlaneUpdate } from '@/lib/workflow/swimlanes';
 
 /** Extract error message from a failed API response */
 async function getApiErrorMessage(response: Response, fallback: string): Promise<string> {
@@ -25,12 +26,14 @@ import TaskFilterToolbar from './TaskFilterToolbar';
 interface KanbanBoardProps {
   initialTasks: Task[];
   taskLists: TaskList[];
+  // Viewers can browse the board but not create or move tasks
+  readOnly?: boolean;
 }
 
 
 const FILTER_KEYS: (keyof TaskFilters)[] = [
   'q', 'status', 'priority', 'task_list_id', 'label',
-  'assignee', 'created_after', 'created_before', 'sort', 'order',
+  'assignee', 'created_after', 'created_before', 'sort', 'order', 'swimlanes',
 ];
 
 function parseFiltersFromParams(params: URLSearchParams): TaskFilters {
@@ -53,7 +56,7 @@ function filtersToParams(filters: TaskFilters): URLSearchParams {
   return params;
 }
 
-export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProps) {
+export default function KanbanBoard({ initialTasks, taskLists, readOnly = false }: KanbanBoardProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -62,6 +65,9 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
   const [isFiltering, setIsFiltering] = useState(false);
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<TaskStatus | null>(null);
+  const [dragOverLane, setDragOverLane] = useState<string | null>(null);
+  // Swimlanes folded away, by lane key
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isSessionsPanelOpen, setIsSessionsPanelOpen] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -126,6 +132,29 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
     }
   }, [filters]); // router/searchParams intentionally excluded - only sync on filter changes
 
+  // Open the task from a ?task=<id> link, e.g. a Telegram notification's dashboard button
+  useEffect(() => {
+    const taskId = searchParams.get('task');
+    if (!taskId) return;
+    const task = initialTasks.find((t) => t.id === taskId);
+    if (task) {
+      setSelectedTask(task);
+      return;
+    }
+    // Not on the board, e.g. beyond the loaded page of tasks
+    fetch(`/api/tasks/${encodeURIComponent(taskId)}`)
+      .then((res) => (res.ok ? res.json() as Promise<{ task: Task }> : null))
+      .then((data) => {
+        if (data) setSelectedTask(data.task);
+      })
+      .catch((err) => console.error('Error fetching linked task:', err));
+  }, []); // Only on mount - the filter sync drops the param from the URL
+
+  // Lane keys of one grouping mean nothing in another
+  useEffect(() => {
+    setCollapsedLanes(new Set());
+  }, [filters.swimlanes]);
+
   // Load saved filters
   useEffect(() => {
     fetch('/api/saved-filters')
@@ -170,7 +199,44 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
     local_testing: false,
   });
 
-  const statusColumns = getStatusColumns(enabledFeatures);
+  // Custom columns; a project filter limits them to that project's board
+  const [workflowColumns, setWorkflowColumns] = useState<WorkflowColumn[]>([]);
+  // WIP limits of built-in columns; custom columns carry their own
+  const [wipLimits, setWipLimits] = useState<ColumnWipLimit[]>([]);
+
+  const statusColumns = getStatusColumns(
+    enabledFeatures,
+    workflowColumnsFor(workflowColumns, filters.task_list_id || undefined),
+    wipLimits
+  );
+
+  useEffect(() => {
+    async function fetchWipLimits() {
+      try {
+        const res = await fetch('/api/wip-limits');
+        if (!res.ok) return;
+        const data = await res.json() as GetWipLimitsResponse;
+        setWipLimits(data.limits);
+      } catch {
+        // No limits shown if fetch fails
+      }
+    }
+    fetchWipLimits();
+  }, []);
+
+  useEffect(() => {
+    async function fetchWorkflowColumns() {
+      try {
+        const res = await fetch('/api/workflow-columns');
+        if (!res.ok) return;
+        const data = await res.json() as { columns: WorkflowColumn[] };
+        setWorkflowColumns(data.columns);
+      } catch {
+        // Built-in columns only if fetch fails
+      }
+    }
+    fetchWorkflowColumns();
+  }, []);
 
   useEffect(() => {
     async function fetchToggles() {
@@ -225,30 +291,58 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
   };
 
   const handleDragStart = (task: Task) => {
+    if (readOnly) return;
     setDraggedTask(task);
   };
 
-  const handleDragOver = (e: React.DragEvent, status: TaskStatus) => {
-    e.preventDefault();
-    setDragOverColumn(status);
+  // Limits count every task in the column, not just those matching the filters
+  const getWipCount = (status: TaskStatus) => tasks.filter((task) => task.status === status).length;
+
+  // A full column set to block drops refuses tasks from other columns
+  const isDropBlocked = (column: StatusColumn) =>
+    !!column.blockWhenFull &&
+    !!draggedTask &&
+    draggedTask.status !== column.status &&
+    isColumnFull(column, getWipCount(column.status));
+
+  // Fields a drop into the column (and lane, with swimlanes on) changes; null = not allowed
+  const getDropUpdate = (column: StatusColumn, laneKey?: string): Partial<Task> | null => {
+    if (!draggedTask || isDropBlocked(column)) return null;
+    const laneUpdate = filters.swimlanes && laneKey !== undefined
+      ? swimlaneUpdate(draggedTask, filters.swimlanes, laneKey)
+      : {};
+    if (!laneUpdate) return null;
+    return draggedTask.status === column.status ? laneUpdate : { status: column.status, ...laneUpdate };
+  };
+
+  const handleDragOver = (e: React.DragEvent, column: StatusColumn, laneKey?: string) => {
+    // Not calling preventDefault tells the browser the drop is not allowed
+    if (getDropUpdate(column, laneKey)) {
+      e.preventDefault();
+    }
+    setDragOverColumn(column.status);
+    setDragOverLane(laneKey ?? null);
   };
 
   const handleDragLeave = () => {
     setDragOverColumn(null);
+    setDragOverLane(null);
   };
 
-  const handleDrop = async (e: React.DragEvent, newStatus: TaskStatus) => {
+  const handleDrop = async (e: React.DragEvent, column: StatusColumn, laneKey?: string) => {
     e.preventDefault();
     setDragOverColumn(null);
+    setDragOverLane(null);
 
-    if (!draggedTask || draggedTask.status === newStatus) {
+    const update = getDropUpdate(column, laneKey);
+    if (!draggedTask || !update || Object.keys(update).length === 0) {
       setDraggedTask(null);
       return;
     }
 
     // Prevent moving blocked tasks to active statuses
     const taskWithMeta = draggedTask as Task & { is_blocked?: boolean };
-    if (taskWithMeta.is_blocked && (newStatus === 'todo' || newStatus === 'in_progress')) {
+    if (taskWithMeta.is_blocked && (update.status === 'todo' || update.status === 'in_progress')) {
       setDraggedTask(null);
       return;
     }
@@ -256,14 +350,14 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
     // Optimistic update
     const previousTasks = [...tasks];
     setTasks((prev) =>
-      prev.map((t) => (t.id === draggedTask.id ? { ...t, status: newStatus } : t))
+      prev.map((t) => (t.id === draggedTask.id ? { ...t, ...update } : t))
     );
 
     try {
       const response = await fetch(`/api/tasks/${draggedTask.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(update),
       });
 
       if (!response.ok) {
@@ -276,7 +370,7 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
         prev.map((t) => (t.id === draggedTask.id ? data.task : t))
       );
     } catch (error) {
-      console.error('Error updating task status:', error instanceof Error ? error.message : error);
+      console.error('Error updating task:', error instanceof Error ? error.message : error);
       setTasks(previousTasks);
     }
 
@@ -459,6 +553,146 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
     setSelectionMode(false);
   };
 
+  const renderColumnHeader = (column: StatusColumn) => {
+    const columnTasks = getTasksByStatus(column.status);
+    const wipCount = getWipCount(column.status);
+    const overLimit = column.wipLimit != null && wipCount > column.wipLimit;
+    const atLimit = isColumnFull(column, wipCount);
+    const allColumnSelected = columnTasks.length > 0 && columnTasks.every((t) => selectedTaskIds.has(t.id));
+
+    return (
+      <div className={`
+        sticky top-0 z-10 bg-terminal-surface px-3 sm:px-4 py-2.5 sm:py-3 border border-terminal-border
+        ${filters.swimlanes ? 'rounded-lg' : 'rounded-t-lg border-b-0'}
+        ${overLimit ? 'border-t-2 border-t-terminal-red' : atLimit ? 'border-t-2 border-t-terminal-amber' : ''}
+      `}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1.5 sm:gap-2">
+            {selectionMode && columnTasks.length > 0 && (
+              <button
+                onClick={() => handleSelectAllInColumn(column.status)}
+                className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-colors flex-shrink-0
+                  ${allColumnSelected
+                    ? 'border-terminal-blue'
+                    : 'border-terminal-muted hover:border-terminal-blue'
+                  }`}
+                style={{
+                  backgroundColor: allColumnSelected ? 'var(--terminal-blue)' : 'transparent',
+                  borderColor: allColumnSelected ? 'var(--terminal-blue)' : undefined,
+                }}
+                title={allColumnSelected ? 'Deselect all' : 'Select all'}
+              >
+                {allColumnSelected && (
+                  <svg className="w-2.5 h-2.5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </button>
+            )}
+            <span className="text-sm sm:text-base">{column.icon}</span>
+            <h2 className="font-semibold text-terminal-text text-sm sm:text-base">{column.label}</h2>
+          </div>
+          <div className="flex items-center gap-1.5">
+            {column.wipLimit != null && (
+              <span
+                className={`text-xs px-1.5 py-0.5 rounded font-mono ${
+                  overLimit
+                    ? 'text-terminal-red bg-terminal-red/10'
+                    : atLimit
+                      ? 'text-terminal-amber bg-terminal-amber/10'
+                      : 'text-terminal-muted'
+                }`}
+                title={`WIP limit ${column.wipLimit}${column.blockWhenFull ? ', drops blocked when full' : ''}`}
+              >
+                {wipCount}/{column.wipLimit}
+              </span>
+            )}
+            <span className="text-xs sm:text-sm text-terminal-muted bg-terminal-bg px-1.5 sm:px-2 py-0.5 rounded">
+              {columnTasks.length}
+            </span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // laneKey is set when the board is split into swimlanes
+  const renderColumnBody = (column: StatusColumn, columnTasks: Task[], laneKey?: string) => {
+    const isDragOver = dragOverColumn === column.status && (laneKey === undefined || dragOverLane === laneKey);
+    const dropRefused = isDragOver && !!draggedTask && !getDropUpdate(column, laneKey);
+
+    return (
+      <div
+        className={`
+          bg-terminal-bg border border-terminal-border p-2 sm:p-3 space-y-2 sm:space-y-3 transition-all duration-150
+          ${laneKey === undefined ? 'rounded-b-lg border-t-0 min-h-[calc(100vh-380px)]' : 'rounded-lg min-h-[80px]'}
+          ${dropRefused
+            ? 'ring-2 ring-terminal-red ring-inset bg-terminal-red/5'
+            : isDragOver ? 'ring-2 ring-terminal-blue ring-inset bg-terminal-blue/5' : ''}
+        `}
+        onDragOver={(e) => handleDragOver(e, column, laneKey)}
+        onDragLeave={handleDragLeave}
+        onDrop={(e) => handleDrop(e, column, laneKey)}
+      >
+        {columnTasks.map((task) => {
+          const session = getSessionForTask(task.id);
+          // Map session to worker-compatible shape for TaskCard
+          const worker = session ? {
+            id: session.id,
+            name: session.project_name || 'Claude',
+            status: 'working' as const,
+            current_task: { id: task.id, title: task.title },
+          } : undefined;
+
+          return (
+            <TaskCard
+              key={task.id}
+              task={task}
+              worker={worker}
+              isDragging={draggedTask?.id === task.id}
+              selectionMode={selectionMode}
+              isSelected={selectedTaskIds.has(task.id)}
+              onToggleSelect={handleToggleSelect}
+              onDragStart={() => handleDragStart(task)}
+              onClick={() => handleTaskClick(task)}
+              onEdit={() => handleTaskEdit(task)}
+            />
+          );
+        })}
+
+        {dropRefused && (
+          <div className="text-center py-3 rounded-lg border-2 border-dashed border-terminal-red text-terminal-red text-sm">
+            {isDropBlocked(column) ? `Column full (${column.wipLimit})` : 'Can\'t move here'}
+          </div>
+        )}
+
+        {columnTasks.length === 0 && !dropRefused && (
+          <div className={`
+            text-center rounded-lg border-2 border-dashed transition-colors text-sm
+            ${laneKey === undefined ? 'py-8 sm:py-12' : 'py-4'}
+            ${isDragOver
+              ? 'border-terminal-blue text-terminal-blue'
+              : 'border-terminal-border text-terminal-muted'
+            }
+          `}>
+            {isDragOver ? 'Drop here' : hasActiveFilters ? 'No matches' : 'No tasks'}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const swimlanes = filters.swimlanes ? getSwimlanes(displayTasks, filters.swimlanes, taskLists) : null;
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   return (
     <>
       {/* Header & Toolbar - constrained width */}
@@ -488,19 +722,21 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
           {/* Right: Select Mode + Sessions + Create */}
           <div className="flex items-center gap-2 sm:gap-3">
             {/* Selection Mode Toggle */}
-            <button
-              onClick={toggleSelectionMode}
-              className={`flex items-center gap-1.5 px-2 sm:px-3 py-1.5 rounded-lg border transition-colors touch-manipulation min-h-[44px] text-xs sm:text-sm
-                ${selectionMode
-                  ? 'bg-terminal-blue/10 border-terminal-blue text-terminal-blue'
-                  : 'bg-terminal-surface border-terminal-border text-terminal-muted hover:bg-terminal-surface-hover hover:border-terminal-border-hover'
-                }`}
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
-              </svg>
-              <span className="hidden sm:inline">{selectionMode ? 'Cancel' : 'Select'}</span>
-            </button>
+            {!readOnly && (
+              <button
+                onClick={toggleSelectionMode}
+                className={`flex items-center gap-1.5 px-2 sm:px-3 py-1.5 rounded-lg border transition-colors touch-manipulation min-h-[44px] text-xs sm:text-sm
+                  ${selectionMode
+                    ? 'bg-terminal-blue/10 border-terminal-blue text-terminal-blue'
+                    : 'bg-terminal-surface border-terminal-border text-terminal-muted hover:bg-terminal-surface-hover hover:border-terminal-border-hover'
+                  }`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+                <span className="hidden sm:inline">{selectionMode ? 'Cancel' : 'Select'}</span>
+              </button>
+            )}
 
             {/* Sessions Indicator */}
             <button
@@ -520,15 +756,17 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
             </button>
 
             {/* Create Task Button */}
-            <button
-              onClick={() => setIsCreateModalOpen(true)}
-              className="btn-primary flex items-center gap-2"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              <span className="hidden sm:inline">New Task</span>
-            </button>
+            {!readOnly && (
+              <button
+                onClick={() => setIsCreateModalOpen(true)}
+                className="btn-primary flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                <span className="hidden sm:inline">New Task</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -564,101 +802,66 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
       </div>
 
       {/* Kanban Board - Full Width with Horizontal Scroll */}
-      <div className="flex gap-3 sm:gap-4 overflow-x-auto pb-4 scrollbar-thin px-3 sm:px-6">
-        {statusColumns.map((column) => {
-          const columnTasks = getTasksByStatus(column.status);
-          const isDragOver = dragOverColumn === column.status;
-          const allColumnSelected = columnTasks.length > 0 && columnTasks.every((t) => selectedTaskIds.has(t.id));
+      {swimlanes ? (
+        <div className="overflow-x-auto pb-4 scrollbar-thin px-3 sm:px-6">
+          <div className="inline-flex flex-col gap-3 min-w-full">
+            <div className="flex gap-3 sm:gap-4">
+              {statusColumns.map((column) => (
+                <div key={column.status} className="flex-shrink-0 w-[260px] sm:w-72">
+                  {renderColumnHeader(column)}
+                </div>
+              ))}
+            </div>
 
-          return (
-            <div key={column.status} className="flex-shrink-0 w-[260px] sm:w-72">
-              {/* Column Header */}
-              <div className="sticky top-0 z-10 bg-terminal-surface rounded-t-lg px-3 sm:px-4 py-2.5 sm:py-3 border border-terminal-border border-b-0">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-1.5 sm:gap-2">
-                    {selectionMode && columnTasks.length > 0 && (
-                      <button
-                        onClick={() => handleSelectAllInColumn(column.status)}
-                        className={`w-4 h-4 rounded border-2 flex items-center justify-center transition-colors flex-shrink-0
-                          ${allColumnSelected
-                            ? 'border-terminal-blue'
-                            : 'border-terminal-muted hover:border-terminal-blue'
-                          }`}
-                        style={{
-                          backgroundColor: allColumnSelected ? 'var(--terminal-blue)' : 'transparent',
-                          borderColor: allColumnSelected ? 'var(--terminal-blue)' : undefined,
-                        }}
-                        title={allColumnSelected ? 'Deselect all' : 'Select all'}
-                      >
-                        {allColumnSelected && (
-                          <svg className="w-2.5 h-2.5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                          </svg>
-                        )}
-                      </button>
-                    )}
-                    <span className="text-sm sm:text-base">{column.icon}</span>
-                    <h2 className="font-semibold text-terminal-text text-sm sm:text-base">{column.label}</h2>
-                  </div>
-                  <span className="text-xs sm:text-sm text-terminal-muted bg-terminal-bg px-1.5 sm:px-2 py-0.5 rounded">
-                    {columnTasks.length}
-                  </span>
+            {swimlanes.map((lane) => {
+              const collapsed = collapsedLanes.has(lane.key);
+              return (
+                <div key={lane.key || '(none)'}>
+                  {/* Lane Header */}
+                  <button
+                    onClick={() => toggleLane(lane.key)}
+                    className="sticky left-0 flex items-center gap-2 py-1.5 text-sm font-semibold text-terminal-text hover:text-terminal-blue"
+                  >
+                    <svg
+                      className={`w-3.5 h-3.5 transition-transform ${collapsed ? '-rotate-90' : ''}`}
+                      fill="none" stroke="currentColor" viewBox="0 0 24 24"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                    <span>{lane.label}</span>
+                    <span className="text-xs font-normal text-terminal-muted bg-terminal-surface px-1.5 py-0.5 rounded">
+                      {lane.tasks.length}
+                    </span>
+                  </button>
+
+                  {!collapsed && (
+                    <div className="flex gap-3 sm:gap-4 mt-1">
+                      {statusColumns.map((column) => (
+                        <div key={column.status} className="flex-shrink-0 w-[260px] sm:w-72">
+                          {renderColumnBody(
+                            column,
+                            lane.tasks.filter((task) => task.status === column.status).sort((a, b) => a.order - b.order),
+                            lane.key
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              </div>
-
-              {/* Column Content */}
-              <div
-                className={`
-                  bg-terminal-bg rounded-b-lg border border-terminal-border border-t-0
-                  min-h-[calc(100vh-380px)] p-2 sm:p-3 space-y-2 sm:space-y-3 transition-all duration-150
-                  ${isDragOver ? 'ring-2 ring-terminal-blue ring-inset bg-terminal-blue/5' : ''}
-                `}
-                onDragOver={(e) => handleDragOver(e, column.status)}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, column.status)}
-              >
-                {columnTasks.map((task) => {
-                  const session = getSessionForTask(task.id);
-                  // Map session to worker-compatible shape for TaskCard
-                  const worker = session ? {
-                    id: session.id,
-                    name: session.project_name || 'Claude',
-                    status: 'working' as const,
-                    current_task: { id: task.id, title: task.title },
-                  } : undefined;
-
-                  return (
-                    <TaskCard
-                      key={task.id}
-                      task={task}
-                      worker={worker}
-                      isDragging={draggedTask?.id === task.id}
-                      selectionMode={selectionMode}
-                      isSelected={selectedTaskIds.has(task.id)}
-                      onToggleSelect={handleToggleSelect}
-                      onDragStart={() => handleDragStart(task)}
-                      onClick={() => handleTaskClick(task)}
-                      onEdit={() => handleTaskEdit(task)}
-                    />
-                  );
-                })}
-
-                {columnTasks.length === 0 && (
-                  <div className={`
-                    text-center py-8 sm:py-12 rounded-lg border-2 border-dashed transition-colors text-sm
-                    ${isDragOver
-                      ? 'border-terminal-blue text-terminal-blue'
-                      : 'border-terminal-border text-terminal-muted'
-                    }
-                  `}>
-                    {isDragOver ? 'Drop here' : hasActiveFilters ? 'No matches' : 'No tasks'}
-                  </div>
-                )}
-              </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-3 sm:gap-4 overflow-x-auto pb-4 scrollbar-thin px-3 sm:px-6">
+          {statusColumns.map((column) => (
+            <div key={column.status} className="flex-shrink-0 w-[260px] sm:w-72">
+              {renderColumnHeader(column)}
+              {renderColumnBody(column, getTasksByStatus(column.status))}
             </div>
-          );
-        })}
-      </div>
+          ))}
+        </div>
+      )}
 
       {/* Bulk Action Bar */}
       {selectionMode && selectedTaskIds.size > 0 && (
@@ -680,7 +883,7 @@ export default function KanbanBoard({ initialTasks, taskLists }: KanbanBoardProp
           onUpdate={handleTaskUpdate}
           onDelete={handleTaskDelete}
           editMode={editingTask !== null}
-          statusColumns={statusColumns}
+          statusColumns={getStatusColumns(enabledFeatures, workflowColumnsFor(workflowColumns, selectedTask.task_list_id))}
         />
       )}
 
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  OrchestratorCommand,
+  OrchestratorCommandType,
+  OrchestratorInstance,
+  OrchestratorState,
+  ListOrchestratorsResponse,
+} from '@taskinfa/shared';
+
+const REFRESH_MS = 10_000;
+
+const STATE_STYLES: Record<OrchestratorState, string> = {
+  running: 'bg-terminal-green/20 text-terminal-green',
+  paused: 'bg-terminal-amber/20 text-terminal-amber',
+  draining: 'bg-terminal-blue/20 text-terminal-blue',
+  stopped: 'bg-terminal-muted/20 text-terminal-muted',
+};
+
+const COMMAND_LABELS: Record<OrchestratorCommandType, string> = {
+  pause: 'Pause',
+  resume: 'Resume',
+  drain: 'Drain',
+  kill_session: 'Kill session',
+  poll: 'Poll now',
+};
+
+// Queue a control command; resolves with an error message on failure
+export async function sendOrchestratorCommand(body: {
+  command: OrchestratorCommandType;
+  orchestrator_id?: string;
+  session_id?: string;
+}): Promise<string | null> {
+  const res = await fetch('/api/orchestrator/commands', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (res.ok) return null;
+  const data = await res.json() as { error?: string };
+  return data.error || 'Failed to send command';
+}
+
+function formatAgo(dateStr: string): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(dateStr.replace(' ', 'T') + 'Z').getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+}
+
+export default function OrchestratorControls() {
+  const [orchestrators, setOrchestrators] = useState<OrchestratorInstance[]>([]);
+  const [commands, setCommands] = useState<OrchestratorCommand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrchestrators = useCallback(async () => {
+    try {
+      const res = await fetch('/api/orchestrator');
+      if (!res.ok) throw new Error('Failed to fetch orchestrators');
+      const data = await res.json() as ListOrchestratorsResponse;
+      setOrchestrators(data.orchestrators);
+      setCommands(data.commands);
+    } catch {
+      setError('Failed to load orchestrators');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrchestrators();
+    const interval = setInterval(fetchOrchestrators, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchOrchestrators]);
+
+  async function handleCommand(orchestrator: OrchestratorInstance, command: OrchestratorCommandType) {
+    if (command === 'drain' && !confirm(
+      `Drain ${orchestrator.id}? It stops starting sessions and exits once the ${orchestrator.active_sessions.length} running session(s) finish.`
+    )) {
+      return;
+    }
+    setSending(`${orchestrator.id}:${command}`);
+    setError(null);
+    try {
+      const message = await sendOrchestratorCommand({ command, orchestrator_id: orchestrator.id });
+      if (message) setError(message);
+      await fetchOrchestrators();
+    } catch {
+      setError('Failed to send command');
+    } finally {
+      setSending(null);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-xs text-terminal-muted">Loading orchestrators...</p>;
+  }
+
+  if (orchestrators.length === 0) {
+    return (
+      <p className="text-xs text-terminal-muted">
+        No orchestrator has reported in the last day. Start one with this workspace&apos;s API key to see it here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-3 py-2 text-xs">
+          {error}
+        </div>
+      )}
+      {orchestrators.map((orchestrator) => {
+        const lastCommand = commands.find(c => c.orchestrator_id === orchestrator.id);
+        const actions: OrchestratorCommandType[] = orchestrator.state === 'running'
+          ? ['pause', 'drain', 'poll']
+          : ['resume', 'poll'];
+
+        return (
+          <div key={orchestrator.id} className="bg-terminal-bg rounded-lg p-3">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span
+                className={`w-2 h-2 rounded-full flex-shrink-0 ${orchestrator.online ? 'bg-terminal-green' : 'bg-terminal-muted'}`}
+                title={orchestrator.online ? 'Online' : 'Offline'}
+              />
+              <span className="text-sm font-medium text-terminal-text truncate">{orchestrator.id}</span>
+              <span className={`text-xs px-1.5 py-0.5 rounded ${STATE_STYLES[orchestrator.state]}`}>
+                {orchestrator.online || orchestrator.state === 'stopped' ? orchestrator.state : 'offline'}
+              </span>
+              <span className="text-xs text-terminal-muted">
+                v{orchestrator.version ?? '?'} · {orchestrator.active_sessions.length} session{orchestrator.active_sessions.length !== 1 ? 's' : ''} · {formatAgo(orchestrator.last_heartbeat_at)}
+              </span>
+            </div>
+
+            {orchestrator.online && (
+              <div className="flex gap-2 mt-2">
+                {actions.map((command) => (
+                  <button
+                    key={command}
+                    onClick={() => handleCommand(orchestrator, command)}
+                    disabled={sending !== null}
+                    className="btn-secondary text-xs px-2 py-1"
+                  >
+                    {sending === `${orchestrator.id}:${command}` ? 'Sending...' : COMMAND_LABELS[command]}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {lastCommand && (
+              <div className={`text-xs mt-2 truncate ${lastCommand.status === 'failed' ? 'text-terminal-red' : 'text-terminal-muted'}`}>
+                Last command: {COMMAND_LABELS[lastCommand.command]} — {lastCommand.result ?? lastCommand.status}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { SessionTranscriptEntry, GetTranscriptResponse } from '@taskinfa/shared';
+
+interface SessionTranscriptProps {
+  sessionId: string;
+  // Keep polling for new entries (the session is still running)
+  live?: boolean;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+function formatResultMeta(metadata: Record<string, unknown>): string {
+  const parts: string[] = [];
+  if (typeof metadata.num_turns === 'number') parts.push(`${metadata.num_turns} turns`);
+  if (typeof metadata.duration_ms === 'number') parts.push(`${Math.round(metadata.duration_ms / 1000)}s`);
+  if (typeof metadata.total_cost_usd === 'number') parts.push(`$${metadata.total_cost_usd.toFixed(4)}`);
+  return parts.join(' · ');
+}
+
+function TranscriptEntryRow({ entry }: { entry: SessionTranscriptEntry }) {
+  switch (entry.kind) {
+    case 'assistant':
+      return <p className="text-sm text-terminal-text whitespace-pre-wrap">{entry.content}</p>;
+
+    case 'tool_use':
+    case 'file_edit': {
+      const filePath = typeof entry.metadata.file_path === 'string' ? entry.metadata.file_path : null;
+      return (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-terminal-blue font-mono">
+            {entry.kind === 'file_edit' ? '✎' : '▸'} {entry.tool_name}
+            {filePath && <span className="text-terminal-muted"> {filePath}</span>}
+          </summary>
+          <pre className="mt-1 p-2 bg-terminal-bg rounded overflow-x-auto text-terminal-muted">{entry.content}</pre>
+        </details>
+      );
+    }
+
+    case 'tool_result':
+      return (
+        <details className="text-xs">
+          <summary className={`cursor-pointer font-mono ${entry.metadata.is_error ? 'text-terminal-red' : 'text-terminal-muted'}`}>
+            ↳ {entry.metadata.is_error ? 'error' : 'output'} ({entry.content.length} chars)
+          </summary>
+          <pre className="mt-1 p-2 bg-terminal-bg rounded overflow-x-auto text-terminal-muted max-h-60">{entry.content}</pre>
+        </details>
+      );
+
+    case 'stderr':
+      return <pre className="text-xs text-terminal-red whitespace-pre-wrap font-mono">{entry.content}</pre>;
+
+    case 'result':
+      return (
+        <div className={`text-xs border-t border-terminal-border pt-2 ${entry.metadata.is_error ? 'text-terminal-red' : 'text-terminal-green'}`}>
+          Finished{formatResultMeta(entry.metadata) && ` · ${formatResultMeta(entry.metadata)}`}
+        </div>
+      );
+
+    case 'system':
+      return <div className="text-xs text-terminal-muted italic">{entry.content}</div>;
+  }
+}
+
+export default function SessionTranscript({ sessionId, live = false }: SessionTranscriptProps) {
+  const [entries, setEntries] = useState<SessionTranscriptEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef(-1);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    cursorRef.current = -1;
+    setEntries([]);
+    setLoading(true);
+    setError(null);
+
+    async function load() {
+      try {
+        let hasMore = true;
+        while (hasMore && !cancelled) {
+          const res = await fetch(`/api/sessions/${sessionId}/transcript?after=${cursorRef.current}`);
+          if (!res.ok) throw new Error('Failed to load transcript');
+          const data = await res.json() as GetTranscriptResponse;
+          if (cancelled) return;
+          if (data.entries.length > 0) {
+            setEntries(prev => [...prev, ...data.entries]);
+          }
+          cursorRef.current = data.cursor;
+          hasMore = data.has_more;
+        }
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load transcript');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+          if (live) timer = setTimeout(load, POLL_INTERVAL_MS);
+        }
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [sessionId, live]);
+
+  // Follow the output of running sessions
+  useEffect(() => {
+    if (live) bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [entries.length, live]);
+
+  if (loading && entries.length === 0) {
+    return <p className="text-terminal-muted text-sm p-3">Loading transcript...</p>;
+  }
+
+  if (error && entries.length === 0) {
+    return <p className="text-terminal-red text-sm p-3">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-terminal-muted italic text-sm p-3">No transcript recorded for this session</p>;
+  }
+
+  return (
+    <div className="space-y-2 p-3 bg-terminal-bg border border-terminal-border rounded-lg max-h-[400px] overflow-y-auto scrollbar-thin">
+      {entries.map((entry) => (
+        <TranscriptEntryRow key={entry.seq} entry={entry} />
+      ))}
+      {live && <div className="text-xs text-terminal-blue animate-pulse">Agent working...</div>}
+      <div ref={bottomRef} />
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 'use client';
 
+import { useState } from 'react';
 import type { SessionWithDetails, SessionStatus } from '@taskinfa/shared';
+import SessionTranscript from './SessionTranscript';
+import OrchestratorControls, { sendOrchestratorCommand } from './OrchestratorControls';
 
 interface SessionsPanelProps {
   sessions: SessionWithDetails[];
@@ -21,6 +24,9 @@ export default function SessionsPanel({
   stats,
   onReconnect,
 }: SessionsPanelProps) {
+  const [transcriptSessionId, setTranscriptSessionId] = useState<string | null>(null);
+  const [killingSessionId, setKillingSessionId] = useState<string | null>(null);
+  const [killError, setKillError] = useState<string | null>(null);
   const activeSessions = sessions.filter(s => s.status === 'active' || s.status === 'idle');
   const problemSessions = sessions.filter(s => s.status === 'stuck' || s.status === 'error');
 
@@ -44,6 +50,21 @@ export default function SessionsPanel({
     }
   };
 
+  const handleKill = async (session: SessionWithDetails) => {
+    if (!confirm(`Kill the session for ${session.project_name || 'this project'}? Its task goes back to the queue.`)) {
+      return;
+    }
+    setKillingSessionId(session.id);
+    setKillError(null);
+    try {
+      setKillError(await sendOrchestratorCommand({ command: 'kill_session', session_id: session.id }));
+    } catch {
+      setKillError('Failed to kill session');
+    } finally {
+      setKillingSessionId(null);
+    }
+  };
+
   const formatTimeAgo = (dateStr: string | null) => {
     if (!dateStr) return 'Never';
     const diff = Date.now() - new Date(dateStr).getTime();
@@ -78,6 +99,11 @@ export default function SessionsPanel({
         )}
       </div>
 
+      {/* Orchestrators */}
+      <div className="p-3 border-b border-terminal-border">
+        <OrchestratorControls />
+      </div>
+
       {/* Stats */}
       <div className="grid grid-cols-3 gap-2 p-3 border-b border-terminal-border">
         <div className="bg-terminal-blue/10 rounded-lg p-2 text-center">
@@ -94,6 +120,12 @@ export default function SessionsPanel({
         </div>
       </div>
 
+      {killError && (
+        <div className="mx-3 mt-3 bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-3 py-2 text-xs">
+          {killError}
+        </div>
+      )}
+
       {/* Session list */}
       {sessions.length === 0 ? (
         <div className="text-center text-terminal-muted text-sm py-8">
@@ -103,41 +135,62 @@ export default function SessionsPanel({
         <div className="divide-y divide-terminal-border max-h-[300px] sm:max-h-[400px] overflow-y-auto scrollbar-thin">
           {/* Active/problem sessions first */}
           {[...activeSessions, ...problemSessions].map((session) => (
-            <div
-              key={session.id}
-              className="flex items-center gap-3 p-3 hover:bg-terminal-surface-hover transition-colors"
-            >
-              <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${getStatusColor(session.status)}${
-                session.status === 'active' ? ' animate-pulse' : ''
-              }`} />
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2">
-                  <span className="font-medium text-terminal-text text-sm truncate">
-                    {session.project_name || 'Unknown Project'}
-                  </span>
-                  <span className={`text-xs px-1.5 py-0.5 rounded ${
-                    session.status === 'active' ? 'bg-terminal-blue/20 text-terminal-blue' :
-                    session.status === 'stuck' ? 'bg-terminal-amber/20 text-terminal-amber' :
-                    session.status === 'error' ? 'bg-terminal-red/20 text-terminal-red' :
-                    'bg-terminal-muted/20 text-terminal-muted'
-                  }`}>
-                    {getStatusLabel(session.status)}
+            <div key={session.id}>
+              <div className="flex items-center gap-3 p-3 hover:bg-terminal-surface-hover transition-colors">
+                <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${getStatusColor(session.status)}${
+                  session.status === 'active' ? ' animate-pulse' : ''
+                }`} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-terminal-text text-sm truncate">
+                      {session.project_name || 'Unknown Project'}
+                    </span>
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${
+                      session.status === 'active' ? 'bg-terminal-blue/20 text-terminal-blue' :
+                      session.status === 'stuck' ? 'bg-terminal-amber/20 text-terminal-amber' :
+                      session.status === 'error' ? 'bg-terminal-red/20 text-terminal-red' :
+                      'bg-terminal-muted/20 text-terminal-muted'
+                    }`}>
+                      {getStatusLabel(session.status)}
+                    </span>
+                  </div>
+                  {session.current_task_title && (
+                    <div className="text-xs text-terminal-muted truncate mt-0.5">
+                      {session.current_task_title}
+                    </div>
+                  )}
+                  {session.summary && !session.current_task_title && (
+                    <div className="text-xs text-terminal-muted truncate mt-0.5">
+                      {session.summary}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                  <span className="text-xs text-terminal-muted">
+                    {formatTimeAgo(session.last_event_at)}
                   </span>
+                  <button
+                    onClick={() => setTranscriptSessionId(transcriptSessionId === session.id ? null : session.id)}
+                    className="text-xs text-terminal-blue hover:text-terminal-text"
+                  >
+                    {transcriptSessionId === session.id ? 'Hide transcript' : 'Transcript'}
+                  </button>
+                  {session.status !== 'error' && (
+                    <button
+                      onClick={() => handleKill(session)}
+                      disabled={killingSessionId === session.id}
+                      className="text-xs text-terminal-red hover:text-terminal-text"
+                    >
+                      {killingSessionId === session.id ? 'Killing...' : 'Kill'}
+                    </button>
+                  )}
                 </div>
-                {session.current_task_title && (
-                  <div className="text-xs text-terminal-muted truncate mt-0.5">
-                    {session.current_task_title}
-                  </div>
-                )}
-                {session.summary && !session.current_task_title && (
-                  <div className="text-xs text-terminal-muted truncate mt-0.5">
-                    {session.summary}
-                  </div>
-                )}
               </div>
-              <span className="text-xs text-terminal-muted flex-shrink-0">
-                {formatTimeAgo(session.last_event_at)}
-              </span>
+              {transcriptSessionId === session.id && (
+                <div className="px-3 pb-3">
+                  <SessionTranscript sessionId={session.id} live={session.status === 'active'} />
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { TaskFilters, TaskPriority, TaskStatus, TaskSortField, TaskList, SavedFilter } from '@taskinfa/shared';
+import type { TaskFilters, TaskPriority, TaskStatus, TaskSortField, TaskList, SavedFilter, SwimlaneField } from '@taskinfa/shared';
+import { SWIMLANE_FIELD_LABELS } from '@taskinfa/shared';
 
 interface TaskFilterToolbarProps {
   filters: TaskFilters;
@@ -82,9 +83,10 @@ export default function TaskFilterToolbar({
     onFiltersChange({ ...filters, [key]: value || undefined });
   }, [filters, onFiltersChange]);
 
+  // Swimlanes are layout, not a filter, so they survive clearing
   const clearAllFilters = () => {
     setSearchValue('');
-    onFiltersChange({});
+    onFiltersChange(filters.swimlanes ? { swimlanes: filters.swimlanes } : {});
   };
 
   const activeFilterCount = [
@@ -333,6 +335,19 @@ export default function TaskFilterToolbar({
           )}
         </div>
 
+        {/* Swimlanes */}
+        <select
+          value={filters.swimlanes || ''}
+          onChange={(e) => updateFilter('swimlanes', e.target.value)}
+          className="input-field text-sm py-2"
+          title="Group the board into horizontal lanes"
+        >
+          <option value="">No swimlanes</option>
+          {(Object.keys(SWIMLANE_FIELD_LABELS) as SwimlaneField[]).map((field) => (
+            <option key={field} value={field}>Lanes: {SWIMLANE_FIELD_LABELS[field]}</option>
+          ))}
+        </select>
+
         {/* Sort Control */}
         <div className="flex items-center gap-1">
           <select
@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import type { Task, TaskStatus, TaskPriority, StatusColumn, TaskDependency, TaskComment, CommentType } from '@taskinfa/shared';
+import type { Task, TaskStatus, TaskPriority, StatusColumn, TaskDependency, TaskComment, CommentType, SessionWithDetails, TaskTimelineEntry, TaskTransition } from '@taskinfa/shared';
 import { getStatusColumns } from '@taskinfa/shared';
 import { formatWorkerName } from '@/utils/formatWorkerName';
 import Modal, { ModalHeader, ModalFooter } from './Modal';
+import SessionTranscript from './SessionTranscript';
 
 /** Extract error message from a failed API response */
 async function getApiErrorMessage(response: Response, fallback: string): Promise<string> {
@@ -23,6 +24,35 @@ interface TaskDetails extends Task {
   is_blocked?: boolean;
 }
 
+/** Labels are recorded as their JSON array */
+function formatLabels(value: string | null): string {
+  try {
+    const labels = JSON.parse(value ?? '[]') as string[];
+    return labels.length > 0 ? labels.join(', ') : 'none';
+  } catch {
+    return value ?? 'none';
+  }
+}
+
+/** One line describing a transition, e.g. "moved from To Do to In Progress" */
+function describeTransition(transition: TaskTransition, statusColumns: StatusColumn[]): string {
+  const { field, from_value: from, to_value: to } = transition;
+  switch (field) {
+    case 'status': {
+      const label = (status: string | null) => statusColumns.find(c => c.status === status)?.label || status;
+      return from === null ? `created in ${label(to)}` : `moved from ${label(from)} to ${label(to)}`;
+    }
+    case 'priority':
+      return from === null ? `set priority ${to}` : `changed priority from ${from} to ${to}`;
+    case 'assigned_to':
+      return to ? `assigned to ${formatWorkerName(to)}` : 'unassigned';
+    case 'labels':
+      return `set labels to ${formatLabels(to)}`;
+    default:
+      return `changed ${field}`;
+  }
+}
+
 const DEFAULT_STATUS_COLUMNS = getStatusColumns({ refinement: false, ai_review: false, local_testing: false });
 
 interface TaskModalProps {
@@ -60,6 +90,10 @@ export default function TaskModal({
   const [comments, setComments] = useState<TaskComment[]>([]);
   const [newComment, setNewComment] = useState('');
   const [isPostingComment, setIsPostingComment] = useState(false);
+  const [sessions, setSessions] = useState<SessionWithDetails[]>([]);
+  const [transcriptSessionId, setTranscriptSessionId] = useState<string | null>(null);
+  const [activityView, setActivityView] = useState<'comments' | 'timeline'>('comments');
+  const [timeline, setTimeline] = useState<TaskTimelineEntry[] | null>(null);
 
   // Fetch full task details (subtasks, dependencies) when modal opens
   useEffect(() => {
@@ -84,10 +118,37 @@ export default function TaskModal({
         // Non-critical
       }
     }
+    async function fetchSessions() {
+      try {
+        const res = await fetch(`/api/sessions?task_id=${task.id}&limit=20`);
+        if (!res.ok) return;
+        const data = await res.json() as { sessions: SessionWithDetails[] };
+        setSessions(data.sessions);
+      } catch {
+        // Non-critical
+      }
+    }
     fetchDetails();
     fetchComments();
+    fetchSessions();
   }, [isOpen, task.id]);
 
+  // Timeline is loaded when first shown and again after every change to the task
+  useEffect(() => {
+    if (!isOpen || activityView !== 'timeline') return;
+    async function fetchTimeline() {
+      try {
+        const res = await fetch(`/api/tasks/${task.id}/timeline`);
+        if (!res.ok) return;
+        const data = await res.json() as { entries: TaskTimelineEntry[] };
+        setTimeline(data.entries);
+      } catch {
+        // Non-critical
+      }
+    }
+    fetchTimeline();
+  }, [isOpen, activityView, task.id, task.updated_at]);
+
   // Form state
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description || '');
@@ -257,6 +318,7 @@ export default function TaskModal({
       }
       const data = await res.json() as { comment: TaskComment };
       setComments(prev => [data.comment, ...prev]);
+      setTimeline(prev => prev && [...prev, { kind: 'comment', created_at: data.comment.created_at, comment: data.comment }]);
       setNewComment('');
     } catch (error) {
       console.error('Error posting comment:', error);
@@ -575,11 +637,60 @@ export default function TaskModal({
           </div>
         )}
 
-        {/* Comments */}
+        {/* Agent sessions */}
+        {!isEditing && sessions.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-2">
+              Agent Sessions ({sessions.length})
+            </label>
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div key={session.id}>
+                  <button
+                    onClick={() => setTranscriptSessionId(transcriptSessionId === session.id ? null : session.id)}
+                    className="w-full flex items-center gap-2 text-left text-sm bg-terminal-bg border border-terminal-border rounded-lg px-3 py-2 hover:bg-terminal-surface-hover"
+                  >
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${
+                      session.status === 'active' ? 'bg-terminal-blue/20 text-terminal-blue' :
+                      session.status === 'error' || session.status === 'stuck' ? 'bg-terminal-red/20 text-terminal-red' :
+                      'bg-terminal-muted/20 text-terminal-muted'
+                    }`}>
+                      {session.status}
+                    </span>
+                    <span className="flex-1 truncate text-terminal-text">{session.summary || session.id}</span>
+                    {session.cost_usd > 0 && (
+                      <span className="text-xs text-terminal-muted flex-shrink-0">${session.cost_usd.toFixed(2)}</span>
+                    )}
+                    <span className="text-xs text-terminal-muted flex-shrink-0">
+                      {formatRelativeTime(session.started_at)}
+                    </span>
+                  </button>
+                  {transcriptSessionId === session.id && (
+                    <div className="mt-2">
+                      <SessionTranscript sessionId={session.id} live={session.status === 'active'} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Comments and timeline */}
         <div>
-          <label className="block text-sm font-medium text-terminal-muted mb-2">
-            Comments ({comments.length})
-          </label>
+          <div className="flex items-center gap-3 mb-2">
+            {(['comments', 'timeline'] as const).map((view) => (
+              <button
+                key={view}
+                onClick={() => setActivityView(view)}
+                className={`text-sm font-medium ${
+                  activityView === view ? 'text-terminal-text' : 'text-terminal-muted hover:text-terminal-text'
+                }`}
+              >
+                {view === 'comments' ? `Comments (${comments.length})` : 'Timeline'}
+              </button>
+            ))}
+          </div>
 
           {/* New comment form */}
           <div className="mb-3">
@@ -614,8 +725,54 @@ export default function TaskModal({
             </div>
           </div>
 
-          {/* Comments list */}
-          {comments.length === 0 ? (
+          {/* Timeline: transitions, comments and session events, newest first */}
+          {activityView === 'timeline' ? (
+            timeline === null ? (
+              <p className="text-terminal-muted italic text-sm">Loading timeline...</p>
+            ) : timeline.length === 0 ? (
+              <p className="text-terminal-muted italic text-sm">No history yet</p>
+            ) : (
+              <div className="space-y-1.5 max-h-[300px] overflow-y-auto scrollbar-thin">
+                {[...timeline].reverse().map((entry) => {
+                  const key = entry.kind === 'transition' ? `t_${entry.transition.id}`
+                    : entry.kind === 'comment' ? entry.comment.id : entry.event.id;
+                  return (
+                    <div key={key} className="flex items-start gap-2 text-sm">
+                      <span className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${
+                        entry.kind === 'transition' ? 'bg-terminal-blue/20 text-terminal-blue'
+                          : entry.kind === 'comment' ? getCommentTypeStyles(entry.comment.comment_type)
+                          : 'bg-terminal-muted/20 text-terminal-muted'
+                      }`}>
+                        {entry.kind === 'transition' ? entry.transition.field.replace('_', ' ')
+                          : entry.kind === 'comment' ? entry.comment.comment_type.replace('_', ' ')
+                          : entry.event.event_type.replace('_', ' ')}
+                      </span>
+                      <span className="flex-1 min-w-0 text-terminal-text break-words">
+                        {entry.kind === 'transition' && (
+                          <>
+                            <span className="text-terminal-muted">
+                              {entry.transition.actor_name || entry.transition.actor_id || 'Unknown'}
+                            </span>{' '}
+                            {describeTransition(entry.transition, statusColumns)}
+                          </>
+                        )}
+                        {entry.kind === 'comment' && (
+                          <>
+                            <span className="text-terminal-muted">{entry.comment.author}:</span>{' '}
+                            <span className="whitespace-pre-wrap">{entry.comment.content}</span>
+                          </>
+                        )}
+                        {entry.kind === 'session_event' && (entry.event.message || entry.event.event_type)}
+                      </span>
+                      <span className="text-xs text-terminal-muted flex-shrink-0" title={formatDate(`${entry.created_at}Z`)}>
+                        {formatRelativeTime(`${entry.created_at}Z`)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          ) : comments.length === 0 ? (
             <p className="text-terminal-muted italic text-sm">No comments yet</p>
           ) : (
             <div className="space-y-2 max-h-[300px] overflow-y-auto scrollbar-thin">
@@ -663,6 +820,14 @@ export default function TaskModal({
               <span className="flex-shrink-0">Updated:</span>
               <span className="truncate text-right">{formatDate(task.updated_at)}</span>
             </div>
+            {task.cost_usd > 0 && (
+              <div className="flex justify-between text-terminal-muted gap-2">
+                <span className="flex-shrink-0">Agent cost:</span>
+                <span className="truncate text-right">
+                  ${task.cost_usd.toFixed(2)} · {(task.input_tokens + task.output_tokens).toLocaleString()} tokens
+                </span>
+              </div>
+            )}
             <div className="flex justify-between text-terminal-muted gap-2">
               <span className="flex-shrink-0">Task ID:</span>
               <span className="font-mono text-xs truncate text-right">{task.id}</span>
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LLM_PROVIDER_PRESETS, LLM_SESSION_TYPE_LABELS } from '@taskinfa/shared';
+import type { AgentEffectivenessResponse, AgentEffectivenessRow } from '@taskinfa/shared';
+
+function formatRate(value: number | null): string {
+  return value === null ? '—' : `${value}%`;
+}
+
+function formatDuration(minutes: number): string {
+  return minutes >= 60 ? `${Math.round((minutes / 60) * 10) / 10}h` : `${Math.round(minutes)}m`;
+}
+
+function rateColor(value: number | null, higherIsBetter: boolean): string {
+  if (value === null) return 'text-terminal-muted';
+  const good = higherIsBetter ? value >= 80 : value <= 20;
+  const bad = higherIsBetter ? value < 50 : value > 50;
+  return good ? 'text-terminal-green' : bad ? 'text-terminal-red' : 'text-terminal-amber';
+}
+
+export default function AgentEffectiveness({ period, projectId }: { period: string; projectId: string }) {
+  const [rows, setRows] = useState<AgentEffectivenessRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const params = new URLSearchParams({ period });
+        if (projectId) params.set('project_id', projectId);
+        const res = await fetch(`/api/analytics/agents?${params}`);
+        if (!res.ok) throw new Error('Failed to load agent effectiveness');
+        const data = await res.json() as AgentEffectivenessResponse;
+        setRows(data.rows);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load agent effectiveness');
+      }
+    }
+    fetchReport();
+  }, [period, projectId]);
+
+  if (error) {
+    return <p className="text-sm text-terminal-red">{error}</p>;
+  }
+  if (rows === null) {
+    return <p className="text-sm text-terminal-muted animate-pulse">Loading...</p>;
+  }
+  if (rows.length === 0) {
+    return <p className="text-sm text-terminal-muted">No sessions in this period</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-terminal-muted text-xs border-b border-terminal-border">
+            <th className="text-left py-2 pr-3">Session type</th>
+            <th className="text-left py-2 pr-3">Provider / model</th>
+            <th className="text-right py-2 pr-3">Sessions</th>
+            <th className="text-right py-2 pr-3">Success</th>
+            <th className="text-right py-2 pr-3">Retries</th>
+            <th className="text-right py-2 pr-3" title="Share of reviewed work the AI review sent back">Review rejected</th>
+            <th className="text-right py-2 pr-3" title="Share of tested work that passed local testing">Tests passed</th>
+            <th className="text-right py-2 pr-3">Avg duration</th>
+            <th className="text-right py-2">Cost (avg)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={`${row.session_type}|${row.provider}|${row.model}`}
+              className="border-b border-terminal-border/50"
+            >
+              <td className="py-2 pr-3 text-terminal-text">
+                {row.session_type ? LLM_SESSION_TYPE_LABELS[row.session_type] ?? row.session_type : 'Unrecorded'}
+              </td>
+              <td className="py-2 pr-3">
+                <div className="text-terminal-text">
+                  {row.provider ? LLM_PROVIDER_PRESETS[row.provider]?.label ?? row.provider : 'Unrecorded'}
+                </div>
+                <div className="text-xs text-terminal-muted font-mono">{row.model ?? 'default model'}</div>
+              </td>
+              <td className="py-2 pr-3 text-right text-terminal-text">{row.sessions}</td>
+              <td className={`py-2 pr-3 text-right ${rateColor(row.success_rate, true)}`}>{formatRate(row.success_rate)}</td>
+              <td className="py-2 pr-3 text-right text-terminal-text">{row.retries}</td>
+              <td className={`py-2 pr-3 text-right ${rateColor(row.review_rejection_rate, false)}`}>
+                {formatRate(row.review_rejection_rate)}
+              </td>
+              <td className={`py-2 pr-3 text-right ${rateColor(row.test_pass_rate, true)}`}>
+                {formatRate(row.test_pass_rate)}
+              </td>
+              <td className="py-2 pr-3 text-right text-terminal-text">{formatDuration(row.avg_duration_minutes)}</td>
+              <td className="py-2 text-right text-terminal-text whitespace-nowrap">
+                ${row.cost_usd.toFixed(2)} <span className="text-terminal-muted">(${row.avg_cost_usd.toFixed(2)})</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,9 +2,36 @@
 
 import { useState, useEffect } from 'react';
 import {
-  BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area,
+  BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area, LineChart, Line,
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
 } from 'recharts';
+import { LLM_PROVIDER_PRESETS, LLM_SESSION_TYPE_LABELS } from '@taskinfa/shared';
+import type {
+  CumulativeFlowPoint,
+  LeadCycleTimeRow,
+  LlmProvider,
+  LlmSessionType,
+  ReworkBucket,
+  ReworkSummary,
+  TaskList,
+  TaskStatus,
+  TimeInStatus,
+} from '@taskinfa/shared';
+import AgentEffectiveness from './AgentEffectiveness';
+
+interface SpendTotals {
+  sessions: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+}
+
+interface SpendRow extends SpendTotals {
+  key: string | null;
+  label: string | null;
+}
 
 interface AnalyticsData {
   throughput: { date: string; count: number }[];
@@ -20,6 +47,16 @@ interface AnalyticsData {
     successRate: number;
     retryRate: number;
   };
+  spend: {
+    totals: SpendTotals;
+    byProject: SpendRow[];
+    bySessionType: SpendRow[];
+    byProvider: SpendRow[];
+  };
+  timeInStatus: TimeInStatus[];
+  cumulativeFlow: CumulativeFlowPoint[];
+  leadCycleTime: LeadCycleTimeRow[];
+  rework: { histogram: ReworkBucket[]; totals: ReworkSummary[] };
   bottlenecks: {
     id: string;
     title: string;
@@ -29,24 +66,40 @@ interface AnalyticsData {
     task_list_name: string | null;
   }[];
   period: string;
+  projectId: string | null;
 }
 
 const STATUS_COLORS: Record<string, string> = {
   backlog: '#a1a1aa',
+  refinement: '#06b6d4',
   todo: '#3b82f6',
+  review_rejected: '#f97316',
+  test_failed: '#ef4444',
   in_progress: '#a855f7',
+  testing: '#14b8a6',
+  ai_review: '#eab308',
   review: '#f59e0b',
   done: '#22c55e',
 };
 
 const STATUS_LABELS: Record<string, string> = {
   backlog: 'Backlog',
+  refinement: 'Refinement',
   todo: 'To Do',
+  review_rejected: 'Review Rejected',
+  test_failed: 'Test Failed',
   in_progress: 'In Progress',
+  testing: 'Testing',
+  ai_review: 'AI Review',
   review: 'Review',
   done: 'Done',
 };
 
+// Bottom to top of the cumulative flow diagram: finished work first
+const FLOW_ORDER: TaskStatus[] = [
+  'done', 'review', 'ai_review', 'testing', 'test_failed', 'in_progress', 'review_rejected', 'todo', 'refinement', 'backlog',
+];
+
 const PRIORITY_COLORS: Record<string, string> = {
   urgent: '#ef4444',
   high: '#f59e0b',
@@ -54,6 +107,24 @@ const PRIORITY_COLORS: Record<string, string> = {
   low: '#a1a1aa',
 };
 
+function formatCost(value: number): string {
+  return `$${value < 10 ? value.toFixed(2) : Math.round(value).toLocaleString()}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+const spendLabels = {
+  project: (row: SpendRow) => row.label ?? (row.key ? 'Deleted project' : 'No project'),
+  sessionType: (row: SpendRow) =>
+    row.key ? LLM_SESSION_TYPE_LABELS[row.key as LlmSessionType] ?? row.key : 'Unrecorded',
+  provider: (row: SpendRow) =>
+    row.key ? LLM_PROVIDER_PRESETS[row.key as LlmProvider]?.label ?? row.key : 'Unrecorded',
+};
+
 const tooltipStyle = {
   backgroundColor: '#171717',
   border: '1px solid #262626',
@@ -65,6 +136,8 @@ const tooltipStyle = {
 export default function AnalyticsDashboard() {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [period, setPeriod] = useState<'day' | 'week' | 'month'>('week');
+  const [projectId, setProjectId] = useState('');
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -73,7 +146,9 @@ export default function AnalyticsDashboard() {
       setLoading(true);
       setError(null);
       try {
-        const res = await fetch(`/api/analytics?period=${period}`);
+        const params = new URLSearchParams({ period });
+        if (projectId) params.set('project_id', projectId);
+        const res = await fetch(`/api/analytics?${params}`);
         if (!res.ok) throw new Error('Failed to load analytics');
         const json = (await res.json()) as AnalyticsData;
         setData(json);
@@ -84,7 +159,14 @@ export default function AnalyticsDashboard() {
       }
     }
     fetchAnalytics();
-  }, [period]);
+  }, [period, projectId]);
+
+  useEffect(() => {
+    fetch('/api/task-lists')
+      .then((res) => (res.ok ? res.json() as Promise<{ task_lists: TaskList[] }> : { task_lists: [] }))
+      .then((data) => setTaskLists(data.task_lists))
+      .catch(() => setTaskLists([]));
+  }, []);
 
   if (loading) {
     return (
@@ -102,7 +184,8 @@ export default function AnalyticsDashboard() {
     );
   }
 
-  const { sessionAnalytics, bottlenecks } = data;
+  const { sessionAnalytics, spend, bottlenecks, rework } = data;
+  const flowStatuses = FLOW_ORDER.filter((status) => data.cumulativeFlow.some((point) => point[status]));
 
   return (
     <div className="space-y-6">
@@ -122,6 +205,17 @@ export default function AnalyticsDashboard() {
             {p === 'day' ? 'Daily' : p === 'week' ? 'Weekly' : 'Monthly'}
           </button>
         ))}
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="input-field w-48 ml-auto text-sm"
+          aria-label="Project"
+        >
+          <option value="">All projects</option>
+          {taskLists.map((list) => (
+            <option key={list.id} value={list.id}>{list.name}</option>
+          ))}
+        </select>
       </div>
 
       {/* Session Stats Cards */}
@@ -254,6 +348,119 @@ export default function AnalyticsDashboard() {
         </ChartCard>
       </div>
 
+      {/* Cumulative Flow */}
+      <ChartCard title="Cumulative Flow">
+        {flowStatuses.length > 0 ? (
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={data.cumulativeFlow}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+              <XAxis dataKey="date" tick={{ fill: '#a1a1aa', fontSize: 11 }} />
+              <YAxis tick={{ fill: '#a1a1aa', fontSize: 11 }} allowDecimals={false} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend formatter={(value) => <span style={{ color: '#a1a1aa', fontSize: 12 }}>{value}</span>} />
+              {flowStatuses.map((status) => (
+                <Area
+                  key={status}
+                  type="monotone"
+                  dataKey={status}
+                  name={STATUS_LABELS[status] || status}
+                  stackId="flow"
+                  stroke={STATUS_COLORS[status] || '#a1a1aa'}
+                  fill={STATUS_COLORS[status] || '#a1a1aa'}
+                  fillOpacity={0.4}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        ) : (
+          <EmptyChart message="No status changes recorded yet" />
+        )}
+      </ChartCard>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Dwell time per column */}
+        <ChartCard title="Time in Column (p50 / p85 / p95)">
+          {data.timeInStatus.length > 0 ? (
+            <ResponsiveContainer width="100%" height={Math.max(250, data.timeInStatus.length * 40)}>
+              <BarChart
+                data={data.timeInStatus.map(d => ({ ...d, name: STATUS_LABELS[d.status] || d.status }))}
+                layout="vertical"
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+                <XAxis type="number" tick={{ fill: '#a1a1aa', fontSize: 11 }} unit="h" />
+                <YAxis type="category" dataKey="name" tick={{ fill: '#a1a1aa', fontSize: 11 }} width={110} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number | undefined, name) => [`${value ?? 0}h`, name]}
+                />
+                <Legend formatter={(value) => <span style={{ color: '#a1a1aa', fontSize: 12 }}>{value}</span>} />
+                <Bar dataKey="p50_hours" name="p50" fill="#22c55e" />
+                <Bar dataKey="p85_hours" name="p85" fill="#f59e0b" />
+                <Bar dataKey="p95_hours" name="p95" fill="#ef4444" />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <EmptyChart message="No status changes in this period" />
+          )}
+        </ChartCard>
+
+        {/* Lead vs cycle time */}
+        <ChartCard title="Lead Time vs Cycle Time">
+          {data.leadCycleTime.length > 0 ? (
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={data.leadCycleTime}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+                <XAxis dataKey="date" tick={{ fill: '#a1a1aa', fontSize: 11 }} />
+                <YAxis tick={{ fill: '#a1a1aa', fontSize: 11 }} unit="h" />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number | undefined, name) => [`${value ?? 0}h`, name]}
+                />
+                <Legend formatter={(value) => <span style={{ color: '#a1a1aa', fontSize: 12 }}>{value}</span>} />
+                <Line type="monotone" dataKey="lead_hours" name="Lead time" stroke="#3b82f6" strokeWidth={2} />
+                <Line type="monotone" dataKey="cycle_hours" name="Cycle time" stroke="#a855f7" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <EmptyChart message="No completed tasks in this period" />
+          )}
+        </ChartCard>
+      </div>
+
+      {/* Rework rounds */}
+      <ChartCard title="Rework Rounds">
+        {rework.totals.some((total) => total.tasks > 0) ? (
+          <>
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {rework.totals.map((total) => (
+                <StatCard
+                  key={total.status}
+                  label={`${STATUS_LABELS[total.status]} (${total.tasks} tasks)`}
+                  value={total.tasks ? `${Math.round((total.rounds / total.tasks) * 10) / 10} avg rounds` : '—'}
+                  color={total.status === 'review_rejected' ? 'text-terminal-amber' : 'text-terminal-red'}
+                />
+              ))}
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={rework.histogram}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+                <XAxis dataKey="rounds" tick={{ fill: '#a1a1aa', fontSize: 11 }} />
+                <YAxis tick={{ fill: '#a1a1aa', fontSize: 11 }} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelFormatter={(label) => `${label} round(s)`}
+                />
+                <Legend formatter={(value) => <span style={{ color: '#a1a1aa', fontSize: 12 }}>{value}</span>} />
+                <Bar dataKey="review_rejected" name="Review rejected" fill={STATUS_COLORS.review_rejected} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="test_failed" name="Test failed" fill={STATUS_COLORS.test_failed} radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </>
+        ) : (
+          <EmptyChart message="No tasks were sent back in this period" />
+        )}
+      </ChartCard>
+
       {/* Session Analytics Detail */}
       <ChartCard title="Session Performance">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -278,6 +485,44 @@ export default function AnalyticsDashboard() {
         </div>
       </ChartCard>
 
+      {/* Spend */}
+      <ChartCard title="Spend">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div className="text-center">
+            <div className="text-2xl font-bold text-terminal-green">{formatCost(spend.totals.cost_usd)}</div>
+            <div className="text-xs text-terminal-muted mt-1">Total Cost</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-terminal-blue">{formatTokens(spend.totals.input_tokens)}</div>
+            <div className="text-xs text-terminal-muted mt-1">Input Tokens</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-terminal-blue">{formatTokens(spend.totals.output_tokens)}</div>
+            <div className="text-xs text-terminal-muted mt-1">Output Tokens</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-terminal-amber">
+              {formatTokens(spend.totals.cache_read_tokens + spend.totals.cache_creation_tokens)}
+            </div>
+            <div className="text-xs text-terminal-muted mt-1">Cache Tokens</div>
+          </div>
+        </div>
+        {spend.totals.sessions > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <SpendChart title="By Project" rows={spend.byProject} label={spendLabels.project} />
+            <SpendChart title="By Session Type" rows={spend.bySessionType} label={spendLabels.sessionType} />
+            <SpendChart title="By Provider" rows={spend.byProvider} label={spendLabels.provider} />
+          </div>
+        ) : (
+          <EmptyChart message="No sessions in this period" />
+        )}
+      </ChartCard>
+
+      {/* Agent effectiveness */}
+      <ChartCard title="Agent Effectiveness by Provider / Model">
+        <AgentEffectiveness period={period} projectId={projectId} />
+      </ChartCard>
+
       {/* Bottleneck Detection */}
       <ChartCard title="Bottleneck Detection">
         {bottlenecks.length > 0 ? (
@@ -353,6 +598,27 @@ function StatCard({ label, value, color }: { label: string; value: string | numb
   );
 }
 
+function SpendChart({ title, rows, label }: { title: string; rows: SpendRow[]; label: (row: SpendRow) => string }) {
+  const chartData = rows.map((row) => ({ name: label(row), cost: row.cost_usd, sessions: row.sessions }));
+  return (
+    <div>
+      <h4 className="text-xs text-terminal-muted mb-2">{title}</h4>
+      <ResponsiveContainer width="100%" height={Math.max(120, chartData.length * 32)}>
+        <BarChart data={chartData} layout="vertical">
+          <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+          <XAxis type="number" tick={{ fill: '#a1a1aa', fontSize: 11 }} unit="$" />
+          <YAxis type="category" dataKey="name" tick={{ fill: '#a1a1aa', fontSize: 11 }} width={110} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value: number | undefined) => [formatCost(value ?? 0), 'Cost']}
+          />
+          <Bar dataKey="cost" name="Cost" fill="#22c55e" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div className="bg-terminal-surface border border-terminal-border rounded-lg p-4">
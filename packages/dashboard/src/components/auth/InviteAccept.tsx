@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import type { InvitePreviewResponse } from '@taskinfa/shared';
+import { WORKSPACE_ROLE_LABELS, WORKSPACE_ROLE_DESCRIPTIONS } from '@taskinfa/shared';
+
+interface InviteAcceptProps {
+  token: string;
+}
+
+export default function InviteAccept({ token }: InviteAcceptProps) {
+  const router = useRouter();
+  const [invite, setInvite] = useState<InvitePreviewResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/invites/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error('This invite link is invalid, expired or has already been used.');
+        }
+        setInvite(await res.json() as InvitePreviewResponse);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load invite'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/invites/${encodeURIComponent(token)}`, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        setError(data.error || 'Failed to accept invite');
+        return;
+      }
+      router.push('/dashboard');
+      router.refresh();
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="card px-5 sm:px-8 py-8 sm:py-10">
+        <h2 className="text-xl sm:text-2xl font-bold text-terminal-text mb-6 text-center">
+          Workspace invite
+        </h2>
+
+        {isLoading && <p className="text-sm text-terminal-muted text-center">Loading invite...</p>}
+
+        {error && (
+          <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {invite && (
+          <div className="space-y-4">
+            <p className="text-terminal-text text-center">
+              You have been invited to <span className="font-semibold">{invite.workspace_name}</span> as{' '}
+              <span className="font-semibold">{WORKSPACE_ROLE_LABELS[invite.role]}</span>.
+            </p>
+            <p className="text-sm text-terminal-muted text-center">{WORKSPACE_ROLE_DESCRIPTIONS[invite.role]}</p>
+
+            {invite.already_member ? (
+              <a href="/dashboard" className="btn-secondary w-full block text-center py-2.5">
+                You are already a member — go to the dashboard
+              </a>
+            ) : (
+              <button onClick={handleAccept} disabled={isAccepting} className="btn-primary w-full py-2.5">
+                {isAccepting ? 'Joining...' : 'Join workspace'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
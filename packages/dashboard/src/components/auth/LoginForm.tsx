@@ -4,7 +4,12 @@ import { useState, FormEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 
-export default function LoginForm() {
+interface LoginFormProps {
+  // Where to go after signing in, e.g. back to an invite link
+  redirectTo?: string;
+}
+
+export default function LoginForm({ redirectTo = '/dashboard' }: LoginFormProps) {
   const router = useRouter();
   const [formData, setFormData] = useState({
     email: '',
@@ -56,8 +61,7 @@ export default function LoginForm() {
         return;
       }
 
-      // Redirect to dashboard on success
-      router.push('/dashboard');
+      router.push(redirectTo);
       router.refresh();
     } catch (error) {
       setErrors({ general: 'An error occurred. Please try again.' });
@@ -132,7 +136,7 @@ export default function LoginForm() {
         <div className="mt-6 text-center">
           <p className="text-sm text-terminal-muted">
             Don&apos;t have an account?{' '}
-            <Link href="/auth/signup" className="font-medium text-terminal-green hover:text-green-400 transition-colors">
+            <Link href={redirectTo === '/dashboard' ? '/auth/signup' : `/auth/signup?next=${encodeURIComponent(redirectTo)}`} className="font-medium text-terminal-green hover:text-green-400 transition-colors">
               Sign up
             </Link>
           </p>
@@ -10,7 +10,12 @@ interface PasswordStrength {
   color: string;
 }
 
-export default function SignupForm() {
+interface SignupFormProps {
+  // Where to go after signing in, e.g. back to an invite link
+  redirectTo?: string;
+}
+
+export default function SignupForm({ redirectTo = '/dashboard' }: SignupFormProps) {
   const router = useRouter();
   const [formData, setFormData] = useState({
     email: '',
@@ -111,8 +116,7 @@ export default function SignupForm() {
         return;
       }
 
-      // Redirect to dashboard on success
-      router.push('/dashboard');
+      router.push(redirectTo);
       router.refresh();
     } catch (error) {
       setErrors({ general: 'An error occurred. Please try again.' });
@@ -247,7 +251,7 @@ export default function SignupForm() {
         <div className="mt-6 text-center">
           <p className="text-sm text-terminal-muted">
             Already have an account?{' '}
-            <Link href="/auth/login" className="font-medium text-terminal-green hover:text-green-400 transition-colors">
+            <Link href={redirectTo === '/dashboard' ? '/auth/login' : `/auth/login?next=${encodeURIComponent(redirectTo)}`} className="font-medium text-terminal-green hover:text-green-400 transition-colors">
               Log in
             </Link>
           </p>
@@ -7,12 +7,16 @@ import type {
   LlmProviderRecord,
   LlmSessionType,
   LlmSessionConfig,
+  AgentRunnerKind,
 } from '@taskinfa/shared';
-import { LLM_PROVIDER_PRESETS, LLM_SESSION_TYPE_LABELS } from '@taskinfa/shared';
+import { LLM_PROVIDER_PRESETS, LLM_SESSION_TYPE_LABELS, AGENT_RUNNER_LABELS } from '@taskinfa/shared';
 import { fetchModelsForProvider, ANTHROPIC_MODELS } from '@/lib/llm/fetchModels';
+import BudgetSettings from '@/components/settings/BudgetSettings';
+import RunPolicySettings from '@/components/settings/RunPolicySettings';
 
 const PROVIDERS: LlmProvider[] = ['anthropic', 'ollama', 'lmstudio', 'openrouter', 'litellm', 'custom'];
 const SESSION_TYPES: LlmSessionType[] = ['task', 'ai_review', 'fix_review', 'testing', 'fix_test_failure', 'refinement', 'message'];
+const AGENT_RUNNERS: AgentRunnerKind[] = ['claude', 'shell'];
 
 interface Props {
   project: TaskList;
@@ -20,7 +24,7 @@ interface Props {
   onUpdated: (project: TaskList) => void;
 }
 
-type Tab = 'general' | 'llm';
+type Tab = 'general' | 'llm' | 'runs' | 'budget';
 
 interface SessionFormState {
   provider: LlmProvider | 'inherit';
@@ -35,6 +39,9 @@ export default function ProjectEditModal({ project, onClose, onUpdated }: Props)
   const [name, setName] = useState(project.name);
   const [description, setDescription] = useState(project.description ?? '');
   const [repositoryUrl, setRepositoryUrl] = useState(project.repository_url ?? '');
+  const [agentRunner, setAgentRunner] = useState<AgentRunnerKind>(project.agent_runner ?? 'claude');
+  const [agentCommand, setAgentCommand] = useState(project.agent_command ?? '');
+  const [maxSessions, setMaxSessions] = useState(project.max_concurrent_sessions ?? 1);
   const [generalSaving, setGeneralSaving] = useState(false);
   const [generalError, setGeneralError] = useState<string | null>(null);
 
@@ -137,6 +144,9 @@ export default function ProjectEditModal({ project, onClose, onUpdated }: Props)
   async function handleGeneralSave() {
     setGeneralSaving(true);
     setGeneralError(null);
+    // Changing the runner takes an admin, so it is only sent when changed
+    const command = agentRunner === 'shell' ? agentCommand || null : null;
+    const runnerChanged = agentRunner !== (project.agent_runner ?? 'claude') || command !== (project.agent_command ?? null);
     try {
       const res = await fetch(`/api/task-lists/${project.id}`, {
         method: 'PATCH',
@@ -145,6 +155,8 @@ export default function ProjectEditModal({ project, onClose, onUpdated }: Props)
           name,
           description: description || null,
           repository_url: repositoryUrl || null,
+          ...(runnerChanged ? { agent_runner: agentRunner, agent_command: command } : {}),
+          max_concurrent_sessions: maxSessions,
         }),
       });
       if (!res.ok) {
@@ -283,6 +295,26 @@ export default function ProjectEditModal({ project, onClose, onUpdated }: Props)
           >
             LLM Settings
           </button>
+          <button
+            onClick={() => setActiveTab('runs')}
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'runs'
+                ? 'text-terminal-green border-b-2 border-terminal-green'
+                : 'text-terminal-muted hover:text-terminal-text'
+            }`}
+          >
+            Retries
+          </button>
+          <button
+            onClick={() => setActiveTab('budget')}
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'budget'
+                ? 'text-terminal-green border-b-2 border-terminal-green'
+                : 'text-terminal-muted hover:text-terminal-text'
+            }`}
+          >
+            Budget
+          </button>
         </div>
 
         {/* Content */}
@@ -331,10 +363,65 @@ export default function ProjectEditModal({ project, onClose, onUpdated }: Props)
                   disabled={generalSaving}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-terminal-muted mb-2">
+                  Agent Runner
+                </label>
+                <select
+                  value={agentRunner}
+                  onChange={(e) => setAgentRunner(e.target.value as AgentRunnerKind)}
+                  className="input-field w-full"
+                  disabled={generalSaving}
+                >
+                  {AGENT_RUNNERS.map((r) => (
+                    <option key={r} value={r}>
+                      {AGENT_RUNNER_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-terminal-muted mt-1">
+                  CLI agent the orchestrator spawns for this project&apos;s sessions. Only admins can change it.
+                </p>
+              </div>
+              {agentRunner === 'shell' && (
+                <div>
+                  <label className="block text-sm font-medium text-terminal-muted mb-2">
+                    Agent Command <span className="text-terminal-red">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={agentCommand}
+                    onChange={(e) => setAgentCommand(e.target.value)}
+                    className="input-field w-full font-mono text-sm"
+                    placeholder="my-agent --non-interactive"
+                    disabled={generalSaving}
+                  />
+                  <p className="text-xs text-terminal-muted mt-1">
+                    Run with sh -c in the project directory. The prompt is written to stdin and exported as KANBAN_PROMPT; exit code 0 means success.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-terminal-muted mb-2">
+                  Parallel Sessions
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={maxSessions}
+                  onChange={(e) => setMaxSessions(Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className="input-field w-24"
+                  disabled={generalSaving}
+                />
+                <p className="text-xs text-terminal-muted mt-1">
+                  Sessions the orchestrator may run on this project at once. Above 1, each session works in its own git worktree on the task branch.
+                </p>
+              </div>
               <div className="flex gap-3 pt-2">
                 <button
                   onClick={handleGeneralSave}
-                  disabled={generalSaving || !name.trim()}
+                  disabled={generalSaving || !name.trim() || (agentRunner === 'shell' && !agentCommand.trim())}
                   className="btn-primary"
                 >
                   {generalSaving ? 'Saving...' : 'Save Changes'}
@@ -346,6 +433,10 @@ export default function ProjectEditModal({ project, onClose, onUpdated }: Props)
             </div>
           )}
 
+          {activeTab === 'runs' && <RunPolicySettings taskListId={project.id} />}
+
+          {activeTab === 'budget' && <BudgetSettings taskListId={project.id} />}
+
           {activeTab === 'llm' && (
             <div>
               {llmError && (
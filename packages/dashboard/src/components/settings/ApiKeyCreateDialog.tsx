@@ -1,7 +1,33 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
+import { useState, useEffect, FormEvent } from 'react';
 import Modal, { ModalHeader, ModalFooter } from '../Modal';
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  API_KEY_SCOPE_PRESETS,
+  RATE_LIMIT_TIERS,
+  RATE_LIMIT_TIER_LABELS,
+  resolveRateLimitTier,
+} from '@taskinfa/shared';
+import type { ApiKeyScope, CreateApiKeyRequest, RateLimitTier, TaskList } from '@taskinfa/shared';
+
+type ScopePreset = keyof typeof API_KEY_SCOPE_PRESETS | 'custom';
+
+const PRESET_LABELS: Record<ScopePreset, string> = {
+  orchestrator: 'Orchestrator / bot (tasks, comments, sessions)',
+  read_only: 'Read only',
+  full: 'Full access',
+  custom: 'Custom',
+};
+
+function presetFor(scopes: ApiKeyScope[]): ScopePreset {
+  const match = (Object.keys(API_KEY_SCOPE_PRESETS) as (keyof typeof API_KEY_SCOPE_PRESETS)[]).find((preset) => {
+    const presetScopes = API_KEY_SCOPE_PRESETS[preset];
+    return presetScopes.length === scopes.length && presetScopes.every((scope) => scopes.includes(scope));
+  });
+  return match ?? 'custom';
+}
 
 interface ApiKeyCreateDialogProps {
   onClose: () => void;
@@ -18,6 +44,27 @@ export default function ApiKeyCreateDialog({ onClose, onCreated }: ApiKeyCreateD
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPE_PRESETS.orchestrator]);
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
+  const [restrictProjects, setRestrictProjects] = useState(false);
+  const [taskListIds, setTaskListIds] = useState<string[]>([]);
+  // '' = derived from the scopes
+  const [rateLimitTier, setRateLimitTier] = useState<RateLimitTier | ''>('');
+
+  useEffect(() => {
+    fetch('/api/task-lists')
+      .then((res) => (res.ok ? res.json() as Promise<{ task_lists: TaskList[] }> : { task_lists: [] }))
+      .then((data) => setTaskLists(data.task_lists))
+      .catch(() => setTaskLists([]));
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const toggleTaskList = (id: string) => {
+    setTaskListIds((prev) => (prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]));
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -28,13 +75,32 @@ export default function ApiKeyCreateDialog({ onClose, onCreated }: ApiKeyCreateD
       return;
     }
 
+    if (scopes.length === 0) {
+      setError('Select at least one scope');
+      return;
+    }
+
+    if (restrictProjects && taskListIds.length === 0) {
+      setError('Select at least one project or allow all projects');
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      const body: { name: string; expiresInDays?: number } = {
+      const body: CreateApiKeyRequest = {
         name: formData.name.trim(),
+        scopes,
       };
 
+      if (restrictProjects) {
+        body.taskListIds = taskListIds;
+      }
+
+      if (rateLimitTier) {
+        body.rateLimitTier = rateLimitTier;
+      }
+
       if (formData.expiresInDays) {
         const days = parseInt(formData.expiresInDays, 10);
         if (days > 0 && days <= 365) {
@@ -145,6 +211,92 @@ export default function ApiKeyCreateDialog({ onClose, onCreated }: ApiKeyCreateD
                 Key will automatically stop working after expiration
               </p>
             </div>
+
+            <div>
+              <label htmlFor="scopePreset" className="block text-sm font-medium text-terminal-muted mb-2">
+                Permissions
+              </label>
+              <select
+                id="scopePreset"
+                value={presetFor(scopes)}
+                onChange={(e) => {
+                  const preset = e.target.value as ScopePreset;
+                  if (preset !== 'custom') setScopes([...API_KEY_SCOPE_PRESETS[preset]]);
+                }}
+                className="input-field w-full"
+              >
+                {(Object.keys(PRESET_LABELS) as ScopePreset[]).map((preset) => (
+                  <option key={preset} value={preset}>{PRESET_LABELS[preset]}</option>
+                ))}
+              </select>
+              <div className="mt-2 space-y-1.5">
+                {API_KEY_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-mono text-xs text-terminal-text">{scope}</span>
+                      <span className="block text-xs text-terminal-muted">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-terminal-muted mt-1">
+                The key can never do more than your own role allows
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-terminal-muted cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={restrictProjects}
+                  onChange={(e) => setRestrictProjects(e.target.checked)}
+                />
+                Only allow specific projects
+              </label>
+              {restrictProjects && (
+                <div className="mt-2 space-y-1.5 max-h-40 overflow-y-auto">
+                  {taskLists.length === 0 && (
+                    <p className="text-xs text-terminal-muted">No projects yet</p>
+                  )}
+                  {taskLists.map((taskList) => (
+                    <label key={taskList.id} className="flex items-center gap-2 text-sm text-terminal-text cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={taskListIds.includes(taskList.id)}
+                        onChange={() => toggleTaskList(taskList.id)}
+                      />
+                      {taskList.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="rateLimitTier" className="block text-sm font-medium text-terminal-muted mb-2">
+                Rate limit
+              </label>
+              <select
+                id="rateLimitTier"
+                value={rateLimitTier}
+                onChange={(e) => setRateLimitTier(e.target.value as RateLimitTier | '')}
+                className="input-field w-full"
+              >
+                <option value="">Automatic ({RATE_LIMIT_TIER_LABELS[resolveRateLimitTier(null, scopes)]})</option>
+                {RATE_LIMIT_TIERS.map((tier) => (
+                  <option key={tier} value={tier}>{RATE_LIMIT_TIER_LABELS[tier]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-terminal-muted mt-1">
+                Keys that can report sessions get the higher orchestrator limit automatically
+              </p>
+            </div>
           </form>
 
           <ModalFooter>
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState } from 'react';
+import { RATE_LIMIT_TIER_LABELS } from '@taskinfa/shared';
+import type { ApiKeyScope, ApiKeyUsage, RateLimitTier } from '@taskinfa/shared';
 
 interface ApiKeyItemProps {
   apiKey: {
@@ -11,12 +13,35 @@ interface ApiKeyItemProps {
     created_at: string;
     expires_at: string | null;
     is_active: boolean;
+    scopes: ApiKeyScope[] | null;
+    task_list_ids: string[] | null;
+    rate_limit_tier: RateLimitTier | null;
+    usage: ApiKeyUsage;
   };
   onDeleted: () => void;
   onUpdated: () => void;
   variant?: 'row' | 'card';
 }
 
+function describeAccess(scopes: ApiKeyScope[] | null, taskListIds: string[] | null): string {
+  const scopeText = scopes ? scopes.join(', ') : 'All scopes';
+  const projectText = taskListIds
+    ? `${taskListIds.length} project${taskListIds.length === 1 ? '' : 's'}`
+    : 'all projects';
+  return `${scopeText} · ${projectText}`;
+}
+
+// Warn once a key has used most of its window
+function usageColor(usage: ApiKeyUsage): string {
+  if (usage.used >= usage.limit) return 'text-terminal-red';
+  if (usage.used >= usage.limit * 0.8) return 'text-terminal-amber';
+  return 'text-terminal-muted';
+}
+
+function describeUsage(usage: ApiKeyUsage): string {
+  return `${RATE_LIMIT_TIER_LABELS[usage.tier]} tier · ${usage.used}/${usage.limit} requests this minute`;
+}
+
 export default function ApiKeyItem({ apiKey, onDeleted, onUpdated, variant = 'row' }: ApiKeyItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedName, setEditedName] = useState(apiKey.name);
@@ -206,6 +231,9 @@ export default function ApiKeyItem({ apiKey, onDeleted, onUpdated, variant = 'ro
           {apiKey.key_preview}
         </code>
 
+        <p className="text-xs text-terminal-muted">{describeAccess(apiKey.scopes, apiKey.task_list_ids)}</p>
+        <p className={`text-xs ${usageColor(apiKey.usage)}`}>{describeUsage(apiKey.usage)}</p>
+
         <div className="flex items-center gap-4 text-xs text-terminal-muted">
           <span>Used: {formatDate(apiKey.last_used_at)}</span>
           <span>Created: {formatDate(apiKey.created_at)}</span>
@@ -256,7 +284,11 @@ export default function ApiKeyItem({ apiKey, onDeleted, onUpdated, variant = 'ro
               </button>
             </div>
           ) : (
-            <div className="text-sm font-medium text-terminal-text">{apiKey.name}</div>
+            <>
+              <div className="text-sm font-medium text-terminal-text">{apiKey.name}</div>
+              <div className="text-xs text-terminal-muted mt-0.5">{describeAccess(apiKey.scopes, apiKey.task_list_ids)}</div>
+              <div className={`text-xs mt-0.5 ${usageColor(apiKey.usage)}`}>{describeUsage(apiKey.usage)}</div>
+            </>
           )}
           {error && <p className="text-xs text-terminal-red mt-1">{error}</p>}
         </td>
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import ApiKeyItem from './ApiKeyItem';
 import ApiKeyCreateDialog from './ApiKeyCreateDialog';
+import type { ApiKeyScope, ApiKeyUsage, RateLimitTier } from '@taskinfa/shared';
 
 interface ApiKey {
   id: string;
@@ -12,6 +13,10 @@ interface ApiKey {
   created_at: string;
   expires_at: string | null;
   is_active: boolean;
+  scopes: ApiKeyScope[] | null;
+  task_list_ids: string[] | null;
+  rate_limit_tier: RateLimitTier | null;
+  usage: ApiKeyUsage;
 }
 
 export default function ApiKeyList() {
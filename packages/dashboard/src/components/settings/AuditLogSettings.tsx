@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AuditActorType, AuditEntityType, AuditLogEntry, ListAuditLogResponse } from '@taskinfa/shared';
+import { AUDIT_ENTITY_TYPE_LABELS } from '@taskinfa/shared';
+
+const ACTOR_TYPE_LABELS: Record<AuditActorType, string> = {
+  user: 'User',
+  api_key: 'API key',
+  bot: 'Bot',
+};
+
+interface Filters {
+  entity_type: AuditEntityType | '';
+  actor_type: AuditActorType | '';
+  action: string;
+  entity_id: string;
+  since: string;
+  until: string;
+}
+
+const EMPTY_FILTERS: Filters = { entity_type: '', actor_type: '', action: '', entity_id: '', since: '', until: '' };
+
+function toSearchParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value) continue;
+    // Date inputs are whole days; include all of the last day
+    params.set(key, key === 'until' ? `${value} 23:59:59` : value);
+  }
+  return params;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '∅';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+export default function AuditLogSettings() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbidden, setForbidden] = useState(false);
+
+  const fetchEntries = useCallback(async (applied: Filters, before: number | null) => {
+    setLoading(true);
+    try {
+      const params = toSearchParams(applied);
+      if (before !== null) params.set('before', String(before));
+      const res = await fetch(`/api/audit-log?${params}`);
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({})) as { error?: string };
+        throw new Error(data.error || 'Failed to load audit log');
+      }
+      const data = await res.json() as ListAuditLogResponse;
+      setEntries((prev) => (before === null ? data.entries : [...prev, ...data.entries]));
+      setCursor(data.next_cursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(EMPTY_FILTERS, null);
+  }, [fetchEntries]);
+
+  function updateFilter<K extends keyof Filters>(key: K, value: Filters[K]) {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function exportUrl(format: 'json' | 'csv'): string {
+    const params = toSearchParams(filters);
+    params.set('format', format);
+    return `/api/audit-log?${params}`;
+  }
+
+  if (forbidden) {
+    return (
+      <div>
+        <h2 className="text-lg font-semibold text-terminal-text mb-1">Audit Log</h2>
+        <p className="text-sm text-terminal-muted">Only workspace admins can view the audit log.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">Audit Log</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        Every change to tasks, projects, API keys, feature toggles and LLM config, with who made it. Entries cannot be
+        edited or removed.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        <select
+          value={filters.entity_type}
+          onChange={(e) => updateFilter('entity_type', e.target.value as AuditEntityType | '')}
+          className="input-field w-40"
+          aria-label="Entity type"
+        >
+          <option value="">All entities</option>
+          {(Object.keys(AUDIT_ENTITY_TYPE_LABELS) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>{AUDIT_ENTITY_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.actor_type}
+          onChange={(e) => updateFilter('actor_type', e.target.value as AuditActorType | '')}
+          className="input-field w-32"
+          aria-label="Actor type"
+        >
+          <option value="">All actors</option>
+          {(Object.keys(ACTOR_TYPE_LABELS) as AuditActorType[]).map((type) => (
+            <option key={type} value={type}>{ACTOR_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.action}
+          onChange={(e) => updateFilter('action', e.target.value)}
+          placeholder="Action, e.g. task.delete"
+          className="input-field w-44"
+        />
+        <input
+          type="text"
+          value={filters.entity_id}
+          onChange={(e) => updateFilter('entity_id', e.target.value)}
+          placeholder="Entity ID"
+          className="input-field w-36"
+        />
+        <input
+          type="date"
+          value={filters.since}
+          onChange={(e) => updateFilter('since', e.target.value)}
+          className="input-field w-36"
+          aria-label="From"
+        />
+        <input
+          type="date"
+          value={filters.until}
+          onChange={(e) => updateFilter('until', e.target.value)}
+          className="input-field w-36"
+          aria-label="Until"
+        />
+        <button onClick={() => fetchEntries(filters, null)} disabled={loading} className="btn-primary text-sm px-4 py-2">
+          Filter
+        </button>
+        <a href={exportUrl('csv')} className="btn-secondary text-sm px-3 py-2">Export CSV</a>
+        <a href={exportUrl('json')} className="btn-secondary text-sm px-3 py-2">Export JSON</a>
+      </div>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && !error && (
+        <p className="text-sm text-terminal-muted">No entries match these filters.</p>
+      )}
+
+      {entries.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-terminal-muted text-xs border-b border-terminal-border">
+                <th className="text-left py-2 pr-3">When</th>
+                <th className="text-left py-2 pr-3">Actor</th>
+                <th className="text-left py-2 pr-3">Action</th>
+                <th className="text-left py-2 pr-3">Entity</th>
+                <th className="text-left py-2">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-terminal-border/50 align-top">
+                  <td className="py-2 pr-3 text-terminal-muted whitespace-nowrap">
+                    {new Date(`${entry.created_at}Z`).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="text-terminal-text">{entry.actor_name || entry.actor_id || 'Unknown'}</div>
+                    <div className="text-xs text-terminal-muted">{ACTOR_TYPE_LABELS[entry.actor_type]}</div>
+                  </td>
+                  <td className="py-2 pr-3 font-mono text-xs text-terminal-text whitespace-nowrap">{entry.action}</td>
+                  <td className="py-2 pr-3">
+                    <div className="text-terminal-text">{AUDIT_ENTITY_TYPE_LABELS[entry.entity_type]}</div>
+                    <div className="text-xs text-terminal-muted font-mono">{entry.entity_id}</div>
+                  </td>
+                  <td className="py-2 text-xs">
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <div key={field} className="text-terminal-muted">
+                        <span className="text-terminal-text">{field}</span>: {formatValue(change.before)} → {formatValue(change.after)}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {cursor !== null && (
+        <button
+          onClick={() => fetchEntries(filters, cursor)}
+          disabled={loading}
+          className="btn-secondary text-sm px-4 py-2 mt-4"
+        >
+          {loading ? 'Loading...' : 'Load older entries'}
+        </button>
+      )}
+    </div>
+  );
+}
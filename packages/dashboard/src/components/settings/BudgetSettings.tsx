@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { BudgetLimit, BudgetSpend, GetBudgetsResponse, UpsertBudgetResponse } from '@taskinfa/shared';
+
+interface BudgetSettingsProps {
+  // Edit this project's budget instead of the workspace budget
+  taskListId?: string;
+}
+
+type LimitField = 'daily_limit_usd' | 'monthly_limit_usd' | 'task_limit_usd';
+
+const LIMIT_FIELDS: { key: LimitField; label: string; description: string }[] = [
+  { key: 'daily_limit_usd', label: 'Daily cap', description: 'Agent spend per day (UTC)' },
+  { key: 'monthly_limit_usd', label: 'Monthly cap', description: 'Agent spend per calendar month (UTC)' },
+  { key: 'task_limit_usd', label: 'Per-task cap', description: 'Total spend on a single task across all of its sessions' },
+];
+
+type FormState = Record<LimitField, string>;
+
+function toForm(limit: BudgetLimit | null | undefined): FormState {
+  return {
+    daily_limit_usd: limit?.daily_limit_usd?.toString() ?? '',
+    monthly_limit_usd: limit?.monthly_limit_usd?.toString() ?? '',
+    task_limit_usd: limit?.task_limit_usd?.toString() ?? '',
+  };
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export default function BudgetSettings({ taskListId }: BudgetSettingsProps) {
+  const [form, setForm] = useState<FormState>(toForm(null));
+  const [spend, setSpend] = useState<BudgetSpend>({ daily_usd: 0, monthly_usd: 0 });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const res = await fetch('/api/budgets');
+      if (!res.ok) throw new Error('Failed to fetch budgets');
+      const data = await res.json() as GetBudgetsResponse;
+      const limit = data.limits.find((l) => l.task_list_id === (taskListId ?? null));
+      setForm(toForm(limit));
+      setSpend(taskListId
+        ? data.spend.projects[taskListId] ?? { daily_usd: 0, monthly_usd: 0 }
+        : data.spend.workspace);
+      setError(null);
+    } catch {
+      setError('Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  }, [taskListId]);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  async function handleSave() {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const body: Record<string, string | number | null> = { task_list_id: taskListId ?? null };
+      for (const { key, label } of LIMIT_FIELDS) {
+        const value = form[key].trim();
+        if (value === '') {
+          body[key] = null;
+          continue;
+        }
+        const amount = Number(value);
+        if (!Number.isFinite(amount) || amount <= 0) {
+          throw new Error(`${label} must be a positive amount`);
+        }
+        body[key] = amount;
+      }
+
+      const res = await fetch('/api/budgets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to save budget');
+      }
+      const data = await res.json() as UpsertBudgetResponse;
+      setForm(toForm(data.limit));
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading budgets...</p>;
+  }
+
+  return (
+    <div>
+      {!taskListId && (
+        <>
+          <h2 className="text-lg font-semibold text-terminal-text mb-1">Budgets</h2>
+          <p className="text-sm text-terminal-muted mb-4">
+            The orchestrator stops starting sessions when a cap would be exceeded. A session&apos;s cost is only known once it
+            ends, so a running session can go past a cap; it is stopped only when finished sessions have already reached it.
+            Projects can set their own caps in project settings. Leave a field empty for no cap.
+          </p>
+        </>
+      )}
+      {taskListId && (
+        <p className="text-xs text-terminal-muted mb-3">
+          Caps for this project, on top of the workspace budget. The per-task cap overrides the workspace value. Leave a field empty for no cap.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-6 mb-4 text-sm">
+        <div>
+          <span className="text-terminal-muted">Spent today: </span>
+          <span className="text-terminal-text font-medium">{formatUsd(spend.daily_usd)}</span>
+        </div>
+        <div>
+          <span className="text-terminal-muted">This month: </span>
+          <span className="text-terminal-text font-medium">{formatUsd(spend.monthly_usd)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LIMIT_FIELDS.map(({ key, label, description }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-terminal-muted mb-2">{label} (USD)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form[key]}
+              onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+              className="input-field w-full"
+              placeholder="No cap"
+              disabled={saving}
+            />
+            <p className="text-xs text-terminal-muted mt-1">{description}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mt-4">
+        <button onClick={handleSave} disabled={saving} className="btn-primary">
+          {saving ? 'Saving...' : 'Save Budget'}
+        </button>
+        {saved && <span className="text-sm text-terminal-green">Saved</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  RateLimitTier,
+  WorkspaceRateLimit,
+  ListRateLimitsResponse,
+  UpdateRateLimitResponse,
+} from '@taskinfa/shared';
+import { RATE_LIMIT_TIER_LABELS, RATE_LIMIT_OVERRIDE_BOUNDS } from '@taskinfa/shared';
+
+const TIER_DESCRIPTIONS: Record<RateLimitTier, string> = {
+  standard: 'Dashboard sessions and API keys without session access',
+  orchestrator: 'API keys that report sessions, or created with this tier',
+};
+
+export default function RateLimitSettings() {
+  const [limits, setLimits] = useState<WorkspaceRateLimit[]>([]);
+  const [forms, setForms] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<RateLimitTier | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLimits = useCallback(async () => {
+    try {
+      const res = await fetch('/api/rate-limits');
+      if (!res.ok) throw new Error('Failed to fetch rate limits');
+      const data = await res.json() as ListRateLimitsResponse;
+      setLimits(data.limits);
+      setForms(Object.fromEntries(data.limits.map((l) => [l.tier, l.max_requests?.toString() ?? ''])));
+      setError(null);
+    } catch {
+      setError('Failed to load rate limits');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLimits();
+  }, [fetchLimits]);
+
+  async function saveTier(tier: RateLimitTier) {
+    setSaving(tier);
+    setError(null);
+    try {
+      const value = forms[tier]?.trim() ?? '';
+      const res = await fetch('/api/rate-limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tier, max_requests: value === '' ? null : parseInt(value, 10) }),
+      });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to save rate limit');
+      }
+      const data = await res.json() as UpdateRateLimitResponse;
+      setLimits((prev) => prev.map((l) => (l.tier === tier ? data.limit : l)));
+      setForms((prev) => ({ ...prev, [tier]: data.limit.max_requests?.toString() ?? '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rate limit');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading rate limits...</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">API Rate Limits</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        Requests per minute allowed for each API key (or dashboard user). Leave a field empty to use the default.
+        Current usage per key is shown in the API key list.
+      </p>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {limits.map((limit) => (
+          <div key={limit.tier} className="flex flex-wrap items-center gap-3">
+            <div className="min-w-[220px] flex-1">
+              <div className="text-sm text-terminal-text">{RATE_LIMIT_TIER_LABELS[limit.tier]}</div>
+              <div className="text-xs text-terminal-muted">{TIER_DESCRIPTIONS[limit.tier]}</div>
+            </div>
+            <input
+              type="number"
+              min={RATE_LIMIT_OVERRIDE_BOUNDS.min}
+              max={RATE_LIMIT_OVERRIDE_BOUNDS.max}
+              value={forms[limit.tier] ?? ''}
+              onChange={(e) => setForms((prev) => ({ ...prev, [limit.tier]: e.target.value }))}
+              placeholder={String(limit.default_max_requests)}
+              className="input-field w-28"
+            />
+            <span className="text-xs text-terminal-muted">/ {limit.window_seconds}s</span>
+            <button
+              onClick={() => saveTier(limit.tier)}
+              disabled={saving !== null}
+              className="btn-secondary text-xs px-3 py-1"
+            >
+              {saving === limit.tier ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
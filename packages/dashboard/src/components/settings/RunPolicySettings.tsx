@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  LlmSessionType,
+  RunPolicy,
+  RunPolicySettings as RunPolicyValues,
+  ListRunPoliciesResponse,
+  UpsertRunPolicyResponse,
+} from '@taskinfa/shared';
+import { LLM_SESSION_TYPE_LABELS, RUN_POLICY_BOUNDS } from '@taskinfa/shared';
+
+interface RunPolicySettingsProps {
+  // Edit this project's policies instead of the workspace policies
+  taskListId?: string;
+}
+
+type PolicyField = Exclude<keyof RunPolicyValues, 'max_concurrent_sessions'>;
+type RowKey = LlmSessionType | 'default';
+type RowForm = Record<keyof RunPolicyValues, string>;
+
+const SESSION_TYPES: LlmSessionType[] = ['task', 'ai_review', 'fix_review', 'testing', 'fix_test_failure', 'refinement', 'message'];
+
+const COLUMNS: { key: PolicyField; label: string }[] = [
+  { key: 'max_retries', label: 'Max retries' },
+  { key: 'session_timeout_minutes', label: 'Timeout (min)' },
+  { key: 'retry_backoff_seconds', label: 'Backoff (s)' },
+  { key: 'retry_backoff_max_seconds', label: 'Max backoff (s)' },
+];
+
+const FIELDS = Object.keys(RUN_POLICY_BOUNDS) as (keyof RunPolicyValues)[];
+
+function toRowForm(policy: RunPolicy | undefined): RowForm {
+  const form = {} as RowForm;
+  for (const field of FIELDS) {
+    form[field] = policy?.[field]?.toString() ?? '';
+  }
+  return form;
+}
+
+export default function RunPolicySettings({ taskListId }: RunPolicySettingsProps) {
+  const [forms, setForms] = useState<Record<string, RowForm>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<Set<RowKey>>(new Set());
+  const [saved, setSaved] = useState<Set<RowKey>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const res = await fetch('/api/run-policies');
+      if (!res.ok) throw new Error('Failed to fetch run policies');
+      const data = await res.json() as ListRunPoliciesResponse;
+      const scoped = data.policies.filter((p) => p.task_list_id === (taskListId ?? null));
+      const next: Record<string, RowForm> = {
+        default: toRowForm(scoped.find((p) => p.session_type === null)),
+      };
+      for (const sessionType of SESSION_TYPES) {
+        next[sessionType] = toRowForm(scoped.find((p) => p.session_type === sessionType));
+      }
+      setForms(next);
+      setError(null);
+    } catch {
+      setError('Failed to load run policies');
+    } finally {
+      setLoading(false);
+    }
+  }, [taskListId]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  function updateField(row: RowKey, field: keyof RunPolicyValues, value: string) {
+    setForms((prev) => ({ ...prev, [row]: { ...prev[row], [field]: value } }));
+  }
+
+  async function saveRow(row: RowKey) {
+    setSaving((prev) => new Set(prev).add(row));
+    setError(null);
+    try {
+      const form = forms[row];
+      const body: Record<string, string | number | null> = {
+        task_list_id: taskListId ?? null,
+        session_type: row === 'default' ? null : row,
+      };
+      for (const field of FIELDS) {
+        const value = form[field].trim();
+        body[field] = value === '' ? null : parseInt(value, 10);
+      }
+
+      const res = await fetch('/api/run-policies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to save run policy');
+      }
+      const data = await res.json() as UpsertRunPolicyResponse;
+      setForms((prev) => ({ ...prev, [row]: toRowForm(data.policy ?? undefined) }));
+      setSaved((prev) => new Set(prev).add(row));
+      setTimeout(() => setSaved((prev) => {
+        const next = new Set(prev);
+        next.delete(row);
+        return next;
+      }), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save run policy');
+    } finally {
+      setSaving((prev) => {
+        const next = new Set(prev);
+        next.delete(row);
+        return next;
+      });
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading run policies...</p>;
+  }
+
+  const placeholder = taskListId ? 'Inherit' : 'Default';
+  const rows: RowKey[] = ['default', ...SESSION_TYPES];
+
+  return (
+    <div>
+      {!taskListId && (
+        <>
+          <h2 className="text-lg font-semibold text-terminal-text mb-1">Retries &amp; Timeouts</h2>
+          <p className="text-sm text-terminal-muted mb-4">
+            How often the orchestrator retries a failing task, how long a session may run and how long a failed task waits
+            before its next attempt (doubled after every failure, up to the max). Empty fields fall back to the
+            orchestrator&apos;s environment. Projects and individual tasks can override these.
+          </p>
+        </>
+      )}
+      {taskListId && (
+        <p className="text-xs text-terminal-muted mb-3">
+          Override the workspace retry, timeout and backoff settings for this project. Empty fields inherit.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {!taskListId && forms.default && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-terminal-muted mb-2">Max concurrent sessions</label>
+          <input
+            type="number"
+            min={RUN_POLICY_BOUNDS.max_concurrent_sessions.min}
+            max={RUN_POLICY_BOUNDS.max_concurrent_sessions.max}
+            value={forms.default.max_concurrent_sessions}
+            onChange={(e) => updateField('default', 'max_concurrent_sessions', e.target.value)}
+            className="input-field w-24"
+            placeholder={placeholder}
+          />
+          <p className="text-xs text-terminal-muted mt-1">
+            Sessions one orchestrator runs at once across all projects. Saved with the &quot;All sessions&quot; row.
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-terminal-muted text-xs border-b border-terminal-border">
+              <th className="text-left py-2 pr-3">Session type</th>
+              {COLUMNS.map((col) => (
+                <th key={col.key} className="text-left py-2 pr-3">{col.label}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row} className="border-b border-terminal-border/50">
+                <td className="py-2 pr-3 text-terminal-text whitespace-nowrap">
+                  {row === 'default' ? 'All sessions' : LLM_SESSION_TYPE_LABELS[row]}
+                </td>
+                {COLUMNS.map((col) => (
+                  <td key={col.key} className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min={RUN_POLICY_BOUNDS[col.key].min}
+                      max={RUN_POLICY_BOUNDS[col.key].max}
+                      value={forms[row]?.[col.key] ?? ''}
+                      onChange={(e) => updateField(row, col.key, e.target.value)}
+                      className="input-field w-24"
+                      placeholder={row === 'default' ? placeholder : 'Inherit'}
+                      disabled={saving.has(row)}
+                    />
+                  </td>
+                ))}
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => saveRow(row)}
+                    disabled={saving.has(row)}
+                    className="btn-secondary text-xs px-3 py-1"
+                  >
+                    {saving.has(row) ? 'Saving...' : saved.has(row) ? 'Saved' : 'Save'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { TELEGRAM_EVENT_TYPES, TELEGRAM_EVENT_TYPE_LABELS } from '@taskinfa/shared';
+import type {
+  ListTelegramSubscriptionsResponse,
+  TaskList,
+  TelegramEventType,
+  TelegramSubscription,
+  TelegramSubscriptionResponse,
+} from '@taskinfa/shared';
+
+interface SubscriptionForm {
+  enabled: boolean;
+  // null = every project
+  task_list_ids: string[] | null;
+  event_types: TelegramEventType[];
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  timezone: string;
+}
+
+function toForm(sub: TelegramSubscription): SubscriptionForm {
+  return {
+    enabled: sub.enabled,
+    task_list_ids: sub.task_list_ids,
+    event_types: sub.event_types,
+    quiet_hours_start: sub.quiet_hours_start ?? '',
+    quiet_hours_end: sub.quiet_hours_end ?? '',
+    timezone: sub.timezone,
+  };
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function TelegramSubscriptionSettings() {
+  const [subscriptions, setSubscriptions] = useState<TelegramSubscription[]>([]);
+  const [forms, setForms] = useState<Record<string, SubscriptionForm>>({});
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const res = await fetch('/api/telegram-subscriptions');
+      if (!res.ok) throw new Error('Failed to fetch Telegram chats');
+      const data = await res.json() as ListTelegramSubscriptionsResponse;
+      setSubscriptions(data.subscriptions);
+      setForms(Object.fromEntries(data.subscriptions.map((sub) => [sub.id, toForm(sub)])));
+      setError(null);
+    } catch {
+      setError('Failed to load Telegram chats');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSubscriptions();
+    fetch('/api/task-lists')
+      .then((res) => (res.ok ? res.json() as Promise<{ task_lists: TaskList[] }> : { task_lists: [] }))
+      .then((data) => setTaskLists(data.task_lists))
+      .catch(() => setTaskLists([]));
+  }, [fetchSubscriptions]);
+
+  function updateForm(id: string, changes: Partial<SubscriptionForm>) {
+    setForms((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  }
+
+  async function handleSave(sub: TelegramSubscription) {
+    setSaving(sub.id);
+    setError(null);
+    try {
+      const form = forms[sub.id];
+      const res = await fetch(`/api/telegram-subscriptions/${sub.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled: form.enabled,
+          task_list_ids: form.task_list_ids,
+          event_types: form.event_types,
+          quiet_hours_start: form.quiet_hours_start || null,
+          quiet_hours_end: form.quiet_hours_end || null,
+          timezone: form.timezone.trim(),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to save Telegram chat');
+      }
+      const data = await res.json() as TelegramSubscriptionResponse;
+      setSubscriptions((prev) => prev.map((s) => (s.id === sub.id ? data.subscription : s)));
+      updateForm(sub.id, toForm(data.subscription));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save Telegram chat');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  async function handleUnlink(sub: TelegramSubscription) {
+    if (!confirm(`Unlink "${sub.chat_title || sub.chat_id}"? It stops receiving notifications.`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/telegram-subscriptions/${sub.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to unlink Telegram chat');
+      setSubscriptions((prev) => prev.filter((s) => s.id !== sub.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlink Telegram chat');
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading Telegram chats...</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">Telegram Chats</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        Chats linked to this workspace. Link a chat by sending the bot an API key, or <code>/link &lt;key&gt;</code> in
+        a group. Each chat chooses its projects and events; during quiet hours notifications arrive without sound.
+      </p>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
+        <p className="text-sm text-terminal-muted">No chats linked yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {subscriptions.map((sub) => {
+            const form = forms[sub.id] ?? toForm(sub);
+            return (
+              <div key={sub.id} className="border border-terminal-border rounded-lg p-3 space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-[200px]">
+                    <div className="text-sm text-terminal-text">
+                      {sub.chat_type === 'private' ? '👤' : '👥'} {sub.chat_title || sub.chat_id}
+                    </div>
+                    <div className="text-xs text-terminal-muted">{sub.chat_type} chat · linked {sub.created_at}</div>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-terminal-muted cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={form.enabled}
+                      onChange={(e) => updateForm(sub.id, { enabled: e.target.checked })}
+                    />
+                    Notifications on
+                  </label>
+                </div>
+
+                <div>
+                  <div className="text-xs text-terminal-muted mb-1">Projects</div>
+                  <div className="flex flex-wrap gap-3">
+                    <label className="flex items-center gap-2 text-xs text-terminal-text cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={form.task_list_ids === null}
+                        onChange={(e) => updateForm(sub.id, { task_list_ids: e.target.checked ? null : [] })}
+                      />
+                      All projects
+                    </label>
+                    {form.task_list_ids !== null && taskLists.map((list) => (
+                      <label key={list.id} className="flex items-center gap-2 text-xs text-terminal-text cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form.task_list_ids!.includes(list.id)}
+                          onChange={() => updateForm(sub.id, { task_list_ids: toggle(form.task_list_ids!, list.id) })}
+                        />
+                        {list.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-xs text-terminal-muted mb-1">Events</div>
+                  <div className="flex flex-wrap gap-3">
+                    {TELEGRAM_EVENT_TYPES.map((type) => (
+                      <label key={type} className="flex items-center gap-2 text-xs text-terminal-text cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form.event_types.includes(type)}
+                          onChange={() => updateForm(sub.id, { event_types: toggle(form.event_types, type) })}
+                        />
+                        {TELEGRAM_EVENT_TYPE_LABELS[type]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-xs text-terminal-muted">Quiet hours</span>
+                  <input
+                    type="time"
+                    value={form.quiet_hours_start}
+                    onChange={(e) => updateForm(sub.id, { quiet_hours_start: e.target.value })}
+                    className="input-field w-28"
+                  />
+                  <span className="text-xs text-terminal-muted">to</span>
+                  <input
+                    type="time"
+                    value={form.quiet_hours_end}
+                    onChange={(e) => updateForm(sub.id, { quiet_hours_end: e.target.value })}
+                    className="input-field w-28"
+                  />
+                  <input
+                    type="text"
+                    value={form.timezone}
+                    onChange={(e) => updateForm(sub.id, { timezone: e.target.value })}
+                    placeholder="Europe/London"
+                    className="input-field w-44"
+                  />
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => handleSave(sub)}
+                    disabled={saving !== null}
+                    className="btn-secondary text-xs px-3 py-1"
+                  >
+                    {saving === sub.id ? 'Saving...' : 'Save'}
+                  </button>
+                  <button onClick={() => handleUnlink(sub)} className="btn-secondary text-xs px-3 py-1 text-terminal-red">
+                    Unlink
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_EVENT_TYPE_LABELS, WEBHOOK_FORMATS } from '@taskinfa/shared';
+import type {
+  ListWebhookDeliveriesResponse,
+  ListWebhooksResponse,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryResponse,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookFormat,
+  WebhookResponse,
+} from '@taskinfa/shared';
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  event_types: WebhookEventType[];
+  enabled: boolean;
+}
+
+const FORMAT_LABELS: Record<WebhookFormat, string> = {
+  json: 'JSON (signed)',
+  slack: 'Slack',
+  discord: 'Discord',
+};
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  succeeded: 'text-terminal-green',
+  pending: 'text-terminal-amber',
+  failed: 'text-terminal-red',
+};
+
+const EMPTY_FORM: WebhookForm = { name: '', url: '', format: 'json', event_types: ['task.moved'], enabled: true };
+
+function toForm(webhook: Webhook): WebhookForm {
+  return {
+    name: webhook.name,
+    url: webhook.url,
+    format: webhook.format,
+    event_types: webhook.event_types,
+    enabled: webhook.enabled,
+  };
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({})) as { error?: string };
+  return data.error || fallback;
+}
+
+function EventCheckboxes({ value, onChange }: { value: WebhookEventType[]; onChange: (value: WebhookEventType[]) => void }) {
+  return (
+    <div className="flex flex-wrap gap-3">
+      {WEBHOOK_EVENT_TYPES.map((type) => (
+        <label key={type} className="flex items-center gap-2 text-xs text-terminal-text cursor-pointer">
+          <input type="checkbox" checked={value.includes(type)} onChange={() => onChange(toggle(value, type))} />
+          {WEBHOOK_EVENT_TYPE_LABELS[type]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhookSettings() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [forms, setForms] = useState<Record<string, WebhookForm>>({});
+  const [newForm, setNewForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [createdSecret, setCreatedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const res = await fetch('/api/webhooks');
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to load webhooks'));
+      const data = await res.json() as ListWebhooksResponse;
+      setWebhooks(data.webhooks);
+      setForms(Object.fromEntries(data.webhooks.map((webhook) => [webhook.id, toForm(webhook)])));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const fetchDeliveries = useCallback(async (webhookId: string) => {
+    try {
+      const res = await fetch(`/api/webhooks/${webhookId}/deliveries`);
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to load deliveries'));
+      const data = await res.json() as ListWebhookDeliveriesResponse;
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    }
+  }, []);
+
+  function updateForm(id: string, changes: Partial<WebhookForm>) {
+    setForms((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  }
+
+  async function handleCreate() {
+    setBusy('new');
+    setError(null);
+    try {
+      const res = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newForm),
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to create webhook'));
+      const data = await res.json() as WebhookResponse;
+      setCreatedSecret({ name: data.webhook.name, secret: data.webhook.secret ?? '' });
+      setWebhooks((prev) => [...prev, data.webhook]);
+      updateForm(data.webhook.id, toForm(data.webhook));
+      setNewForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleSave(webhook: Webhook) {
+    setBusy(webhook.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(forms[webhook.id]),
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to save webhook'));
+      const data = await res.json() as WebhookResponse;
+      setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? data.webhook : w)));
+      updateForm(webhook.id, toForm(data.webhook));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhook');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleDelete(webhook: Webhook) {
+    if (!confirm(`Delete webhook "${webhook.name}" and its delivery log?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to delete webhook'));
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      if (logWebhookId === webhook.id) setLogWebhookId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    }
+  }
+
+  function toggleLog(webhook: Webhook) {
+    if (logWebhookId === webhook.id) {
+      setLogWebhookId(null);
+      return;
+    }
+    setLogWebhookId(webhook.id);
+    setDeliveries([]);
+    fetchDeliveries(webhook.id);
+  }
+
+  async function handleRedeliver(webhook: Webhook, delivery: WebhookDelivery) {
+    setBusy(delivery.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}/deliveries/${delivery.id}/redeliver`, { method: 'POST' });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to redeliver'));
+      const data = await res.json() as WebhookDeliveryResponse;
+      setDeliveries((prev) => [data.delivery, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading webhooks...</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">Webhooks</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        Post task, comment and session events to a URL. JSON webhooks are signed: <code>X-Taskinfa-Signature-256</code> is
+        {' '}<code>sha256=</code> plus the HMAC-SHA256 of the body with the webhook&apos;s secret. Failed deliveries are
+        retried with exponential backoff for about five hours.
+      </p>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {createdSecret && (
+        <div className="border border-terminal-green/30 bg-terminal-green/5 rounded-lg p-3 mb-4 space-y-2">
+          <div className="text-sm text-terminal-text">
+            Signing secret of &quot;{createdSecret.name}&quot;. Copy it now; it is not shown again.
+          </div>
+          <code className="block w-full px-3 py-2 bg-terminal-bg border border-terminal-border rounded-lg text-sm font-mono text-terminal-green break-all">
+            {createdSecret.secret}
+          </code>
+          <button onClick={() => setCreatedSecret(null)} className="btn-secondary text-xs px-3 py-1">
+            Done
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {webhooks.map((webhook) => {
+          const form = forms[webhook.id] ?? toForm(webhook);
+          return (
+            <div key={webhook.id} className="border border-terminal-border rounded-lg p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => updateForm(webhook.id, { name: e.target.value })}
+                  className="input-field w-48"
+                />
+                <input
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => updateForm(webhook.id, { url: e.target.value })}
+                  className="input-field flex-1 min-w-[240px]"
+                />
+                <select
+                  value={form.format}
+                  onChange={(e) => updateForm(webhook.id, { format: e.target.value as WebhookFormat })}
+                  className="input-field w-40"
+                >
+                  {WEBHOOK_FORMATS.map((format) => (
+                    <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-xs text-terminal-muted cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.enabled}
+                    onChange={(e) => updateForm(webhook.id, { enabled: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+              </div>
+
+              <EventCheckboxes value={form.event_types} onChange={(event_types) => updateForm(webhook.id, { event_types })} />
+
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-xs text-terminal-muted font-mono">Secret {webhook.secret_preview}</span>
+                <div className="flex-1" />
+                <button onClick={() => toggleLog(webhook)} className="btn-secondary text-xs px-3 py-1">
+                  {logWebhookId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                </button>
+                <button
+                  onClick={() => handleSave(webhook)}
+                  disabled={busy !== null || form.event_types.length === 0}
+                  className="btn-secondary text-xs px-3 py-1"
+                >
+                  {busy === webhook.id ? 'Saving...' : 'Save'}
+                </button>
+                <button onClick={() => handleDelete(webhook)} className="btn-secondary text-xs px-3 py-1 text-terminal-red">
+                  Delete
+                </button>
+              </div>
+
+              {logWebhookId === webhook.id && (
+                <div className="border-t border-terminal-border pt-3">
+                  {deliveries.length === 0 ? (
+                    <p className="text-xs text-terminal-muted">No deliveries yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {deliveries.map((delivery) => (
+                        <details key={delivery.id} className="text-xs">
+                          <summary className="flex flex-wrap items-center gap-3 cursor-pointer">
+                            <span className={STATUS_STYLES[delivery.status]}>{delivery.status}</span>
+                            <span className="text-terminal-text">{WEBHOOK_EVENT_TYPE_LABELS[delivery.event_type] ?? delivery.event_type}</span>
+                            <span className="text-terminal-muted">{delivery.created_at}</span>
+                            <span className="text-terminal-muted">
+                              {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                              {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                              {delivery.error && ` · ${delivery.error}`}
+                              {delivery.status === 'pending' && delivery.next_attempt_at && ` · next ${delivery.next_attempt_at}`}
+                            </span>
+                            <div className="flex-1" />
+                            <button
+                              onClick={(e) => {
+                                e.preventDefault();
+                                handleRedeliver(webhook, delivery);
+                              }}
+                              disabled={busy !== null}
+                              className="btn-secondary text-xs px-2 py-0.5"
+                            >
+                              {busy === delivery.id ? 'Sending...' : 'Redeliver'}
+                            </button>
+                          </summary>
+                          <pre className="mt-2 p-2 bg-terminal-bg border border-terminal-border rounded whitespace-pre-wrap break-all text-terminal-muted">
+                            {delivery.payload}
+                          </pre>
+                          {delivery.response_body && (
+                            <pre className="mt-2 p-2 bg-terminal-bg border border-terminal-border rounded whitespace-pre-wrap break-all text-terminal-muted">
+                              {delivery.response_body}
+                            </pre>
+                          )}
+                        </details>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="border border-dashed border-terminal-border rounded-lg p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={newForm.name}
+              onChange={(e) => setNewForm({ ...newForm, name: e.target.value })}
+              placeholder="Name"
+              className="input-field w-48"
+            />
+            <input
+              type="url"
+              value={newForm.url}
+              onChange={(e) => setNewForm({ ...newForm, url: e.target.value })}
+              placeholder="https://example.com/hooks/taskinfa"
+              className="input-field flex-1 min-w-[240px]"
+            />
+            <select
+              value={newForm.format}
+              onChange={(e) => setNewForm({ ...newForm, format: e.target.value as WebhookFormat })}
+              className="input-field w-40"
+            >
+              {WEBHOOK_FORMATS.map((format) => (
+                <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </div>
+          <EventCheckboxes value={newForm.event_types} onChange={(event_types) => setNewForm({ ...newForm, event_types })} />
+          <button
+            onClick={handleCreate}
+            disabled={busy !== null || !newForm.name.trim() || !newForm.url.trim() || newForm.event_types.length === 0}
+            className="btn-primary text-sm px-4 py-2"
+          >
+            {busy === 'new' ? 'Adding...' : 'Add webhook'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getStatusColumns } from '@taskinfa/shared';
+import type {
+  BuiltinTaskStatus,
+  ColumnWipLimit,
+  GetWipLimitsResponse,
+  TaskStatus,
+  UpsertWipLimitResponse,
+} from '@taskinfa/shared';
+
+// Backlog and Done take no limit
+const LIMITED_COLUMNS = getStatusColumns({ refinement: true, ai_review: true, local_testing: true })
+  .filter((c) => c.status !== 'backlog' && c.status !== 'done');
+
+interface LimitForm {
+  wip_limit: string;
+  block_when_full: boolean;
+}
+
+function toForm(limit: ColumnWipLimit | undefined): LimitForm {
+  return {
+    wip_limit: limit?.wip_limit.toString() ?? '',
+    block_when_full: limit?.block_when_full ?? false,
+  };
+}
+
+export default function WipLimitSettings() {
+  const [forms, setForms] = useState<Record<string, LimitForm>>({});
+  const [counts, setCounts] = useState<Partial<Record<TaskStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<TaskStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLimits = useCallback(async () => {
+    try {
+      const res = await fetch('/api/wip-limits');
+      if (!res.ok) throw new Error('Failed to fetch WIP limits');
+      const data = await res.json() as GetWipLimitsResponse;
+      setForms(Object.fromEntries(LIMITED_COLUMNS.map((c) => [
+        c.status,
+        toForm(data.limits.find((l) => l.status === c.status)),
+      ])));
+      setCounts(data.counts);
+      setError(null);
+    } catch {
+      setError('Failed to load WIP limits');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLimits();
+  }, [fetchLimits]);
+
+  function updateForm(status: TaskStatus, changes: Partial<LimitForm>) {
+    setForms((prev) => ({ ...prev, [status]: { ...prev[status], ...changes } }));
+  }
+
+  async function saveLimit(status: BuiltinTaskStatus) {
+    setSaving(status);
+    setError(null);
+    try {
+      const form = forms[status];
+      const value = form.wip_limit.trim();
+      const res = await fetch('/api/wip-limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          wip_limit: value === '' ? null : parseInt(value, 10),
+          block_when_full: form.block_when_full,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to save WIP limit');
+      }
+      const data = await res.json() as UpsertWipLimitResponse;
+      setForms((prev) => ({ ...prev, [status]: toForm(data.limit ?? undefined) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save WIP limit');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading WIP limits...</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">WIP Limits</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        Most tasks a column should hold across the workspace. Full columns are highlighted on the board, and the
+        orchestrator stops moving new work into them. Leave a field empty for no limit. Custom columns set their
+        limit under Workflow Columns.
+      </p>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {LIMITED_COLUMNS.map((column) => {
+          const form = forms[column.status] ?? toForm(undefined);
+          return (
+            <div key={column.status} className="flex flex-wrap items-center gap-3">
+              <div className="min-w-[220px] flex-1">
+                <div className="text-sm text-terminal-text">{column.icon} {column.label}</div>
+                <div className="text-xs text-terminal-muted">{counts[column.status] ?? 0} task(s) now</div>
+              </div>
+              <input
+                type="number"
+                min={1}
+                value={form.wip_limit}
+                onChange={(e) => updateForm(column.status, { wip_limit: e.target.value })}
+                placeholder="No limit"
+                className="input-field w-28"
+              />
+              <label className="flex items-center gap-2 text-xs text-terminal-muted cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.block_when_full}
+                  onChange={(e) => updateForm(column.status, { block_when_full: e.target.checked })}
+                />
+                Block drops when full
+              </label>
+              <button
+                onClick={() => saveLimit(column.status as BuiltinTaskStatus)}
+                disabled={saving !== null}
+                className="btn-secondary text-xs px-3 py-1"
+              >
+                {saving === column.status ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
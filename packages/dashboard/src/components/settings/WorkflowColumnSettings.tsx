@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getStatusColumns } from '@taskinfa/shared';
+import type {
+  BuiltinTaskStatus,
+  ListWorkflowColumnsResponse,
+  TaskList,
+  WorkflowColumn,
+  WorkflowColumnResponse,
+} from '@taskinfa/shared';
+
+// Every built-in column a custom one can follow
+const ANCHOR_COLUMNS = getStatusColumns({ refinement: true, ai_review: true, local_testing: true });
+
+interface FormState {
+  label: string;
+  icon: string;
+  task_list_id: string;
+  after_status: BuiltinTaskStatus;
+  position: string;
+  wip_limit: string;
+  block_when_full: boolean;
+  orchestrated: boolean;
+  instructions: string;
+}
+
+const EMPTY_FORM: FormState = {
+  label: '',
+  icon: '📌',
+  task_list_id: '',
+  after_status: 'review',
+  position: '0',
+  wip_limit: '',
+  block_when_full: false,
+  orchestrated: false,
+  instructions: '',
+};
+
+function toForm(column: WorkflowColumn): FormState {
+  return {
+    label: column.label,
+    icon: column.icon,
+    task_list_id: column.task_list_id ?? '',
+    after_status: column.after_status,
+    position: String(column.position),
+    wip_limit: column.wip_limit?.toString() ?? '',
+    block_when_full: column.block_when_full,
+    orchestrated: column.orchestrated,
+    instructions: column.instructions ?? '',
+  };
+}
+
+export default function WorkflowColumnSettings() {
+  const [columns, setColumns] = useState<WorkflowColumn[]>([]);
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  // Column being edited; null = the form creates a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchColumns = useCallback(async () => {
+    try {
+      const res = await fetch('/api/workflow-columns');
+      if (!res.ok) throw new Error('Failed to fetch workflow columns');
+      const data = await res.json() as ListWorkflowColumnsResponse;
+      setColumns(data.columns);
+      setError(null);
+    } catch {
+      setError('Failed to load workflow columns');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchColumns();
+    fetch('/api/task-lists')
+      .then((res) => (res.ok ? res.json() as Promise<{ task_lists: TaskList[] }> : { task_lists: [] }))
+      .then((data) => setTaskLists(data.task_lists))
+      .catch(() => setTaskLists([]));
+  }, [fetchColumns]);
+
+  function resetForm() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError(null);
+    try {
+      const wipLimit = form.wip_limit.trim() === '' ? null : Number(form.wip_limit);
+      if (wipLimit !== null && (!Number.isInteger(wipLimit) || wipLimit < 1)) {
+        throw new Error('WIP limit must be a positive whole number');
+      }
+      const body: Record<string, unknown> = {
+        label: form.label,
+        icon: form.icon,
+        after_status: form.after_status,
+        position: Number(form.position) || 0,
+        wip_limit: wipLimit,
+        block_when_full: form.block_when_full,
+        orchestrated: form.orchestrated,
+        instructions: form.instructions.trim() || null,
+      };
+      if (!editingId) {
+        body.task_list_id = form.task_list_id || null;
+      }
+
+      const res = await fetch(editingId ? `/api/workflow-columns/${editingId}` : '/api/workflow-columns', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to save column');
+      }
+      const data = await res.json() as WorkflowColumnResponse;
+      setColumns((prev) => editingId
+        ? prev.map((c) => (c.id === editingId ? data.column : c))
+        : [...prev, data.column]);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save column');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(column: WorkflowColumn) {
+    if (!confirm(`Delete the "${column.label}" column?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/workflow-columns/${column.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        throw new Error(data.error || 'Failed to delete column');
+      }
+      setColumns((prev) => prev.filter((c) => c.id !== column.id));
+      if (editingId === column.id) resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete column');
+    }
+  }
+
+  const anchorLabel = (status: string) => ANCHOR_COLUMNS.find((c) => c.status === status)?.label ?? status;
+  const projectName = (id: string | null) =>
+    id ? taskLists.find((l) => l.id === id)?.name ?? id : 'All projects';
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading workflow columns...</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">Workflow Columns</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        Add your own stages to the board, such as &quot;Security review&quot; or &quot;Awaiting deploy&quot;.
+        Orchestrated columns have the orchestrator run an agent with the column&apos;s instructions on each task in it.
+      </p>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {columns.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {columns.map((column) => (
+            <div
+              key={column.id}
+              className="bg-terminal-bg border border-terminal-border rounded-lg px-4 py-3 flex items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-terminal-text font-medium">
+                  {column.icon} {column.label}
+                  {column.orchestrated && (
+                    <span className="ml-2 text-xs text-terminal-blue">orchestrated</span>
+                  )}
+                </div>
+                <div className="text-xs text-terminal-muted">
+                  <span className="font-mono">{column.status}</span>
+                  {' · '}after {anchorLabel(column.after_status)}
+                  {' · '}{projectName(column.task_list_id)}
+                  {column.wip_limit !== null && ` · WIP ${column.wip_limit}${column.block_when_full ? ' (blocking)' : ''}`}
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => { setEditingId(column.id); setForm(toForm(column)); }}
+                  className="btn-secondary text-xs px-3 py-1"
+                >
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(column)} className="btn-secondary text-xs px-3 py-1 text-terminal-red">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-terminal-bg border border-terminal-border rounded-lg p-4 space-y-3">
+        <h3 className="text-sm font-semibold text-terminal-text">{editingId ? 'Edit column' : 'New column'}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-terminal-muted mb-1">Name</label>
+            <input
+              value={form.label}
+              onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+              className="input-field w-full"
+              placeholder="Security review"
+              maxLength={50}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-1">Icon</label>
+            <input
+              value={form.icon}
+              onChange={(e) => setForm((prev) => ({ ...prev, icon: e.target.value }))}
+              className="input-field w-full"
+              maxLength={16}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-1">Project</label>
+            <select
+              value={form.task_list_id}
+              onChange={(e) => setForm((prev) => ({ ...prev, task_list_id: e.target.value }))}
+              className="input-field w-full"
+              disabled={saving || editingId !== null}
+            >
+              <option value="">All projects</option>
+              {taskLists.map((list) => (
+                <option key={list.id} value={list.id}>{list.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-1">After</label>
+            <select
+              value={form.after_status}
+              onChange={(e) => setForm((prev) => ({ ...prev, after_status: e.target.value as BuiltinTaskStatus }))}
+              className="input-field w-full"
+              disabled={saving}
+            >
+              {ANCHOR_COLUMNS.map((column) => (
+                <option key={column.status} value={column.status}>{column.icon} {column.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-1">Order</label>
+            <input
+              type="number"
+              min={0}
+              value={form.position}
+              onChange={(e) => setForm((prev) => ({ ...prev, position: e.target.value }))}
+              className="input-field w-full"
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-1">WIP limit</label>
+            <input
+              type="number"
+              min={1}
+              value={form.wip_limit}
+              onChange={(e) => setForm((prev) => ({ ...prev, wip_limit: e.target.value }))}
+              className="input-field w-full"
+              placeholder="No limit"
+              disabled={saving}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-terminal-text cursor-pointer self-end pb-2">
+            <input
+              type="checkbox"
+              checked={form.orchestrated}
+              onChange={(e) => setForm((prev) => ({ ...prev, orchestrated: e.target.checked }))}
+              disabled={saving}
+            />
+            Orchestrated
+          </label>
+          <label className="flex items-center gap-2 text-sm text-terminal-text cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.block_when_full}
+              onChange={(e) => setForm((prev) => ({ ...prev, block_when_full: e.target.checked }))}
+              disabled={saving || form.wip_limit.trim() === ''}
+            />
+            Block drops when full
+          </label>
+        </div>
+        {form.orchestrated && (
+          <div>
+            <label className="block text-sm font-medium text-terminal-muted mb-1">Agent instructions</label>
+            <textarea
+              value={form.instructions}
+              onChange={(e) => setForm((prev) => ({ ...prev, instructions: e.target.value }))}
+              className="input-field w-full min-h-[80px]"
+              placeholder="Review the PR for security issues: injection, auth bypass, secrets in code..."
+              maxLength={5000}
+              disabled={saving}
+            />
+          </div>
+        )}
+        <div className="flex items-center gap-3">
+          <button onClick={handleSave} disabled={saving || !form.label.trim()} className="btn-primary">
+            {saving ? 'Saving...' : editingId ? 'Save Column' : 'Add Column'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} disabled={saving} className="btn-secondary">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  GetMeResponse,
+  InviteRole,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceRole,
+  ListMembersResponse,
+  ListInvitesResponse,
+  CreateInviteResponse,
+} from '@taskinfa/shared';
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS, WORKSPACE_ROLE_DESCRIPTIONS, roleAtLeast } from '@taskinfa/shared';
+
+const INVITE_ROLES: InviteRole[] = ['admin', 'member', 'viewer'];
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({})) as { error?: string };
+  return data.error || fallback;
+}
+
+export default function WorkspaceMembers() {
+  const [me, setMe] = useState<GetMeResponse | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteRole, setInviteRole] = useState<InviteRole>('member');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isAdmin = me ? roleAtLeast(me.role, 'admin') : false;
+  const isOwner = me?.role === 'owner';
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const meRes = await fetch('/api/auth/me');
+      if (!meRes.ok) throw new Error('Failed to load your account');
+      const meData = await meRes.json() as GetMeResponse;
+      setMe(meData);
+
+      const membersRes = await fetch('/api/workspace/members');
+      if (!membersRes.ok) throw new Error('Failed to load members');
+      setMembers((await membersRes.json() as ListMembersResponse).members);
+
+      if (roleAtLeast(meData.role, 'admin')) {
+        const invitesRes = await fetch('/api/workspace/invites');
+        if (!invitesRes.ok) throw new Error('Failed to load invites');
+        setInvites((await invitesRes.json() as ListInvitesResponse).invites);
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function changeRole(member: WorkspaceMember, role: WorkspaceRole) {
+    run(async () => {
+      const res = await fetch(`/api/workspace/members/${member.user_id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to change role'));
+      await fetchAll();
+    });
+  }
+
+  function removeMember(member: WorkspaceMember) {
+    const leaving = member.user_id === me?.user.id;
+    const prompt = leaving
+      ? 'Leave this workspace? You will need a new invite to come back.'
+      : `Remove ${member.name || member.email} from this workspace? Their API keys for it stop working.`;
+    if (!confirm(prompt)) return;
+
+    run(async () => {
+      const res = await fetch(`/api/workspace/members/${member.user_id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to remove member'));
+      if (leaving) {
+        window.location.href = '/auth/login';
+        return;
+      }
+      await fetchAll();
+    });
+  }
+
+  function createInvite() {
+    run(async () => {
+      const res = await fetch('/api/workspace/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: inviteRole }),
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to create invite'));
+      const data = await res.json() as CreateInviteResponse;
+      setInviteLink(`${window.location.origin}/invite/${data.token}`);
+      setCopied(false);
+      await fetchAll();
+    });
+  }
+
+  function revokeInvite(invite: WorkspaceInvite) {
+    run(async () => {
+      const res = await fetch(`/api/workspace/invites/${invite.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to revoke invite'));
+      await fetchAll();
+    });
+  }
+
+  function switchWorkspace(workspaceId: string) {
+    run(async () => {
+      const res = await fetch('/api/auth/workspace', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspace_id: workspaceId }),
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, 'Failed to switch workspace'));
+      window.location.reload();
+    });
+  }
+
+  async function copyLink() {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    setCopied(true);
+  }
+
+  if (loading) {
+    return <p className="text-sm text-terminal-muted">Loading members...</p>;
+  }
+
+  // Admins hand out admin/member/viewer; owners can also make owners
+  const assignableRoles = WORKSPACE_ROLES.filter((role) => isOwner || role !== 'owner');
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-terminal-text mb-1">Members</h2>
+      <p className="text-sm text-terminal-muted mb-4">
+        {me && <>Your role: <span className="text-terminal-text">{WORKSPACE_ROLE_LABELS[me.role]}</span>. {WORKSPACE_ROLE_DESCRIPTIONS[me.role]}</>}
+      </p>
+
+      {error && (
+        <div className="bg-terminal-red/10 border border-terminal-red/20 text-terminal-red rounded-lg px-4 py-3 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-terminal-muted text-xs border-b border-terminal-border">
+              <th className="text-left py-2 pr-3">Member</th>
+              <th className="text-left py-2 pr-3">Role</th>
+              <th className="text-left py-2 pr-3">Joined</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => {
+              const isSelf = member.user_id === me?.user.id;
+              const canEdit = isAdmin && (isOwner || member.role !== 'owner');
+              return (
+                <tr key={member.user_id} className="border-b border-terminal-border/50">
+                  <td className="py-2 pr-3">
+                    <div className="text-terminal-text">{member.name || member.email}{isSelf && <span className="text-terminal-muted"> (you)</span>}</div>
+                    {member.name && <div className="text-xs text-terminal-muted">{member.email}</div>}
+                  </td>
+                  <td className="py-2 pr-3">
+                    {canEdit ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => changeRole(member, e.target.value as WorkspaceRole)}
+                        disabled={busy}
+                        className="input-field w-32"
+                      >
+                        {assignableRoles.map((role) => (
+                          <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-terminal-text">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 text-terminal-muted whitespace-nowrap">
+                    {new Date(member.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {(canEdit || isSelf) && (
+                      <button
+                        onClick={() => removeMember(member)}
+                        disabled={busy}
+                        className="btn-secondary text-xs px-3 py-1"
+                      >
+                        {isSelf ? 'Leave' : 'Remove'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {isAdmin && (
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-terminal-text mb-2">Invite someone</h3>
+          <p className="text-xs text-terminal-muted mb-3">
+            Creates a single-use link that expires in 7 days. Whoever opens it while signed in joins with the chosen role.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+              disabled={busy}
+              className="input-field w-32"
+            >
+              {INVITE_ROLES.filter((role) => isOwner || role !== 'admin').map((role) => (
+                <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button onClick={createInvite} disabled={busy} className="btn-primary text-sm px-4 py-2">
+              Create invite link
+            </button>
+          </div>
+          {inviteLink && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <code className="font-mono text-xs bg-terminal-bg px-2 py-1 rounded break-all text-terminal-text">
+                {inviteLink}
+              </code>
+              <button onClick={copyLink} className="btn-secondary text-xs px-3 py-1">
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-xs font-medium text-terminal-muted mb-2">Pending invites</h4>
+              <ul className="space-y-1">
+                {invites.map((invite) => (
+                  <li key={invite.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-terminal-text">
+                      {WORKSPACE_ROLE_LABELS[invite.role]}
+                      <span className="text-terminal-muted text-xs"> · expires {new Date(invite.expires_at).toLocaleDateString()}</span>
+                    </span>
+                    <button
+                      onClick={() => revokeInvite(invite)}
+                      disabled={busy}
+                      className="btn-secondary text-xs px-3 py-1"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {me && me.workspaces.length > 1 && (
+        <div>
+          <h3 className="text-sm font-semibold text-terminal-text mb-2">Your workspaces</h3>
+          <ul className="space-y-1">
+            {me.workspaces.map((membership) => (
+              <li key={membership.workspace_id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-terminal-text">
+                  {membership.workspace_name}
+                  <span className="text-terminal-muted text-xs"> · {WORKSPACE_ROLE_LABELS[membership.role]}</span>
+                </span>
+                {membership.workspace_id === me.workspace.id ? (
+                  <span className="text-xs text-terminal-muted">Current</span>
+                ) : (
+                  <button
+                    onClick={() => switchWorkspace(membership.workspace_id)}
+                    disabled={busy}
+                    className="btn-secondary text-xs px-3 py-1"
+                  >
+                    Switch
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+// Flow metrics for /api/analytics
+// The route loads status transitions with SQL; these functions turn them into the
+// cumulative flow diagram, dwell-time percentiles and rework histogram.
+
+import type {
+  CumulativeFlowPoint,
+  ReworkBucket,
+  ReworkStatus,
+  ReworkSummary,
+  TaskStatus,
+  TimeInStatus,
+} from '@taskinfa/shared';
+
+export const REWORK_STATUSES: ReworkStatus[] = ['review_rejected', 'test_failed'];
+
+// Tasks sent back this many times or more share the last bucket
+const MAX_REWORK_BUCKET = 4;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Linear interpolation between closest ranks; values must be sorted ascending
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarizeVisits(visits: { status: TaskStatus; hours: number }[]): TimeInStatus[] {
+  const byStatus: Partial<Record<TaskStatus, number[]>> = {};
+  for (const visit of visits) {
+    (byStatus[visit.status] ??= []).push(visit.hours);
+  }
+
+  return (Object.entries(byStatus) as [TaskStatus, number[]][])
+    .map(([status, hours]) => {
+      const sorted = [...hours].sort((a, b) => a - b);
+      const total = sorted.reduce((sum, value) => sum + value, 0);
+      return {
+        status,
+        avg_hours: round1(total / sorted.length),
+        total_hours: round1(total),
+        p50_hours: round1(percentile(sorted, 50)),
+        p85_hours: round1(percentile(sorted, 85)),
+        p95_hours: round1(percentile(sorted, 95)),
+        visits: sorted.length,
+      };
+    })
+    .sort((a, b) => b.avg_hours - a.avg_hours);
+}
+
+// Status of every task at the end of each date ('YYYY-MM-DD', ascending). Transitions
+// must be ordered by created_at; tasks without a transition yet are not counted.
+export function cumulativeFlow(
+  transitions: { task_id: string; to_value: TaskStatus; created_at: string }[],
+  dates: string[]
+): CumulativeFlowPoint[] {
+  const current = new Map<string, TaskStatus>();
+  const points: CumulativeFlowPoint[] = [];
+  let next = 0;
+
+  for (const date of dates) {
+    const endOfDay = `${date} 23:59:59`;
+    while (next < transitions.length && transitions[next].created_at <= endOfDay) {
+      current.set(transitions[next].task_id, transitions[next].to_value);
+      next++;
+    }
+    const point: CumulativeFlowPoint = { date };
+    for (const status of current.values()) {
+      point[status] = (point[status] ?? 0) + 1;
+    }
+    points.push(point);
+  }
+
+  return points;
+}
+
+// rows: one per task and rework status with the number of times the task entered it
+export function reworkRounds(rows: { status: ReworkStatus; rounds: number }[]): {
+  histogram: ReworkBucket[];
+  totals: ReworkSummary[];
+} {
+  const histogram: ReworkBucket[] = Array.from({ length: MAX_REWORK_BUCKET }, (_, i) => ({
+    rounds: i + 1 === MAX_REWORK_BUCKET ? `${MAX_REWORK_BUCKET}+` : String(i + 1),
+    review_rejected: 0,
+    test_failed: 0,
+  }));
+  const totals: ReworkSummary[] = REWORK_STATUSES.map((status) => ({ status, tasks: 0, rounds: 0 }));
+
+  for (const row of rows) {
+    histogram[Math.min(row.rounds, MAX_REWORK_BUCKET) - 1][row.status]++;
+    const total = totals[REWORK_STATUSES.indexOf(row.status)];
+    total.tasks++;
+    total.rounds += row.rounds;
+  }
+
+  return { histogram, totals };
+}
@@ -0,0 +1,44 @@
+// Audit log
+// Routes call recordAudit after each mutation of tasks, projects, API keys, feature
+// toggles, workflow columns and LLM config, passing the entity's row before and after the change. Only
+// the changed fields are stored, with secrets redacted. /api/audit-log reads it back.
+// Changes to a task's status, priority, assignee or labels are also written to
+// task_transitions, which the task timeline and time-in-status analytics read. The
+// writer (writeAuditEntries) lives in @taskinfa/shared, as the Telegram bot uses it too.
+
+import type { D1Database } from '@/lib/db/client';
+import type { UnifiedAuthResult } from '@/lib/auth/jwt';
+import { logger } from '@/lib/utils';
+import { writeAuditEntries } from '@taskinfa/shared';
+import type { AuditActor, AuditEntryInput } from '@taskinfa/shared';
+
+type AuditAuth = Pick<UnifiedAuthResult, 'workspaceId' | 'authType' | 'userId' | 'keyId' | 'orchestratorId'>;
+
+// Orchestrators are recorded as bots, named after their ID, with their API key as actor ID
+function auditActor(auth: AuditAuth): AuditActor {
+  if (auth.authType !== 'apiKey') {
+    return { type: 'user', id: auth.userId ?? null };
+  }
+  if (auth.orchestratorId) {
+    return { type: 'bot', id: auth.keyId ?? null, name: `Orchestrator (${auth.orchestratorId})` };
+  }
+  return { type: 'api_key', id: auth.keyId ?? null };
+}
+
+// Best-effort: an audit write must never undo or fail the change it describes, so
+// failures are logged. Updates that changed nothing are skipped.
+export async function recordAudit(
+  db: D1Database,
+  auth: AuditAuth,
+  entries: AuditEntryInput | AuditEntryInput[]
+): Promise<void> {
+  try {
+    await writeAuditEntries(db, auth.workspaceId, auditActor(auth), entries);
+  } catch (err) {
+    logger.warn('Failed to record audit entry', {
+      workspaceId: auth.workspaceId,
+      action: (Array.isArray(entries) ? entries[0] : entries)?.action,
+      error: String(err),
+    });
+  }
+}
@@ -2,6 +2,10 @@
 import { SignJWT, jwtVerify } from 'jose';
 import { nanoid } from 'nanoid';
 import { getDb, queryOne, execute } from '../db/client';
+import { getMemberRole } from './roles';
+import { parseKeyRestriction } from './scopes';
+import { resolveRateLimitTier } from '@taskinfa/shared';
+import type { ApiKeyScope, RateLimitTier, WorkspaceRole } from '@taskinfa/shared';
 
 // Lazy-load JWT_SECRET with validation (only when actually used)
 let _secret: Uint8Array | null = null;
@@ -20,6 +24,19 @@ const secret = getSecret;
 export interface ApiKeyPayload {
   keyId: string;
   workspaceId: string;
+  // User who created the key (null for keys created before user accounts)
+  userId: string | null;
+  // null = unrestricted
+  scopes: ApiKeyScope[] | null;
+  taskListIds: string[] | null;
+  // null = derived from the scopes
+  rateLimitTier: RateLimitTier | null;
+}
+
+export interface ApiKeyRestrictions {
+  scopes?: ApiKeyScope[] | null;
+  taskListIds?: string[] | null;
+  rateLimitTier?: RateLimitTier | null;
 }
 
 // Generate a new API key
@@ -27,7 +44,8 @@ export async function generateApiKey(
   workspaceId: string,
   name: string,
   userId?: string,
-  expiresInDays?: number
+  expiresInDays?: number,
+  restrictions: ApiKeyRestrictions = {}
 ): Promise<{ key: string; id: string }> {
   const db = getDb();
   const keyId = nanoid();
@@ -59,8 +77,20 @@ export async function generateApiKey(
   // Store in database with user_id
   await execute(
     db,
-    `INSERT INTO api_keys (id, workspace_id, user_id, key_hash, key_preview, name, expires_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, 1)`,
-    [keyId, workspaceId, userId || null, keyHash, keyPreview, name, expiresAt]
+    `INSERT INTO api_keys (id, workspace_id, user_id, key_hash, key_preview, name, expires_at, scopes, task_list_ids, rate_limit_tier, is_active)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)`,
+    [
+      keyId,
+      workspaceId,
+      userId || null,
+      keyHash,
+      keyPreview,
+      name,
+      expiresAt,
+      restrictions.scopes ? JSON.stringify(restrictions.scopes) : null,
+      restrictions.taskListIds ? JSON.stringify(restrictions.taskListIds) : null,
+      restrictions.rateLimitTier ?? null,
+    ]
   );
 
   return { key: apiKey, id: keyId };
@@ -76,9 +106,17 @@ export async function verifyApiKey(apiKey: string): Promise<ApiKeyPayload | null
     const keyRecord = await queryOne<{
       id: string;
       workspace_id: string;
+      user_id: string | null;
       expires_at: string | null;
       is_active: number;
-    }>(db, 'SELECT id, workspace_id, expires_at, is_active FROM api_keys WHERE key_hash = ?', [keyHash]);
+      scopes: string | null;
+      task_list_ids: string | null;
+      rate_limit_tier: RateLimitTier | null;
+    }>(
+      db,
+      'SELECT id, workspace_id, user_id, expires_at, is_active, scopes, task_list_ids, rate_limit_tier FROM api_keys WHERE key_hash = ?',
+      [keyHash]
+    );
 
     if (!keyRecord) {
       return null;
@@ -102,6 +140,10 @@ export async function verifyApiKey(apiKey: string): Promise<ApiKeyPayload | null
     return {
       keyId: keyRecord.id,
       workspaceId: keyRecord.workspace_id,
+      userId: keyRecord.user_id,
+      scopes: parseKeyRestriction<ApiKeyScope>(keyRecord.scopes),
+      taskListIds: parseKeyRestriction<string>(keyRecord.task_list_ids),
+      rateLimitTier: keyRecord.rate_limit_tier,
     };
   } catch (error) {
     console.error('API key verification failed:', error);
@@ -109,8 +151,8 @@ export async function verifyApiKey(apiKey: string): Promise<ApiKeyPayload | null
   }
 }
 
-// Hash API key using Web Crypto API
-async function hashKey(key: string): Promise<string> {
+// Hash API key (and invite token) using Web Crypto API
+export async function hashKey(key: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(key);
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
@@ -135,8 +177,21 @@ export interface UnifiedAuthResult {
   workspaceId: string;
   keyId?: string;
   authType: 'session' | 'apiKey';
+  // Caller's role in the workspace; API keys act with their creator's current role
+  role: WorkspaceRole;
+  // API key restrictions (see scopes.ts); undefined or null = unrestricted
+  scopes?: ApiKeyScope[] | null;
+  taskListIds?: string[] | null;
+  // Effective rate limit tier of an API key; sessions use standard
+  rateLimitTier?: RateLimitTier;
+  // Sent by orchestrators (X-Orchestrator-Id) along with their API key; their changes
+  // are audited as the orchestrator's
+  orchestratorId?: string;
 }
 
+// Longest X-Orchestrator-Id kept; it only names the orchestrator in the audit log
+const ORCHESTRATOR_ID_MAX_LENGTH = 100;
+
 // Unified authentication: supports both session cookies (web UI) and API keys (workers)
 export async function authenticateRequestUnified(request: Request): Promise<UnifiedAuthResult | null> {
   // First, try session cookie authentication (for web UI)
@@ -155,10 +210,14 @@ export async function authenticateRequestUnified(request: Request): Promise<Unif
       const { verifySessionToken } = await import('./session');
       const session = await verifySessionToken(sessionToken);
       if (session) {
+        // Removed members keep a valid cookie until it expires; membership is what counts
+        const role = await getMemberRole(session.workspaceId, session.userId);
+        if (!role) return null;
         return {
           userId: session.userId,
           workspaceId: session.workspaceId,
           authType: 'session',
+          role,
         };
       }
     }
@@ -170,10 +229,19 @@ export async function authenticateRequestUnified(request: Request): Promise<Unif
     const apiKey = authHeader.substring(7);
     const payload = await verifyApiKey(apiKey);
     if (payload) {
+      // Keys from before user accounts have no creator and keep full access
+      const role = payload.userId ? await getMemberRole(payload.workspaceId, payload.userId) : 'owner';
+      if (!role) return null;
       return {
+        userId: payload.userId ?? undefined,
         workspaceId: payload.workspaceId,
         keyId: payload.keyId,
         authType: 'apiKey',
+        role,
+        scopes: payload.scopes,
+        taskListIds: payload.taskListIds,
+        rateLimitTier: resolveRateLimitTier(payload.rateLimitTier, payload.scopes),
+        orchestratorId: request.headers.get('x-orchestrator-id')?.trim().slice(0, ORCHESTRATOR_ID_MAX_LENGTH) || undefined,
       };
     }
   }
@@ -0,0 +1,24 @@
+// Workspace roles
+// authenticateRequestUnified only succeeds for members of the workspace, so reads need
+// no further check. Routes that change things call requireRole: tasks, comments,
+// projects and orchestrator reports need member; workspace settings need admin.
+
+import { getDb, queryOne } from '../db/client';
+import { authorizationError } from '../utils/errors';
+import { roleAtLeast, WORKSPACE_ROLE_LABELS } from '@taskinfa/shared';
+import type { WorkspaceRole } from '@taskinfa/shared';
+
+export async function getMemberRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const member = await queryOne<{ role: WorkspaceRole }>(
+    getDb(),
+    'SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?',
+    [workspaceId, userId]
+  );
+  return member?.role ?? null;
+}
+
+export function requireRole(auth: { role: WorkspaceRole }, minimum: WorkspaceRole): void {
+  if (!roleAtLeast(auth.role, minimum)) {
+    throw authorizationError(`This action requires the ${WORKSPACE_ROLE_LABELS[minimum]} role or higher`);
+  }
+}
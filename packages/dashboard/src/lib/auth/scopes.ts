@@ -0,0 +1,50 @@
+// API key scopes and project restrictions
+// Session users have no scopes (null = everything); only keys are narrowed. Each route
+// handler calls requireScope next to requireRole: reads need tasks:read, task and
+// project writes tasks:write, orchestrator reports sessions:write, workspace settings
+// workspace:admin. Keys restricted to projects only see and touch those projects.
+
+import { queryOne } from '../db/client';
+import type { D1Database } from '../db/client';
+import { authorizationError, notFoundError } from '../utils/errors';
+import { safeJsonParseArray } from '../utils/json';
+import { canAccessTaskList, hasScope } from '@taskinfa/shared';
+import type { ApiKeyScope, ScopedAuth } from '@taskinfa/shared';
+
+// The Telegram bot applies a chat's key restrictions with the same helpers
+export { taskListCondition } from '@taskinfa/shared';
+
+// api_keys.scopes / task_list_ids: NULL means unrestricted
+export function parseKeyRestriction<T extends string>(json: string | null): T[] | null {
+  return json === null ? null : safeJsonParseArray<T>(json);
+}
+
+export function requireScope(auth: ScopedAuth, scope: ApiKeyScope): void {
+  if (!hasScope(auth, scope)) {
+    throw authorizationError(`This API key is missing the ${scope} scope`);
+  }
+}
+
+export function requireTaskListAccess(auth: ScopedAuth, taskListId: string | null): void {
+  if (!canAccessTaskList(auth, taskListId)) {
+    throw authorizationError('This API key is restricted to other projects');
+  }
+}
+
+// For routes that only have a task ID; unrestricted callers skip the lookup
+export async function requireTaskAccess(
+  db: D1Database,
+  auth: ScopedAuth & { workspaceId: string },
+  taskId: string
+): Promise<void> {
+  if (!auth.taskListIds) return;
+  const task = await queryOne<{ task_list_id: string }>(
+    db,
+    'SELECT task_list_id FROM tasks WHERE id = ? AND workspace_id = ?',
+    [taskId, auth.workspaceId]
+  );
+  if (!task) {
+    throw notFoundError('Task');
+  }
+  requireTaskListAccess(auth, task.task_list_id);
+}
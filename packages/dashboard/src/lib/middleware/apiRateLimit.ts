@@ -11,6 +11,7 @@ import {
   ipRateLimitKey,
   apiKeyRateLimitKey,
   sessionRateLimitKey,
+  getTierRateLimit,
   RATE_LIMITS,
   type RateLimitResult,
 } from './rateLimit';
@@ -18,6 +19,7 @@ import {
 /**
  * Apply rate limiting for authenticated API endpoints.
  * Uses API key ID for apiKey auth, or userId for session auth.
+ * The limit comes from the key's tier (standard for sessions) and the workspace overrides.
  * Returns null if allowed, or a 429 Response if rate limited.
  */
 export async function rateLimitApi(
@@ -25,7 +27,7 @@ export async function rateLimitApi(
   auth: UnifiedAuthResult
 ): Promise<{ response: Response } | { result: RateLimitResult }> {
   const db = getDb();
-  const config = RATE_LIMITS.API_STANDARD;
+  const config = await getTierRateLimit(db, auth.workspaceId, auth.rateLimitTier ?? 'standard');
 
   const key = auth.authType === 'apiKey' && auth.keyId
     ? apiKeyRateLimitKey(auth.keyId)
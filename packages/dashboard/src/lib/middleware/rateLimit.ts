@@ -2,6 +2,7 @@
 // Replaces the old in-memory rate limiter which doesn't work in stateless Workers
 
 import type { D1Database } from '../db/client';
+import type { RateLimitTier } from '@taskinfa/shared';
 
 /**
  * Rate limit tier configuration
@@ -39,6 +40,37 @@ export const RATE_LIMITS = {
   API_ORCHESTRATOR: { maxRequests: 1000, windowMs: 60 * 1000 }, // 1000/min
 } as const;
 
+/**
+ * Default config of each API key tier (see resolveRateLimitTier); dashboard sessions use standard
+ */
+export const API_TIER_LIMITS: Record<RateLimitTier, RateLimitConfig> = {
+  standard: RATE_LIMITS.API_STANDARD,
+  orchestrator: RATE_LIMITS.API_ORCHESTRATOR,
+};
+
+/**
+ * Config of a tier in a workspace: the default, with the workspace's override applied.
+ * Falls back to the default if the lookup fails, like checkRateLimit.
+ */
+export async function getTierRateLimit(
+  db: D1Database,
+  workspaceId: string,
+  tier: RateLimitTier
+): Promise<RateLimitConfig> {
+  const config = API_TIER_LIMITS[tier];
+
+  try {
+    const override = await db
+      .prepare('SELECT max_requests FROM workspace_rate_limits WHERE workspace_id = ? AND tier = ?')
+      .bind(workspaceId, tier)
+      .first<{ max_requests: number }>();
+
+    return override ? { ...config, maxRequests: override.max_requests } : config;
+  } catch {
+    return config;
+  }
+}
+
 /**
  * Extract client IP from request headers
  */
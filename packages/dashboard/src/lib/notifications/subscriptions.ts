@@ -0,0 +1,137 @@
+// Telegram subscriptions
+// Each linked chat (private or group) picks the projects and event types it is notified
+// about, and may set quiet hours during which notifications arrive without sound.
+// The bot worker creates subscriptions when a chat links; the dashboard edits them.
+
+import { query, type D1Database } from '@/lib/db/client';
+import { safeJsonParseArray, validateArray, validateEnum, validateString, validationError } from '@/lib/utils';
+import { TELEGRAM_EVENT_TYPES } from '@taskinfa/shared';
+import type { TelegramEventType, TelegramSubscription, UpdateTelegramSubscriptionRequest } from '@taskinfa/shared';
+
+export const SUBSCRIPTION_FIELDS =
+  'id, workspace_id, chat_id, chat_type, chat_title, task_list_ids, event_types, quiet_hours_start, quiet_hours_end, timezone, enabled, created_at, updated_at';
+
+export type TelegramSubscriptionRow = Omit<TelegramSubscription, 'task_list_ids' | 'event_types' | 'enabled'> & {
+  task_list_ids: string | null;
+  event_types: string;
+  enabled: number;
+};
+
+export function toTelegramSubscription(row: TelegramSubscriptionRow): TelegramSubscription {
+  return {
+    ...row,
+    task_list_ids: row.task_list_ids === null ? null : safeJsonParseArray<string>(row.task_list_ids, []),
+    event_types: safeJsonParseArray<TelegramEventType>(row.event_types, []),
+    enabled: !!row.enabled,
+  };
+}
+
+export async function getTelegramSubscriptions(db: D1Database, workspaceId: string): Promise<TelegramSubscription[]> {
+  const rows = await query<TelegramSubscriptionRow>(
+    db,
+    `SELECT ${SUBSCRIPTION_FIELDS} FROM telegram_subscriptions WHERE workspace_id = ? ORDER BY created_at`,
+    [workspaceId]
+  );
+  return rows.map(toTelegramSubscription);
+}
+
+// Subscriptions that want this event. Events without a task (or with a task outside
+// any project) only reach chats subscribed to every project.
+export function matchingSubscriptions(
+  subscriptions: TelegramSubscription[],
+  eventType: string,
+  taskListId: string | null
+): TelegramSubscription[] {
+  return subscriptions.filter((sub) =>
+    sub.enabled &&
+    sub.event_types.includes(eventType as TelegramEventType) &&
+    (sub.task_list_ids === null || (taskListId !== null && sub.task_list_ids.includes(taskListId)))
+  );
+}
+
+// 'HH:MM' on the subscription's clock at the given moment
+function localTime(now: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(now);
+}
+
+// The window may span midnight (22:00–07:00); the start is inside it, the end is not
+export function isQuietTime(
+  sub: Pick<TelegramSubscription, 'quiet_hours_start' | 'quiet_hours_end' | 'timezone'>,
+  now: Date = new Date()
+): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = sub;
+  if (!start || !end || start === end) return false;
+  const time = localTime(now, sub.timezone);
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function validateTime(value: unknown, fieldName: string): string | null {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value)) {
+    throw validationError(`${fieldName} must be a time as HH:MM`);
+  }
+  return value;
+}
+
+export type TelegramSubscriptionFields = Partial<
+  Pick<TelegramSubscription, 'task_list_ids' | 'event_types' | 'quiet_hours_start' | 'quiet_hours_end' | 'timezone' | 'enabled'>
+>;
+
+// Validates the editable fields present in body; absent ones stay undefined. Project
+// IDs are checked against the workspace by the caller.
+export function validateSubscriptionFields(body: UpdateTelegramSubscriptionRequest): TelegramSubscriptionFields {
+  const fields: TelegramSubscriptionFields = {};
+
+  if (body.task_list_ids !== undefined) {
+    fields.task_list_ids = validateArray<string>(body.task_list_ids, {
+      fieldName: 'task_list_ids',
+      minLength: 1,
+      maxLength: 100,
+      itemValidator: (item) => {
+        if (typeof item !== 'string' || !item) {
+          throw validationError('task_list_ids must be project IDs');
+        }
+        return item;
+      },
+    });
+  }
+  if (body.event_types !== undefined) {
+    const eventTypes = validateArray<TelegramEventType>(body.event_types, {
+      fieldName: 'event_types',
+      required: true,
+      minLength: 1,
+      itemValidator: (item) => validateEnum(item as string, TELEGRAM_EVENT_TYPES, { fieldName: 'event_types', required: true }) as TelegramEventType,
+    }) as TelegramEventType[];
+    fields.event_types = [...new Set(eventTypes)];
+  }
+  if (body.quiet_hours_start !== undefined) {
+    fields.quiet_hours_start = validateTime(body.quiet_hours_start, 'quiet_hours_start');
+  }
+  if (body.quiet_hours_end !== undefined) {
+    fields.quiet_hours_end = validateTime(body.quiet_hours_end, 'quiet_hours_end');
+  }
+  if (body.timezone !== undefined) {
+    const timezone = validateString(body.timezone, { fieldName: 'timezone', required: true, maxLength: 64 }) as string;
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    } catch {
+      throw validationError(`Unknown timezone "${timezone}"`);
+    }
+    fields.timezone = timezone;
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      throw validationError('enabled must be a boolean');
+    }
+    fields.enabled = body.enabled;
+  }
+
+  return fields;
+}
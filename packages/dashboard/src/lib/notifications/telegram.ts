@@ -0,0 +1,153 @@
+// Telegram notifications for session events
+// Notifications about a task carry inline buttons (taskKeyboard) to act on it from the
+// chat; the bot worker (packages/telegram/src/actions.ts) handles the presses.
+//
+// Every message sent about a task is recorded in telegram_messages, so the worker can
+// turn a reply to it into a human_message comment (packages/telegram/src/threads.ts).
+
+import { execute, queryOne, type D1Database } from '@/lib/db/client';
+import { logger } from '@/lib/utils';
+import { getTelegramSubscriptions, isQuietTime, matchingSubscriptions } from '@/lib/notifications/subscriptions';
+import { taskKeyboard } from '@taskinfa/shared';
+import type { InlineKeyboardMarkup, TaskComment } from '@taskinfa/shared';
+
+// Bot comments worth sending back to a Telegram thread; progress updates are not
+const THREAD_REPLY_TYPES = new Set(['summary', 'question', 'error']);
+
+// Telegram rejects longer messages (4096); leaves room for the title
+const TELEGRAM_TEXT_LIMIT = 3800;
+
+// Events where the agent is waiting on a human, so the notification invites a reply
+const AWAITING_REPLY_EVENTS = new Set(['stuck', 'needs_input']);
+
+const EVENT_EMOJI: Record<string, string> = {
+  task_completed: '✅',
+  stuck: '⚠️',
+  needs_input: '❓',
+  error: '❌',
+  budget_exceeded: '💸',
+};
+
+/**
+ * Sends a message with the bot and records it against the task, so replies to it reach
+ * the task. Does nothing when the bot isn't configured.
+ */
+async function sendTaskMessage(
+  db: D1Database,
+  workspaceId: string,
+  taskId: string | null,
+  body: Record<string, unknown> & { chat_id: string }
+): Promise<void> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) return;
+
+  const res = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ parse_mode: 'Markdown', ...body }),
+  });
+  if (!res.ok) return;
+
+  const data = await res.json() as { result?: { message_id?: number } };
+  const messageId = data.result?.message_id;
+  if (taskId && messageId) {
+    await execute(
+      db,
+      `INSERT OR IGNORE INTO telegram_messages (chat_id, message_id, workspace_id, task_id)
+       VALUES (?, ?, ?, ?)`,
+      [body.chat_id, messageId, workspaceId, taskId]
+    );
+  }
+}
+
+/**
+ * Sends the event to every chat subscribed to it and to the task's project. Chats in
+ * their quiet hours get it without sound. dashboardUrl is where the "Open in
+ * dashboard" button points.
+ */
+export async function sendTelegramNotification(
+  db: D1Database,
+  workspaceId: string,
+  eventType: string,
+  message: string,
+  taskId: string | null | undefined,
+  dashboardUrl: string
+) {
+  const subscriptions = (await getTelegramSubscriptions(db, workspaceId)).filter((sub) => sub.enabled);
+  if (subscriptions.length === 0) return;
+
+  let taskInfo = '';
+  let prLink = '';
+  let replyMarkup: InlineKeyboardMarkup | undefined;
+  let taskListId: string | null = null;
+  if (taskId) {
+    const task = await queryOne<{
+      id: string; task_list_id: string | null; title: string; status: string; error_count: number; pr_url: string | null;
+    }>(
+      db,
+      'SELECT id, task_list_id, title, status, error_count, pr_url FROM tasks WHERE id = ? AND workspace_id = ?',
+      [taskId, workspaceId]
+    );
+    if (task) {
+      taskInfo = `\nTask: ${task.title}`;
+      if (task.pr_url) prLink = `\n[View PR](${task.pr_url})`;
+      replyMarkup = taskKeyboard(task, dashboardUrl);
+      taskListId = task.task_list_id;
+    }
+  }
+
+  const recipients = matchingSubscriptions(subscriptions, eventType, taskListId);
+  if (recipients.length === 0) return;
+
+  let text = `${EVENT_EMOJI[eventType] || 'ℹ️'} *${eventType.replace(/_/g, ' ').toUpperCase()}*${taskInfo}\n${message}${prLink}`;
+  if (replyMarkup && AWAITING_REPLY_EVENTS.has(eventType)) {
+    text += '\n\n_Reply to this message to answer the agent._';
+  }
+
+  const now = new Date();
+  for (const sub of recipients) {
+    // One chat failing (e.g. the bot was removed from a group) mustn't stop the others
+    try {
+      await sendTaskMessage(db, workspaceId, replyMarkup ? (taskId ?? null) : null, {
+        chat_id: sub.chat_id,
+        text,
+        reply_markup: replyMarkup,
+        disable_notification: isQuietTime(sub, now) || undefined,
+      });
+    } catch (err) {
+      logger.warn('Telegram notification failed', { workspaceId, chatId: sub.chat_id, error: String(err) });
+    }
+  }
+}
+
+/**
+ * Sends a bot comment back to Telegram when it answers a human_message that came from
+ * there, as a reply to that message. Only the latest human message counts: once someone
+ * writes on the task from the dashboard, answers stay in the dashboard.
+ */
+export async function forwardAgentReply(db: D1Database, workspaceId: string, comment: TaskComment) {
+  if (comment.author_type !== 'bot' || !THREAD_REPLY_TYPES.has(comment.comment_type)) return;
+
+  const origin = await queryOne<{ chat_id: string; message_id: number; title: string }>(
+    db,
+    `SELECT tm.chat_id, tm.message_id, t.title FROM task_comments c
+     JOIN telegram_messages tm ON tm.comment_id = c.id
+     JOIN tasks t ON t.id = c.task_id
+     WHERE c.task_id = ? AND tm.workspace_id = ?
+       AND c.id = (
+         SELECT c2.id FROM task_comments c2
+         WHERE c2.task_id = c.task_id AND c2.author_type = 'user' AND c2.comment_type = 'human_message'
+         ORDER BY c2.created_at DESC LIMIT 1
+       )`,
+    [comment.task_id, workspaceId]
+  );
+  if (!origin) return;
+
+  // Plain text: agent answers are free-form and would often break Markdown parsing
+  await sendTaskMessage(db, workspaceId, comment.task_id, {
+    chat_id: origin.chat_id,
+    text: `💬 ${origin.title}\n\n${comment.content.slice(0, TELEGRAM_TEXT_LIMIT)}`,
+    parse_mode: undefined,
+    reply_to_message_id: origin.message_id,
+  });
+}
@@ -0,0 +1,426 @@
+// Outbound webhooks
+// Routes call dispatchWebhookEvents after a task, comment or session change. Every
+// enabled webhook subscribed to the event gets a pending delivery (queueWebhookEvents in
+// @taskinfa/shared, which the Telegram bot uses too), sent once the response is out. A
+// failed attempt leaves the delivery pending with a next_attempt_at that backs off
+// exponentially; sendDueWebhookDeliveries sends the due ones. Orchestrators call it each
+// poll cycle through /api/webhooks/deliveries/retry.
+//
+// Webhooks may not point at this machine, private networks or link-local addresses.
+//
+// Requests carry X-Taskinfa-Signature-256: "sha256=" + hex HMAC-SHA256 of the body,
+// keyed with the webhook's secret.
+
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { execute, query, queryOne, type D1Database } from '@/lib/db/client';
+import { logger, safeJsonParseArray, validateArray, validateEnum, validateString, validationError } from '@/lib/utils';
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_FORMATS, diffChanges, queueWebhookEvents } from '@taskinfa/shared';
+import type {
+  Session,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookFormat,
+} from '@taskinfa/shared';
+import { nanoid } from 'nanoid';
+
+export type { WebhookEvent } from '@taskinfa/shared';
+
+export const WEBHOOK_FIELDS = 'id, workspace_id, name, url, format, event_types, secret, enabled, created_at, updated_at';
+
+export const DELIVERY_FIELDS =
+  'id, webhook_id, event_id, event_type, payload, status, attempts, response_status, response_body, error, next_attempt_at, last_attempt_at, created_at';
+
+// A delivery is given up after this many attempts: the first, then retries after
+// 1, 4, 16, 64 and 256 minutes
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_SECONDS = 60;
+const RETRY_FACTOR = 4;
+
+const DELIVERY_TIMEOUT_MS = 5000;
+
+// How long an attempt in flight holds the delivery before a retry sweep may take it
+const CLAIM_SECONDS = 60;
+
+const RESPONSE_BODY_LIMIT = 1000;
+
+// Deliveries a dispatch sends after its response: as many as time out within the 30
+// seconds a Worker is given for it. The rest wait for the retry sweep.
+const AFTER_RESPONSE_SEND_LIMIT = 5;
+
+export type WebhookRow = Omit<Webhook, 'event_types' | 'enabled' | 'secret' | 'secret_preview'> & {
+  event_types: string;
+  enabled: number;
+  secret: string;
+};
+
+export function generateWebhookSecret(): string {
+  return `whsec_${nanoid(32)}`;
+}
+
+// The secret is only returned when the webhook is created
+export function toWebhook(row: WebhookRow, { withSecret = false } = {}): Webhook {
+  const { secret, ...rest } = row;
+  return {
+    ...rest,
+    event_types: safeJsonParseArray<WebhookEventType>(row.event_types, []),
+    enabled: !!row.enabled,
+    secret_preview: `${secret.slice(0, 10)}...`,
+    ...(withSecret ? { secret } : {}),
+  };
+}
+
+export async function getWebhooks(db: D1Database, workspaceId: string): Promise<Webhook[]> {
+  const rows = await query<WebhookRow>(
+    db,
+    `SELECT ${WEBHOOK_FIELDS} FROM webhooks WHERE workspace_id = ? ORDER BY created_at`,
+    [workspaceId]
+  );
+  return rows.map((row) => toWebhook(row));
+}
+
+// Seconds to wait before the next attempt, after `attempts` failed ones
+export function retryDelaySeconds(attempts: number): number {
+  return RETRY_BASE_SECONDS * RETRY_FACTOR ** (attempts - 1);
+}
+
+const IPV4_ADDRESS = /^(\d+)\.(\d+)\.(\d+)\.(\d+)$/;
+
+function isPrivateIpv4(address: string): boolean {
+  const match = IPV4_ADDRESS.exec(address);
+  if (!match) return false;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b < 128) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local, cloud metadata endpoints
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168);
+}
+
+/**
+ * Whether a URL's hostname is this machine, a private network or link-local. URL has
+ * already normalized it: IPv4 in dotted decimal, IPv6 compressed in brackets with
+ * IPv4-mapped addresses in hex. Names that resolve to such addresses aren't caught.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  if (!host.startsWith('[')) return isPrivateIpv4(host);
+
+  const ipv6 = host.slice(1, -1);
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ipv6);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return ipv6 === '::' || ipv6 === '::1'
+    || /^f[cd][0-9a-f]{0,2}:/.test(ipv6) // unique local, fc00::/7
+    || /^fe[89ab][0-9a-f]:/.test(ipv6); // link-local, fe80::/10
+}
+
+export async function signPayload(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+type EventData = Record<string, unknown>;
+
+function newWebhookId(prefix: string): string {
+  return `${prefix}_${nanoid()}`;
+}
+
+type DeliveryAttempt = Pick<WebhookDelivery, 'id' | 'event_type' | 'payload' | 'attempts'> & {
+  url: string;
+  secret: string;
+};
+
+/**
+ * Posts the delivery once and records the outcome. Returns whether the endpoint
+ * accepted it (2xx). Network errors and timeouts count as failed attempts; redirects
+ * aren't followed. A URL on a private address fails the delivery without a request.
+ */
+async function attemptDelivery(db: D1Database, delivery: DeliveryAttempt): Promise<boolean> {
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  const blocked = isPrivateHost(new URL(delivery.url).hostname);
+
+  if (blocked) {
+    error = 'url points to a local or private address';
+  } else {
+    try {
+      const res = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Taskinfa-Webhooks/1.0',
+          'X-Taskinfa-Event': delivery.event_type,
+          'X-Taskinfa-Delivery': delivery.id,
+          'X-Taskinfa-Signature-256': `sha256=${await signPayload(delivery.secret, delivery.payload)}`,
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = res.status;
+      responseBody = (await res.text()).slice(0, RESPONSE_BODY_LIMIT) || null;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const attempts = delivery.attempts + 1;
+  const status = succeeded ? 'succeeded' : blocked || attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending';
+
+  await execute(
+    db,
+    `UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, response_body = ?, error = ?,
+       next_attempt_at = ${status === 'pending' ? "datetime('now', ?)" : 'NULL'}, last_attempt_at = datetime('now')
+     WHERE id = ?`,
+    [
+      status,
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      ...(status === 'pending' ? [`+${retryDelaySeconds(attempts)} seconds`] : []),
+      delivery.id,
+    ]
+  );
+
+  return succeeded;
+}
+
+/**
+ * Records a delivery of payload to the webhook and attempts it at once, for an admin
+ * waiting on the outcome. It is claimed for CLAIM_SECONDS so a sweep doesn't send it a
+ * second time.
+ */
+async function createDelivery(
+  db: D1Database,
+  webhook: Pick<WebhookRow, 'id' | 'workspace_id' | 'url' | 'secret'>,
+  eventId: string,
+  eventType: WebhookEventType,
+  payload: string
+): Promise<string> {
+  const id = newWebhookId('whd');
+  await execute(
+    db,
+    `INSERT INTO webhook_deliveries (id, webhook_id, workspace_id, event_id, event_type, payload, status, next_attempt_at)
+     VALUES (?, ?, ?, ?, ?, ?, 'pending', datetime('now', ?))`,
+    [id, webhook.id, webhook.workspace_id, eventId, eventType, payload, `+${CLAIM_SECONDS} seconds`]
+  );
+  await attemptDelivery(db, { id, event_type: eventType, payload, attempts: 0, url: webhook.url, secret: webhook.secret });
+  return id;
+}
+
+/**
+ * Runs work after the response is sent, with the Worker kept alive for it. Outside a
+ * Worker (next dev, tests) there is no context to hand it to, and it just runs on.
+ */
+function afterResponse(work: Promise<unknown>): void {
+  try {
+    getCloudflareContext().ctx.waitUntil(work);
+  } catch {
+    // Not in a Worker
+  }
+}
+
+/**
+ * Queues each event for every enabled webhook of the workspace subscribed to it, and
+ * sends the deliveries once the response is out. Never throws: a failing endpoint must
+ * not fail the change that caused the event, so errors are logged and the delivery is
+ * left to the retries.
+ */
+export async function dispatchWebhookEvents(
+  db: D1Database,
+  workspaceId: string,
+  events: WebhookEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+  try {
+    const queued = await queueWebhookEvents(db, workspaceId, events, newWebhookId);
+    if (queued > 0) {
+      afterResponse(
+        sendDueWebhookDeliveries(db, workspaceId, Math.min(queued, AFTER_RESPONSE_SEND_LIMIT)).catch((err) => {
+          logger.warn('Webhook delivery failed', { workspaceId, error: String(err) });
+        })
+      );
+    }
+  } catch (err) {
+    logger.warn('Webhook dispatch failed', { workspaceId, events: events.map((e) => e.event).join(','), error: String(err) });
+  }
+}
+
+export async function dispatchWebhookEvent(
+  db: D1Database,
+  workspaceId: string,
+  event: WebhookEventType,
+  data: EventData
+): Promise<void> {
+  await dispatchWebhookEvents(db, workspaceId, [{ event, data }]);
+}
+
+// Session statuses that end it
+const ENDED_SESSION_STATUSES = ['completed', 'error'];
+
+// The event for a change of a session's status, if it is worth one
+export function sessionStatusEvent(from: string, to: string): 'session.stuck' | 'session.ended' | null {
+  if (from === to) return null;
+  if (to === 'stuck') return 'session.stuck';
+  if (ENDED_SESSION_STATUSES.includes(to) && !ENDED_SESSION_STATUSES.includes(from)) return 'session.ended';
+  return null;
+}
+
+/**
+ * Sends a session event, with the session's current task when it has one. message is
+ * what the agent reported, e.g. why it is stuck.
+ */
+export async function dispatchSessionEvent(
+  db: D1Database,
+  workspaceId: string,
+  event: Extract<WebhookEventType, `session.${string}`>,
+  session: Session,
+  message?: string | null
+): Promise<void> {
+  const task = session.current_task_id
+    ? await queryOne<{ id: string; title: string; status: string }>(
+      db,
+      'SELECT id, title, status FROM tasks WHERE id = ? AND workspace_id = ?',
+      [session.current_task_id, workspaceId]
+    )
+    : null;
+  await dispatchWebhookEvent(db, workspaceId, event, { session, task, ...(message ? { message } : {}) });
+}
+
+// Fields that change along with others and aren't worth a task.updated of their own
+const TASK_BOOKKEEPING_FIELDS = new Set(['status', 'started_at', 'completed_at', 'order']);
+
+/**
+ * Events for a change of a task: task.moved when its status changed, task.updated
+ * (with the previous values of the changed fields) when anything else did.
+ */
+export function taskChangeEvents(before: { status: string }, after: { status: string }): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  if (before.status !== after.status) {
+    events.push({ event: 'task.moved', data: { task: after, from_status: before.status, to_status: after.status } });
+  }
+  const previous = Object.fromEntries(
+    Object.entries(diffChanges(before, after))
+      .filter(([fieldName]) => !TASK_BOOKKEEPING_FIELDS.has(fieldName))
+      .map(([fieldName, change]) => [fieldName, change.before])
+  );
+  if (Object.keys(previous).length > 0) {
+    events.push({ event: 'task.updated', data: { task: after, previous } });
+  }
+  return events;
+}
+
+/**
+ * Attempts pending deliveries whose next attempt is due, oldest first: new ones and
+ * retries. Deliveries of disabled webhooks wait until it is enabled again.
+ */
+export async function sendDueWebhookDeliveries(
+  db: D1Database,
+  workspaceId: string,
+  limit: number
+): Promise<{ attempted: number; succeeded: number }> {
+  const due = await query<DeliveryAttempt>(
+    db,
+    `SELECT d.id, d.event_type, d.payload, d.attempts, w.url, w.secret
+     FROM webhook_deliveries d
+     JOIN webhooks w ON d.webhook_id = w.id
+     WHERE d.workspace_id = ? AND d.status = 'pending' AND d.next_attempt_at <= datetime('now') AND w.enabled = 1
+     ORDER BY d.next_attempt_at
+     LIMIT ?`,
+    [workspaceId, limit]
+  );
+
+  let attempted = 0;
+  let succeeded = 0;
+  for (const delivery of due) {
+    // Re-check it is still due so two sweeps don't send the same delivery
+    const claim = await execute(
+      db,
+      `UPDATE webhook_deliveries SET next_attempt_at = datetime('now', ?)
+       WHERE id = ? AND status = 'pending' AND next_attempt_at <= datetime('now')`,
+      [`+${CLAIM_SECONDS} seconds`, delivery.id]
+    );
+    if (!claim.meta?.changes) continue;
+
+    attempted++;
+    if (await attemptDelivery(db, delivery)) succeeded++;
+  }
+
+  return { attempted, succeeded };
+}
+
+/**
+ * Sends a logged delivery's body again as a new delivery of the same event, with a
+ * fresh set of attempts. Returns the new delivery's ID.
+ */
+export async function redeliverWebhook(
+  db: D1Database,
+  webhook: Pick<WebhookRow, 'id' | 'workspace_id' | 'url' | 'secret'>,
+  delivery: Pick<WebhookDelivery, 'event_id' | 'event_type' | 'payload'>
+): Promise<string> {
+  return createDelivery(db, webhook, delivery.event_id, delivery.event_type, delivery.payload);
+}
+
+export type WebhookFields = Partial<Pick<Webhook, 'name' | 'url' | 'format' | 'event_types' | 'enabled'>>;
+
+// Validates the fields present in body; absent ones stay undefined
+export function validateWebhookFields(body: UpdateWebhookRequest): WebhookFields {
+  const fields: WebhookFields = {};
+
+  if (body.name !== undefined) {
+    fields.name = validateString(body.name, { fieldName: 'name', required: true, maxLength: 100 }) as string;
+  }
+  if (body.url !== undefined) {
+    const url = validateString(body.url, { fieldName: 'url', required: true, maxLength: 2000 }) as string;
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw validationError('url must be a valid URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw validationError('url must be an http(s) URL');
+    }
+    if (isPrivateHost(parsed.hostname)) {
+      throw validationError('url must not point to a local or private address');
+    }
+    fields.url = url;
+  }
+  if (body.format !== undefined) {
+    fields.format = validateEnum(body.format, WEBHOOK_FORMATS, { fieldName: 'format', required: true }) as WebhookFormat;
+  }
+  if (body.event_types !== undefined) {
+    const eventTypes = validateArray<WebhookEventType>(body.event_types, {
+      fieldName: 'event_types',
+      required: true,
+      minLength: 1,
+      itemValidator: (item) => validateEnum(item as string, WEBHOOK_EVENT_TYPES, { fieldName: 'event_types', required: true }) as WebhookEventType,
+    }) as WebhookEventType[];
+    fields.event_types = [...new Set(eventTypes)];
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      throw validationError('enabled must be a boolean');
+    }
+    fields.enabled = body.enabled;
+  }
+
+  return fields;
+}
@@ -0,0 +1,50 @@
+// Orchestrator registration and control
+// Orchestrators POST /api/orchestrator/heartbeat periodically; the heartbeat both records
+// their status and hands them any commands queued from the dashboard.
+
+import { safeJsonParseArray, safeJsonParseObject } from '@/lib/utils';
+import type {
+  OrchestratorActiveSession,
+  OrchestratorCommandType,
+  OrchestratorInstance,
+  OrchestratorState,
+} from '@taskinfa/shared';
+
+export const ORCHESTRATOR_STATES: readonly OrchestratorState[] = ['running', 'paused', 'draining', 'stopped'];
+
+export const ORCHESTRATOR_COMMANDS: readonly OrchestratorCommandType[] = [
+  'pause',
+  'resume',
+  'drain',
+  'kill_session',
+  'poll',
+];
+
+export const COMMAND_COLUMNS =
+  'id, orchestrator_id, command, session_id, status, result, created_by, created_at, completed_at';
+
+// Orchestrators heartbeat every 15s by default; a few missed beats mean it is gone
+export const ORCHESTRATOR_ONLINE_WINDOW = '-90 seconds';
+
+export interface OrchestratorRow {
+  id: string;
+  workspace_id: string;
+  hostname: string | null;
+  pid: number | null;
+  version: string | null;
+  state: OrchestratorState;
+  config: string;
+  active_sessions: string;
+  started_at: string;
+  last_heartbeat_at: string;
+  online: number;
+}
+
+export function toOrchestratorInstance(row: OrchestratorRow): OrchestratorInstance {
+  return {
+    ...row,
+    config: safeJsonParseObject(row.config),
+    active_sessions: safeJsonParseArray<OrchestratorActiveSession>(row.active_sessions),
+    online: !!row.online,
+  };
+}
@@ -0,0 +1,41 @@
+// Orchestrator wake-up signals
+// Routes call emitWorkSignal when something happens that an orchestrator could act on;
+// /api/orchestrator/signals long-polls the table so the orchestrator reacts immediately
+// instead of waiting for its next scheduled poll.
+
+import { execute, type D1Database } from '@/lib/db/client';
+import { logger } from '@/lib/utils';
+import type { WorkSignalReason } from '@taskinfa/shared';
+
+// Signals only need to outlive one orchestrator poll; anything older is dead weight
+const SIGNAL_RETENTION = '-1 day';
+
+export async function pruneWorkSignals(db: D1Database, workspaceId: string): Promise<void> {
+  await execute(
+    db,
+    `DELETE FROM work_signals WHERE workspace_id = ? AND created_at < datetime('now', '${SIGNAL_RETENTION}')`,
+    [workspaceId]
+  );
+}
+
+// Best-effort: a lost signal only delays work until the orchestrator's fallback poll,
+// so failures are logged and never fail the request that triggered them.
+// Expired signals are pruned here too: a running orchestrator always polls with a cursor,
+// so the subscriber-time prune in the signals route alone never runs.
+export async function emitWorkSignal(
+  db: D1Database,
+  workspaceId: string,
+  reason: WorkSignalReason,
+  taskId: string | null = null
+): Promise<void> {
+  try {
+    await execute(
+      db,
+      'INSERT INTO work_signals (workspace_id, reason, task_id) VALUES (?, ?, ?)',
+      [workspaceId, reason, taskId]
+    );
+    await pruneWorkSignals(db, workspaceId);
+  } catch (err) {
+    logger.warn('Failed to emit work signal', { workspaceId, taskId: taskId ?? undefined, reason, error: String(err) });
+  }
+}
@@ -24,3 +24,40 @@ export function validateEmail(email: string): boolean {
 export function normalizeEmail(email: string): string {
   return email.toLowerCase().trim();
 }
+
+const DEFAULT_REDIRECT_PATH = '/dashboard';
+
+// Browsers read "\" as "/" and drop tabs and newlines, so "/\evil.com" leaves the site
+function hasUnsafeRedirectChar(path: string): boolean {
+  return Array.from(path).some((char) => {
+    const code = char.charCodeAt(0);
+    return char === '\\' || code < 0x20 || code === 0x7f;
+  });
+}
+
+// Only used to resolve the path; any origin would do
+const REDIRECT_BASE = 'http://localhost';
+
+/**
+ * Validate a post-login redirect target (the ?next= parameter)
+ * @param next - Requested path
+ * @returns The path if it stays on this site, otherwise the dashboard
+ */
+export function safeRedirectPath(next: string | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//')) {
+    return DEFAULT_REDIRECT_PATH;
+  }
+
+  // Checked decoded too, in case it is decoded again on the way
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(next);
+  } catch {
+    return DEFAULT_REDIRECT_PATH;
+  }
+  if (hasUnsafeRedirectChar(decoded) || decoded.startsWith('//')) {
+    return DEFAULT_REDIRECT_PATH;
+  }
+
+  return new URL(next, REDIRECT_BASE).origin === REDIRECT_BASE ? next : DEFAULT_REDIRECT_PATH;
+}
@@ -0,0 +1,142 @@
+// Custom workflow columns and WIP limits
+// Workspaces add their own columns after any built-in status. Their 'custom_<slug>'
+// statuses are valid task statuses wherever getValidStatuses is used.
+// Built-in columns take WIP limits from column_wip_limits; custom ones carry their own.
+
+import { query, type D1Database } from '@/lib/db/client';
+import { validateEnum, validateInteger, validateString, validationError } from '@/lib/utils';
+import { getValidStatuses, isCustomStatus, workflowColumnsFor } from '@taskinfa/shared';
+import type {
+  BuiltinTaskStatus,
+  ColumnWipLimit,
+  CustomTaskStatus,
+  FeatureKey,
+  TaskStatus,
+  UpdateWorkflowColumnRequest,
+  WorkflowColumn,
+} from '@taskinfa/shared';
+
+export const WORKFLOW_COLUMN_FIELDS =
+  'id, workspace_id, task_list_id, status, label, icon, after_status, position, wip_limit, block_when_full, orchestrated, instructions, created_at, updated_at';
+
+export const WIP_LIMIT_FIELDS = 'id, workspace_id, status, wip_limit, block_when_full, created_at, updated_at';
+
+// Any built-in column can be followed, whether or not its feature is enabled right now
+const ANCHOR_STATUSES = getValidStatuses({ refinement: true, ai_review: true, local_testing: true }) as BuiltinTaskStatus[];
+
+export const MAX_WIP_LIMIT = 1000;
+
+// Built-in columns that can take a WIP limit. Backlog and Done are where work waits and
+// ends, so capping them would only hide tasks.
+export const WIP_LIMIT_STATUSES = ANCHOR_STATUSES.filter((s) => s !== 'backlog' && s !== 'done');
+
+export type WorkflowColumnRow = Omit<WorkflowColumn, 'orchestrated' | 'block_when_full'> & {
+  orchestrated: number;
+  block_when_full: number;
+};
+
+export function toWorkflowColumn(row: WorkflowColumnRow): WorkflowColumn {
+  return { ...row, orchestrated: !!row.orchestrated, block_when_full: !!row.block_when_full };
+}
+
+export type ColumnWipLimitRow = Omit<ColumnWipLimit, 'block_when_full'> & { block_when_full: number };
+
+export function toColumnWipLimit(row: ColumnWipLimitRow): ColumnWipLimit {
+  return { ...row, block_when_full: !!row.block_when_full };
+}
+
+export async function getWipLimits(db: D1Database, workspaceId: string): Promise<ColumnWipLimit[]> {
+  const rows = await query<ColumnWipLimitRow>(
+    db,
+    `SELECT ${WIP_LIMIT_FIELDS} FROM column_wip_limits WHERE workspace_id = ? ORDER BY status`,
+    [workspaceId]
+  );
+  return rows.map(toColumnWipLimit);
+}
+
+export async function getWorkflowColumns(db: D1Database, workspaceId: string): Promise<WorkflowColumn[]> {
+  const rows = await query<WorkflowColumnRow>(
+    db,
+    `SELECT ${WORKFLOW_COLUMN_FIELDS} FROM workflow_columns
+     WHERE workspace_id = ?
+     ORDER BY after_status, position, label`,
+    [workspaceId]
+  );
+  return rows.map(toWorkflowColumn);
+}
+
+/**
+ * Statuses a task may take. Custom columns are only loaded when the requested status
+ * is a custom one, so built-in moves cost no extra query. Pass taskListId to limit
+ * custom columns to those on that project's board.
+ */
+export async function resolveValidStatuses(
+  db: D1Database,
+  workspaceId: string,
+  enabledFeatures: Record<FeatureKey, boolean>,
+  requested: unknown,
+  taskListId?: string | null
+): Promise<TaskStatus[]> {
+  if (typeof requested !== 'string' || !isCustomStatus(requested)) {
+    return getValidStatuses(enabledFeatures);
+  }
+  const columns = workflowColumnsFor(await getWorkflowColumns(db, workspaceId), taskListId);
+  return getValidStatuses(enabledFeatures, columns);
+}
+
+// 'Security review' -> 'custom_security_review'
+export function customStatusKey(text: string): CustomTaskStatus {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+  return `custom_${slug}`;
+}
+
+export type WorkflowColumnFields = Partial<
+  Pick<
+    WorkflowColumn,
+    'label' | 'icon' | 'after_status' | 'position' | 'wip_limit' | 'block_when_full' | 'orchestrated' | 'instructions'
+  >
+>;
+
+// Validates the editable fields present in body; absent ones stay undefined
+export function validateWorkflowColumnFields(body: UpdateWorkflowColumnRequest): WorkflowColumnFields {
+  const fields: WorkflowColumnFields = {};
+
+  if (body.label !== undefined) {
+    fields.label = validateString(body.label, { fieldName: 'label', required: true, minLength: 1, maxLength: 50 }) as string;
+  }
+  if (body.icon !== undefined) {
+    fields.icon = validateString(body.icon, { fieldName: 'icon', required: true, minLength: 1, maxLength: 16 }) as string;
+  }
+  if (body.after_status !== undefined) {
+    fields.after_status = validateEnum(body.after_status, ANCHOR_STATUSES, { fieldName: 'after_status', required: true }) as BuiltinTaskStatus;
+  }
+  if (body.position !== undefined) {
+    fields.position = validateInteger(String(body.position), { fieldName: 'position', min: 0, max: 1000 });
+  }
+  if (body.wip_limit !== undefined) {
+    fields.wip_limit = body.wip_limit === null
+      ? null
+      : validateInteger(String(body.wip_limit), { fieldName: 'wip_limit', min: 1, max: MAX_WIP_LIMIT });
+  }
+  if (body.block_when_full !== undefined) {
+    if (typeof body.block_when_full !== 'boolean') {
+      throw validationError('block_when_full must be a boolean');
+    }
+    fields.block_when_full = body.block_when_full;
+  }
+  if (body.orchestrated !== undefined) {
+    if (typeof body.orchestrated !== 'boolean') {
+      throw validationError('orchestrated must be a boolean');
+    }
+    fields.orchestrated = body.orchestrated;
+  }
+  if (body.instructions !== undefined) {
+    fields.instructions = validateString(body.instructions, {
+      fieldName: 'instructions',
+      required: false,
+      maxLength: 5000,
+    }) || null;
+  }
+
+  return fields;
+}
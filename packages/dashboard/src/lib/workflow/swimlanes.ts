@@ -0,0 +1,107 @@
+// Board swimlanes
+// Groups tasks into horizontal lanes by project, priority, assignee or label, and works
+// out the task update that moves a task from one lane to another.
+
+import type { SwimlaneField, Task, TaskList, TaskPriority } from '@taskinfa/shared';
+
+export interface Swimlane {
+  // Value of the grouped field; '' for tasks without one
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+// Highest first, like the priority filter
+const PRIORITY_LANES: { key: TaskPriority; label: string }[] = [
+  { key: 'urgent', label: 'Urgent' },
+  { key: 'high', label: 'High' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'low', label: 'Low' },
+];
+
+const EMPTY_LANE_LABELS: Record<SwimlaneField, string> = {
+  task_list_id: 'No project',
+  priority: 'No priority',
+  assigned_to: 'Unassigned',
+  label: 'No label',
+};
+
+// A task with several labels sits in the lane of its first one
+export function swimlaneKey(task: Task, field: SwimlaneField): string {
+  switch (field) {
+    case 'task_list_id':
+      return task.task_list_id ?? '';
+    case 'priority':
+      return task.priority;
+    case 'assigned_to':
+      return task.assigned_to ?? '';
+    case 'label':
+      return task.labels?.[0] ?? '';
+  }
+}
+
+/**
+ * Lanes for the tasks, in display order: projects in taskLists order, priorities highest
+ * first, assignees and labels alphabetically. The lane for tasks without a value comes
+ * last. Every project and priority gets a lane, even an empty one, so tasks can be
+ * dropped into it.
+ */
+export function getSwimlanes(tasks: Task[], field: SwimlaneField, taskLists: TaskList[]): Swimlane[] {
+  const byKey = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const key = swimlaneKey(task, field);
+    byKey.set(key, [...(byKey.get(key) ?? []), task]);
+  }
+
+  let lanes: { key: string; label: string }[];
+  if (field === 'task_list_id') {
+    lanes = taskLists.map((list) => ({ key: list.id, label: list.name }));
+    // Projects the board wasn't given, e.g. created since the page loaded
+    for (const key of byKey.keys()) {
+      if (key && !lanes.some((lane) => lane.key === key)) lanes.push({ key, label: key });
+    }
+  } else if (field === 'priority') {
+    lanes = PRIORITY_LANES;
+  } else {
+    lanes = [...byKey.keys()].filter(Boolean).sort().map((key) => ({ key, label: key }));
+  }
+
+  const swimlanes = lanes.map((lane) => ({ ...lane, tasks: byKey.get(lane.key) ?? [] }));
+  if (byKey.has('')) {
+    swimlanes.push({ key: '', label: EMPTY_LANE_LABELS[field], tasks: byKey.get('')! });
+  }
+  return swimlanes;
+}
+
+/**
+ * Fields to PATCH when a task is dropped into another lane, or null when the move isn't
+ * possible (a task can't be left without a project). For labels, the label of the
+ * lane the task came from is swapped for the new lane's one, which goes first so the
+ * task lands in that lane; dropping into "No label" clears them all.
+ */
+export function swimlaneUpdate(
+  task: Task,
+  field: SwimlaneField,
+  toKey: string
+): Partial<Pick<Task, 'task_list_id' | 'priority' | 'assigned_to' | 'labels'>> | null {
+  const fromKey = swimlaneKey(task, field);
+  if (fromKey === toKey) {
+    return {};
+  }
+
+  switch (field) {
+    case 'task_list_id':
+      return toKey ? { task_list_id: toKey } : null;
+    case 'priority':
+      return toKey ? { priority: toKey as TaskPriority } : null;
+    case 'assigned_to':
+      return { assigned_to: toKey || null };
+    case 'label': {
+      if (!toKey) {
+        return { labels: [] };
+      }
+      const labels = (task.labels ?? []).filter((label) => label !== fromKey && label !== toKey);
+      return { labels: [toKey, ...labels] };
+    }
+  }
+}
@@ -0,0 +1,102 @@
+// Writing the audit log and task history
+// The dashboard routes (through recordAudit) and the Telegram bot write the same rows.
+
+import { TASK_TRANSITION_FIELDS } from './types/index.js';
+import type { AuditActor, AuditChanges, AuditEntryInput, SqlDatabase } from './types/index.js';
+
+// Bookkeeping columns that change on every write
+const AUDIT_IGNORED_FIELDS = new Set(['id', 'workspace_id', 'created_at', 'updated_at', 'last_used_at']);
+
+// Recorded as changed, never with their value
+const AUDIT_SECRET_FIELDS = new Set(['auth_token', 'key_hash']);
+
+function redactAuditValue(value: unknown): unknown {
+  return value === null || value === undefined || value === '' ? null : '[redacted]';
+}
+
+export function diffChanges(before: object | null, after: object | null): AuditChanges {
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (AUDIT_IGNORED_FIELDS.has(field)) continue;
+    const from = before ? prev[field] ?? null : null;
+    const to = after ? next[field] ?? null : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[field] = AUDIT_SECRET_FIELDS.has(field)
+      ? { before: redactAuditValue(from), after: redactAuditValue(to) }
+      : { before: from, after: to };
+  }
+
+  return changes;
+}
+
+function transitionValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Records the entries in audit_log, with only the changed fields, and changes of a task's
+ * TASK_TRANSITION_FIELDS in task_transitions. Updates that changed nothing are skipped.
+ */
+export async function writeAuditEntries(
+  db: SqlDatabase,
+  workspaceId: string,
+  actor: AuditActor,
+  entries: AuditEntryInput | AuditEntryInput[]
+): Promise<void> {
+  const rows = (Array.isArray(entries) ? entries : [entries])
+    .map((entry) => ({ ...entry, changes: diffChanges(entry.before ?? null, entry.after ?? null) }))
+    .filter((entry) => !entry.before || !entry.after || Object.keys(entry.changes).length > 0);
+  if (rows.length === 0) return;
+
+  // The actor's name at the time of the change, so renamed keys and users stay recognisable
+  const actorName = actor.type === 'api_key'
+    ? '(SELECT name FROM api_keys WHERE id = ?)'
+    : actor.type === 'user'
+      ? '(SELECT COALESCE(name, email) FROM users WHERE id = ?)'
+      : '?';
+  const nameParam = actor.type === 'bot' ? actor.name : actor.id;
+
+  const insert = db.prepare(
+    `INSERT INTO audit_log (workspace_id, actor_type, actor_id, actor_name, action, entity_type, entity_id, changes)
+     VALUES (?, ?, ?, ${actorName}, ?, ?, ?, ?)`
+  );
+  const transition = db.prepare(
+    `INSERT INTO task_transitions (workspace_id, task_id, field, from_value, to_value, actor_type, actor_id, actor_name)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ${actorName})`
+  );
+  const statements = rows.map((row) =>
+    insert.bind(
+      workspaceId,
+      actor.type,
+      actor.id,
+      nameParam,
+      row.action,
+      row.entityType,
+      row.entityId,
+      JSON.stringify(row.changes)
+    )
+  );
+  // Deleted tasks keep no history
+  for (const row of rows) {
+    if (row.entityType !== 'task' || !row.after) continue;
+    for (const field of TASK_TRANSITION_FIELDS) {
+      const change = row.changes[field];
+      if (!change) continue;
+      statements.push(transition.bind(
+        workspaceId,
+        row.entityId,
+        field,
+        transitionValue(change.before),
+        transitionValue(change.after),
+        actor.type,
+        actor.id,
+        nameParam
+      ));
+    }
+  }
+  await db.batch(statements);
+}
@@ -0,0 +1,36 @@
+// Roles, key scopes and rate limit tiers
+
+import { WORKSPACE_ROLES } from './types/index.js';
+import type { ApiKeyScope, RateLimitTier, ScopedAuth, WorkspaceRole } from './types/index.js';
+
+export function roleAtLeast(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) <= WORKSPACE_ROLES.indexOf(minimum);
+}
+
+export function hasScope(auth: ScopedAuth, scope: ApiKeyScope): boolean {
+  return !auth.scopes || auth.scopes.includes(scope);
+}
+
+export function canAccessTaskList(auth: ScopedAuth, taskListId: string | null): boolean {
+  return !auth.taskListIds || (taskListId !== null && auth.taskListIds.includes(taskListId));
+}
+
+// SQL condition limiting a query to the key's projects, e.g. ` AND t.task_list_id IN (?, ?)`
+export function taskListCondition(auth: ScopedAuth, column: string): { sql: string; params: string[] } {
+  if (!auth.taskListIds) {
+    return { sql: '', params: [] };
+  }
+  if (auth.taskListIds.length === 0) {
+    return { sql: ' AND 0', params: [] };
+  }
+  return {
+    sql: ` AND ${column} IN (${auth.taskListIds.map(() => '?').join(', ')})`,
+    params: auth.taskListIds,
+  };
+}
+
+// Keys without an explicit tier get the orchestrator tier when they can report sessions
+export function resolveRateLimitTier(tier: RateLimitTier | null, scopes: ApiKeyScope[] | null): RateLimitTier {
+  if (tier) return tier;
+  return !scopes || scopes.includes('sessions:write') ? 'orchestrator' : 'standard';
+}
@@ -1 +1,5 @@
 export * from './types/index.js';
+export * from './audit.js';
+export * from './auth.js';
+export * from './telegram.js';
+export * from './webhooks.js';
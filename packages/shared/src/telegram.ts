@@ -0,0 +1,45 @@
+// Inline keyboard task actions, on dashboard notifications and bot task cards alike
+
+import { TASK_ACTIONS } from './types/index.js';
+import type { InlineKeyboardButton, InlineKeyboardMarkup, TaskAction, TaskStatus } from './types/index.js';
+
+// Columns a human signs off or sends back from
+export const REVIEW_STATUSES: readonly TaskStatus[] = ['ai_review', 'testing', 'review'];
+
+export function isReviewStatus(status: string): boolean {
+  return (REVIEW_STATUSES as readonly string[]).includes(status);
+}
+
+export function taskCallback(action: TaskAction, taskId: string): string {
+  return `t:${action}:${taskId}`;
+}
+
+export function parseTaskCallback(data: string | undefined): { action: TaskAction; taskId: string } | null {
+  const match = data?.match(/^t:(\w+):(\S+)$/);
+  if (!match || !TASK_ACTIONS.includes(match[1] as TaskAction)) return null;
+  return { action: match[1] as TaskAction, taskId: match[2] };
+}
+
+// Buttons for what can be done with the task in its current state
+export function taskKeyboard(
+  task: { id: string; status: string; error_count: number },
+  dashboardUrl: string
+): InlineKeyboardMarkup {
+  const rows: InlineKeyboardButton[][] = [];
+  if (isReviewStatus(task.status)) {
+    rows.push([
+      { text: '✅ Approve', callback_data: taskCallback('approve', task.id) },
+      { text: '↩️ Reject', callback_data: taskCallback('reject', task.id) },
+    ]);
+  }
+  const secondRow: InlineKeyboardButton[] = [];
+  if (task.status !== 'done' && task.status !== 'backlog') {
+    secondRow.push({ text: '🔁 Retry', callback_data: taskCallback('retry', task.id) });
+  }
+  if (task.error_count > 0) {
+    secondRow.push({ text: `🧹 Reset errors (${task.error_count})`, callback_data: taskCallback('reset', task.id) });
+  }
+  if (secondRow.length > 0) rows.push(secondRow);
+  rows.push([{ text: '🔗 Open in dashboard', url: `${dashboardUrl}/dashboard?task=${encodeURIComponent(task.id)}` }]);
+  return { inline_keyboard: rows };
+}
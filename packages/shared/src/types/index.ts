@@ -1,6 +1,9 @@
 // Core domain types
 
-export type TaskStatus = 'backlog' | 'refinement' | 'todo' | 'review_rejected' | 'test_failed' | 'in_progress' | 'testing' | 'ai_review' | 'review' | 'done';
+export type BuiltinTaskStatus = 'backlog' | 'refinement' | 'todo' | 'review_rejected' | 'test_failed' | 'in_progress' | 'testing' | 'ai_review' | 'review' | 'done';
+// Statuses of workspace-defined workflow columns
+export type CustomTaskStatus = `custom_${string}`;
+export type TaskStatus = BuiltinTaskStatus | CustomTaskStatus;
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
 export type CommentType = 'progress' | 'question' | 'summary' | 'error' | 'human_message' | 'comment';
 export type AuthorType = 'bot' | 'user';
@@ -23,6 +26,9 @@ export interface TaskList {
   slug: string | null;
   is_active: boolean;
   is_initialized: boolean;
+  agent_runner: AgentRunnerKind;
+  agent_command: string | null;
+  max_concurrent_sessions: number; // Parallel orchestrator sessions, each in its own git worktree
   created_at: string;
   updated_at: string;
 }
@@ -54,6 +60,22 @@ export interface Task {
   // Claude session resumption
   claude_session_id: string | null;
 
+  // Orchestrator lease (see POST /api/tasks/:id/claim)
+  lease_holder: string | null;
+  lease_expires_at: string | null;
+
+  // Agent usage, summed over all of the task's sessions
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+
+  // Run policy overrides (NULL = project/workspace policy) and retry backoff
+  max_retries: number | null;
+  session_timeout_minutes: number | null;
+  next_attempt_at: string | null;
+
   // Time tracking
   created_at: string;
   updated_at: string;
@@ -84,7 +106,10 @@ export interface User {
   email: string;
   password_hash: string;
   name: string | null;
+  // The personal workspace created at signup; membership in others is in workspace_members
   workspace_id: string;
+  // Workspace the user last switched to, used at login
+  last_workspace_id: string | null;
   is_verified: boolean;
   is_active: boolean;
   created_at: string;
@@ -102,6 +127,11 @@ export interface ApiKey {
   created_at: string;
   expires_at: string | null;
   is_active: boolean;
+  // null = every scope / every project (keys created before scopes existed)
+  scopes: ApiKeyScope[] | null;
+  task_list_ids: string[] | null;
+  // null = derived from the scopes (see resolveRateLimitTier)
+  rate_limit_tier: RateLimitTier | null;
 }
 
 export interface TaskComment {
@@ -150,6 +180,7 @@ export type SessionEventType =
   | 'error'
   | 'session_start'
   | 'session_end'
+  | 'budget_exceeded'
   | 'notification';
 
 export interface Session {
@@ -158,6 +189,16 @@ export interface Session {
   project_id: string | null;
   current_task_id: string | null;
   status: SessionStatus;
+  holder_id: string | null; // Orchestrator instance running the session
+  session_type: LlmSessionType | null;
+  provider: LlmProvider | null;
+  model: string | null; // As reported by the agent
+  configured_model: string | null; // Resolved from the LLM session config at start
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
   started_at: string;
   last_event_at: string | null;
   summary: string | null;
@@ -180,6 +221,8 @@ export interface SessionEvent {
   created_at: string;
 }
 
+// Telegram chats now subscribe individually (TelegramSubscription); the chat columns
+// here are only read by migration 035
 export interface NotificationConfig {
   id: string;
   workspace_id: string;
@@ -200,17 +243,32 @@ export interface CreateSessionRequest {
   current_task_id?: string;
   status?: SessionStatus;
   summary?: string;
+  holder_id?: string;
+  session_type?: LlmSessionType;
+  provider?: LlmProvider;
+  configured_model?: string | null;
 }
 
 export interface CreateSessionResponse {
   session: Session;
 }
 
+export interface SessionUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+}
+
 export interface UpdateSessionRequest {
   status?: SessionStatus;
   current_task_id?: string | null;
   summary?: string;
   last_event_at?: string;
+  model?: string;
+  // Cumulative for the session; the task's totals move by the difference
+  usage?: SessionUsage;
 }
 
 export interface UpdateSessionResponse {
@@ -253,6 +311,439 @@ export interface UpdateNotificationConfigRequest {
   notify_on_error?: boolean;
 }
 
+// Telegram subscriptions: each linked chat picks the projects and events it hears about
+
+export type TelegramEventType = 'task_completed' | 'stuck' | 'needs_input' | 'error' | 'budget_exceeded';
+
+export const TELEGRAM_EVENT_TYPES: TelegramEventType[] = ['task_completed', 'stuck', 'needs_input', 'error', 'budget_exceeded'];
+
+export const TELEGRAM_EVENT_TYPE_LABELS: Record<TelegramEventType, string> = {
+  task_completed: 'Task completed',
+  stuck: 'Stuck',
+  needs_input: 'Needs input',
+  error: 'Error',
+  budget_exceeded: 'Budget exceeded',
+};
+
+export interface TelegramSubscription {
+  id: string;
+  workspace_id: string;
+  chat_id: string;
+  chat_type: 'private' | 'group' | 'supergroup';
+  chat_title: string | null;
+  // null = every project
+  task_list_ids: string[] | null;
+  event_types: TelegramEventType[];
+  // 'HH:MM' in timezone; notifications in between arrive without sound
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListTelegramSubscriptionsResponse {
+  subscriptions: TelegramSubscription[];
+}
+
+export interface UpdateTelegramSubscriptionRequest {
+  task_list_ids?: string[] | null;
+  event_types?: TelegramEventType[];
+  quiet_hours_start?: string | null;
+  quiet_hours_end?: string | null;
+  timezone?: string;
+  enabled?: boolean;
+}
+
+export interface TelegramSubscriptionResponse {
+  subscription: TelegramSubscription;
+}
+
+// Inline keyboard task actions, on dashboard notifications and bot task cards alike.
+// The bot worker handles the presses; callback data is "t:<action>:<task id>" (Telegram
+// allows 64 bytes). Built by taskKeyboard in telegram.ts.
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export type TaskAction = 'view' | 'approve' | 'reject' | 'retry' | 'reset';
+
+export const TASK_ACTIONS: TaskAction[] = ['view', 'approve', 'reject', 'retry', 'reset'];
+
+// Outbound webhooks: each posts the events it subscribes to to a URL, signed with its
+// secret. Failed deliveries are retried with exponential backoff.
+
+export type WebhookEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.moved'
+  | 'task.deleted'
+  | 'comment.added'
+  | 'session.started'
+  | 'session.ended'
+  | 'session.stuck';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'task.created', 'task.updated', 'task.moved', 'task.deleted',
+  'comment.added', 'session.started', 'session.ended', 'session.stuck',
+];
+
+export const WEBHOOK_EVENT_TYPE_LABELS: Record<WebhookEventType, string> = {
+  'task.created': 'Task created',
+  'task.updated': 'Task updated',
+  'task.moved': 'Task moved',
+  'task.deleted': 'Task deleted',
+  'comment.added': 'Comment added',
+  'session.started': 'Session started',
+  'session.ended': 'Session ended',
+  'session.stuck': 'Session stuck',
+};
+
+// json: the signed event envelope; slack and discord: a message their incoming webhooks accept
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'slack', 'discord'];
+
+export interface Webhook {
+  id: string;
+  workspace_id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  event_types: WebhookEventType[];
+  enabled: boolean;
+  // Only returned when the webhook is created; the list shows secret_preview
+  secret?: string;
+  secret_preview: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Body of a json webhook; X-Taskinfa-Signature-256 is "sha256=" + HMAC-SHA256 of it with the secret
+export interface WebhookPayload {
+  // Same for every webhook the event was sent to, and for redeliveries
+  id: string;
+  event: WebhookEventType;
+  created_at: string;
+  workspace_id: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  // The request body as sent
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  // When a pending delivery is tried again
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  created_at: string;
+}
+
+export interface CreateWebhookRequest {
+  name: string;
+  url: string;
+  format?: WebhookFormat;
+  event_types: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookRequest {
+  name?: string;
+  url?: string;
+  format?: WebhookFormat;
+  event_types?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface WebhookResponse {
+  webhook: Webhook;
+}
+
+export interface ListWebhooksResponse {
+  webhooks: Webhook[];
+}
+
+export interface ListWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookDeliveryResponse {
+  delivery: WebhookDelivery;
+}
+
+export interface RetryWebhookDeliveriesResponse {
+  attempted: number;
+  succeeded: number;
+}
+
+export interface WebhookEvent {
+  event: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+// Budget types (spend caps enforced by the orchestrator)
+
+export interface BudgetLimit {
+  id: string;
+  workspace_id: string;
+  task_list_id: string | null; // NULL = workspace budget
+  daily_limit_usd: number | null;
+  monthly_limit_usd: number | null;
+  task_limit_usd: number | null; // Project value overrides the workspace value
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetSpend {
+  daily_usd: number;
+  monthly_usd: number;
+}
+
+export interface GetBudgetsResponse {
+  limits: BudgetLimit[];
+  spend: {
+    workspace: BudgetSpend;
+    projects: Record<string, BudgetSpend>;
+  };
+  // Mean cost of recent sessions, used to predict whether a new one fits
+  avg_session_cost_usd: number;
+}
+
+export interface UpsertBudgetRequest {
+  task_list_id?: string | null;
+  daily_limit_usd?: number | null;
+  monthly_limit_usd?: number | null;
+  task_limit_usd?: number | null;
+}
+
+export interface UpsertBudgetResponse {
+  // null when every cap was cleared and the row removed
+  limit: BudgetLimit | null;
+}
+
+// Run policy types (retries, timeouts and backoff for orchestrator sessions)
+
+export interface RunPolicySettings {
+  max_retries: number | null;
+  session_timeout_minutes: number | null;
+  retry_backoff_seconds: number | null;
+  retry_backoff_max_seconds: number | null;
+  // Only honoured on the workspace-wide policy
+  max_concurrent_sessions: number | null;
+}
+
+export interface RunPolicy extends RunPolicySettings {
+  id: string;
+  workspace_id: string;
+  task_list_id: string | null; // NULL = workspace policy
+  session_type: LlmSessionType | null; // NULL = every session type
+  created_at: string;
+  updated_at: string;
+}
+
+// Accepted range of each setting (tasks use the same bounds for their overrides)
+export const RUN_POLICY_BOUNDS: Record<keyof RunPolicySettings, { min: number; max: number }> = {
+  max_retries: { min: 0, max: 20 },
+  session_timeout_minutes: { min: 1, max: 1440 },
+  retry_backoff_seconds: { min: 0, max: 86400 },
+  retry_backoff_max_seconds: { min: 0, max: 604800 },
+  max_concurrent_sessions: { min: 1, max: 50 },
+};
+
+export interface ListRunPoliciesResponse {
+  policies: RunPolicy[];
+}
+
+export interface UpsertRunPolicyRequest extends Partial<RunPolicySettings> {
+  task_list_id?: string | null;
+  session_type?: LlmSessionType | null;
+}
+
+export interface UpsertRunPolicyResponse {
+  // null when every setting was cleared and the policy removed
+  policy: RunPolicy | null;
+}
+
+// Task lease types (multiple orchestrator instances)
+
+export interface TaskLeaseRequest {
+  holder_id: string;
+  // Lease length; defaults to 300 seconds
+  lease_seconds?: number;
+  // Only claim if the task is still in this status (ignored on renewal)
+  expected_status?: TaskStatus;
+  // Status to move the task to once claimed
+  status?: TaskStatus;
+}
+
+export interface TaskLeaseResponse {
+  task: Task;
+  lease: { holder_id: string; expires_at: string };
+}
+
+export interface ReclaimLeasesResponse {
+  reclaimed: Array<{ task_id: string; holder_id: string; status: TaskStatus }>;
+}
+
+// Session transcripts (what the agent did, streamed by the orchestrator)
+
+export type TranscriptEntryKind =
+  | 'system'       // Session init (model, cwd)
+  | 'assistant'    // Assistant text
+  | 'tool_use'     // Tool call (input in content)
+  | 'file_edit'    // Edit/Write tool call; metadata.file_path is set
+  | 'tool_result'  // Tool output
+  | 'stderr'       // Agent stderr
+  | 'result';      // Final result (cost, duration, turns in metadata)
+
+export interface SessionTranscriptEntry {
+  id: number;
+  session_id: string;
+  seq: number; // Orchestrator-assigned order within the session
+  kind: TranscriptEntryKind;
+  tool_name: string | null;
+  content: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AppendTranscriptEntry {
+  seq: number;
+  kind: TranscriptEntryKind;
+  tool_name?: string | null;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AppendTranscriptRequest {
+  entries: AppendTranscriptEntry[];
+}
+
+export interface AppendTranscriptResponse {
+  appended: number;
+}
+
+export interface GetTranscriptResponse {
+  entries: SessionTranscriptEntry[];
+  // Pass back as ?after= to receive only newer entries
+  cursor: number;
+  has_more: boolean;
+}
+
+// Orchestrator wake-up signals ("work available")
+
+// 'orchestrator_command' wakes orchestrators to fetch queued control commands
+export type WorkSignalReason = 'task_status' | 'human_message' | 'orchestrator_command';
+
+export interface WorkSignal {
+  id: number;
+  reason: WorkSignalReason;
+  task_id: string | null;
+  created_at: string;
+}
+
+export interface GetWorkSignalsResponse {
+  signals: WorkSignal[];
+  // Pass back as ?after= to receive only newer signals
+  cursor: number;
+}
+
+// Orchestrator registration and control
+
+// paused: no new sessions; draining: no new sessions, exits once running sessions finish
+export type OrchestratorState = 'running' | 'paused' | 'draining' | 'stopped';
+export type OrchestratorCommandType = 'pause' | 'resume' | 'drain' | 'kill_session' | 'poll';
+export type OrchestratorCommandStatus = 'pending' | 'delivered' | 'done' | 'failed';
+
+export interface OrchestratorActiveSession {
+  session_id: string;
+  task_id: string;
+  project_id: string;
+  started_at: string;
+}
+
+export interface OrchestratorInstance {
+  id: string;
+  workspace_id: string;
+  hostname: string | null;
+  pid: number | null;
+  version: string | null;
+  state: OrchestratorState;
+  config: Record<string, unknown>;
+  active_sessions: OrchestratorActiveSession[];
+  started_at: string;
+  last_heartbeat_at: string;
+  // Heartbeat seen recently enough to consider the daemon alive
+  online: boolean;
+}
+
+export interface OrchestratorCommand {
+  id: number;
+  orchestrator_id: string;
+  command: OrchestratorCommandType;
+  session_id: string | null;
+  status: OrchestratorCommandStatus;
+  result: string | null;
+  created_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface OrchestratorHeartbeatRequest {
+  orchestrator_id: string;
+  hostname?: string;
+  pid?: number;
+  version?: string;
+  state: OrchestratorState;
+  config?: Record<string, unknown>;
+  active_sessions?: OrchestratorActiveSession[];
+}
+
+export interface OrchestratorHeartbeatResponse {
+  // Commands queued for this orchestrator since its last heartbeat
+  commands: OrchestratorCommand[];
+}
+
+export interface ListOrchestratorsResponse {
+  orchestrators: OrchestratorInstance[];
+  // Most recent commands, newest first
+  commands: OrchestratorCommand[];
+}
+
+export interface CreateOrchestratorCommandRequest {
+  command: OrchestratorCommandType;
+  // Optional for kill_session: defaults to the orchestrator running the session
+  orchestrator_id?: string;
+  session_id?: string;
+}
+
+export interface CreateOrchestratorCommandResponse {
+  command: OrchestratorCommand;
+}
+
+export interface CompleteOrchestratorCommandRequest {
+  status: 'done' | 'failed';
+  result?: string;
+}
+
 // API request/response types
 
 export type TaskSortField = 'created_at' | 'updated_at' | 'priority' | 'title' | 'order';
@@ -269,8 +760,20 @@ export interface TaskFilters {
   created_before?: string;
   sort?: TaskSortField;
   order?: SortOrder;
+  // Board layout only; the tasks API ignores it
+  swimlanes?: SwimlaneField;
 }
 
+// Task field the board groups horizontal lanes by
+export type SwimlaneField = 'task_list_id' | 'priority' | 'assigned_to' | 'label';
+
+export const SWIMLANE_FIELD_LABELS: Record<SwimlaneField, string> = {
+  task_list_id: 'Project',
+  priority: 'Priority',
+  assigned_to: 'Assignee',
+  label: 'Label',
+};
+
 export interface SavedFilter {
   id: string;
   workspace_id: string;
@@ -487,12 +990,205 @@ export interface LoginResponse {
 
 export interface GetMeResponse {
   user: Omit<User, 'password_hash'>;
+  // The workspace the session is in, and the user's role there
+  workspace: Workspace;
+  role: WorkspaceRole;
+  workspaces: WorkspaceMembership[];
+}
+
+// Workspace membership and roles
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+// Highest first
+export const WORKSPACE_ROLES: readonly WorkspaceRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Full control, including owners and the workspace itself',
+  admin: 'Manage members, invites, API keys and workspace settings',
+  member: 'Create, edit and move tasks and projects',
+  viewer: 'Read-only access to the board',
+};
+
+export interface WorkspaceMembership {
+  workspace_id: string;
+  workspace_name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface ListMembersResponse {
+  members: WorkspaceMember[];
+}
+
+export interface UpdateMemberRequest {
+  role: WorkspaceRole;
+}
+
+export interface UpdateMemberResponse {
+  member: WorkspaceMember;
+}
+
+// Owners are made by promoting a member, never through an invite
+export type InviteRole = Exclude<WorkspaceRole, 'owner'>;
+
+export interface WorkspaceInvite {
+  id: string;
+  role: InviteRole;
+  created_by: string | null;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ListInvitesResponse {
+  invites: WorkspaceInvite[];
+}
+
+export interface CreateInviteRequest {
+  role: InviteRole;
+  expires_in_days?: number;
+}
+
+export interface CreateInviteResponse {
+  invite: WorkspaceInvite;
+  // Only returned once; the link is /invite/<token>
+  token: string;
+}
+
+export interface InvitePreviewResponse {
+  workspace_name: string;
+  role: InviteRole;
+  expires_at: string;
+  already_member: boolean;
+}
+
+export interface AcceptInviteResponse {
   workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+export interface SwitchWorkspaceRequest {
+  workspace_id: string;
+}
+
+// API key scopes
+// Scopes narrow what a key may do on top of its creator's role; they never widen it.
+
+export type ApiKeyScope =
+  | 'tasks:read'
+  | 'tasks:write'
+  | 'comments:write'
+  | 'sessions:write'
+  | 'workspace:admin'
+  | 'llm-config:admin'
+  | 'keys:admin';
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  'tasks:read',
+  'tasks:write',
+  'comments:write',
+  'sessions:write',
+  'workspace:admin',
+  'llm-config:admin',
+  'keys:admin',
+];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'tasks:read': 'Read tasks, projects, comments, sessions and workspace settings',
+  'tasks:write': 'Create, edit, move, claim and delete tasks and projects',
+  'comments:write': 'Post task comments',
+  'sessions:write': 'Report sessions, transcripts, events and orchestrator heartbeats',
+  'workspace:admin': 'Change members, invites, feature toggles, budgets, run policies and send orchestrator commands',
+  'llm-config:admin': 'Read and change LLM provider credentials and session configs',
+  'keys:admin': 'List, create and revoke API keys',
+};
+
+// Least-privilege starting points for the create dialog
+export const API_KEY_SCOPE_PRESETS: Record<'orchestrator' | 'read_only' | 'full', readonly ApiKeyScope[]> = {
+  orchestrator: ['tasks:read', 'tasks:write', 'comments:write', 'sessions:write'],
+  read_only: ['tasks:read'],
+  full: API_KEY_SCOPES,
+};
+
+// A caller's key restrictions; undefined or null = unrestricted (session users, legacy keys).
+// Keys restricted to projects only see and touch those projects.
+export interface ScopedAuth {
+  scopes?: ApiKeyScope[] | null;
+  taskListIds?: string[] | null;
+}
+
+// API rate limit tiers
+// Requests are counted per key (or per user for the dashboard) in a one-minute window.
+// Orchestrators poll many statuses and get the higher tier.
+
+export type RateLimitTier = 'standard' | 'orchestrator';
+
+export const RATE_LIMIT_TIERS: readonly RateLimitTier[] = ['standard', 'orchestrator'];
+
+export const RATE_LIMIT_TIER_LABELS: Record<RateLimitTier, string> = {
+  standard: 'Standard',
+  orchestrator: 'Orchestrator',
+};
+
+// Accepted range of a workspace override (requests per minute)
+export const RATE_LIMIT_OVERRIDE_BOUNDS = { min: 10, max: 10000 };
+
+export interface WorkspaceRateLimit {
+  tier: RateLimitTier;
+  default_max_requests: number;
+  // Workspace override; null = default
+  max_requests: number | null;
+  window_seconds: number;
+}
+
+export interface ListRateLimitsResponse {
+  limits: WorkspaceRateLimit[];
+}
+
+export interface UpdateRateLimitRequest {
+  tier: RateLimitTier;
+  // null removes the override
+  max_requests: number | null;
+}
+
+export interface UpdateRateLimitResponse {
+  limit: WorkspaceRateLimit;
+}
+
+// Requests made in the current window against the key's effective limit
+export interface ApiKeyUsage {
+  tier: RateLimitTier;
+  used: number;
+  limit: number;
+  window_seconds: number;
 }
 
 export interface CreateApiKeyRequest {
   name: string;
   expiresInDays?: number;
+  // Omit for a key with every scope
+  scopes?: ApiKeyScope[];
+  // Omit for a key that can reach every project
+  taskListIds?: string[];
+  // Omit to derive the tier from the scopes
+  rateLimitTier?: RateLimitTier;
 }
 
 export interface CreateApiKeyResponse {
@@ -501,6 +1197,9 @@ export interface CreateApiKeyResponse {
   name: string;
   created_at: string;
   expires_at: string | null;
+  scopes: ApiKeyScope[] | null;
+  task_list_ids: string[] | null;
+  rate_limit_tier: RateLimitTier | null;
   warning: string;
 }
 
@@ -513,6 +1212,10 @@ export interface ListApiKeysResponse {
     created_at: string;
     expires_at: string | null;
     is_active: boolean;
+    scopes: ApiKeyScope[] | null;
+    task_list_ids: string[] | null;
+    rate_limit_tier: RateLimitTier | null;
+    usage: ApiKeyUsage;
   }>;
 }
 
@@ -588,6 +1291,113 @@ export interface StatusColumn {
   label: string;
   icon: string;
   featureKey?: FeatureKey;
+  // Set on custom workflow columns
+  workflowColumnId?: string;
+  orchestrated?: boolean;
+  // Most tasks the column should hold; null = no limit
+  wipLimit?: number | null;
+  // Refuse drops into the column while it is at its limit
+  blockWhenFull?: boolean;
+}
+
+export const CUSTOM_STATUS_PREFIX = 'custom_';
+
+export function isCustomStatus(status: string | null | undefined): status is CustomTaskStatus {
+  return !!status && status.startsWith(CUSTOM_STATUS_PREFIX) && status.length > CUSTOM_STATUS_PREFIX.length;
+}
+
+// Statuses the orchestrator picks tasks up from — moves into anything else are not work
+export const ORCHESTRATOR_INPUT_STATUSES: readonly TaskStatus[] = [
+  'todo',
+  'review_rejected',
+  'test_failed',
+  'ai_review',
+  'testing',
+  'refinement',
+];
+
+// Custom columns count too: only orchestrated ones are work, but telling them apart needs
+// a query and a spurious wake-up just costs the orchestrator one poll
+export function isOrchestratorInputStatus(status: string | null | undefined): boolean {
+  return !!status && ((ORCHESTRATOR_INPUT_STATUSES as readonly string[]).includes(status) || isCustomStatus(status));
+}
+
+// A task leaving a column may free room under its WIP limit, letting the orchestrator
+// resume work it held back. Backlog and Done take no limit.
+export function releasesWipLimit(fromStatus: string | null | undefined, toStatus: string | null | undefined): boolean {
+  return !!fromStatus && !!toStatus && fromStatus !== toStatus && fromStatus !== 'backlog' && fromStatus !== 'done';
+}
+
+// Workspace-defined column, shown after a built-in status
+export interface WorkflowColumn {
+  id: string;
+  workspace_id: string;
+  // null = every project
+  task_list_id: string | null;
+  status: CustomTaskStatus;
+  label: string;
+  icon: string;
+  after_status: BuiltinTaskStatus;
+  position: number;
+  wip_limit: number | null;
+  block_when_full: boolean;
+  orchestrated: boolean;
+  // What the orchestrator's agent does with tasks in the column
+  instructions: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListWorkflowColumnsResponse {
+  columns: WorkflowColumn[];
+}
+
+export interface CreateWorkflowColumnRequest {
+  label: string;
+  // Slug for the status; derived from the label when omitted
+  key?: string;
+  icon?: string;
+  task_list_id?: string | null;
+  after_status: BuiltinTaskStatus;
+  position?: number;
+  wip_limit?: number | null;
+  block_when_full?: boolean;
+  orchestrated?: boolean;
+  instructions?: string | null;
+}
+
+// WIP limit of a built-in column, counted across the workspace
+export interface ColumnWipLimit {
+  id: string;
+  workspace_id: string;
+  status: BuiltinTaskStatus;
+  wip_limit: number;
+  block_when_full: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GetWipLimitsResponse {
+  limits: ColumnWipLimit[];
+  // Tasks per status right now
+  counts: Partial<Record<TaskStatus, number>>;
+}
+
+export interface UpsertWipLimitRequest {
+  status: BuiltinTaskStatus;
+  // null removes the limit
+  wip_limit: number | null;
+  block_when_full?: boolean;
+}
+
+export interface UpsertWipLimitResponse {
+  limit: ColumnWipLimit | null;
+}
+
+export type UpdateWorkflowColumnRequest = Partial<Omit<CreateWorkflowColumnRequest, 'key' | 'task_list_id'>>;
+
+export interface WorkflowColumnResponse {
+  column: WorkflowColumn;
 }
 
 /** Base columns always present on the board */
@@ -617,8 +1427,13 @@ const FEATURE_COLUMNS: Record<FeatureKey, StatusColumn[]> = {
 /**
  * Build the dynamic status columns array based on enabled feature toggles.
  * Full order with both features: Backlog -> Refinement -> To Do -> Review Rejected -> Test Failed -> In Progress -> AI Review -> Testing -> Review -> Done
+ * Custom workflow columns follow their after_status; when that column is hidden they go before Done.
  */
-export function getStatusColumns(enabledFeatures: Record<FeatureKey, boolean>): StatusColumn[] {
+export function getStatusColumns(
+  enabledFeatures: Record<FeatureKey, boolean>,
+  workflowColumns: WorkflowColumn[] = [],
+  wipLimits: ColumnWipLimit[] = []
+): StatusColumn[] {
   const columns: StatusColumn[] = [];
 
   for (const base of BASE_COLUMNS) {
@@ -650,14 +1465,70 @@ export function getStatusColumns(enabledFeatures: Record<FeatureKey, boolean>):
     }
   }
 
-  return columns;
+  if (wipLimits.length > 0) {
+    for (const [i, column] of columns.entries()) {
+      const limit = wipLimits.find(l => l.status === column.status);
+      if (limit) {
+        columns[i] = { ...column, wipLimit: limit.wip_limit, blockWhenFull: limit.block_when_full };
+      }
+    }
+  }
+
+  if (workflowColumns.length === 0) {
+    return columns;
+  }
+
+  const sorted = [...workflowColumns].sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+  const withCustom: StatusColumn[] = [];
+  for (const column of columns) {
+    if (column.status === 'done') {
+      const orphaned = sorted.filter(c => !columns.some(existing => existing.status === c.after_status));
+      withCustom.push(...orphaned.map(toStatusColumn));
+    }
+    withCustom.push(column);
+    withCustom.push(...sorted.filter(c => c.after_status === column.status).map(toStatusColumn));
+  }
+
+  return withCustom;
+}
+
+function toStatusColumn(column: WorkflowColumn): StatusColumn {
+  return {
+    status: column.status,
+    label: column.label,
+    icon: column.icon,
+    workflowColumnId: column.id,
+    orchestrated: column.orchestrated,
+    wipLimit: column.wip_limit,
+    blockWhenFull: column.block_when_full,
+  };
 }
 
 /**
- * Get the list of valid task statuses for a workspace based on enabled feature toggles.
+ * Whether a column holding `count` tasks can take one more.
  */
-export function getValidStatuses(enabledFeatures: Record<FeatureKey, boolean>): TaskStatus[] {
-  return getStatusColumns(enabledFeatures).map(c => c.status);
+export function isColumnFull(column: StatusColumn, count: number): boolean {
+  return column.wipLimit != null && count >= column.wipLimit;
+}
+
+/**
+ * Custom columns on a project's board: workspace-wide ones plus the project's own.
+ * Without a project (e.g. the all-projects board) every column is included.
+ */
+export function workflowColumnsFor(columns: WorkflowColumn[], taskListId?: string | null): WorkflowColumn[] {
+  if (taskListId === undefined) return columns;
+  return columns.filter(c => c.task_list_id === null || c.task_list_id === taskListId);
+}
+
+/**
+ * Get the list of valid task statuses for a workspace based on enabled feature toggles
+ * and its custom workflow columns.
+ */
+export function getValidStatuses(
+  enabledFeatures: Record<FeatureKey, boolean>,
+  workflowColumns: WorkflowColumn[] = []
+): TaskStatus[] {
+  return getStatusColumns(enabledFeatures, workflowColumns).map(c => c.status);
 }
 
 // LLM Provider types
@@ -682,6 +1553,8 @@ export interface LlmSessionConfig {
   session_type: LlmSessionType;
   provider: LlmProvider;
   model: string | null;
+  agent_runner: AgentRunnerKind | null; // NULL = inherit project runner
+  agent_command: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -713,7 +1586,210 @@ export const LLM_SESSION_TYPE_LABELS: Record<LlmSessionType, string> = {
   message: 'Message (async chat)',
 };
 
+// Agent runner types
+
+export type AgentRunnerKind = 'claude' | 'shell';
+
+export const AGENT_RUNNER_LABELS: Record<AgentRunnerKind, string> = {
+  claude: 'Claude Code',
+  shell: 'Shell command',
+};
+
 export interface GetLlmConfigResponse {
   providers: LlmProviderRecord[];
   session_configs: LlmSessionConfig[];
 }
+
+// Audit log
+// Append-only record of who changed what. Dashboard users and API keys are recorded by
+// their ID (with the name they had at the time); the Telegram bot records its own name.
+
+export type AuditActorType = 'user' | 'api_key' | 'bot';
+
+export type AuditEntityType = 'task' | 'task_list' | 'api_key' | 'feature_toggle' | 'workflow_column' | 'wip_limit' | 'llm_provider' | 'llm_session_config' | 'telegram_subscription' | 'webhook';
+
+export type AuditAction =
+  | 'task.create'
+  | 'task.update'
+  | 'task.delete'
+  | 'task.claim'
+  | 'task.dependency_add'
+  | 'task.dependency_remove'
+  | 'task_list.create'
+  | 'task_list.update'
+  | 'task_list.delete'
+  | 'api_key.create'
+  | 'api_key.rename'
+  | 'api_key.revoke'
+  | 'feature_toggle.update'
+  | 'workflow_column.create'
+  | 'workflow_column.update'
+  | 'workflow_column.delete'
+  | 'wip_limit.update'
+  | 'llm_provider.update'
+  | 'llm_session_config.update'
+  | 'llm_session_config.delete'
+  | 'telegram_subscription.update'
+  | 'telegram_subscription.delete'
+  | 'webhook.create'
+  | 'webhook.update'
+  | 'webhook.delete';
+
+export const AUDIT_ENTITY_TYPE_LABELS: Record<AuditEntityType, string> = {
+  task: 'Task',
+  task_list: 'Project',
+  api_key: 'API key',
+  feature_toggle: 'Feature toggle',
+  workflow_column: 'Workflow column',
+  wip_limit: 'WIP limit',
+  llm_provider: 'LLM provider',
+  llm_session_config: 'LLM session config',
+  telegram_subscription: 'Telegram chat',
+  webhook: 'Webhook',
+};
+
+// Changed fields only; created entities have before = null, deleted ones after = null
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: number;
+  workspace_id: string;
+  actor_type: AuditActorType;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  changes: AuditChanges;
+  created_at: string;
+}
+
+export interface ListAuditLogResponse {
+  entries: AuditLogEntry[];
+  // Pass as ?before= to load older entries; null when there are none
+  next_cursor: number | null;
+}
+
+// Task history
+// Every change of a tracked field is a transition row; the timeline merges them with the
+// task's comments and session events, oldest first.
+
+export type TaskTransitionField = 'status' | 'priority' | 'assigned_to' | 'labels';
+
+export const TASK_TRANSITION_FIELDS: TaskTransitionField[] = ['status', 'priority', 'assigned_to', 'labels'];
+
+export interface TaskTransition {
+  id: number;
+  workspace_id: string;
+  task_id: string;
+  field: TaskTransitionField;
+  // null from_value = set when the task was created; labels hold their JSON array
+  from_value: string | null;
+  to_value: string | null;
+  actor_type: AuditActorType;
+  actor_id: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+// Writing the audit log and task history (writeAuditEntries in audit.ts)
+
+// The part of a D1 database binding the shared write helpers use (audit.ts, webhooks.ts)
+export interface SqlStatement {
+  bind(...values: unknown[]): SqlStatement;
+  run(): Promise<unknown>;
+  all<T>(): Promise<{ results?: T[] }>;
+}
+
+export interface SqlDatabase {
+  prepare(query: string): SqlStatement;
+  batch(statements: SqlStatement[]): Promise<unknown>;
+}
+
+// Who made a change. Users and API keys are named from their row at the time; bots (an
+// orchestrator, the Telegram bot) by their own name, with the API key they act with as ID.
+export type AuditActor =
+  | { type: 'user' | 'api_key'; id: string | null }
+  | { type: 'bot'; id: string | null; name: string };
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Entity before and after the change; omit before for creates and after for deletes
+  before?: object | null;
+  after?: object | null;
+}
+
+export type TaskTimelineEntry =
+  | { kind: 'transition'; created_at: string; transition: TaskTransition }
+  | { kind: 'comment'; created_at: string; comment: TaskComment }
+  | { kind: 'session_event'; created_at: string; event: SessionEvent };
+
+export interface TaskTimelineResponse {
+  entries: TaskTimelineEntry[];
+}
+
+// Hours tasks spent in each status, from consecutive status transitions
+export interface TimeInStatus {
+  status: TaskStatus;
+  avg_hours: number;
+  total_hours: number;
+  // Dwell-time percentiles of single visits
+  p50_hours: number;
+  p85_hours: number;
+  p95_hours: number;
+  // Times a task entered the status
+  visits: number;
+}
+
+// Number of tasks in each status at the end of a day
+export type CumulativeFlowPoint = { date: string } & Partial<Record<TaskStatus, number>>;
+
+// Lead time runs from creation to done, cycle time from first entering in_progress to done
+export interface LeadCycleTimeRow {
+  date: string;
+  lead_hours: number;
+  cycle_hours: number | null;
+  tasks: number;
+}
+
+export type ReworkStatus = 'review_rejected' | 'test_failed';
+
+// Tasks by how many times they were sent back, e.g. { rounds: '2', review_rejected: 4, test_failed: 1 }
+export type ReworkBucket = { rounds: string } & Record<ReworkStatus, number>;
+
+export interface ReworkSummary {
+  status: ReworkStatus;
+  tasks: number;
+  rounds: number;
+}
+
+// Agent effectiveness
+// Sessions grouped by provider, model and session type. Review and test outcomes are
+// those of the work an implementing session produced: the task's next exit from
+// ai_review or testing after the session started.
+
+export const IMPLEMENTING_SESSION_TYPES: LlmSessionType[] = ['task', 'fix_review', 'fix_test_failure'];
+
+export interface AgentEffectivenessRow {
+  provider: LlmProvider | null;
+  // Reported by the agent, or the configured model when it reported none
+  model: string | null;
+  session_type: LlmSessionType | null;
+  sessions: number;
+  // Percent of finished sessions that completed
+  success_rate: number;
+  // Sessions that re-ran the same stage on a task
+  retries: number;
+  // Percent; null for session types that do not implement, or when nothing was reviewed/tested yet
+  review_rejection_rate: number | null;
+  test_pass_rate: number | null;
+  avg_duration_minutes: number;
+  cost_usd: number;
+  avg_cost_usd: number;
+}
+
+export interface AgentEffectivenessResponse {
+  rows: AgentEffectivenessRow[];
+}
@@ -0,0 +1,114 @@
+// Building and queueing outbound webhook deliveries
+// The dashboard sends them; the Telegram bot only queues.
+
+import { WEBHOOK_EVENT_TYPE_LABELS } from './types/index.js';
+import type {
+  SqlDatabase,
+  SqlStatement,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookFormat,
+  WebhookPayload,
+} from './types/index.js';
+
+// Discord rejects longer message content
+const DISCORD_CONTENT_LIMIT = 2000;
+
+function eventField(data: Record<string, unknown>, key: string): Record<string, unknown> {
+  const value = data[key];
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+}
+
+// One line for chat formats, e.g. "Task moved: Fix login (todo → in_progress)"
+export function describeWebhookEvent(event: WebhookEventType, data: Record<string, unknown>): string {
+  const label = WEBHOOK_EVENT_TYPE_LABELS[event];
+  const task = eventField(data, 'task');
+  const title = typeof task.title === 'string' ? task.title : null;
+
+  switch (event) {
+    case 'task.moved':
+      return `${label}: ${title} (${data.from_status} → ${data.to_status})`;
+    case 'task.updated': {
+      const changed = Object.keys(eventField(data, 'previous'));
+      return `${label}: ${title}${changed.length > 0 ? ` (${changed.join(', ')})` : ''}`;
+    }
+    case 'comment.added': {
+      const comment = eventField(data, 'comment');
+      return `${label} on ${title ?? 'a task'} by ${comment.author}: ${comment.content}`;
+    }
+    case 'session.started':
+    case 'session.ended':
+    case 'session.stuck': {
+      const session = eventField(data, 'session');
+      const detail = (typeof data.message === 'string' && data.message) || session.summary;
+      return `${label}${title ? `: ${title}` : ''}${detail ? `\n${detail}` : ''}`;
+    }
+    default:
+      return `${label}: ${title}`;
+  }
+}
+
+export function buildWebhookBody(format: WebhookFormat, payload: WebhookPayload): string {
+  switch (format) {
+    case 'slack':
+      return JSON.stringify({ text: describeWebhookEvent(payload.event, payload.data) });
+    case 'discord':
+      return JSON.stringify({ content: describeWebhookEvent(payload.event, payload.data).slice(0, DISCORD_CONTENT_LIMIT) });
+    default:
+      return JSON.stringify(payload);
+  }
+}
+
+function parseWebhookEventTypes(json: string): WebhookEventType[] {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed as WebhookEventType[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Queues a delivery of each event to every enabled webhook of the workspace subscribed
+ * to it, due at once. Nothing is sent here, so a slow endpoint can't hold up the change:
+ * the dashboard sends due deliveries after its response, and the retry sweep every
+ * orchestrator runs picks up the rest. newId makes the event ("whe") and delivery ("whd")
+ * IDs. Returns how many deliveries were queued.
+ */
+export async function queueWebhookEvents(
+  db: SqlDatabase,
+  workspaceId: string,
+  events: WebhookEvent[],
+  newId: (prefix: 'whe' | 'whd') => string
+): Promise<number> {
+  if (events.length === 0) return 0;
+  const { results = [] } = await db.prepare(
+    'SELECT id, format, event_types FROM webhooks WHERE workspace_id = ? AND enabled = 1'
+  ).bind(workspaceId).all<{ id: string; format: WebhookFormat; event_types: string }>();
+  const webhooks = results.map((row) => ({ ...row, events: parseWebhookEventTypes(row.event_types) }));
+
+  const inserts: SqlStatement[] = [];
+  for (const { event, data } of events) {
+    const recipients = webhooks.filter((webhook) => webhook.events.includes(event));
+    if (recipients.length === 0) continue;
+
+    const payload: WebhookPayload = {
+      id: newId('whe'),
+      event,
+      created_at: new Date().toISOString(),
+      workspace_id: workspaceId,
+      data,
+    };
+    for (const webhook of recipients) {
+      inserts.push(db.prepare(
+        `INSERT INTO webhook_deliveries (id, webhook_id, workspace_id, event_id, event_type, payload, status, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'pending', datetime('now'))`
+      ).bind(newId('whd'), webhook.id, workspaceId, payload.id, event, buildWebhookBody(webhook.format, payload)));
+    }
+  }
+
+  if (inserts.length > 0) {
+    await db.batch(inserts);
+  }
+  return inserts.length;
+}
@@ -0,0 +1,87 @@
+// What a linked chat may do
+//
+// A chat acts with the API key it was linked with, as the dashboard API would treat that
+// key: its scopes, its projects and its creator's current role. The key is looked up for
+// every command and button press, so revoking or narrowing it, or demoting its creator,
+// applies to the chat at once.
+
+import { hasScope, roleAtLeast } from '@taskinfa/shared';
+import type { ApiKeyScope, ScopedAuth, WorkspaceRole } from '@taskinfa/shared';
+
+export interface ChatAccess extends ScopedAuth {
+  workspaceId: string;
+  // The linking key; the chat's changes are audited with it
+  keyId: string | null;
+  // null when the key was revoked or has expired, or its creator left the workspace
+  role: WorkspaceRole | null;
+}
+
+// api_keys columns (joined with the creator's membership) the access is built from
+export interface KeyRecord {
+  key_id: string | null;
+  is_active: number | null;
+  expires_at: string | null;
+  scopes: string | null;
+  task_list_ids: string | null;
+  user_id: string | null;
+  member_role: WorkspaceRole | null;
+}
+
+export const KEY_RECORD_COLUMNS =
+  'ak.id as key_id, ak.is_active, ak.expires_at, ak.scopes, ak.task_list_ids, ak.user_id, wm.role as member_role';
+
+// Joins the creator's membership for an api_keys row aliased "ak"
+export const KEY_MEMBER_JOIN =
+  'LEFT JOIN workspace_members wm ON wm.workspace_id = ak.workspace_id AND wm.user_id = ak.user_id';
+
+// api_keys.scopes / task_list_ids: NULL means unrestricted, a broken value allows nothing
+function parseRestriction<T extends string>(json: string | null): T[] | null {
+  if (json === null) return null;
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function keyAccess(workspaceId: string, key: KeyRecord): ChatAccess {
+  const usable = !!key.key_id && !!key.is_active && !(key.expires_at && new Date(key.expires_at) < new Date());
+  return {
+    workspaceId,
+    keyId: key.key_id,
+    // Keys without a creator predate members and act as the owner, like in the dashboard
+    role: !usable ? null : key.user_id ? key.member_role : 'owner',
+    scopes: parseRestriction<ApiKeyScope>(key.scopes),
+    taskListIds: parseRestriction<string>(key.task_list_ids),
+  };
+}
+
+// Looks up the chat's workspace and key. Null when the chat isn't linked; a muted
+// subscription still links it.
+export async function getChatAccess(db: D1Database, chatId: number): Promise<ChatAccess | null> {
+  const row = await db.prepare(
+    `SELECT s.workspace_id, ${KEY_RECORD_COLUMNS}
+     FROM telegram_subscriptions s
+     LEFT JOIN api_keys ak ON ak.id = s.api_key_id AND ak.workspace_id = s.workspace_id
+     ${KEY_MEMBER_JOIN}
+     WHERE s.chat_id = ?`
+  ).bind(String(chatId)).first<KeyRecord & { workspace_id: string }>();
+
+  return row ? keyAccess(row.workspace_id, row) : null;
+}
+
+// Why the chat may not use the scope, or null when it may. Like the API, anything beyond
+// reading also needs the member role.
+export function accessDenied(access: ChatAccess, scope: ApiKeyScope): string | null {
+  if (!access.role) {
+    return '🔑 The API key this chat was linked with no longer works. Paste a new key (or send /link with it in a group) to link the chat again.';
+  }
+  if (scope !== 'tasks:read' && !roleAtLeast(access.role, 'member')) {
+    return '🔒 The API key this chat was linked with belongs to a viewer, who can\'t change tasks.';
+  }
+  if (!hasScope(access, scope)) {
+    return `🔒 The API key this chat was linked with is missing the ${scope} scope.`;
+  }
+  return null;
+}
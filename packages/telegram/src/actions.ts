@@ -0,0 +1,281 @@
+// Inline keyboard task actions — buttons on notifications and task cards
+//
+// The buttons and their callback data come from @taskinfa/shared (taskKeyboard), which
+// the dashboard uses for its notifications too.
+
+import {
+  canAccessTaskList,
+  isOrchestratorInputStatus,
+  isReviewStatus,
+  queueWebhookEvents,
+  releasesWipLimit,
+  taskKeyboard,
+  writeAuditEntries,
+  type AuditEntryInput,
+  type InlineKeyboardMarkup,
+  type TaskAction,
+  type WebhookEvent,
+} from '@taskinfa/shared';
+import type { ChatAccess } from './access';
+
+interface Env {
+  DB: D1Database;
+  TELEGRAM_BOT_TOKEN: string;
+}
+
+export interface ActionTask {
+  id: string;
+  task_list_id: string | null;
+  title: string;
+  status: string;
+  priority: string;
+  error_count: number;
+  pr_url: string | null;
+  // 1 while an orchestrator holds an unexpired lease on the task
+  leased: number;
+  project_name: string | null;
+}
+
+export interface ActionContext {
+  env: Env;
+  workspaceId: string;
+  // What the chat's API key allows (see access.ts)
+  access: ChatAccess;
+  dashboardUrl: string;
+  // Who pressed the button
+  actorName?: string;
+}
+
+export interface ActionResult {
+  // Shown as a toast on the pressed button
+  toast: string;
+  // Sent to the chat as a new message
+  reply?: { text: string; reply_markup?: InlineKeyboardMarkup };
+  // Replaces the buttons of the pressed message, which now belong to a changed task
+  keyboard?: InlineKeyboardMarkup;
+}
+
+export function formatTaskCard(task: ActionTask): string {
+  let text = `*${task.title}*`;
+  if (task.project_name) text += ` _(${task.project_name})_`;
+  text += `\nStatus: \`${task.status}\` · Priority: ${task.priority}`;
+  if (task.error_count > 0) text += ` · Errors: ${task.error_count}`;
+  if (task.pr_url) text += `\n[View PR](${task.pr_url})`;
+  return text;
+}
+
+// Tasks of projects the chat's key is restricted from don't exist as far as the chat knows
+export async function findTask(ctx: ActionContext, taskId: string): Promise<ActionTask | null> {
+  const task = await ctx.env.DB.prepare(
+    `SELECT t.id, t.task_list_id, t.title, t.status, t.priority, t.error_count, t.pr_url,
+       COALESCE(t.lease_expires_at > datetime('now'), 0) as leased, tl.name as project_name
+     FROM tasks t
+     LEFT JOIN task_lists tl ON t.task_list_id = tl.id
+     WHERE t.id = ? AND t.workspace_id = ?`
+  ).bind(taskId, ctx.workspaceId).first<ActionTask>();
+  return task && canAccessTaskList(ctx.access, task.task_list_id) ? task : null;
+}
+
+export async function isFeatureEnabled(ctx: ActionContext, featureKey: string): Promise<boolean> {
+  const toggle = await ctx.env.DB.prepare(
+    `SELECT enabled FROM feature_toggles WHERE workspace_id = ? AND feature_key = ?`
+  ).bind(ctx.workspaceId, featureKey).first<{ enabled: number }>();
+  return !!toggle?.enabled;
+}
+
+// Audits a change made from the chat like the dashboard's recordAudit, with the bot as
+// actor. Best-effort: a failed write must not fail the change it describes.
+export async function recordAudit(ctx: Pick<ActionContext, 'env' | 'workspaceId' | 'access'>, entries: AuditEntryInput | AuditEntryInput[]): Promise<void> {
+  try {
+    await writeAuditEntries(ctx.env.DB, ctx.workspaceId, { type: 'bot', id: ctx.access.keyId, name: 'Telegram' }, entries);
+  } catch (err) {
+    console.error('Failed to record audit entry:', err);
+  }
+}
+
+// Queues webhook events like the dashboard's dispatchWebhookEvents. Sending is left to
+// the dashboard: its next dispatch, or the delivery sweep every orchestrator runs each
+// poll cycle. Best-effort, like the audit.
+export async function queueWebhooks(ctx: Pick<ActionContext, 'env' | 'workspaceId'>, events: WebhookEvent[]): Promise<void> {
+  try {
+    await queueWebhookEvents(
+      ctx.env.DB,
+      ctx.workspaceId,
+      events,
+      (prefix) => `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 21)}`
+    );
+  } catch (err) {
+    console.error('Failed to queue webhook events:', err);
+  }
+}
+
+export async function getTaskRow(ctx: Pick<ActionContext, 'env' | 'workspaceId'>, taskId: string): Promise<Record<string, unknown> | null> {
+  return ctx.env.DB.prepare(
+    `SELECT * FROM tasks WHERE id = ? AND workspace_id = ?`
+  ).bind(taskId, ctx.workspaceId).first<Record<string, unknown>>();
+}
+
+// A task row as webhook events carry it, with its JSON columns parsed
+export function webhookTask(task: Record<string, unknown>): Record<string, unknown> {
+  return { ...task, labels: parseJsonArray(task.labels), files_changed: parseJsonArray(task.files_changed) };
+}
+
+function parseJsonArray(value: unknown): unknown[] {
+  try {
+    const parsed: unknown = typeof value === 'string' ? JSON.parse(value) : null;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// comment.added with the comment and its task, as the dashboard's comments route sends it
+export async function queueCommentAdded(ctx: Pick<ActionContext, 'env' | 'workspaceId'>, taskId: string, commentId: string): Promise<void> {
+  const task = await ctx.env.DB.prepare(
+    `SELECT id, title, status FROM tasks WHERE id = ? AND workspace_id = ?`
+  ).bind(taskId, ctx.workspaceId).first<Record<string, unknown>>();
+  const comment = await ctx.env.DB.prepare(
+    `SELECT * FROM task_comments WHERE id = ?`
+  ).bind(commentId).first<Record<string, unknown>>();
+  if (comment) {
+    await queueWebhooks(ctx, [{ event: 'comment.added', data: { comment, task } }]);
+  }
+}
+
+// Moves the task and records it like a dashboard move: an audit entry with the status
+// transition in its history, a task.moved webhook event and, when there may be new work,
+// a work signal
+export async function moveTask(ctx: ActionContext, task: ActionTask, status: string, extraSql = ''): Promise<void> {
+  const timestamps = status === 'in_progress'
+    ? `, started_at = COALESCE(started_at, datetime('now'))`
+    : status === 'done' || status === 'review'
+      ? `, completed_at = COALESCE(completed_at, datetime('now'))`
+      : '';
+  await ctx.env.DB.prepare(
+    `UPDATE tasks SET status = ?${timestamps}${extraSql}, updated_at = datetime('now')
+     WHERE id = ? AND workspace_id = ?`
+  ).bind(status, task.id, ctx.workspaceId).run();
+
+  await recordAudit(ctx, {
+    action: 'task.update',
+    entityType: 'task',
+    entityId: task.id,
+    before: { status: task.status },
+    after: { status },
+  });
+
+  const moved = task.status !== status ? await getTaskRow(ctx, task.id) : null;
+  if (moved) {
+    await queueWebhooks(ctx, [{
+      event: 'task.moved',
+      data: { task: webhookTask(moved), from_status: task.status, to_status: status },
+    }]);
+  }
+
+  // Same rule as the dashboard's task PATCH
+  if (isOrchestratorInputStatus(status) || releasesWipLimit(task.status, status)) {
+    await ctx.env.DB.prepare(
+      `INSERT INTO work_signals (workspace_id, reason, task_id) VALUES (?, 'task_status', ?)`
+    ).bind(ctx.workspaceId, task.id).run();
+  }
+}
+
+export async function hasOpenDependencies(ctx: ActionContext, taskId: string): Promise<boolean> {
+  const row = await ctx.env.DB.prepare(
+    `SELECT COUNT(*) as cnt FROM task_dependencies td
+     JOIN tasks t ON td.depends_on_task_id = t.id
+     WHERE td.task_id = ? AND t.status != 'done'`
+  ).bind(taskId).first<{ cnt: number }>();
+  return (row?.cnt ?? 0) > 0;
+}
+
+// Runs a button press. The task must belong to the chat's linked workspace and, for a key
+// restricted to projects, one of its projects.
+export async function handleTaskAction(
+  ctx: ActionContext,
+  action: TaskAction,
+  taskId: string
+): Promise<ActionResult> {
+  const task = await findTask(ctx, taskId);
+  if (!task) {
+    return { toast: 'Task not found' };
+  }
+
+  let toast: string;
+  switch (action) {
+    case 'view':
+      return {
+        toast: task.title,
+        reply: { text: formatTaskCard(task), reply_markup: taskKeyboard(task, ctx.dashboardUrl) },
+      };
+
+    case 'approve':
+      if (!isReviewStatus(task.status)) {
+        return { toast: `Task is in ${task.status}, not awaiting review` };
+      }
+      // The AI review or testing agent may still be working on it
+      if (task.leased) {
+        return { toast: 'An agent is working on this task right now' };
+      }
+      await moveTask(ctx, task, 'done');
+      toast = 'Approved — moved to done';
+      break;
+
+    case 'reject': {
+      if (!isReviewStatus(task.status)) {
+        return { toast: `Task is in ${task.status}, not awaiting review` };
+      }
+      if (task.leased) {
+        return { toast: 'An agent is working on this task right now' };
+      }
+      // Without AI review nothing works the review_rejected column, so the task goes back to todo
+      const status = (await isFeatureEnabled(ctx, 'ai_review')) ? 'review_rejected' : 'todo';
+      await moveTask(ctx, task, status);
+      toast = `Rejected — moved to ${status}`;
+      break;
+    }
+
+    case 'retry':
+      if (task.status === 'done' || task.status === 'backlog') {
+        return { toast: `Task is in ${task.status}, nothing to retry` };
+      }
+      if (task.leased) {
+        return { toast: 'An agent is working on this task right now' };
+      }
+      if (await hasOpenDependencies(ctx, task.id)) {
+        return { toast: 'Task has unresolved dependencies' };
+      }
+      // Back to the queue with no backoff and no lease, like a reclaimed task
+      await moveTask(ctx, task, 'todo', ', next_attempt_at = NULL, lease_holder = NULL, lease_expires_at = NULL, assigned_to = NULL');
+      toast = 'Queued for retry';
+      break;
+
+    case 'reset':
+      await ctx.env.DB.prepare(
+        `UPDATE tasks SET error_count = 0, next_attempt_at = NULL, updated_at = datetime('now')
+         WHERE id = ? AND workspace_id = ?`
+      ).bind(task.id, ctx.workspaceId).run();
+      await recordAudit(ctx, {
+        action: 'task.update',
+        entityType: 'task',
+        entityId: task.id,
+        before: { error_count: task.error_count },
+        after: { error_count: 0 },
+      });
+      // A task held back at its retry limit can run again
+      if (task.status === 'todo') {
+        await ctx.env.DB.prepare(
+          `INSERT INTO work_signals (workspace_id, reason, task_id) VALUES (?, 'task_status', ?)`
+        ).bind(ctx.workspaceId, task.id).run();
+      }
+      toast = 'Error count reset';
+      break;
+  }
+
+  const updated = await findTask(ctx, task.id);
+  return {
+    toast,
+    reply: { text: `${toast}: *${task.title}*${ctx.actorName ? ` (by ${ctx.actorName})` : ''}` },
+    keyboard: updated ? taskKeyboard(updated, ctx.dashboardUrl) : undefined,
+  };
+}
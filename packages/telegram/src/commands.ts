@@ -1,5 +1,29 @@
 // Telegram bot command handlers — all scoped to the user's workspace
 
+import { getStatusColumns, isColumnFull, taskCallback, taskKeyboard, taskListCondition, workflowColumnsFor } from '@taskinfa/shared';
+import type {
+  ColumnWipLimit,
+  FeatureKey,
+  InlineKeyboardButton,
+  InlineKeyboardMarkup,
+  TaskPriority,
+  WorkflowColumn,
+} from '@taskinfa/shared';
+import {
+  findTask,
+  formatTaskCard,
+  getTaskRow,
+  handleTaskAction,
+  hasOpenDependencies,
+  moveTask,
+  queueCommentAdded,
+  queueWebhooks,
+  recordAudit,
+  webhookTask,
+  type ActionTask,
+} from './actions';
+import type { ChatAccess } from './access';
+
 interface Env {
   DB: D1Database;
   TELEGRAM_BOT_TOKEN: string;
@@ -10,15 +34,59 @@ interface CommandContext {
   args: string;
   env: Env;
   workspaceId: string;
+  // What the chat's API key allows; lists and lookups only cover its projects
+  access: ChatAccess;
+  dashboardUrl: string;
+  // First name of the Telegram user who sent the command
+  userName: string;
+}
+
+type CommandResult = {
+  text: string;
+  parse_mode?: 'Markdown' | 'HTML';
+  reply_markup?: InlineKeyboardMarkup;
+  // The reply is about this task; replies to it reach the task's agent (see threads.ts)
+  taskId?: string;
+};
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const PRIORITY_ICONS: Record<string, string> = { urgent: '🔴', high: '🟠', medium: '🔵', low: '⚪' };
+
+// Button that opens the task's card
+function viewButton(task: { id: string; title: string }, icon: string): InlineKeyboardButton[] {
+  const title = task.title.length > 40 ? `${task.title.slice(0, 39)}…` : task.title;
+  return [{ text: `${icon} ${title}`, callback_data: taskCallback('view', task.id) }];
 }
 
-type CommandResult = { text: string; parse_mode?: 'Markdown' | 'HTML' };
+// Resolves a task reference: a full ID, or a unique prefix of one (with or without "task_")
+async function resolveTask(ctx: CommandContext, ref: string): Promise<{ task: ActionTask } | { error: string }> {
+  const exact = await findTask(ctx, ref);
+  if (exact) return { task: exact };
+
+  const prefix = ref.startsWith('task_') ? ref : `task_${ref}`;
+  // Too short a prefix would match half the workspace
+  if (prefix.length >= 9) {
+    const projects = taskListCondition(ctx.access, 'task_list_id');
+    const matches = await ctx.env.DB.prepare(
+      `SELECT id FROM tasks WHERE workspace_id = ? AND id LIKE ? ESCAPE '\\'${projects.sql} LIMIT 2`
+    ).bind(ctx.workspaceId, `${prefix.replace(/[\\%_]/g, '\\$&')}%`, ...projects.params).all<{ id: string }>();
+    const ids = matches.results ?? [];
+    if (ids.length > 1) {
+      return { error: `"${ref}" matches several tasks — use more of the ID.` };
+    }
+    const task = ids.length === 1 ? await findTask(ctx, ids[0].id) : null;
+    if (task) return { task };
+  }
+  return { error: `Task "${ref}" not found.` };
+}
 
 // /status [project] — global or per-project status
 export async function handleStatus(ctx: CommandContext): Promise<CommandResult> {
-  const { env, args, workspaceId } = ctx;
+  const { env, args, workspaceId, access } = ctx;
 
   if (args) {
+    const projects = taskListCondition(access, 'tl.id');
     // Per-project status
     const project = await env.DB.prepare(
       `SELECT tl.*,
@@ -26,9 +94,9 @@ export async function handleStatus(ctx: CommandContext): Promise<CommandResult>
         (SELECT COUNT(*) FROM tasks t WHERE t.task_list_id = tl.id AND t.status = 'in_progress') as in_progress_count,
         (SELECT COUNT(*) FROM tasks t WHERE t.task_list_id = tl.id AND t.status = 'done') as done_count
        FROM task_lists tl
-       WHERE tl.workspace_id = ? AND (tl.name LIKE ? OR tl.slug LIKE ?)
+       WHERE tl.workspace_id = ? AND (tl.name LIKE ? OR tl.slug LIKE ?)${projects.sql}
        LIMIT 1`
-    ).bind(workspaceId, `%${args}%`, `%${args}%`).first<any>();
+    ).bind(workspaceId, `%${args}%`, `%${args}%`, ...projects.params).first<any>();
 
     if (!project) {
       return { text: `Project "${args}" not found.` };
@@ -58,16 +126,26 @@ export async function handleStatus(ctx: CommandContext): Promise<CommandResult>
     return { text, parse_mode: 'Markdown' };
   }
 
-  // Global status (scoped to workspace)
+  // Global status (scoped to workspace and the key's projects)
+  const sessionProjects = taskListCondition(access, 'project_id');
+  const taskProjects = taskListCondition(access, 'task_list_id');
+  const projects = taskListCondition(access, 'id');
   const stats = await env.DB.prepare(`
     SELECT
-      (SELECT COUNT(*) FROM sessions WHERE workspace_id = ? AND status = 'active') as active_sessions,
-      (SELECT COUNT(*) FROM sessions WHERE workspace_id = ? AND status = 'stuck') as stuck_sessions,
-      (SELECT COUNT(*) FROM tasks WHERE workspace_id = ? AND status = 'todo') as todo_tasks,
-      (SELECT COUNT(*) FROM tasks WHERE workspace_id = ? AND status = 'in_progress') as in_progress_tasks,
-      (SELECT COUNT(*) FROM tasks WHERE workspace_id = ? AND status = 'done') as done_tasks,
-      (SELECT COUNT(*) FROM task_lists WHERE workspace_id = ?) as total_projects
-  `).bind(workspaceId, workspaceId, workspaceId, workspaceId, workspaceId, workspaceId).first<any>();
+      (SELECT COUNT(*) FROM sessions WHERE workspace_id = ? AND status = 'active'${sessionProjects.sql}) as active_sessions,
+      (SELECT COUNT(*) FROM sessions WHERE workspace_id = ? AND status = 'stuck'${sessionProjects.sql}) as stuck_sessions,
+      (SELECT COUNT(*) FROM tasks WHERE workspace_id = ? AND status = 'todo'${taskProjects.sql}) as todo_tasks,
+      (SELECT COUNT(*) FROM tasks WHERE workspace_id = ? AND status = 'in_progress'${taskProjects.sql}) as in_progress_tasks,
+      (SELECT COUNT(*) FROM tasks WHERE workspace_id = ? AND status = 'done'${taskProjects.sql}) as done_tasks,
+      (SELECT COUNT(*) FROM task_lists WHERE workspace_id = ?${projects.sql}) as total_projects
+  `).bind(
+    workspaceId, ...sessionProjects.params,
+    workspaceId, ...sessionProjects.params,
+    workspaceId, ...taskProjects.params,
+    workspaceId, ...taskProjects.params,
+    workspaceId, ...taskProjects.params,
+    workspaceId, ...projects.params
+  ).first<any>();
 
   if (!stats) {
     return { text: 'Could not fetch status.' };
@@ -87,25 +165,28 @@ export async function handleStatus(ctx: CommandContext): Promise<CommandResult>
 // /tasks — list pending tasks (scoped to workspace)
 export async function handleTasks(ctx: CommandContext): Promise<CommandResult> {
   const { env, workspaceId } = ctx;
+  const projects = taskListCondition(ctx.access, 't.task_list_id');
 
   const tasks = await env.DB.prepare(
     `SELECT t.*, tl.name as project_name
      FROM tasks t
      LEFT JOIN task_lists tl ON t.task_list_id = tl.id
-     WHERE t.workspace_id = ? AND t.status IN ('todo', 'in_progress', 'review')
+     WHERE t.workspace_id = ? AND t.status IN ('todo', 'in_progress', 'review')${projects.sql}
      ORDER BY
        CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
        t.created_at ASC
      LIMIT 20`
-  ).bind(workspaceId).all<any>();
+  ).bind(workspaceId, ...projects.params).all<any>();
 
   if (!tasks.results || tasks.results.length === 0) {
     return { text: '_No pending tasks._', parse_mode: 'Markdown' };
   }
 
   let text = '*Pending Tasks:*\n\n';
+  // One button per task opens its card with the actions
+  const buttons: InlineKeyboardButton[][] = [];
   for (const task of tasks.results) {
-    const priorityIcon = task.priority === 'urgent' ? '🔴' : task.priority === 'high' ? '🟠' : task.priority === 'medium' ? '🔵' : '⚪';
+    const priorityIcon = PRIORITY_ICONS[task.priority] ?? '⚪';
     const statusIcon = task.status === 'review' ? '👀' : task.status === 'in_progress' ? '⚡' : '📝';
     text += `${statusIcon} ${priorityIcon} *${task.title}*`;
     if (task.project_name) text += ` _(${task.project_name})_`;
@@ -113,31 +194,54 @@ export async function handleTasks(ctx: CommandContext): Promise<CommandResult> {
     if (task.status === 'review' && task.pr_url) {
       text += `   [View PR](${task.pr_url})\n`;
     }
+    buttons.push(viewButton(task, statusIcon));
   }
 
-  return { text, parse_mode: 'Markdown' };
+  return { text, parse_mode: 'Markdown', reply_markup: { inline_keyboard: buttons } };
 }
 
-// /new <project> <title> — create a new task (scoped to workspace)
+const NEW_USAGE = 'Usage: `/new <project> <task title> [!priority] [#label ...]`\nFurther lines become the description.';
+
+// /new <project> <title> [!priority] [#label ...] — create a new task (scoped to workspace)
+// Lines after the first are the task's description.
 export async function handleNew(ctx: CommandContext): Promise<CommandResult> {
   const { env, args, workspaceId } = ctx;
 
-  if (!args) {
-    return { text: 'Usage: `/new <project> <task title>`', parse_mode: 'Markdown' };
-  }
-
-  const parts = args.split(' ');
+  const [firstLine, ...descriptionLines] = args.split('\n');
+  const parts = firstLine.split(/\s+/).filter(Boolean);
   if (parts.length < 2) {
-    return { text: 'Usage: `/new <project> <task title>`', parse_mode: 'Markdown' };
+    return { text: NEW_USAGE, parse_mode: 'Markdown' };
   }
 
   const projectQuery = parts[0];
-  const title = parts.slice(1).join(' ');
+  let priority: TaskPriority = 'medium';
+  const labels: string[] = [];
+  const titleWords: string[] = [];
+  for (const word of parts.slice(1)) {
+    if (word.startsWith('!') && word.length > 1) {
+      const requested = word.slice(1).toLowerCase() as TaskPriority;
+      if (!PRIORITIES.includes(requested)) {
+        return { text: `Unknown priority "${word}". Use one of: ${PRIORITIES.map((p) => `!${p}`).join(', ')}.` };
+      }
+      priority = requested;
+    } else if (word.startsWith('#') && word.length > 1) {
+      const label = word.slice(1).toLowerCase();
+      if (!labels.includes(label)) labels.push(label);
+    } else {
+      titleWords.push(word);
+    }
+  }
+  const title = titleWords.join(' ');
+  const description = descriptionLines.join('\n').trim() || null;
+  if (!title) {
+    return { text: NEW_USAGE, parse_mode: 'Markdown' };
+  }
 
-  // Find project within this workspace
+  // Find project within this workspace (and the key's projects)
+  const projects = taskListCondition(ctx.access, 'id');
   const project = await env.DB.prepare(
-    `SELECT * FROM task_lists WHERE workspace_id = ? AND (name LIKE ? OR slug LIKE ?) LIMIT 1`
-  ).bind(workspaceId, `%${projectQuery}%`, `%${projectQuery}%`).first<any>();
+    `SELECT * FROM task_lists WHERE workspace_id = ? AND (name LIKE ? OR slug LIKE ?)${projects.sql} LIMIT 1`
+  ).bind(workspaceId, `%${projectQuery}%`, `%${projectQuery}%`, ...projects.params).first<any>();
 
   if (!project) {
     return { text: `Project "${projectQuery}" not found.` };
@@ -151,16 +255,285 @@ export async function handleNew(ctx: CommandContext): Promise<CommandResult> {
   const taskId = `task_${crypto.randomUUID().replace(/-/g, '').slice(0, 21)}`;
 
   await env.DB.prepare(
-    `INSERT INTO tasks (id, workspace_id, task_list_id, title, status, priority, labels, files_changed, "order")
-     VALUES (?, ?, ?, ?, 'todo', 'medium', '[]', '[]', ?)`
-  ).bind(taskId, workspaceId, project.id, title, (maxOrder?.max_order ?? -1) + 1).run();
+    `INSERT INTO tasks (id, workspace_id, task_list_id, title, description, status, priority, labels, files_changed, "order")
+     VALUES (?, ?, ?, ?, ?, 'todo', ?, ?, '[]', ?)`
+  ).bind(
+    taskId, workspaceId, project.id, title, description, priority, JSON.stringify(labels), (maxOrder?.max_order ?? -1) + 1
+  ).run();
+
+  // Audit it like the dashboard does, which also starts the task's history
+  const task = await getTaskRow(ctx, taskId);
+  if (task) {
+    await recordAudit(ctx, { action: 'task.create', entityType: 'task', entityId: taskId, after: task });
+    await queueWebhooks(ctx, [{ event: 'task.created', data: { task: webhookTask(task) } }]);
+  }
+
+  // Wake the orchestrator (see /api/orchestrator/signals)
+  await env.DB.prepare(
+    `INSERT INTO work_signals (workspace_id, reason, task_id) VALUES (?, 'task_status', ?)`
+  ).bind(workspaceId, taskId).run();
+
+  let text = `✅ Created task in *${project.name}*:\n_${title}_`;
+  if (priority !== 'medium') text += `\nPriority: ${PRIORITY_ICONS[priority]} ${priority}`;
+  if (labels.length > 0) text += `\nLabels: ${labels.join(', ')}`;
+  text += `\nID: \`${taskId}\``;
+
+  return { text, parse_mode: 'Markdown' };
+}
+
+// /task <id> — task card with recent comments and actions
+export async function handleTask(ctx: CommandContext): Promise<CommandResult> {
+  if (!ctx.args) {
+    return { text: 'Usage: `/task <id>`', parse_mode: 'Markdown' };
+  }
+  const resolved = await resolveTask(ctx, ctx.args.split(/\s+/)[0]);
+  if ('error' in resolved) {
+    return { text: resolved.error };
+  }
+  const { task } = resolved;
+
+  const comments = await ctx.env.DB.prepare(
+    `SELECT author, author_type, content, created_at FROM task_comments
+     WHERE task_id = ? ORDER BY created_at DESC LIMIT 5`
+  ).bind(task.id).all<{ author: string; author_type: string; content: string; created_at: string }>();
+
+  let text = `${formatTaskCard(task)}\nID: \`${task.id}\``;
+  const recent = (comments.results ?? []).reverse();
+  if (recent.length > 0) {
+    text += '\n\n*Recent comments:*\n';
+    for (const c of recent) {
+      const content = c.content.length > 200 ? `${c.content.slice(0, 199)}…` : c.content;
+      // Agent output is free-form; keep it out of Markdown entities
+      text += `${c.author_type === 'bot' ? '🤖' : '👤'} ${c.author}: ${content.replace(/[*_`[\]]/g, '')}\n`;
+    }
+  }
+
+  return { text, parse_mode: 'Markdown', reply_markup: taskKeyboard(task, ctx.dashboardUrl), taskId: task.id };
+}
+
+// /find <query> — search tasks the way /api/tasks?q= does (full-text, prefix match per word)
+export async function handleFind(ctx: CommandContext): Promise<CommandResult> {
+  const words = ctx.args.replace(/['"*()^~:]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return { text: 'Usage: `/find <query>`', parse_mode: 'Markdown' };
+  }
+  const ftsQuery = words.map((w) => `"${w}"*`).join(' ');
+  const projects = taskListCondition(ctx.access, 't.task_list_id');
+
+  const tasks = await ctx.env.DB.prepare(
+    `SELECT t.id, t.title, t.status, t.priority, tl.name as project_name
+     FROM tasks t
+     INNER JOIN tasks_fts ON t.rowid = tasks_fts.rowid
+     LEFT JOIN task_lists tl ON t.task_list_id = tl.id
+     WHERE tasks_fts MATCH ? AND t.workspace_id = ?${projects.sql}
+     ORDER BY t.updated_at DESC
+     LIMIT 10`
+  ).bind(ftsQuery, ctx.workspaceId, ...projects.params).all<{ id: string; title: string; status: string; priority: string; project_name: string | null }>();
+
+  if (!tasks.results || tasks.results.length === 0) {
+    return { text: `_No tasks match "${words.join(' ')}"._`, parse_mode: 'Markdown' };
+  }
+
+  let text = `*Tasks matching "${words.join(' ')}":*\n\n`;
+  const buttons: InlineKeyboardButton[][] = [];
+  for (const task of tasks.results) {
+    const priorityIcon = PRIORITY_ICONS[task.priority] ?? '⚪';
+    text += `${priorityIcon} *${task.title}* \`${task.status}\``;
+    if (task.project_name) text += ` _(${task.project_name})_`;
+    text += `\n   \`${task.id}\`\n`;
+    buttons.push(viewButton(task, priorityIcon));
+  }
+
+  return { text, parse_mode: 'Markdown', reply_markup: { inline_keyboard: buttons } };
+}
+
+// /comment <id> <text> — leave a comment for humans. It doesn't start an agent session;
+// replying to a notification or task card does.
+export async function handleComment(ctx: CommandContext): Promise<CommandResult> {
+  const match = ctx.args.match(/^(\S+)\s+([\s\S]+)$/);
+  if (!match) {
+    return { text: 'Usage: `/comment <id> <text>`', parse_mode: 'Markdown' };
+  }
+  const resolved = await resolveTask(ctx, match[1]);
+  if ('error' in resolved) {
+    return { text: resolved.error };
+  }
+
+  const commentId = `cmt_${crypto.randomUUID().replace(/-/g, '').slice(0, 21)}`;
+  await ctx.env.DB.prepare(
+    `INSERT INTO task_comments (id, task_id, author, author_type, content, comment_type)
+     VALUES (?, ?, ?, 'user', ?, 'comment')`
+  ).bind(commentId, resolved.task.id, ctx.userName, match[2].trim()).run();
+  await queueCommentAdded(ctx, resolved.task.id, commentId);
+
+  return { text: `💬 Comment added to *${resolved.task.title}*`, parse_mode: 'Markdown', taskId: resolved.task.id };
+}
+
+type WorkflowColumnRow = Omit<WorkflowColumn, 'orchestrated' | 'block_when_full'> & {
+  orchestrated: number;
+  block_when_full: number;
+};
+
+// Columns of the task's board: built-in ones for the enabled features plus the
+// workspace's custom columns for its project, as the dashboard validates them, with
+// their WIP limits
+async function getBoardColumns(ctx: CommandContext, taskListId: string | null) {
+  const toggles = await ctx.env.DB.prepare(
+    `SELECT feature_key, enabled FROM feature_toggles WHERE workspace_id = ?`
+  ).bind(ctx.workspaceId).all<{ feature_key: string; enabled: number }>();
+  const features: Record<FeatureKey, boolean> = { refinement: false, ai_review: false, local_testing: false };
+  for (const row of toggles.results ?? []) {
+    if (row.feature_key in features) features[row.feature_key as FeatureKey] = !!row.enabled;
+  }
+
+  const rows = await ctx.env.DB.prepare(
+    `SELECT * FROM workflow_columns WHERE workspace_id = ? ORDER BY after_status, position, label`
+  ).bind(ctx.workspaceId).all<WorkflowColumnRow>();
+  const columns = (rows.results ?? []).map((row) => ({
+    ...row,
+    orchestrated: !!row.orchestrated,
+    block_when_full: !!row.block_when_full,
+  }));
+
+  const limits = await ctx.env.DB.prepare(
+    `SELECT * FROM column_wip_limits WHERE workspace_id = ?`
+  ).bind(ctx.workspaceId).all<Omit<ColumnWipLimit, 'block_when_full'> & { block_when_full: number }>();
+  const wipLimits = (limits.results ?? []).map((row) => ({ ...row, block_when_full: !!row.block_when_full }));
+
+  return getStatusColumns(features, workflowColumnsFor(columns, taskListId), wipLimits);
+}
+
+// /move <id> <status> — move a task to a column, by status key or column name
+export async function handleMove(ctx: CommandContext): Promise<CommandResult> {
+  const match = ctx.args.match(/^(\S+)\s+(.+)$/s);
+  if (!match) {
+    return { text: 'Usage: `/move <id> <status>`', parse_mode: 'Markdown' };
+  }
+  const resolved = await resolveTask(ctx, match[1]);
+  if ('error' in resolved) {
+    return { text: resolved.error };
+  }
+  const { task } = resolved;
+
+  // getValidStatuses, keeping the labels so "/move <id> In Progress" works too
+  const columns = await getBoardColumns(ctx, task.task_list_id);
+  const requested = match[2].trim().toLowerCase();
+  const column = columns.find(
+    (c) => c.status === requested.replace(/\s+/g, '_') || c.label.toLowerCase() === requested
+  );
+  if (!column) {
+    return {
+      text: `Unknown status "${match[2].trim()}". Valid statuses:\n${columns.map((c) => `\`${c.status}\``).join(', ')}`,
+      parse_mode: 'Markdown',
+    };
+  }
+  if (column.status === task.status) {
+    return { text: `*${task.title}* is already in ${column.label}.`, parse_mode: 'Markdown' };
+  }
 
+  // What stops a move on the board or through the API stops it here too
+  if (task.leased) {
+    return { text: `🤖 An agent is working on *${task.title}* right now.`, parse_mode: 'Markdown' };
+  }
+  if ((column.status === 'todo' || column.status === 'in_progress') && await hasOpenDependencies(ctx, task.id)) {
+    return { text: `⛓ *${task.title}* has unresolved dependencies.`, parse_mode: 'Markdown' };
+  }
+  if (column.blockWhenFull) {
+    // Limits count every task in the column, like the board
+    const count = await ctx.env.DB.prepare(
+      `SELECT COUNT(*) as cnt FROM tasks WHERE workspace_id = ? AND status = ?`
+    ).bind(ctx.workspaceId, column.status).first<{ cnt: number }>();
+    if (isColumnFull(column, count?.cnt ?? 0)) {
+      return { text: `🚧 ${column.label} is full (${column.wipLimit}).` };
+    }
+  }
+
+  await moveTask(ctx, task, column.status);
   return {
-    text: `✅ Created task in *${project.name}*:\n_${title}_`,
+    text: `${column.icon} Moved *${task.title}* to ${column.label}`,
     parse_mode: 'Markdown',
+    reply_markup: taskKeyboard({ ...task, status: column.status }, ctx.dashboardUrl),
+    taskId: task.id,
   };
 }
 
+// /retry <id> — send a task back to todo with no backoff, like the Retry button
+export async function handleRetry(ctx: CommandContext): Promise<CommandResult> {
+  if (!ctx.args) {
+    return { text: 'Usage: `/retry <id>`', parse_mode: 'Markdown' };
+  }
+  const resolved = await resolveTask(ctx, ctx.args.split(/\s+/)[0]);
+  if ('error' in resolved) {
+    return { text: resolved.error };
+  }
+
+  const result = await handleTaskAction({ ...ctx, actorName: ctx.userName }, 'retry', resolved.task.id);
+  // Without a keyboard the action was refused and the toast says why
+  return result.keyboard
+    ? { text: `🔁 ${result.toast}: *${resolved.task.title}*`, parse_mode: 'Markdown', reply_markup: result.keyboard, taskId: resolved.task.id }
+    : { text: result.toast };
+}
+
+interface DigestRow {
+  name: string;
+  created: number;
+  completed: number;
+  in_progress: number;
+  awaiting_review: number;
+  failing: number;
+  sessions: number;
+}
+
+// /digest [project] — what happened in each project over the last 24 hours
+export async function handleDigest(ctx: CommandContext): Promise<CommandResult> {
+  const { env, args, workspaceId } = ctx;
+
+  const keyProjects = taskListCondition(ctx.access, 'tl.id');
+  const projectFilter = (args ? ' AND (tl.name LIKE ? OR tl.slug LIKE ?)' : '') + keyProjects.sql;
+  const params: string[] = [workspaceId];
+  if (args) params.push(`%${args}%`, `%${args}%`);
+  params.push(...keyProjects.params);
+
+  const rows = await env.DB.prepare(
+    `SELECT tl.name,
+       COALESCE(SUM(CASE WHEN t.created_at >= datetime('now', '-1 day') THEN 1 ELSE 0 END), 0) as created,
+       COALESCE(SUM(CASE WHEN t.status = 'done' AND t.completed_at >= datetime('now', '-1 day') THEN 1 ELSE 0 END), 0) as completed,
+       COALESCE(SUM(CASE WHEN t.status = 'in_progress' THEN 1 ELSE 0 END), 0) as in_progress,
+       COALESCE(SUM(CASE WHEN t.status IN ('ai_review', 'testing', 'review') THEN 1 ELSE 0 END), 0) as awaiting_review,
+       COALESCE(SUM(CASE WHEN t.status != 'done' AND t.error_count > 0 THEN 1 ELSE 0 END), 0) as failing,
+       (SELECT COUNT(*) FROM sessions s
+        WHERE s.project_id = tl.id AND s.started_at >= datetime('now', '-1 day')) as sessions
+     FROM task_lists tl
+     LEFT JOIN tasks t ON t.task_list_id = tl.id
+     WHERE tl.workspace_id = ?${projectFilter}
+     GROUP BY tl.id
+     ORDER BY tl.name`
+  ).bind(...params).all<DigestRow>();
+
+  const projects = rows.results ?? [];
+  if (args && projects.length === 0) {
+    return { text: `Project "${args}" not found.` };
+  }
+  // Projects where nothing happened and nothing waits only add noise
+  const active = projects.filter((p) =>
+    p.created || p.completed || p.in_progress || p.awaiting_review || p.failing || p.sessions
+  );
+  if (active.length === 0) {
+    return { text: '_Nothing happened in the last 24 hours._', parse_mode: 'Markdown' };
+  }
+
+  let text = '*Daily digest* (last 24 hours)\n';
+  for (const p of active) {
+    text += `\n*${p.name}*\n`;
+    text += `✅ Completed: ${p.completed} · 🆕 Created: ${p.created}\n`;
+    text += `⚡ In progress: ${p.in_progress} · 👀 Awaiting review: ${p.awaiting_review}\n`;
+    if (p.failing > 0) text += `❌ Failing: ${p.failing}\n`;
+    text += `🤖 Sessions: ${p.sessions}\n`;
+  }
+
+  return { text, parse_mode: 'Markdown' };
+}
+
 // /help — list commands
 export async function handleHelp(): Promise<CommandResult> {
   return {
@@ -169,8 +542,18 @@ export async function handleHelp(): Promise<CommandResult> {
       '`/status` — Global overview',
       '`/status <project>` — Per-project status',
       '`/tasks` — List pending tasks',
-      '`/new <project> <title>` — Create a task',
+      '`/task <id>` — Task details, comments and actions',
+      '`/find <query>` — Search tasks',
+      '`/new <project> <title> [!priority] [#label]` — Create a task; further lines are its description',
+      '`/comment <id> <text>` — Comment on a task',
+      '`/move <id> <status>` — Move a task to a column',
+      '`/retry <id>` — Send a task back to the queue',
+      '`/digest [project]` — Last 24 hours per project',
+      '`/link <API key>` — Link this chat (use in groups)',
+      '`/unlink` — Stop notifications and unlink this chat',
       '`/help` — This message\n',
+      '_Tap a task in /tasks, or the buttons under a notification, to approve, reject, retry or reset it._',
+      '_Reply to a notification or task card to message the agent working on it._',
       '_To re-link your account, just paste a new API key._',
     ].join('\n'),
     parse_mode: 'Markdown',
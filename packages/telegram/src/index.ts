@@ -1,7 +1,30 @@
 // Taskinfa Kanban Telegram Bot — Cloudflare Worker
 // Webhook handler for Telegram bot commands
 
-import { handleStatus, handleTasks, handleNew, handleHelp } from './commands';
+import { parseTaskCallback, type ApiKeyScope, type InlineKeyboardMarkup } from '@taskinfa/shared';
+import {
+  handleStatus,
+  handleTasks,
+  handleNew,
+  handleHelp,
+  handleTask,
+  handleFind,
+  handleComment,
+  handleMove,
+  handleRetry,
+  handleDigest,
+} from './commands';
+import { handleTaskAction } from './actions';
+import {
+  KEY_MEMBER_JOIN,
+  KEY_RECORD_COLUMNS,
+  accessDenied,
+  getChatAccess,
+  keyAccess,
+  type ChatAccess,
+  type KeyRecord,
+} from './access';
+import { handleThreadReply, recordTaskMessage } from './threads';
 
 interface Env {
   DB: D1Database;
@@ -9,26 +32,74 @@ interface Env {
   DASHBOARD_URL?: string;
 }
 
+interface TelegramMessage {
+  message_id: number;
+  from: { id: number; first_name: string };
+  // type is 'private', 'group', 'supergroup' or 'channel'; groups have a title
+  chat: { id: number; type: string; title?: string };
+  text?: string;
+  // Set when the message replies to another one
+  reply_to_message?: { message_id: number };
+}
+
 interface TelegramUpdate {
   update_id: number;
-  message?: {
-    message_id: number;
+  message?: TelegramMessage;
+  // A press of an inline keyboard button
+  callback_query?: {
+    id: string;
     from: { id: number; first_name: string };
-    chat: { id: number; type: string };
-    text?: string;
+    // Absent when the message is too old for Telegram to include
+    message?: TelegramMessage;
+    data?: string;
   };
 }
 
-async function sendReply(botToken: string, chatId: number, text: string, parseMode?: string) {
-  await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+// What the linking API key must allow for each command, as the matching API route requires
+const COMMAND_SCOPES: Record<string, ApiKeyScope> = {
+  status: 'tasks:read',
+  tasks: 'tasks:read',
+  task: 'tasks:read',
+  find: 'tasks:read',
+  digest: 'tasks:read',
+  new: 'tasks:write',
+  move: 'tasks:write',
+  retry: 'tasks:write',
+  comment: 'comments:write',
+};
+
+const DEFAULT_DASHBOARD_URL = 'https://taskinfa-kanban-test.secan-ltd.workers.dev';
+
+// Bot API response; result is the sent message for sendMessage, true for most others
+interface TelegramResponse {
+  ok: boolean;
+  result?: { message_id?: number } | boolean;
+}
+
+async function callTelegram(botToken: string, method: string, body: Record<string, unknown>): Promise<TelegramResponse> {
+  const res = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text,
-      parse_mode: parseMode || undefined,
-    }),
+    body: JSON.stringify(body),
+  });
+  return res.json() as Promise<TelegramResponse>;
+}
+
+async function sendReply(
+  botToken: string,
+  chatId: number,
+  text: string,
+  parseMode?: string,
+  replyMarkup?: InlineKeyboardMarkup
+): Promise<number | null> {
+  const data = await callTelegram(botToken, 'sendMessage', {
+    chat_id: chatId,
+    text,
+    parse_mode: parseMode || undefined,
+    reply_markup: replyMarkup,
   });
+  // The id of the sent message, so replies to it can be mapped to a task
+  return typeof data.result === 'object' ? data.result.message_id ?? null : null;
 }
 
 // Hash an API key the same way the dashboard does (SHA-256 hex)
@@ -40,52 +111,36 @@ async function hashApiKey(key: string): Promise<string> {
     .join('');
 }
 
-// Verify an API key against the shared D1 database
+// Verify an API key against the shared D1 database. Returns the key's ID and what a chat
+// linked with it may do.
 async function verifyApiKey(
   db: D1Database,
   apiKey: string
-): Promise<{ workspaceId: string; workspaceName: string } | null> {
+): Promise<{ keyId: string; workspaceName: string; access: ChatAccess } | null> {
   const keyHash = await hashApiKey(apiKey);
 
   const record = await db
     .prepare(
-      `SELECT ak.workspace_id, w.name as workspace_name
+      `SELECT ak.workspace_id, w.name as workspace_name, ${KEY_RECORD_COLUMNS}
        FROM api_keys ak
        JOIN workspaces w ON w.id = ak.workspace_id
-       WHERE ak.key_hash = ? AND ak.is_active = 1`
+       ${KEY_MEMBER_JOIN}
+       WHERE ak.key_hash = ?`
     )
     .bind(keyHash)
-    .first<{ workspace_id: string; workspace_name: string }>();
+    .first<KeyRecord & { key_id: string; workspace_id: string; workspace_name: string }>();
 
   if (!record) return null;
 
-  // Check expiration
-  const expRecord = await db
-    .prepare(`SELECT expires_at FROM api_keys WHERE key_hash = ?`)
-    .bind(keyHash)
-    .first<{ expires_at: string | null }>();
+  // Revoked, expired, or its creator left the workspace
+  const access = keyAccess(record.workspace_id, record);
+  if (!access.role) return null;
 
-  if (expRecord?.expires_at && new Date(expRecord.expires_at) < new Date()) {
-    return null;
-  }
-
-  return { workspaceId: record.workspace_id, workspaceName: record.workspace_name };
+  return { keyId: record.key_id, workspaceName: record.workspace_name, access };
 }
 
-// Look up workspace for a Telegram chat
-export async function getLinkedWorkspace(
-  db: D1Database,
-  chatId: number
-): Promise<string | null> {
-  const config = await db
-    .prepare(
-      `SELECT workspace_id FROM notification_config
-       WHERE telegram_chat_id = ? AND telegram_enabled = 1`
-    )
-    .bind(String(chatId))
-    .first<{ workspace_id: string }>();
-
-  return config?.workspace_id || null;
+function isGroupChat(chat: TelegramMessage['chat']): boolean {
+  return chat.type === 'group' || chat.type === 'supergroup';
 }
 
 function getStartMessage(dashboardUrl: string): string {
@@ -97,14 +152,17 @@ function getStartMessage(dashboardUrl: string): string {
     '2. Scroll to *API Keys* section',
     '3. Click *Create API Key*',
     '4. Name it `Telegram Bot`',
-    '5. Copy the key (starts with `tk_`)',
-    '6. Paste it right here in this chat\n',
-    '_Your API key is only used once to link your account. It is not stored._',
+    '5. Give it the *tasks:read* scope, plus *tasks:write* and *comments:write* to act on tasks from here',
+    '6. Copy the key (starts with `tk_`)',
+    '7. Paste it right here in this chat\n',
+    'In a group, send `/link <key>` instead. I delete the message if I\'m a group admin; otherwise delete it yourself, revoke the key and link with a new one.\n',
+    '_The chat can do what the key allows, in the key\'s projects, for as long as the key is active. The key itself is not stored._',
   ].join('\n');
 }
 
 async function handleApiKeyInput(
-  chatId: number,
+  chat: TelegramMessage['chat'],
+  userName: string,
   apiKey: string,
   env: Env
 ): Promise<{ text: string; parse_mode?: string }> {
@@ -116,52 +174,130 @@ async function handleApiKeyInput(
       parse_mode: 'Markdown',
     };
   }
-
-  // Store the link: telegram_chat_id → workspace_id
-  // Upsert: if this chat was already linked, update it
-  // If this workspace already has a config, update the chat_id
-  const existing = await env.DB
-    .prepare(`SELECT id FROM notification_config WHERE workspace_id = ?`)
-    .bind(result.workspaceId)
-    .first<{ id: string }>();
-
-  if (existing) {
-    await env.DB
-      .prepare(
-        `UPDATE notification_config
-         SET telegram_chat_id = ?, telegram_enabled = 1, updated_at = datetime('now')
-         WHERE workspace_id = ?`
-      )
-      .bind(String(chatId), result.workspaceId)
-      .run();
-  } else {
-    await env.DB
-      .prepare(
-        `INSERT INTO notification_config (id, workspace_id, telegram_chat_id, telegram_enabled)
-         VALUES (?, ?, ?, 1)`
-      )
-      .bind(crypto.randomUUID(), result.workspaceId, String(chatId))
-      .run();
+  // Everything the bot does starts with reading tasks
+  const denied = accessDenied(result.access, 'tasks:read');
+  if (denied) {
+    return { text: `${denied}\n\nCreate a key with at least the tasks:read scope and paste it here.` };
   }
 
+  // Subscribe the chat to the workspace. Other chats of the workspace stay linked;
+  // linking this chat again (to any workspace) keeps its settings, except projects
+  // of a workspace it leaves. A key restricted to projects sets the chat's projects.
+  await env.DB
+    .prepare(
+      `INSERT INTO telegram_subscriptions (id, workspace_id, chat_id, chat_type, chat_title, task_list_ids, api_key_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (chat_id) DO UPDATE SET
+         task_list_ids = CASE
+           WHEN excluded.task_list_ids IS NOT NULL THEN excluded.task_list_ids
+           WHEN workspace_id = excluded.workspace_id THEN task_list_ids
+           ELSE NULL
+         END,
+         workspace_id = excluded.workspace_id,
+         chat_type = excluded.chat_type,
+         chat_title = excluded.chat_title,
+         api_key_id = excluded.api_key_id,
+         enabled = 1,
+         updated_at = datetime('now')`
+    )
+    .bind(
+      `tgs_${crypto.randomUUID().replace(/-/g, '').slice(0, 21)}`,
+      result.access.workspaceId,
+      String(chat.id),
+      isGroupChat(chat) ? chat.type : 'private',
+      chat.title ?? userName,
+      result.access.taskListIds ? JSON.stringify(result.access.taskListIds) : null,
+      result.keyId
+    )
+    .run();
+
   return {
-    text: `✅ *Connected!*\n\nLinked to workspace: *${result.workspaceName}*\n\nYou'll now receive notifications when tasks complete, get stuck, or need input.\n\nUse /help to see available commands.`,
+    text: `✅ *Connected!*\n\nLinked to workspace: *${result.workspaceName}*\n\nThis chat will now receive notifications when tasks complete, get stuck, or need input. Choose its projects, events and quiet hours under *Telegram Chats* in the dashboard settings.\n\nUse /help to see available commands.`,
     parse_mode: 'Markdown',
   };
 }
 
+// Links the chat from a message carrying an API key. In a group everyone can read the
+// key, so the message is deleted (which needs the bot to be an admin there).
+async function linkChat(message: TelegramMessage, apiKey: string, env: Env) {
+  const chatId = message.chat.id;
+  const result = await handleApiKeyInput(message.chat, message.from.first_name, apiKey, env);
+  let text = result.text;
+  if (isGroupChat(message.chat)) {
+    const deleted = await callTelegram(env.TELEGRAM_BOT_TOKEN, 'deleteMessage', {
+      chat_id: chatId,
+      message_id: message.message_id,
+    });
+    if (!deleted.ok) {
+      text += '\n\n⚠️ I couldn\'t delete the message with the API key. Delete it, then revoke the key in the dashboard and link this chat with a new one.';
+    }
+  }
+  await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, text, result.parse_mode);
+}
+
+// Button presses act on tasks of the workspace linked to the chat the button is in
+async function handleCallbackQuery(query: NonNullable<TelegramUpdate['callback_query']>, env: Env) {
+  const answer = (text: string) =>
+    callTelegram(env.TELEGRAM_BOT_TOKEN, 'answerCallbackQuery', { callback_query_id: query.id, text });
+
+  const parsed = parseTaskCallback(query.data);
+  if (!parsed || !query.message) {
+    await answer('This button no longer works.');
+    return;
+  }
+
+  const chatId = query.message.chat.id;
+  const access = await getChatAccess(env.DB, chatId);
+  if (!access) {
+    await answer('This chat is not linked to a workspace. Send /start to link it.');
+    return;
+  }
+  const denied = accessDenied(access, parsed.action === 'view' ? 'tasks:read' : 'tasks:write');
+  if (denied) {
+    await answer(denied);
+    return;
+  }
+  const { workspaceId } = access;
+
+  const result = await handleTaskAction(
+    { env, workspaceId, access, dashboardUrl: env.DASHBOARD_URL || DEFAULT_DASHBOARD_URL, actorName: query.from.first_name },
+    parsed.action,
+    parsed.taskId
+  );
+
+  await answer(result.toast);
+  if (result.keyboard) {
+    await callTelegram(env.TELEGRAM_BOT_TOKEN, 'editMessageReplyMarkup', {
+      chat_id: chatId,
+      message_id: query.message.message_id,
+      reply_markup: result.keyboard,
+    });
+  }
+  if (result.reply) {
+    const messageId = await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, result.reply.text, 'Markdown', result.reply.reply_markup);
+    // A task card can be replied to like a notification
+    if (messageId && parsed.action === 'view' && result.reply.reply_markup) {
+      await recordTaskMessage(env, workspaceId, chatId, messageId, parsed.taskId);
+    }
+  }
+}
+
 async function handleUpdate(update: TelegramUpdate, env: Env) {
+  if (update.callback_query) {
+    await handleCallbackQuery(update.callback_query, env);
+    return;
+  }
+
   const message = update.message;
   if (!message?.text) return;
 
   const chatId = message.chat.id;
   const text = message.text.trim();
-  const dashboardUrl = env.DASHBOARD_URL || 'https://taskinfa-kanban-test.secan-ltd.workers.dev';
+  const dashboardUrl = env.DASHBOARD_URL || DEFAULT_DASHBOARD_URL;
 
   // Check if this is an API key paste (starts with tk_)
   if (text.startsWith('tk_')) {
-    const result = await handleApiKeyInput(chatId, text, env);
-    await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, result.text, result.parse_mode);
+    await linkChat(message, text, env);
     return;
   }
 
@@ -169,8 +305,25 @@ async function handleUpdate(update: TelegramUpdate, env: Env) {
   const match = text.match(/^\/(\w+)(?:@\w+)?\s*(.*)?$/s);
   if (!match) {
     // Check if linked
-    const workspaceId = await getLinkedWorkspace(env.DB, chatId);
-    if (!workspaceId) {
+    const access = await getChatAccess(env.DB, chatId);
+    // A reply to a message about a task is a message for its agent
+    if (access && message.reply_to_message) {
+      const result = await handleThreadReply(env, {
+        access,
+        chatId,
+        messageId: message.message_id,
+        replyToMessageId: message.reply_to_message.message_id,
+        author: message.from.first_name,
+        text,
+      });
+      if (result) {
+        await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, result.text, result.parse_mode);
+        return;
+      }
+    }
+    // Group members talk to each other; only commands and replies are for the bot
+    if (isGroupChat(message.chat)) return;
+    if (!access) {
       await sendReply(
         env.TELEGRAM_BOT_TOKEN,
         chatId,
@@ -189,8 +342,8 @@ async function handleUpdate(update: TelegramUpdate, env: Env) {
   // /start and /help don't require linking
   if (command === 'start') {
     // Check if already linked
-    const workspaceId = await getLinkedWorkspace(env.DB, chatId);
-    if (workspaceId) {
+    const access = await getChatAccess(env.DB, chatId);
+    if (access) {
       await sendReply(
         env.TELEGRAM_BOT_TOKEN,
         chatId,
@@ -209,9 +362,19 @@ async function handleUpdate(update: TelegramUpdate, env: Env) {
     return;
   }
 
+  // /link <key> — for group chats, where the bot only sees commands and replies
+  if (command === 'link') {
+    if (!args.startsWith('tk_')) {
+      await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, 'Usage: `/link <API key>`', 'Markdown');
+      return;
+    }
+    await linkChat(message, args, env);
+    return;
+  }
+
   // All other commands require linking
-  const workspaceId = await getLinkedWorkspace(env.DB, chatId);
-  if (!workspaceId) {
+  const access = await getChatAccess(env.DB, chatId);
+  if (!access) {
     await sendReply(
       env.TELEGRAM_BOT_TOKEN,
       chatId,
@@ -220,9 +383,17 @@ async function handleUpdate(update: TelegramUpdate, env: Env) {
     );
     return;
   }
+  // /unlink only needs the chat to be linked
+  const scope = COMMAND_SCOPES[command];
+  const denied = scope ? accessDenied(access, scope) : null;
+  if (denied) {
+    await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, denied);
+    return;
+  }
+  const { workspaceId } = access;
 
-  const ctx = { chatId, args, env, workspaceId };
-  let result: { text: string; parse_mode?: string };
+  const ctx = { chatId, args, env, workspaceId, access, dashboardUrl, userName: message.from.first_name };
+  let result: { text: string; parse_mode?: string; reply_markup?: InlineKeyboardMarkup; taskId?: string };
 
   switch (command) {
     case 'status':
@@ -234,11 +405,36 @@ async function handleUpdate(update: TelegramUpdate, env: Env) {
     case 'new':
       result = await handleNew(ctx);
       break;
+    case 'task':
+      result = await handleTask(ctx);
+      break;
+    case 'find':
+      result = await handleFind(ctx);
+      break;
+    case 'comment':
+      result = await handleComment(ctx);
+      break;
+    case 'move':
+      result = await handleMove(ctx);
+      break;
+    case 'retry':
+      result = await handleRetry(ctx);
+      break;
+    case 'digest':
+      result = await handleDigest(ctx);
+      break;
+    case 'unlink':
+      await env.DB.prepare(`DELETE FROM telegram_subscriptions WHERE chat_id = ?`).bind(String(chatId)).run();
+      result = { text: '👋 This chat is no longer linked and won\'t receive notifications. Send /start to link it again.' };
+      break;
     default:
       result = { text: `Unknown command: /${command}. Use /help for available commands.` };
   }
 
-  await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, result.text, result.parse_mode);
+  const messageId = await sendReply(env.TELEGRAM_BOT_TOKEN, chatId, result.text, result.parse_mode, result.reply_markup);
+  if (messageId && result.taskId) {
+    await recordTaskMessage(env, workspaceId, chatId, messageId, result.taskId);
+  }
 }
 
 export default {
@@ -36,6 +36,7 @@ export function formatEventNotification(
     error: '\u274c',
     session_start: '\u25b6\ufe0f',
     session_end: '\u23f9\ufe0f',
+    budget_exceeded: '\ud83d\udcb8',
   };
 
   const icon = emoji[eventType] || '\u2139\ufe0f';
@@ -0,0 +1,82 @@
+// Replies to bot messages — async chat with the agent from Telegram
+//
+// The dashboard records each message it sends about a task in telegram_messages
+// (src/lib/notifications/telegram.ts). A reply to one of them becomes a human_message
+// comment on that task, which starts a message session; the dashboard sends the
+// agent's answer back as a reply to the user's message.
+
+import { canAccessTaskList } from '@taskinfa/shared';
+import { accessDenied, type ChatAccess } from './access';
+import { queueCommentAdded } from './actions';
+
+interface Env {
+  DB: D1Database;
+  TELEGRAM_BOT_TOKEN: string;
+}
+
+interface ThreadReply {
+  access: ChatAccess;
+  chatId: number;
+  // The user's message and the bot message it replies to
+  messageId: number;
+  replyToMessageId: number;
+  author: string;
+  text: string;
+}
+
+// Remembers that a message the bot sent is about the task, so replies to it reach the task
+export async function recordTaskMessage(
+  env: Env,
+  workspaceId: string,
+  chatId: number,
+  messageId: number,
+  taskId: string
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT OR IGNORE INTO telegram_messages (chat_id, message_id, workspace_id, task_id)
+     VALUES (?, ?, ?, ?)`
+  ).bind(String(chatId), messageId, workspaceId, taskId).run();
+}
+
+// Returns null when the replied-to message isn't about a task the chat can see
+export async function handleThreadReply(
+  env: Env,
+  reply: ThreadReply
+): Promise<{ text: string; parse_mode?: 'Markdown' } | null> {
+  const { workspaceId } = reply.access;
+  const thread = await env.DB.prepare(
+    `SELECT tm.task_id, t.task_list_id, t.title FROM telegram_messages tm
+     JOIN tasks t ON t.id = tm.task_id
+     WHERE tm.chat_id = ? AND tm.message_id = ? AND tm.workspace_id = ? AND t.workspace_id = ?`
+  ).bind(String(reply.chatId), reply.replyToMessageId, workspaceId, workspaceId)
+    .first<{ task_id: string; task_list_id: string | null; title: string }>();
+
+  if (!thread || !canAccessTaskList(reply.access, thread.task_list_id)) return null;
+
+  // The message is posted as a comment, as through the comments API
+  const denied = accessDenied(reply.access, 'comments:write');
+  if (denied) return { text: denied };
+
+  const commentId = `cmt_${crypto.randomUUID().replace(/-/g, '').slice(0, 21)}`;
+  await env.DB.prepare(
+    `INSERT INTO task_comments (id, task_id, author, author_type, content, comment_type)
+     VALUES (?, ?, ?, 'user', ?, 'human_message')`
+  ).bind(commentId, thread.task_id, reply.author, reply.text).run();
+  await queueCommentAdded({ env, workspaceId }, thread.task_id, commentId);
+
+  // The agent's answer is sent as a reply to this message
+  await env.DB.prepare(
+    `INSERT OR IGNORE INTO telegram_messages (chat_id, message_id, workspace_id, task_id, comment_id)
+     VALUES (?, ?, ?, ?, ?)`
+  ).bind(String(reply.chatId), reply.messageId, workspaceId, thread.task_id, commentId).run();
+
+  // Wake the orchestrator for the message session, like a comment posted in the dashboard
+  await env.DB.prepare(
+    `INSERT INTO work_signals (workspace_id, reason, task_id) VALUES (?, 'human_message', ?)`
+  ).bind(workspaceId, thread.task_id).run();
+
+  return {
+    text: `📨 Sent to the agent on *${thread.title}*. Its answer will arrive as a reply here.`,
+    parse_mode: 'Markdown',
+  };
+}
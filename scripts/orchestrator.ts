@@ -2,8 +2,9 @@
 /**
  * Orchestrator Daemon — the heartbeat of taskinfa-kanban v2
  *
- * Polls the kanban API every 15 minutes, starts Claude Code sessions
- * for projects with pending tasks, manages concurrency and retries.
+ * Wakes up when the kanban API signals new work (falling back to a poll every
+ * 15 minutes), starts Claude Code sessions for projects with pending tasks,
+ * manages concurrency and retries.
  *
  * Usage:
  *   npx tsx scripts/orchestrator.ts
@@ -16,11 +17,19 @@
  *   MAX_CONCURRENT  — Max parallel Claude sessions (default: 3)
  *   MAX_RETRIES     — Max retries per task before marking blocked (default: 3)
  *   SESSION_TIMEOUT_MS — Session timeout in ms before marking stuck (default: 2700000 = 45 min)
+ *   RETRY_BACKOFF_SECONDS — Delay before retrying a failed task, doubled per failure (default: 60)
+ *   RETRY_BACKOFF_MAX_SECONDS — Upper bound of the retry delay (default: 3600)
+ *     (the five settings above are defaults: workspace and project run policies override them)
+ *   WAKE_ON_SIGNALS — Start a cycle as soon as the dashboard signals new work (default: true)
+ *   ORCHESTRATOR_ID — Lease holder ID when several orchestrators share a workspace, and our name in the audit log (default: <hostname>-<pid>)
+ *   LEASE_TTL_SECONDS — Task lease length, renewed every third of it while a session runs (default: 300)
+ *   WORKTREES_DIR   — Where per-task git worktrees are created (default: $PROJECTS_DIR/.worktrees)
  */
 
 import { spawn, ChildProcess } from 'child_process';
-import { existsSync, readFileSync, appendFileSync, mkdirSync, writeFileSync } from 'fs';
+import { existsSync, readFileSync, appendFileSync, mkdirSync, writeFileSync, readdirSync, rmSync } from 'fs';
 import { join } from 'path';
+import { hostname } from 'os';
 
 // ── Version (injected at build time by esbuild) ─────────────────────
 
@@ -53,9 +62,16 @@ const POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL || '900000', 10); // 15
 const MAX_CONCURRENT = parseInt(process.env.MAX_CONCURRENT || '3', 10);
 const MAX_RETRIES = parseInt(process.env.MAX_RETRIES || '3', 10);
 const SESSION_TIMEOUT_MS = parseInt(process.env.SESSION_TIMEOUT_MS || String(45 * 60 * 1000), 10); // 45 min default
+const RETRY_BACKOFF_SECONDS = parseInt(process.env.RETRY_BACKOFF_SECONDS || '60', 10);
+const RETRY_BACKOFF_MAX_SECONDS = parseInt(process.env.RETRY_BACKOFF_MAX_SECONDS || '3600', 10);
+const WAKE_ON_SIGNALS = process.env.WAKE_ON_SIGNALS !== 'false'; // long-poll the dashboard for work
+const ORCHESTRATOR_ID = process.env.ORCHESTRATOR_ID || `${hostname()}-${process.pid}`;
+const LEASE_TTL_SECONDS = parseInt(process.env.LEASE_TTL_SECONDS || '300', 10);
+const HEARTBEAT_INTERVAL_SECONDS = parseInt(process.env.HEARTBEAT_INTERVAL_SECONDS || '15', 10);
 const WORKSPACE_ROOT = process.env.WORKSPACE_ROOT || '/workspace';
 const TASKINFA_HOME = process.env.TASKINFA_HOME || '';
 const PROJECTS_DIR = process.env.PROJECTS_DIR || join(WORKSPACE_ROOT, 'projects');
+const WORKTREES_DIR = process.env.WORKTREES_DIR || join(PROJECTS_DIR, '.worktrees');
 const GH_TOKEN = process.env.GH_TOKEN || '';
 const LOG_DIR = TASKINFA_HOME ? join(TASKINFA_HOME, 'logs') : join(WORKSPACE_ROOT, '.memory');
 const LOG_FILE = join(LOG_DIR, 'orchestrator.log');
@@ -64,8 +80,27 @@ const LOG_FILE = join(LOG_DIR, 'orchestrator.log');
 // "cannot launch inside another Claude Code session" errors
 const { CLAUDECODE: _dropClaude, ...CLEAN_ENV } = process.env;
 
-// Track active Claude processes
-const activeSessions = new Map<string, { process: ChildProcess; sessionId: string; taskId: string; startedAt: number }>();
+// Track active Claude processes (keyed by session ID; a project may run several)
+interface ActiveSession {
+  process: ChildProcess;
+  sessionId: string;
+  projectId: string;
+  taskId: string;
+  startedAt: number;
+  // Set when the session runs in its own git worktree rather than the project clone
+  worktree?: string;
+  // Set when lease renewal fails: another orchestrator may own the task now
+  leaseLost?: boolean;
+  // Task's recorded cost when the session started, for the per-task budget
+  taskCostUsd: number;
+  // Run policy resolved for the task when the session started
+  settings: RunSettings;
+  // Set when the orchestrator stops the session for a reason that is not the task's
+  // fault (a budget was reached, killed from the dashboard): the task is requeued
+  stop?: { reason: string; comment: string };
+}
+
+const activeSessions = new Map<string, ActiveSession>();
 
 // ── Logging ─────────────────────────────────────────────────────────
 
@@ -85,6 +120,8 @@ function log(level: 'INFO' | 'WARN' | 'ERROR', msg: string, data?: Record<string
 const headers = {
   'Content-Type': 'application/json',
   'Authorization': `Bearer ${API_KEY}`,
+  // Our changes are audited as this orchestrator's rather than the API key's
+  'X-Orchestrator-Id': ORCHESTRATOR_ID,
 };
 
 async function parseApiError(method: string, path: string, res: Response): Promise<string> {
@@ -105,12 +142,18 @@ async function parseApiError(method: string, path: string, res: Response): Promi
   }
 }
 
-async function apiGet<T>(path: string): Promise<T> {
-  const res = await fetch(`${API_URL}${path}`, { headers });
+class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+async function apiGet<T>(path: string, signal?: AbortSignal): Promise<T> {
+  const res = await fetch(`${API_URL}${path}`, { headers, signal });
   if (!res.ok) {
     const errorMsg = await parseApiError('GET', path, res);
     log('ERROR', errorMsg);
-    throw new Error(errorMsg);
+    throw new ApiError(errorMsg, res.status);
   }
   return res.json() as Promise<T>;
 }
@@ -124,7 +167,17 @@ async function apiPost<T>(path: string, body: Record<string, unknown>): Promise<
   if (!res.ok) {
     const errorMsg = await parseApiError('POST', path, res);
     log('ERROR', errorMsg);
-    throw new Error(errorMsg);
+    throw new ApiError(errorMsg, res.status);
+  }
+  return res.json() as Promise<T>;
+}
+
+async function apiDelete<T>(path: string): Promise<T> {
+  const res = await fetch(`${API_URL}${path}`, { method: 'DELETE', headers });
+  if (!res.ok) {
+    const errorMsg = await parseApiError('DELETE', path, res);
+    log('ERROR', errorMsg);
+    throw new ApiError(errorMsg, res.status);
   }
   return res.json() as Promise<T>;
 }
@@ -138,7 +191,7 @@ async function apiPatch<T>(path: string, body: Record<string, unknown>): Promise
   if (!res.ok) {
     const errorMsg = await parseApiError('PATCH', path, res);
     log('ERROR', errorMsg);
-    throw new Error(errorMsg);
+    throw new ApiError(errorMsg, res.status);
   }
   return res.json() as Promise<T>;
 }
@@ -160,6 +213,10 @@ interface Task {
   claude_session_id: string | null;
   labels: string[];
   completion_notes: string | null;
+  cost_usd: number;
+  max_retries: number | null;
+  session_timeout_minutes: number | null;
+  next_attempt_at: string | null;
   is_blocked?: boolean;
 }
 
@@ -170,6 +227,9 @@ interface TaskList {
   repository_url: string | null;
   is_initialized: boolean;
   slug: string | null;
+  agent_runner?: 'claude' | 'shell';
+  agent_command?: string | null;
+  max_concurrent_sessions?: number;
 }
 
 interface Session {
@@ -177,6 +237,20 @@ interface Session {
   project_id: string | null;
   current_task_id: string | null;
   status: string;
+  holder_id: string | null;
+}
+
+// Mirrors LlmSessionType in @taskinfa/shared
+type LlmSessionType = 'task' | 'ai_review' | 'fix_review' | 'testing' | 'fix_test_failure' | 'refinement' | 'message';
+
+// Mirrors TranscriptEntryKind in @taskinfa/shared
+type TranscriptEntryKind = 'system' | 'assistant' | 'tool_use' | 'file_edit' | 'tool_result' | 'stderr' | 'result';
+
+interface TranscriptEntry {
+  kind: TranscriptEntryKind;
+  tool_name?: string;
+  content: string;
+  metadata?: Record<string, unknown>;
 }
 
 interface FeatureToggle {
@@ -185,6 +259,20 @@ interface FeatureToggle {
   config: Record<string, unknown>;
 }
 
+interface WorkflowColumn {
+  id: string;
+  task_list_id: string | null;
+  status: string;
+  label: string;
+  icon: string;
+  after_status: string;
+  position: number;
+  wip_limit: number | null;
+  block_when_full: boolean;
+  orchestrated: boolean;
+  instructions: string | null;
+}
+
 // ── Project initialization ──────────────────────────────────────────
 
 function toHttpsUrl(repoUrl: string): string {
@@ -310,9 +398,10 @@ async function getProjectTasks(): Promise<Map<string, Task[]>> {
   const grouped = new Map<string, Task[]>();
 
   for (const task of tasks) {
-    // Skip subtasks (handled by parent) and blocked tasks
+    // Skip subtasks (handled by parent), blocked tasks and failed tasks still backing off
     if (task.parent_task_id) continue;
     if (task.is_blocked) continue;
+    if (!isDue(task)) continue;
 
     const projectId = task.task_list_id || 'default';
     if (!grouped.has(projectId)) grouped.set(projectId, []);
@@ -322,15 +411,18 @@ async function getProjectTasks(): Promise<Map<string, Task[]>> {
   return grouped;
 }
 
-async function getActiveSessions(): Promise<Set<string>> {
+// Returns how many sessions other orchestrators are running per project
+async function getActiveSessions(): Promise<Map<string, number>> {
   const { sessions } = await apiGet<{ sessions: Session[] }>('/api/sessions?status=active');
 
-  // Orphan cleanup: if API shows active sessions that don't exist locally,
-  // mark them as errors (handles orchestrator crash/restart scenarios)
+  // Orphan cleanup: if API shows active sessions of ours that don't exist locally,
+  // mark them as errors (handles orchestrator crash/restart scenarios). Sessions
+  // held by other orchestrators are theirs to manage; lease expiry covers crashes.
   for (const session of sessions) {
     const projectId = session.project_id;
     if (!projectId) continue;
-    if (activeSessions.has(projectId)) continue;
+    if (activeSessions.has(session.id)) continue;
+    if (session.holder_id && session.holder_id !== ORCHESTRATOR_ID) continue;
 
     // API says active but we have no local process — this is an orphan
     log('WARN', 'Cleaning up orphan session (no local process)', {
@@ -355,6 +447,7 @@ async function getActiveSessions(): Promise<Set<string>> {
           assigned_to: null,
           error_count: (task.error_count || 0) + 1,
         });
+        await releaseLease(session.current_task_id);
       } catch (e) {
         log('ERROR', 'Failed to reset orphan task', { error: String(e) });
       }
@@ -371,14 +464,44 @@ async function getActiveSessions(): Promise<Set<string>> {
     }
   }
 
-  // Return only sessions that have a local process (orphans have been cleaned up)
-  const activeProjectIds = new Set<string>();
+  // Our own sessions are counted from activeSessions (orphans have been cleaned up)
+  const remoteCounts = new Map<string, number>();
   for (const session of sessions) {
-    if (session.project_id && activeSessions.has(session.project_id)) {
-      activeProjectIds.add(session.project_id);
-    }
+    if (!session.project_id) continue;
+    if (!session.holder_id || session.holder_id === ORCHESTRATOR_ID) continue;
+    remoteCounts.set(session.project_id, (remoteCounts.get(session.project_id) ?? 0) + 1);
+  }
+  return remoteCounts;
+}
+
+function countProjectSessions(projectId: string): number {
+  let count = 0;
+  for (const entry of activeSessions.values()) {
+    if (entry.projectId === projectId) count++;
+  }
+  return count;
+}
+
+function isTaskActive(taskId: string): boolean {
+  for (const entry of activeSessions.values()) {
+    if (entry.taskId === taskId) return true;
+  }
+  return false;
+}
+
+function projectConcurrency(project: TaskList | null | undefined): number {
+  return Math.max(1, project?.max_concurrent_sessions ?? 1);
+}
+
+async function getProjects(): Promise<Map<string, TaskList>> {
+  const projects = new Map<string, TaskList>();
+  try {
+    const { task_lists } = await apiGet<{ task_lists: TaskList[] }>('/api/task-lists');
+    for (const project of task_lists) projects.set(project.id, project);
+  } catch (e) {
+    log('WARN', 'Failed to fetch projects, assuming one session per project', { error: String(e) });
   }
-  return activeProjectIds;
+  return projects;
 }
 
 async function getProjectInfo(projectId: string): Promise<TaskList | null> {
@@ -401,9 +524,26 @@ async function getFeatureToggles(): Promise<FeatureToggle[]> {
   }
 }
 
+async function getWorkflowColumns(): Promise<WorkflowColumn[]> {
+  try {
+    const { columns } = await apiGet<{ columns: WorkflowColumn[] }>('/api/workflow-columns');
+    return columns;
+  } catch (e) {
+    log('WARN', 'Failed to fetch workflow columns, skipping custom columns', { error: String(e) });
+    return [];
+  }
+}
+
 interface LlmData {
   providers: Array<{ provider: string; base_url: string | null; auth_token: string | null }>;
-  session_configs: Array<{ task_list_id: string | null; session_type: string; provider: string; model: string | null }>;
+  session_configs: Array<{
+    task_list_id: string | null;
+    session_type: string;
+    provider: string;
+    model: string | null;
+    agent_runner?: 'claude' | 'shell' | null;
+    agent_command?: string | null;
+  }>;
 }
 
 async function getLlmConfig(): Promise<LlmData | null> {
@@ -415,22 +555,33 @@ async function getLlmConfig(): Promise<LlmData | null> {
   }
 }
 
+// Effective session config: project-level → global → nothing (default Anthropic)
+function findSessionConfig(llmData: LlmData | null, sessionType: string, projectId: string) {
+  return (
+    llmData?.session_configs.find(c => c.task_list_id === projectId && c.session_type === sessionType) ??
+    llmData?.session_configs.find(c => c.task_list_id === null && c.session_type === sessionType)
+  );
+}
+
+// Provider and model a session runs with, recorded on the session for the effectiveness report
+interface SessionLlm {
+  provider: string;
+  model: string | null;
+  env: Record<string, string>;
+}
+
 function resolveSessionEnv(
   llmData: LlmData | null,
   sessionType: string,
   projectId: string
-): Record<string, string> {
-  if (!llmData) return {};
-
-  // Find effective session config: project-level → global → nothing (default Anthropic)
-  const cfg =
-    llmData.session_configs.find(c => c.task_list_id === projectId && c.session_type === sessionType) ??
-    llmData.session_configs.find(c => c.task_list_id === null && c.session_type === sessionType);
+): SessionLlm {
+  const cfg = findSessionConfig(llmData, sessionType, projectId);
+  const resolved: SessionLlm = { provider: cfg?.provider ?? 'anthropic', model: cfg?.model ?? null, env: {} };
 
-  if (!cfg || cfg.provider === 'anthropic') return {};
+  if (!llmData || !cfg || cfg.provider === 'anthropic') return resolved;
 
   const providerRecord = llmData.providers.find(p => p.provider === cfg.provider);
-  const env: Record<string, string> = {};
+  const env = resolved.env;
 
   if (providerRecord?.base_url) {
     env.ANTHROPIC_BASE_URL = providerRecord.base_url;
@@ -441,7 +592,7 @@ function resolveSessionEnv(
 
   if (cfg.model) env.ANTHROPIC_MODEL = cfg.model;
 
-  return env;
+  return resolved;
 }
 
 function isAiReviewEnabled(toggles: FeatureToggle[]): boolean {
@@ -472,8 +623,7 @@ function getLocalTestingConfig(toggles: FeatureToggle[]): { auto_advance_on_pass
   };
 }
 
-async function getTasksByStatus(status: string): Promise<Map<string, Task[]>> {
-  const { tasks } = await apiGet<{ tasks: Task[] }>(`/api/tasks?status=${status}&limit=100`);
+function groupByProject(tasks: Task[]): Map<string, Task[]> {
   const grouped = new Map<string, Task[]>();
 
   for (const task of tasks) {
@@ -485,6 +635,11 @@ async function getTasksByStatus(status: string): Promise<Map<string, Task[]>> {
   return grouped;
 }
 
+async function getTasksByStatus(status: string): Promise<Map<string, Task[]>> {
+  const { tasks } = await apiGet<{ tasks: Task[] }>(`/api/tasks?status=${status}&limit=100`);
+  return groupByProject(tasks.filter(isDue));
+}
+
 function isRefinementEnabled(toggles: FeatureToggle[]): boolean {
   const toggle = toggles.find(t => t.feature_key === 'refinement');
   return toggle?.enabled ?? false;
@@ -496,6 +651,84 @@ function getRefinementConfig(toggles: FeatureToggle[]): { auto_advance: boolean
   return { auto_advance: (config?.auto_advance as boolean) ?? true };
 }
 
+// Column order on a project's board. Mirrors getStatusColumns in @taskinfa/shared:
+// custom columns follow their after_status, or go before Done when it is hidden.
+function boardStatuses(toggles: FeatureToggle[], columns: WorkflowColumn[], projectId: string): string[] {
+  const aiReview = isAiReviewEnabled(toggles);
+  const localTesting = isLocalTestingEnabled(toggles);
+  const builtin = [
+    'backlog',
+    ...(isRefinementEnabled(toggles) ? ['refinement'] : []),
+    'todo',
+    ...(aiReview ? ['review_rejected'] : []),
+    ...(localTesting ? ['test_failed'] : []),
+    'in_progress',
+    ...(aiReview ? ['ai_review'] : []),
+    ...(localTesting ? ['testing'] : []),
+    'review',
+    'done',
+  ];
+  const custom = columns
+    .filter(c => c.task_list_id === null || c.task_list_id === projectId)
+    .sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+
+  const statuses: string[] = [];
+  for (const status of builtin) {
+    if (status === 'done') {
+      statuses.push(...custom.filter(c => !builtin.includes(c.after_status)).map(c => c.status));
+    }
+    statuses.push(status, ...custom.filter(c => c.after_status === status).map(c => c.status));
+  }
+  return statuses;
+}
+
+function nextBoardStatus(status: string, toggles: FeatureToggle[], columns: WorkflowColumn[], projectId: string): string {
+  const statuses = boardStatuses(toggles, columns, projectId);
+  return statuses[statuses.indexOf(status) + 1] ?? 'done';
+}
+
+// ── WIP limits ──────────────────────────────────────────────────────
+//
+// A column at its WIP limit takes no new work from us: a stage whose session
+// would move tasks into a full column is skipped until the column drains, so
+// upstream stages back up instead of burying human reviewers. Tasks we start
+// during a cycle count towards the limit before the API sees them move.
+
+interface WipData {
+  // Limit per status, built-in and custom columns alike
+  limits: Map<string, number>;
+  // Tasks per status at the start of the cycle
+  counts: Map<string, number>;
+}
+
+async function getWipData(columns: WorkflowColumn[]): Promise<WipData | null> {
+  try {
+    const data = await apiGet<{ limits: Array<{ status: string; wip_limit: number }>; counts: Record<string, number> }>(
+      '/api/wip-limits'
+    );
+    const limits = new Map(data.limits.map(l => [l.status, l.wip_limit]));
+    for (const column of columns) {
+      if (column.wip_limit !== null) limits.set(column.status, column.wip_limit);
+    }
+    return { limits, counts: new Map(Object.entries(data.counts)) };
+  } catch (e) {
+    log('WARN', 'Failed to fetch WIP limits, not enforcing them this cycle', { error: String(e) });
+    return null;
+  }
+}
+
+// First of the statuses that has no room for one more task
+function findFullColumn(wip: WipData, statuses: string[], pending: Map<string, number>): string | null {
+  for (const status of statuses) {
+    const limit = wip.limits.get(status);
+    if (limit === undefined) continue;
+    if ((wip.counts.get(status) ?? 0) + (pending.get(status) ?? 0) >= limit) {
+      return status;
+    }
+  }
+  return null;
+}
+
 async function getRefinementTasks(): Promise<Map<string, Task[]>> {
   const grouped = await getTasksByStatus('refinement');
   const filtered = new Map<string, Task[]>();
@@ -562,357 +795,785 @@ async function postBotComment(taskId: string, content: string, commentType: stri
   }
 }
 
-function buildClaudeArgs(task: Task, prompt: string): string[] {
-  const args: string[] = [];
-  if (task.claude_session_id) {
-    args.push('--resume', task.claude_session_id);
-  }
-  args.push('-p', prompt, '--dangerously-skip-permissions', '--output-format', 'json');
-  return args;
+// ── Run policies ────────────────────────────────────────────────────
+//
+// Retry limit, session timeout and retry backoff come from the most specific
+// setting available: the task's own override, then the project policy for the
+// session type, the project policy, the workspace policy for the session type,
+// the workspace policy and finally the env defaults above. A failed task waits
+// RETRY_BACKOFF_SECONDS * 2^(failures - 1), capped, before it is picked again.
+
+interface RunPolicyRecord {
+  task_list_id: string | null;
+  session_type: string | null;
+  max_retries: number | null;
+  session_timeout_minutes: number | null;
+  retry_backoff_seconds: number | null;
+  retry_backoff_max_seconds: number | null;
+  max_concurrent_sessions: number | null;
 }
 
-async function saveClaudeSessionId(task: Task, stdout: string): Promise<void> {
-  try {
-    const output = JSON.parse(stdout);
-    const sessionId = output.session_id;
-    if (sessionId && sessionId !== task.claude_session_id) {
-      await apiPatch(`/api/tasks/${task.id}`, { claude_session_id: sessionId });
-      log('INFO', 'Saved Claude session ID to task', { taskId: task.id, claudeSessionId: sessionId });
-    }
-  } catch {
-    // Non-JSON output or parse error, skip
-  }
+interface RunSettings {
+  maxRetries: number;
+  sessionTimeoutMs: number;
+  backoffMs: number;
+  backoffMaxMs: number;
 }
 
-function extractTextFromJsonOutput(stdout: string): string {
+type RunPolicyField = Exclude<keyof RunPolicyRecord, 'task_list_id' | 'session_type'>;
+
+// Earliest next_attempt_at among the tasks skipped this cycle
+let earliestRetryAt: number | null = null;
+let retryWakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function getRunPolicies(): Promise<RunPolicyRecord[]> {
   try {
-    const output = JSON.parse(stdout);
-    // Claude JSON output has a 'result' field with the text content
-    return output.result || output.text || stdout;
-  } catch {
-    return stdout;
+    const { policies } = await apiGet<{ policies: RunPolicyRecord[] }>('/api/run-policies');
+    return policies;
+  } catch (e) {
+    log('WARN', 'Failed to fetch run policies, using env defaults', { error: String(e) });
+    return [];
   }
 }
 
-function buildSystemPrompt(task: Task, project: TaskList | null): string {
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
-  const memoryPath = join(workDir, '.memory', 'context.md');
-  const claudeMdPath = join(workDir, 'CLAUDE.md');
-  const branchName = task.branch_name || generateBranchName(task);
+function resolveRunSettings(
+  policies: RunPolicyRecord[],
+  projectId: string,
+  sessionType: string,
+  task: Pick<Task, 'max_retries' | 'session_timeout_minutes'>
+): RunSettings {
+  const layers = [
+    policies.find(p => p.task_list_id === projectId && p.session_type === sessionType),
+    policies.find(p => p.task_list_id === projectId && p.session_type === null),
+    policies.find(p => p.task_list_id === null && p.session_type === sessionType),
+    policies.find(p => p.task_list_id === null && p.session_type === null),
+  ];
+  const pick = (field: RunPolicyField): number | null =>
+    layers.find(layer => layer?.[field] != null)?.[field] ?? null;
+
+  const timeoutMinutes = task.session_timeout_minutes ?? pick('session_timeout_minutes');
+  const backoffSeconds = pick('retry_backoff_seconds') ?? RETRY_BACKOFF_SECONDS;
+  const backoffMaxSeconds = pick('retry_backoff_max_seconds') ?? RETRY_BACKOFF_MAX_SECONDS;
+  return {
+    maxRetries: task.max_retries ?? pick('max_retries') ?? MAX_RETRIES,
+    sessionTimeoutMs: timeoutMinutes != null ? timeoutMinutes * 60_000 : SESSION_TIMEOUT_MS,
+    backoffMs: backoffSeconds * 1000,
+    backoffMaxMs: backoffMaxSeconds * 1000,
+  };
+}
 
-  // Build context preamble for task awareness
-  const taskContext = `## Task Context
-- Previous attempts: ${task.error_count}
-- Branch: ${task.branch_name || 'none (fresh task)'}
-- PR: ${task.pr_url || 'none'}
-- Last notes: ${task.completion_notes || 'none'}
+// Overall session limit: the workspace-wide policy, else MAX_CONCURRENT
+function maxConcurrentSessions(policies: RunPolicyRecord[]): number {
+  const workspacePolicy = policies.find(p => p.task_list_id === null && p.session_type === null);
+  return workspacePolicy?.max_concurrent_sessions ?? MAX_CONCURRENT;
+}
 
-Before starting, assess the current state:
-1. ${task.branch_name ? `Check if branch exists: git branch -a | grep ${task.branch_name}` : 'This is a fresh task — no existing branch.'}
-2. ${task.pr_url ? `Check PR status: the PR is at ${task.pr_url}` : 'No PR exists yet.'}
-3. Review previous session notes above
-4. Read task comments for history from previous sessions:
-   curl -s "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID/comments" -H "Authorization: Bearer $KANBAN_API_KEY" | head -c 2000
-Then decide: continue existing work or start fresh.
-`;
+// When a task that has now failed errorCount times may run again (null = right away)
+function nextAttemptAt(settings: RunSettings, errorCount: number): string | null {
+  const delay = Math.min(settings.backoffMs * 2 ** Math.max(errorCount - 1, 0), settings.backoffMaxMs);
+  return delay > 0 ? new Date(Date.now() + delay).toISOString() : null;
+}
 
-  // Build git workflow based on existing branch/PR state
-  let gitWorkflow = '';
-  if (GH_TOKEN) {
-    if (task.pr_url && task.branch_name) {
-      // Existing branch AND PR — continue working on it
-      gitWorkflow = `
-## Git Workflow
+// The API stores times like SQLite's datetime('now'): UTC without a zone suffix
+function parseDbTime(value: string): number {
+  return Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
 
-An open PR already exists at ${task.pr_url} on branch \`${task.branch_name}\`.
+function isDue(task: Task): boolean {
+  if (!task.next_attempt_at) return true;
+  const at = parseDbTime(task.next_attempt_at);
+  if (isNaN(at) || at <= Date.now()) return true;
+  earliestRetryAt = earliestRetryAt === null ? at : Math.min(earliestRetryAt, at);
+  return false;
+}
 
-1. Checkout existing branch: git checkout ${task.branch_name} && git pull origin ${task.branch_name}
-2. Make your changes on this branch
-3. Stage and commit: git add -A && git commit -m "fix: continue work on ${task.title.replace(/"/g, '\\"')}"
-4. Push to existing branch: git push origin ${task.branch_name}
+// Run a cycle as soon as the first backed-off task is due instead of waiting for POLL_INTERVAL
+function scheduleRetryWake(): void {
+  if (retryWakeTimer) clearTimeout(retryWakeTimer);
+  retryWakeTimer = null;
+  if (earliestRetryAt === null) return;
 
-IMPORTANT: Do NOT create a new branch or a new PR. Push to the existing branch \`${task.branch_name}\`.
-`;
-    } else if (task.branch_name) {
-      // Existing branch but no PR — checkout branch, create PR when done
-      gitWorkflow = `
-## Git Workflow
+  const delay = Math.max(earliestRetryAt - Date.now(), 0) + 1000;
+  earliestRetryAt = null;
+  if (delay >= POLL_INTERVAL) return;
 
-An existing branch \`${task.branch_name}\` exists for this task but no PR has been created yet.
+  retryWakeTimer = setTimeout(() => {
+    retryWakeTimer = null;
+    void requestPoll();
+  }, delay);
+}
 
-1. Checkout existing branch: git checkout ${task.branch_name} && git pull origin ${task.branch_name}
-2. Make your changes on this branch
-3. Stage and commit: git add -A && git commit -m "feat: ${task.title.replace(/"/g, '\\"')}"
-4. Push: git push -u origin ${task.branch_name}
-5. Create PR: gh pr create --title "${task.title}" --body "Automated PR for task ${task.id}"
-6. Capture the PR URL from the gh output, then update the task:
-   curl -s -X PATCH "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID" \\
-     -H "Authorization: Bearer $KANBAN_API_KEY" \\
-     -H "Content-Type: application/json" \\
-     -d '{"pr_url":"<PR_URL>"}'
-   (Replace <PR_URL> with the actual URL returned by gh pr create)
+// ── Task leases ─────────────────────────────────────────────────────
+//
+// Several orchestrators can serve one workspace. Before starting a session we
+// claim the task through the API, which grants a lease to exactly one holder;
+// we renew it while the agent runs and release it when the session ends. If we
+// die, the lease expires and any orchestrator's next cycle reclaims the task.
 
-IMPORTANT: Do NOT create a new branch. Use the existing branch \`${task.branch_name}\`.
-`;
-    } else {
-      // Fresh task — create new branch and PR
-      gitWorkflow = `
-## Git Workflow
+// Returns false if another orchestrator got there first (or the task moved on)
+async function claimTask(task: Task, runningStatus?: string): Promise<boolean> {
+  try {
+    await apiPost(`/api/tasks/${task.id}/claim`, {
+      holder_id: ORCHESTRATOR_ID,
+      lease_seconds: LEASE_TTL_SECONDS,
+      expected_status: task.status,
+      ...(runningStatus ? { status: runningStatus } : {}),
+    });
+    return true;
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 409) {
+      log('INFO', 'Task claimed elsewhere, skipping', { taskId: task.id });
+      return false;
+    }
+    throw e;
+  }
+}
 
-After completing the task, create a PR for review:
-1. Start from main: git checkout main && git pull origin main
-2. Create branch: git checkout -b ${branchName}
-3. Stage all changes including memory: git add -A
-4. Commit (conventional commits, e.g. "feat: ..." or "fix: ...")
-5. Push: git push -u origin ${branchName}
-6. Create PR: gh pr create --title "${task.title}" --body "Automated PR for task ${task.id}"
-7. Capture the PR URL from the gh output, then update the task:
-   curl -s -X PATCH "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID" \\
-     -H "Authorization: Bearer $KANBAN_API_KEY" \\
-     -H "Content-Type: application/json" \\
-     -d '{"pr_url":"<PR_URL>","branch_name":"${branchName}"}'
-   (Replace <PR_URL> with the actual URL returned by gh pr create)
+async function releaseLease(taskId: string): Promise<void> {
+  try {
+    await apiDelete(`/api/tasks/${taskId}/claim?holder_id=${encodeURIComponent(ORCHESTRATOR_ID)}`);
+  } catch {
+    // Logged by apiDelete; the lease expires on its own
+  }
+}
 
-IMPORTANT: You MUST create the branch, commit, push, and create the PR. The PR URL must be saved to the task.
-`;
+async function renewLeases(): Promise<void> {
+  for (const entry of activeSessions.values()) {
+    if (entry.leaseLost) continue;
+    try {
+      await apiPost(`/api/tasks/${entry.taskId}/claim`, {
+        holder_id: ORCHESTRATOR_ID,
+        lease_seconds: LEASE_TTL_SECONDS,
+      });
+    } catch (e) {
+      // Network errors are retried next heartbeat; a refusal means the lease is gone
+      if (!(e instanceof ApiError) || e.status >= 500) continue;
+      log('WARN', 'Lease lost, stopping session', {
+        sessionId: entry.sessionId, taskId: entry.taskId, projectId: entry.projectId, error: String(e),
+      });
+      entry.leaseLost = true;
+      entry.process.kill('SIGTERM');
     }
   }
+}
 
-  return [
-    `Project: ${project?.name || 'Unknown'}`,
-    existsSync(claudeMdPath) ? `Read ${claudeMdPath} for project rules.` : '',
-    existsSync(memoryPath) ? `Read ${memoryPath} for current context.` : '',
-    '',
-    taskContext,
-    `Task: ${task.title}`,
-    task.description || '',
-    '',
-    'Do the task. When done, update .memory/context.md with what you accomplished.',
-    gitWorkflow,
-    `
-## API Connectivity Check
+async function reclaimExpiredLeases(): Promise<void> {
+  try {
+    const { reclaimed } = await apiPost<{ reclaimed: Array<{ task_id: string; holder_id: string; status: string }> }>(
+      '/api/tasks/leases/reclaim', {}
+    );
+    for (const r of reclaimed) {
+      log('WARN', 'Reclaimed task from expired lease', { taskId: r.task_id, holder: r.holder_id, status: r.status });
+    }
+  } catch (e) {
+    log('WARN', 'Failed to reclaim expired leases', { error: String(e) });
+  }
+}
 
-Before starting any work, verify the kanban API is reachable:
+// The dashboard can't schedule its own work, so webhook deliveries that failed are
+// retried when an orchestrator asks for it
+async function retryWebhookDeliveries(): Promise<void> {
+  try {
+    const { attempted, succeeded } = await apiPost<{ attempted: number; succeeded: number }>(
+      '/api/webhooks/deliveries/retry', {}
+    );
+    if (attempted > 0) {
+      log('INFO', 'Retried webhook deliveries', { attempted, succeeded });
+    }
+  } catch (e) {
+    log('WARN', 'Failed to retry webhook deliveries', { error: String(e) });
+  }
+}
 
-\`\`\`bash
-curl -sf "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID" -H "Authorization: Bearer $KANBAN_API_KEY" -o /dev/null && echo "API OK" || echo "API UNREACHABLE"
-\`\`\`
+// ── Worktrees ───────────────────────────────────────────────────────
+//
+// A project that allows more than one session at a time gives each session its
+// own `git worktree` of the project clone, checked out on the task branch, so
+// parallel agents never share a working tree. A task keeps its worktree across
+// stages (task → ai_review → fix_review …) until it is merged (done) or
+// abandoned (deleted, sent back to backlog, or taken over by another
+// orchestrator). The branch itself is kept, so unpushed commits survive.
 
-If the API is unreachable, post an error comment (see below) and exit immediately — do not proceed with work that cannot be reported back.
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('git', args, { cwd, stdio: 'pipe' });
+    let stdout = '';
+    let stderr = '';
+    proc.stdout?.on('data', (d: Buffer) => { stdout += d.toString(); });
+    proc.stderr?.on('data', (d: Buffer) => { stderr += d.toString(); });
+    proc.on('close', (code) => {
+      if (code === 0) resolve(stdout.trim());
+      else reject(new Error(`git ${args[0]} failed (exit ${code}): ${stderr.slice(-200)}`));
+    });
+    proc.on('error', reject);
+  });
+}
 
-## Post Summary Comment
+async function gitRefExists(repoDir: string, ref: string): Promise<boolean> {
+  try {
+    await runGit(['rev-parse', '--verify', '--quiet', ref], repoDir);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-When you finish (success or failure), post a summary comment to the task:
+function worktreePath(projectId: string, taskId: string): string {
+  return join(WORKTREES_DIR, projectId, taskId);
+}
 
-\`\`\`bash
-curl -s -X POST "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID/comments" \\
-  -H "Authorization: Bearer $KANBAN_API_KEY" \\
-  -H "Content-Type: application/json" \\
-  -d '{"author":"orchestrator","author_type":"bot","content":"<SUMMARY_OF_WHAT_YOU_DID>","comment_type":"summary"}'
-\`\`\`
+// Returns the task's worktree, creating it on first use. Falls back to the
+// project directory when it isn't a git clone.
+async function prepareWorktree(repoDir: string, projectId: string, task: Task): Promise<string> {
+  const path = worktreePath(projectId, task.id);
+  if (existsSync(path)) return path;
 
-Replace <SUMMARY_OF_WHAT_YOU_DID> with a brief summary including PR URL if you created one.
+  if (!existsSync(join(repoDir, '.git'))) {
+    log('WARN', 'Project directory is not a git clone, sessions will share it', { projectId, repoDir });
+    return repoDir;
+  }
 
-## If You Are Blocked or Cannot Proceed
+  const branch = task.branch_name || generateBranchName(task);
+  mkdirSync(join(WORKTREES_DIR, projectId), { recursive: true });
 
-If at any point you cannot continue — missing permissions, unresolvable conflict, unclear requirements, repeated tool failures, or any other blocker — **do not silently fail**. Post an error comment explaining the specific reason before exiting:
+  try {
+    await runGit(['fetch', '--prune', 'origin'], repoDir);
+  } catch (e) {
+    log('WARN', 'git fetch failed, creating worktree from local refs', { projectId, error: String(e) });
+  }
 
-\`\`\`bash
-curl -s -X POST "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID/comments" \\
-  -H "Authorization: Bearer $KANBAN_API_KEY" \\
-  -H "Content-Type: application/json" \\
-  -d '{"author":"orchestrator","author_type":"bot","content":"BLOCKED: <EXACT_REASON_YOU_CANNOT_PROCEED>","comment_type":"error"}'
-\`\`\`
+  // A branch can be checked out in only one place; sessions no longer use the clone itself
+  const clonedBranch = await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], repoDir).catch(() => '');
+  if (clonedBranch === branch) {
+    await runGit(['checkout', '--detach'], repoDir);
+  }
 
-Then exit with a non-zero code so the orchestrator knows the session failed.
-`,
-  ].filter(Boolean).join('\n');
-}
-
-async function startClaudeSession(projectId: string, task: Task, options?: { aiReviewEnabled?: boolean; localTestingEnabled?: boolean }, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
-
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project', { projectId });
-    return;
+  if (await gitRefExists(repoDir, `refs/heads/${branch}`)) {
+    await runGit(['worktree', 'add', path, branch], repoDir);
+  } else if (await gitRefExists(repoDir, `refs/remotes/origin/${branch}`)) {
+    await runGit(['worktree', 'add', '--track', '-b', branch, path, `origin/${branch}`], repoDir);
+  } else {
+    const base = await runGit(['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'], repoDir).catch(() => 'HEAD');
+    await runGit(['worktree', 'add', '--no-track', '-b', branch, path, base], repoDir);
   }
 
-  // Check retry limit
-  if (task.error_count >= MAX_RETRIES) {
-    log('WARN', 'Task exceeded retry limit, skipping', { taskId: task.id, errorCount: task.error_count });
-    await apiPost('/api/events', {
-      event_type: 'stuck',
-      task_id: task.id,
-      message: `Task blocked after ${task.error_count} failures. Manual intervention needed.`,
-    });
-    return;
-  }
+  log('INFO', 'Created worktree', { projectId, taskId: task.id, branch, path });
+  return path;
+}
 
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
+async function removeWorktree(repoDir: string | null, projectId: string, taskId: string, reason: string): Promise<void> {
+  const path = worktreePath(projectId, taskId);
+  if (!existsSync(path)) return;
 
-  // Register session with API
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `Working on: ${task.title}`,
-  });
+  try {
+    if (!repoDir) throw new Error('project no longer exists');
+    await runGit(['worktree', 'remove', '--force', path], repoDir);
+  } catch (e) {
+    log('WARN', 'git worktree remove failed, deleting directory', { projectId, taskId, error: String(e) });
+    rmSync(path, { recursive: true, force: true });
+    if (repoDir) await runGit(['worktree', 'prune'], repoDir).catch(() => {});
+  }
+  log('INFO', 'Removed worktree', { projectId, taskId, reason });
+}
 
-  const sessionId = session.id;
-  const systemPrompt = buildSystemPrompt(task, project);
+// Drops worktrees of tasks that were merged or abandoned since the last cycle
+async function cleanupWorktrees(projects: Map<string, TaskList>): Promise<void> {
+  if (!existsSync(WORKTREES_DIR)) return;
 
-  log('INFO', 'Starting Claude session', { sessionId, projectId, taskId: task.id, taskTitle: task.title });
+  for (const projectId of readdirSync(WORKTREES_DIR)) {
+    const repoDir = projects.get(projectId)?.working_directory ?? null;
 
-  // Report session start
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Starting work on: ${task.title}`,
-  });
+    for (const taskId of readdirSync(join(WORKTREES_DIR, projectId))) {
+      if (isTaskActive(taskId)) continue;
 
-  // Claim the task (move to in_progress)
-  try {
-    await apiPatch(`/api/tasks/${task.id}`, { status: 'in_progress', assigned_to: 'orchestrator' });
-  } catch (e) {
-    log('WARN', 'Failed to claim task, may already be claimed', { taskId: task.id });
-  }
-
-  // Spawn Claude Code (skip-permissions needed for non-interactive sessions
-  // that must run bash commands like curl for progress reporting)
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'task', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-      GH_TOKEN: GH_TOKEN,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
+      let reason: string | null = null;
+      try {
+        const { task } = await apiGet<{ task: Task }>(`/api/tasks/${taskId}`);
+        if (task.status === 'done') reason = 'merged';
+        else if (task.status === 'backlog') reason = 'abandoned';
+      } catch (e) {
+        if (e instanceof ApiError && e.status === 404) reason = 'task deleted';
+      }
 
-  // Close stdin immediately — Claude CLI in -p mode doesn't need input
-  // but may block if stdin pipe stays open
-  claude.stdin?.end();
+      if (reason) {
+        await removeWorktree(repoDir, projectId, taskId, reason);
+      }
+    }
+  }
+}
 
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
+// Prepended to the stage prompt: the prompts' git steps assume a plain clone
+function buildWorktreeNote(task: Task, worktree: string): string {
+  const branch = task.branch_name || generateBranchName(task);
+  return `## Worktree
 
-  let stdout = '';
-  let stderr = '';
+You are working in a dedicated git worktree at ${worktree}, already on branch \`${branch}\`.
+Other sessions are working on other tasks of this project in parallel, each in its own worktree.
 
-  claude.stdout?.on('data', (data: Buffer) => {
-    stdout += data.toString();
-  });
+- Do NOT switch or create branches (\`main\` is checked out elsewhere, so \`git checkout main\` fails here). Where the steps below say to start from main or create a branch, skip that step and stay on \`${branch}\`.
+- To pick up remote changes, run \`git pull origin ${branch}\` (only once the branch has been pushed).
+- Stay inside ${worktree}; do not touch the main project clone.
+`;
+}
 
-  claude.stderr?.on('data', (data: Buffer) => {
-    stderr += data.toString();
-  });
+// ── Session transcripts ─────────────────────────────────────────────
+//
+// Agent output is parsed line by line as it arrives and forwarded to
+// /api/sessions/:id/transcript in batches, so the dashboard can show what a
+// session is doing while it runs. Only a bounded tail of the raw output stays
+// in memory, for completion notes and error comments.
+
+const TRANSCRIPT_FLUSH_MS = 2000;
+const TRANSCRIPT_BATCH_SIZE = 100; // API maximum per request
+const TRANSCRIPT_MAX_PENDING = 2000;
+const TRANSCRIPT_MAX_CONTENT = 8000;
+const OUTPUT_TAIL_CHARS = 4000;
+
+interface TranscriptWriter {
+  push(entry: TranscriptEntry): void;
+  // Sends whatever is still buffered
+  close(): Promise<void>;
+}
 
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
+function createTranscriptWriter(sessionId: string): TranscriptWriter {
+  let nextSeq = 0;
+  let pending: Array<TranscriptEntry & { seq: number }> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let chain: Promise<void> = Promise.resolve();
+  let disabled = false;
 
-    // Handle --resume failure: if exit code indicates session not found, retry without resume
-    if (code !== 0 && task.claude_session_id && stderr.includes('session')) {
-      log('WARN', 'Claude --resume may have failed, retrying without resume', { taskId: task.id });
-      task.claude_session_id = null;
+  async function flush(): Promise<void> {
+    while (pending.length > 0 && !disabled) {
+      const batch = pending.slice(0, TRANSCRIPT_BATCH_SIZE);
       try {
-        await apiPatch(`/api/tasks/${task.id}`, { claude_session_id: null });
-        await startClaudeSession(projectId, task, options, llmData);
+        await apiPost(`/api/sessions/${sessionId}/transcript`, { entries: batch });
+      } catch (e) {
+        // A dashboard without the transcript API: stop trying for this session
+        if (e instanceof ApiError && e.status === 404) {
+          log('WARN', 'Transcript API unavailable, not streaming this session', { sessionId });
+          disabled = true;
+        }
+        // Otherwise keep the batch for the next flush; seq makes resends idempotent
         return;
-      } catch (retryErr) {
-        log('ERROR', 'Retry without resume also failed', { error: String(retryErr) });
       }
+      const lastSeq = batch[batch.length - 1].seq;
+      pending = pending.filter(e => e.seq > lastSeq);
     }
+  }
 
-    const success = code === 0;
-    const finalStatus = success ? 'completed' : 'error';
+  function scheduleFlush(immediate: boolean): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!immediate) {
+      timer = setTimeout(() => { timer = null; void scheduleFlush(true); }, TRANSCRIPT_FLUSH_MS);
+      return chain;
+    }
+    chain = chain.then(flush);
+    return chain;
+  }
 
-    log(success ? 'INFO' : 'ERROR', `Claude session ended`, {
-      sessionId, projectId, taskId: task.id, exitCode: code,
-    });
+  return {
+    push(entry) {
+      if (disabled) return;
+      pending.push({ ...entry, content: entry.content.slice(0, TRANSCRIPT_MAX_CONTENT), seq: nextSeq++ });
+      if (pending.length > TRANSCRIPT_MAX_PENDING) {
+        // API unreachable for a while — drop the oldest rather than grow without bound
+        pending = pending.slice(-TRANSCRIPT_MAX_PENDING);
+      }
+      if (pending.length >= TRANSCRIPT_BATCH_SIZE) void scheduleFlush(true);
+      else if (!timer) void scheduleFlush(false);
+    },
+    close: () => scheduleFlush(true),
+  };
+}
 
-    // Save Claude session ID for future resumption
-    if (success) {
-      await saveClaudeSessionId(task, stdout);
+// Calls onLine for every complete line the stream emits (and the last partial one)
+function onLines(stream: NodeJS.ReadableStream | null, onLine: (line: string) => void): void {
+  if (!stream) return;
+  let partial = '';
+  stream.on('data', (data: Buffer) => {
+    const lines = (partial + data.toString()).split('\n');
+    partial = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onLine(line);
     }
+  });
+  stream.on('end', () => {
+    if (partial.trim()) onLine(partial);
+    partial = '';
+  });
+}
 
-    // Update session
-    try {
-      await apiPatch(`/api/sessions/${sessionId}`, {
-        status: finalStatus,
-        summary: success
-          ? `Completed: ${task.title}`
-          : `Error (exit ${code}): ${stderr.slice(-500)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to update session', { error: String(e) });
-    }
+// ── Agent runners ───────────────────────────────────────────────────
+//
+// Each session spawns its agent through an AgentRunner so projects (or
+// individual session types) can swap Claude Code for another CLI agent, or a
+// deterministic fake for tests, without touching the task lifecycle.
+
+interface AgentRunContext {
+  task: Task;
+  prompt: string;
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+}
 
-    // Report session end
-    try {
-      await apiPost('/api/events', {
-        event_type: 'session_end',
-        session_id: sessionId,
-        task_id: task.id,
-        message: success
-          ? `Completed: ${task.title}`
-          : `Failed (exit ${code}): ${stderr.slice(-200)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to report session end', { error: String(e) });
-    }
+// Mirrors SessionUsage in @taskinfa/shared
+interface AgentUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+}
 
-    // Update task status
-    try {
-      const outputText = extractTextFromJsonOutput(stdout);
-      if (success) {
-        const nextStatus = options?.aiReviewEnabled ? 'ai_review'
-          : options?.localTestingEnabled ? 'testing'
-          : 'review';
-        await apiPatch(`/api/tasks/${task.id}`, {
-          status: nextStatus,
-          completion_notes: outputText.slice(-1000),
+// What one line of agent stdout contributed
+interface AgentOutput {
+  entries: TranscriptEntry[];
+  // Final answer of the run, used for completion notes
+  resultText?: string;
+  // Conversation ID for resuming the task later
+  sessionId?: string;
+  model?: string;
+  usage?: AgentUsage;
+}
+
+interface AgentRunner {
+  name: string;
+  // Whether the agent can continue a previous conversation via task.claude_session_id
+  supportsResume: boolean;
+  start(ctx: AgentRunContext): ChildProcess;
+  parseLine(line: string): AgentOutput;
+}
+
+function buildClaudeArgs(task: Task, prompt: string): string[] {
+  const args: string[] = [];
+  if (task.claude_session_id) {
+    args.push('--resume', task.claude_session_id);
+  }
+  // stream-json (which requires --verbose in -p mode) emits one event per line as the agent works
+  args.push('-p', prompt, '--dangerously-skip-permissions', '--output-format', 'stream-json', '--verbose');
+  return args;
+}
+
+// Subset of the events `claude --output-format stream-json` emits
+interface ClaudeContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+interface ClaudeStreamEvent {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  model?: string;
+  cwd?: string;
+  message?: { content?: ClaudeContentBlock[] | string };
+  result?: string;
+  is_error?: boolean;
+  duration_ms?: number;
+  num_turns?: number;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+  };
+  // Per-model breakdown on the result event, keyed by model ID
+  modelUsage?: Record<string, unknown>;
+}
+
+const FILE_EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+function parseClaudeStreamLine(line: string): AgentOutput {
+  let event: ClaudeStreamEvent;
+  try {
+    event = JSON.parse(line);
+  } catch {
+    // Not an event (e.g. a warning printed by the CLI) — keep it as text
+    return { entries: [{ kind: 'assistant', content: line }] };
+  }
+
+  const blocks = Array.isArray(event.message?.content) ? event.message.content : [];
+  const entries: TranscriptEntry[] = [];
+
+  switch (event.type) {
+    case 'system':
+      if (event.subtype === 'init') {
+        entries.push({
+          kind: 'system',
+          content: `Session started${event.model ? ` (${event.model})` : ''}`,
+          metadata: { model: event.model, cwd: event.cwd },
         });
-        if (nextStatus === 'ai_review') {
-          log('INFO', 'Task moved to ai_review for automated PR review', { taskId: task.id });
-        } else if (nextStatus === 'testing') {
-          log('INFO', 'Task moved to testing for local browser tests', { taskId: task.id });
+      }
+      return { entries, sessionId: event.session_id, model: event.model };
+
+    case 'assistant':
+      for (const block of blocks) {
+        if (block.type === 'text' && block.text) {
+          entries.push({ kind: 'assistant', content: block.text });
+        } else if (block.type === 'tool_use' && block.name) {
+          const fileEdit = FILE_EDIT_TOOLS.includes(block.name);
+          entries.push({
+            kind: fileEdit ? 'file_edit' : 'tool_use',
+            tool_name: block.name,
+            content: JSON.stringify(block.input ?? {}, null, 2),
+            metadata: fileEdit ? { file_path: block.input?.file_path ?? block.input?.notebook_path } : {},
+          });
         }
-      } else {
-        await apiPatch(`/api/tasks/${task.id}`, {
-          status: 'todo',
-          error_count: task.error_count + 1,
-          assigned_to: null,
-        });
       }
-    } catch (e) {
-      log('ERROR', 'Failed to update task', { error: String(e) });
+      return { entries };
+
+    case 'user':
+      for (const block of blocks) {
+        if (block.type !== 'tool_result') continue;
+        const text = typeof block.content === 'string'
+          ? block.content
+          : (block.content ?? []).map(c => c.text ?? '').join('\n');
+        entries.push({ kind: 'tool_result', content: text, metadata: { is_error: Boolean(block.is_error) } });
+      }
+      return { entries };
+
+    case 'result':
+      entries.push({
+        kind: 'result',
+        content: event.result ?? '',
+        metadata: {
+          subtype: event.subtype,
+          is_error: event.is_error,
+          duration_ms: event.duration_ms,
+          num_turns: event.num_turns,
+          total_cost_usd: event.total_cost_usd,
+          usage: event.usage,
+        },
+      });
+      return {
+        entries,
+        resultText: event.result,
+        sessionId: event.session_id,
+        model: Object.keys(event.modelUsage ?? {})[0],
+        usage: {
+          input_tokens: event.usage?.input_tokens ?? 0,
+          output_tokens: event.usage?.output_tokens ?? 0,
+          cache_read_tokens: event.usage?.cache_read_input_tokens ?? 0,
+          cache_creation_tokens: event.usage?.cache_creation_input_tokens ?? 0,
+          cost_usd: event.total_cost_usd ?? 0,
+        },
+      };
+
+    default:
+      return { entries };
+  }
+}
+
+const claudeRunner: AgentRunner = {
+  name: 'claude',
+  supportsResume: true,
+  start({ task, prompt, cwd, env }) {
+    const proc = spawn('claude', buildClaudeArgs(task, prompt), {
+      cwd,
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    // Close stdin immediately — Claude CLI in -p mode doesn't need input
+    // but may block if stdin pipe stays open
+    proc.stdin?.end();
+    return proc;
+  },
+  parseLine: parseClaudeStreamLine,
+};
+
+// Generic runner: `sh -c <command>` in the project directory. The prompt is
+// written to stdin and exported as KANBAN_PROMPT; each stdout line is taken as plain text.
+function createShellRunner(command: string): AgentRunner {
+  return {
+    name: 'shell',
+    supportsResume: false,
+    start({ prompt, cwd, env }) {
+      const proc = spawn('sh', ['-c', command], {
+        cwd,
+        env: { ...env, KANBAN_PROMPT: prompt },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      // Agents that ignore stdin exit before we finish writing — not an error
+      proc.stdin?.on('error', () => {});
+      proc.stdin?.end(prompt);
+      return proc;
+    },
+    parseLine: (line) => ({ entries: [{ kind: 'assistant', content: line }] }),
+  };
+}
+
+function resolveAgentRunner(
+  llmData: LlmData | null,
+  project: TaskList | null,
+  sessionType: string,
+  projectId: string
+): AgentRunner {
+  // Session-type override (project-level → global), then the project's own runner
+  const cfg =
+    llmData?.session_configs.find(c => c.task_list_id === projectId && c.session_type === sessionType && c.agent_runner) ??
+    llmData?.session_configs.find(c => c.task_list_id === null && c.session_type === sessionType && c.agent_runner);
+
+  const kind = cfg?.agent_runner ?? project?.agent_runner ?? 'claude';
+  const command = cfg ? cfg.agent_command : project?.agent_command ?? null;
+
+  if (kind === 'shell') {
+    if (command) return createShellRunner(command);
+    log('WARN', 'Shell runner configured without a command, falling back to Claude', { projectId, sessionType });
+  }
+  return claudeRunner;
+}
+
+async function saveAgentSessionId(runner: AgentRunner, task: Task, sessionId: string | null): Promise<void> {
+  if (!sessionId || sessionId === task.claude_session_id) return;
+  try {
+    await apiPatch(`/api/tasks/${task.id}`, { claude_session_id: sessionId });
+    log('INFO', 'Saved agent session ID to task', { taskId: task.id, runner: runner.name, claudeSessionId: sessionId });
+  } catch {
+    // Logged by apiPatch; resumption is best-effort
+  }
+}
+
+function buildSystemPrompt(task: Task, project: TaskList | null): string {
+  const workDir = project?.working_directory || WORKSPACE_ROOT;
+  const memoryPath = join(workDir, '.memory', 'context.md');
+  const claudeMdPath = join(workDir, 'CLAUDE.md');
+  const branchName = task.branch_name || generateBranchName(task);
+
+  // Build context preamble for task awareness
+  const taskContext = `## Task Context
+- Previous attempts: ${task.error_count}
+- Branch: ${task.branch_name || 'none (fresh task)'}
+- PR: ${task.pr_url || 'none'}
+- Last notes: ${task.completion_notes || 'none'}
+
+Before starting, assess the current state:
+1. ${task.branch_name ? `Check if branch exists: git branch -a | grep ${task.branch_name}` : 'This is a fresh task — no existing branch.'}
+2. ${task.pr_url ? `Check PR status: the PR is at ${task.pr_url}` : 'No PR exists yet.'}
+3. Review previous session notes above
+4. Read task comments for history from previous sessions:
+   curl -s "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID/comments" -H "Authorization: Bearer $KANBAN_API_KEY" | head -c 2000
+Then decide: continue existing work or start fresh.
+`;
+
+  // Build git workflow based on existing branch/PR state
+  let gitWorkflow = '';
+  if (GH_TOKEN) {
+    if (task.pr_url && task.branch_name) {
+      // Existing branch AND PR — continue working on it
+      gitWorkflow = `
+## Git Workflow
+
+An open PR already exists at ${task.pr_url} on branch \`${task.branch_name}\`.
+
+1. Checkout existing branch: git checkout ${task.branch_name} && git pull origin ${task.branch_name}
+2. Make your changes on this branch
+3. Stage and commit: git add -A && git commit -m "fix: continue work on ${task.title.replace(/"/g, '\\"')}"
+4. Push to existing branch: git push origin ${task.branch_name}
+
+IMPORTANT: Do NOT create a new branch or a new PR. Push to the existing branch \`${task.branch_name}\`.
+`;
+    } else if (task.branch_name) {
+      // Existing branch but no PR — checkout branch, create PR when done
+      gitWorkflow = `
+## Git Workflow
+
+An existing branch \`${task.branch_name}\` exists for this task but no PR has been created yet.
+
+1. Checkout existing branch: git checkout ${task.branch_name} && git pull origin ${task.branch_name}
+2. Make your changes on this branch
+3. Stage and commit: git add -A && git commit -m "feat: ${task.title.replace(/"/g, '\\"')}"
+4. Push: git push -u origin ${task.branch_name}
+5. Create PR: gh pr create --title "${task.title}" --body "Automated PR for task ${task.id}"
+6. Capture the PR URL from the gh output, then update the task:
+   curl -s -X PATCH "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID" \\
+     -H "Authorization: Bearer $KANBAN_API_KEY" \\
+     -H "Content-Type: application/json" \\
+     -d '{"pr_url":"<PR_URL>"}'
+   (Replace <PR_URL> with the actual URL returned by gh pr create)
+
+IMPORTANT: Do NOT create a new branch. Use the existing branch \`${task.branch_name}\`.
+`;
+    } else {
+      // Fresh task — create new branch and PR
+      gitWorkflow = `
+## Git Workflow
+
+After completing the task, create a PR for review:
+1. Start from main: git checkout main && git pull origin main
+2. Create branch: git checkout -b ${branchName}
+3. Stage all changes including memory: git add -A
+4. Commit (conventional commits, e.g. "feat: ..." or "fix: ...")
+5. Push: git push -u origin ${branchName}
+6. Create PR: gh pr create --title "${task.title}" --body "Automated PR for task ${task.id}"
+7. Capture the PR URL from the gh output, then update the task:
+   curl -s -X PATCH "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID" \\
+     -H "Authorization: Bearer $KANBAN_API_KEY" \\
+     -H "Content-Type: application/json" \\
+     -d '{"pr_url":"<PR_URL>","branch_name":"${branchName}"}'
+   (Replace <PR_URL> with the actual URL returned by gh pr create)
+
+IMPORTANT: You MUST create the branch, commit, push, and create the PR. The PR URL must be saved to the task.
+`;
     }
+  }
 
-    // Post bot comment with session result
-    const nextStatusLabel = options?.aiReviewEnabled ? 'ai_review'
-      : options?.localTestingEnabled ? 'testing'
-      : 'review';
-    const errorDetail = stderr.trim().slice(-500) || stdout.trim().slice(-500);
-    const commentContent = success
-      ? `Session completed successfully. Task moved to ${nextStatusLabel}.`
-      : `Session failed (exit ${code}). Error count: ${task.error_count + 1}.${errorDetail ? `\n\n\`\`\`\n${errorDetail}\n\`\`\`` : ''}`;
-    await postBotComment(task.id, commentContent, success ? 'summary' : 'error');
-  });
+  return [
+    `Project: ${project?.name || 'Unknown'}`,
+    existsSync(claudeMdPath) ? `Read ${claudeMdPath} for project rules.` : '',
+    existsSync(memoryPath) ? `Read ${memoryPath} for current context.` : '',
+    '',
+    taskContext,
+    `Task: ${task.title}`,
+    task.description || '',
+    '',
+    'Do the task. When done, update .memory/context.md with what you accomplished.',
+    gitWorkflow,
+    `
+## API Connectivity Check
 
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
-  });
+Before starting any work, verify the kanban API is reachable:
+
+\`\`\`bash
+curl -sf "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID" -H "Authorization: Bearer $KANBAN_API_KEY" -o /dev/null && echo "API OK" || echo "API UNREACHABLE"
+\`\`\`
+
+If the API is unreachable, post an error comment (see below) and exit immediately — do not proceed with work that cannot be reported back.
+
+## Post Summary Comment
+
+When you finish (success or failure), post a summary comment to the task:
+
+\`\`\`bash
+curl -s -X POST "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID/comments" \\
+  -H "Authorization: Bearer $KANBAN_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{"author":"orchestrator","author_type":"bot","content":"<SUMMARY_OF_WHAT_YOU_DID>","comment_type":"summary"}'
+\`\`\`
+
+Replace <SUMMARY_OF_WHAT_YOU_DID> with a brief summary including PR URL if you created one.
+
+## If You Are Blocked or Cannot Proceed
+
+If at any point you cannot continue — missing permissions, unresolvable conflict, unclear requirements, repeated tool failures, or any other blocker — **do not silently fail**. Post an error comment explaining the specific reason before exiting:
+
+\`\`\`bash
+curl -s -X POST "$KANBAN_API_URL/api/tasks/$KANBAN_TASK_ID/comments" \\
+  -H "Authorization: Bearer $KANBAN_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{"author":"orchestrator","author_type":"bot","content":"BLOCKED: <EXACT_REASON_YOU_CANNOT_PROCEED>","comment_type":"error"}'
+\`\`\`
+
+Then exit with a non-zero code so the orchestrator knows the session failed.
+`,
+  ].filter(Boolean).join('\n');
 }
 
 // ── AI Review sessions ──────────────────────────────────────────────
@@ -1093,320 +1754,19 @@ gh api repos/${repoSlug}/pulls/${prNumber}/comments --jq '.[] | "\\(.path):\\(.l
     `  -d '{"status": "ai_review", "completion_notes": "Fixes pushed for re-review"}'`,
     `\`\`\``,
     '',
-    'When done, update .memory/context.md with what you accomplished.',
-    '',
-    '## Post Summary Comment',
-    '',
-    'After pushing fixes, post a summary comment:',
-    '',
-    '```bash',
-    `curl -s -X POST "$KANBAN_API_URL/api/tasks/${task.id}/comments" \\`,
-    '  -H "Authorization: Bearer $KANBAN_API_KEY" \\',
-    '  -H "Content-Type: application/json" \\',
-    '  -d \'{"author":"orchestrator","author_type":"bot","content":"<SUMMARY>","comment_type":"summary"}\'',
-    '```',
-  ].filter(Boolean).join('\n');
-}
-
-async function startAiReviewSession(projectId: string, task: Task, config: { max_review_rounds: number; auto_advance_on_approve: boolean }, localTestingEnabled: boolean, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping AI review', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
-
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project, skipping AI review', { projectId });
-    return;
-  }
-
-  const reviewRounds = task.review_rounds || 0;
-  if (reviewRounds >= config.max_review_rounds) {
-    log('WARN', 'Task exceeded max review rounds, escalating to human review', {
-      taskId: task.id, reviewRounds, maxRounds: config.max_review_rounds,
-    });
-    try {
-      await apiPatch(`/api/tasks/${task.id}`, {
-        status: 'review',
-        completion_notes: `Escalated to human review after ${reviewRounds} AI review rounds`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to escalate task to human review', { error: String(e) });
-    }
-    return;
-  }
-
-  if (!task.pr_url) {
-    log('WARN', 'Task has no PR URL, cannot run AI review', { taskId: task.id });
-    try {
-      await apiPatch(`/api/tasks/${task.id}`, {
-        status: 'review',
-        completion_notes: 'Moved to human review: no PR URL for AI review',
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to move task to review', { error: String(e) });
-    }
-    return;
-  }
-
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
-  const systemPrompt = buildAiReviewPrompt(task, project, config, localTestingEnabled);
-
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `AI Review: ${task.title}`,
-  });
-
-  const sessionId = session.id;
-
-  log('INFO', 'Starting AI review session', {
-    sessionId, projectId, taskId: task.id, taskTitle: task.title, reviewRound: reviewRounds + 1,
-  });
-
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Starting AI review (round ${reviewRounds + 1}): ${task.title}`,
-    metadata: { session_type: 'ai_review' },
-  });
-
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'ai_review', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-      GH_TOKEN: GH_TOKEN,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
-
-  claude.stdin?.end();
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
-
-  let stdout = '';
-  let stderr = '';
-
-  claude.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
-  claude.stderr?.on('data', (data: Buffer) => { stderr += data.toString(); });
-
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
-    const success = code === 0;
-
-    log(success ? 'INFO' : 'ERROR', 'AI review session ended', {
-      sessionId, projectId, taskId: task.id, exitCode: code,
-    });
-
-    // Save Claude session ID for future resumption
-    if (success) {
-      await saveClaudeSessionId(task, stdout);
-    }
-
-    try {
-      await apiPatch(`/api/sessions/${sessionId}`, {
-        status: success ? 'completed' : 'error',
-        summary: success
-          ? `AI Review completed: ${task.title}`
-          : `AI Review failed (exit ${code}): ${stderr.slice(-500)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to update AI review session', { error: String(e) });
-    }
-
-    try {
-      await apiPost('/api/events', {
-        event_type: 'session_end',
-        session_id: sessionId,
-        task_id: task.id,
-        message: success
-          ? `AI Review completed: ${task.title}`
-          : `AI Review failed (exit ${code}): ${stderr.slice(-200)}`,
-        metadata: { session_type: 'ai_review' },
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to report AI review session end', { error: String(e) });
-    }
-
-    // On failure, move to human review as fallback
-    if (!success) {
-      try {
-        await apiPatch(`/api/tasks/${task.id}`, {
-          status: 'review',
-          completion_notes: `AI review session failed (exit ${code}), escalated to human review`,
-        });
-      } catch (e) {
-        log('ERROR', 'Failed to escalate task after AI review failure', { error: String(e) });
-      }
-    }
-    // On success, the prompt instructs Claude to update the task status
-
-    // Post bot comment with review result
-    const reviewComment = success
-      ? `AI review session completed for "${task.title}".`
-      : `AI review session failed (exit ${code}). Escalated to human review.`;
-    await postBotComment(task.id, reviewComment, success ? 'summary' : 'error');
-  });
-
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn AI review Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
-  });
-}
-
-async function startFixReviewSession(projectId: string, task: Task, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping fix review', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
-
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project, skipping fix review', { projectId });
-    return;
-  }
-
-  if (task.error_count >= MAX_RETRIES) {
-    log('WARN', 'Review-rejected task exceeded retry limit, escalating', { taskId: task.id, errorCount: task.error_count });
-    try {
-      await apiPatch(`/api/tasks/${task.id}`, {
-        status: 'review',
-        completion_notes: `Escalated to human review after ${task.error_count} fix attempts`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to escalate task', { error: String(e) });
-    }
-    return;
-  }
-
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
-  const systemPrompt = buildFixReviewPrompt(task, project);
-
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `Fixing review feedback: ${task.title}`,
-  });
-
-  const sessionId = session.id;
-
-  log('INFO', 'Starting fix review session', {
-    sessionId, projectId, taskId: task.id, taskTitle: task.title,
-  });
-
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Fixing review feedback: ${task.title}`,
-    metadata: { session_type: 'fix_review' },
-  });
-
-  // Move task to in_progress while fixing
-  try {
-    await apiPatch(`/api/tasks/${task.id}`, { status: 'in_progress', assigned_to: 'orchestrator' });
-  } catch (e) {
-    log('WARN', 'Failed to claim review_rejected task', { taskId: task.id });
-  }
-
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'fix_review', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-      GH_TOKEN: GH_TOKEN,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
-
-  claude.stdin?.end();
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
-
-  let stdout = '';
-  let stderr = '';
-
-  claude.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
-  claude.stderr?.on('data', (data: Buffer) => { stderr += data.toString(); });
-
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
-    const success = code === 0;
-
-    log(success ? 'INFO' : 'ERROR', 'Fix review session ended', {
-      sessionId, projectId, taskId: task.id, exitCode: code,
-    });
-
-    // Save Claude session ID for future resumption
-    if (success) {
-      await saveClaudeSessionId(task, stdout);
-    }
-
-    try {
-      await apiPatch(`/api/sessions/${sessionId}`, {
-        status: success ? 'completed' : 'error',
-        summary: success
-          ? `Fixed review feedback: ${task.title}`
-          : `Fix review failed (exit ${code}): ${stderr.slice(-500)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to update fix review session', { error: String(e) });
-    }
-
-    try {
-      await apiPost('/api/events', {
-        event_type: 'session_end',
-        session_id: sessionId,
-        task_id: task.id,
-        message: success
-          ? `Fixed review feedback: ${task.title}`
-          : `Fix review failed (exit ${code}): ${stderr.slice(-200)}`,
-        metadata: { session_type: 'fix_review' },
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to report fix review session end', { error: String(e) });
-    }
-
-    // On failure, increment error count and move back to review_rejected
-    if (!success) {
-      try {
-        await apiPatch(`/api/tasks/${task.id}`, {
-          status: 'review_rejected',
-          error_count: task.error_count + 1,
-          assigned_to: null,
-        });
-      } catch (e) {
-        log('ERROR', 'Failed to update task after fix review failure', { error: String(e) });
-      }
-    }
-    // On success, the prompt instructs Claude to move task to ai_review
-
-    // Post bot comment with fix review result
-    const fixReviewErrorDetail = stderr.trim().slice(-500) || stdout.trim().slice(-500);
-    const fixComment = success
-      ? `Fix review session completed. Fixes pushed for re-review.`
-      : `Fix review session failed (exit ${code}). Error count: ${task.error_count + 1}.${fixReviewErrorDetail ? `\n\n\`\`\`\n${fixReviewErrorDetail}\n\`\`\`` : ''}`;
-    await postBotComment(task.id, fixComment, success ? 'summary' : 'error');
-  });
-
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn fix review Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
-  });
+    'When done, update .memory/context.md with what you accomplished.',
+    '',
+    '## Post Summary Comment',
+    '',
+    'After pushing fixes, post a summary comment:',
+    '',
+    '```bash',
+    `curl -s -X POST "$KANBAN_API_URL/api/tasks/${task.id}/comments" \\`,
+    '  -H "Authorization: Bearer $KANBAN_API_KEY" \\',
+    '  -H "Content-Type: application/json" \\',
+    '  -d \'{"author":"orchestrator","author_type":"bot","content":"<SUMMARY>","comment_type":"summary"}\'',
+    '```',
+  ].filter(Boolean).join('\n');
 }
 
 // ── Local testing sessions ───────────────────────────────────────────
@@ -1572,288 +1932,6 @@ curl -s "$KANBAN_API_URL/api/tasks/${task.id}/comments?limit=20" \\
   ].filter(Boolean).join('\n');
 }
 
-async function startTestingSession(projectId: string, task: Task, config: { auto_advance_on_pass: boolean; auto_merge_on_pass: boolean }, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping testing session', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
-
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project, skipping testing session', { projectId });
-    return;
-  }
-
-  if (!task.pr_url) {
-    log('WARN', 'Task has no PR URL, skipping testing session and moving to review', { taskId: task.id });
-    try {
-      await apiPatch(`/api/tasks/${task.id}`, {
-        status: 'review',
-        completion_notes: 'Skipped local testing: no PR URL',
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to move task past testing', { error: String(e) });
-    }
-    return;
-  }
-
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
-  const systemPrompt = buildTestingPrompt(task, project, config);
-
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `Testing: ${task.title}`,
-  });
-
-  const sessionId = session.id;
-
-  log('INFO', 'Starting testing session', {
-    sessionId, projectId, taskId: task.id, taskTitle: task.title,
-  });
-
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Starting browser tests: ${task.title}`,
-    metadata: { session_type: 'local_testing' },
-  });
-
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'testing', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-      GH_TOKEN: GH_TOKEN,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
-
-  claude.stdin?.end();
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
-
-  let stdout = '';
-  let stderr = '';
-
-  claude.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
-  claude.stderr?.on('data', (data: Buffer) => { stderr += data.toString(); });
-
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
-    const success = code === 0;
-
-    log(success ? 'INFO' : 'ERROR', 'Testing session ended', {
-      sessionId, projectId, taskId: task.id, exitCode: code,
-    });
-
-    if (success) {
-      await saveClaudeSessionId(task, stdout);
-    }
-
-    try {
-      await apiPatch(`/api/sessions/${sessionId}`, {
-        status: success ? 'completed' : 'error',
-        summary: success
-          ? `Tests completed: ${task.title}`
-          : `Testing failed (exit ${code}): ${stderr.slice(-500)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to update testing session', { error: String(e) });
-    }
-
-    try {
-      await apiPost('/api/events', {
-        event_type: 'session_end',
-        session_id: sessionId,
-        task_id: task.id,
-        message: success
-          ? `Tests completed: ${task.title}`
-          : `Testing failed (exit ${code}): ${stderr.slice(-200)}`,
-        metadata: { session_type: 'local_testing' },
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to report testing session end', { error: String(e) });
-    }
-
-    // On process crash (not a test failure — the prompt handles pass/fail status updates),
-    // fall back to moving the task to review so it isn't stuck
-    if (!success) {
-      try {
-        await apiPatch(`/api/tasks/${task.id}`, {
-          status: 'review',
-          completion_notes: `Testing session crashed (exit ${code}), escalated past testing`,
-        });
-      } catch (e) {
-        log('ERROR', 'Failed to escalate task after testing session crash', { error: String(e) });
-      }
-      await postBotComment(
-        task.id,
-        `Testing session crashed (exit ${code}). Task moved to review.`,
-        'error'
-      );
-    }
-    // On success, the prompt instructs Claude to update task status based on test results
-  });
-
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn testing Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
-  });
-}
-
-async function startFixTestFailureSession(projectId: string, task: Task, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping fix test failure session', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
-
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project, skipping fix test failure session', { projectId });
-    return;
-  }
-
-  if (task.error_count >= MAX_RETRIES) {
-    log('WARN', 'Test-failed task exceeded retry limit, escalating', { taskId: task.id, errorCount: task.error_count });
-    try {
-      await apiPatch(`/api/tasks/${task.id}`, {
-        status: 'review',
-        completion_notes: `Escalated to human review after ${task.error_count} fix attempts`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to escalate test_failed task', { error: String(e) });
-    }
-    return;
-  }
-
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
-  const systemPrompt = buildFixTestFailurePrompt(task, project);
-
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `Fixing test failures: ${task.title}`,
-  });
-
-  const sessionId = session.id;
-
-  log('INFO', 'Starting fix test failure session', {
-    sessionId, projectId, taskId: task.id, taskTitle: task.title,
-  });
-
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Fixing test failures: ${task.title}`,
-    metadata: { session_type: 'fix_test_failure' },
-  });
-
-  // Move task to in_progress while fixing
-  try {
-    await apiPatch(`/api/tasks/${task.id}`, { status: 'in_progress', assigned_to: 'orchestrator' });
-  } catch (e) {
-    log('WARN', 'Failed to claim test_failed task', { taskId: task.id });
-  }
-
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'fix_test_failure', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-      GH_TOKEN: GH_TOKEN,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
-
-  claude.stdin?.end();
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
-
-  let stdout = '';
-  let stderr = '';
-
-  claude.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
-  claude.stderr?.on('data', (data: Buffer) => { stderr += data.toString(); });
-
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
-    const success = code === 0;
-
-    log(success ? 'INFO' : 'ERROR', 'Fix test failure session ended', {
-      sessionId, projectId, taskId: task.id, exitCode: code,
-    });
-
-    if (success) {
-      await saveClaudeSessionId(task, stdout);
-    }
-
-    try {
-      await apiPatch(`/api/sessions/${sessionId}`, {
-        status: success ? 'completed' : 'error',
-        summary: success
-          ? `Fixed test failures: ${task.title}`
-          : `Fix test failure failed (exit ${code}): ${stderr.slice(-500)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to update fix test failure session', { error: String(e) });
-    }
-
-    try {
-      await apiPost('/api/events', {
-        event_type: 'session_end',
-        session_id: sessionId,
-        task_id: task.id,
-        message: success
-          ? `Fixed test failures: ${task.title}`
-          : `Fix test failure failed (exit ${code}): ${stderr.slice(-200)}`,
-        metadata: { session_type: 'fix_test_failure' },
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to report fix test failure session end', { error: String(e) });
-    }
-
-    // On failure, increment error count and move back to test_failed
-    if (!success) {
-      try {
-        await apiPatch(`/api/tasks/${task.id}`, {
-          status: 'test_failed',
-          error_count: task.error_count + 1,
-          assigned_to: null,
-        });
-      } catch (e) {
-        log('ERROR', 'Failed to update task after fix test failure', { error: String(e) });
-      }
-    }
-    // On success, the prompt instructs Claude to move task to testing
-
-    const fixTestErrorDetail = stderr.trim().slice(-500) || stdout.trim().slice(-500);
-    const fixComment = success
-      ? `Fix test failure session completed. Fixes pushed for re-test.`
-      : `Fix test failure session failed (exit ${code}). Error count: ${task.error_count + 1}.${fixTestErrorDetail ? `\n\n\`\`\`\n${fixTestErrorDetail}\n\`\`\`` : ''}`;
-    await postBotComment(task.id, fixComment, success ? 'summary' : 'error');
-  });
-
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn fix test failure Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
-  });
-}
-
 // ── Refinement sessions ──────────────────────────────────────────────
 
 function buildRefinementPrompt(task: Task, project: TaskList | null, config: { auto_advance: boolean }): string {
@@ -1914,136 +1992,54 @@ curl -s -X POST "$KANBAN_API_URL/api/events" \\
 `;
 }
 
-async function startRefinementSession(projectId: string, task: Task, config: { auto_advance: boolean }, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping refinement', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
-
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project, skipping refinement', { projectId });
-    return;
-  }
-
-  // Check retry limit
-  if (task.error_count >= MAX_RETRIES) {
-    log('WARN', 'Refinement task exceeded retry limit, skipping', { taskId: task.id, errorCount: task.error_count });
-    try {
-      await apiPatch(`/api/tasks/${task.id}`, {
-        status: 'todo',
-        completion_notes: `Refinement failed after ${task.error_count} attempts, moved to todo`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to move refinement task to todo', { error: String(e) });
-    }
-    return;
-  }
-
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
-  const systemPrompt = buildRefinementPrompt(task, project, config);
-
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `Refining: ${task.title}`,
-  });
-
-  const sessionId = session.id;
-
-  log('INFO', 'Starting refinement session', {
-    sessionId, projectId, taskId: task.id, taskTitle: task.title,
-  });
+function buildWorkflowColumnPrompt(task: Task, column: WorkflowColumn, nextStatus: string): string {
+  return `You are working on a task in the "${column.label}" column of the kanban board. Follow the column's instructions for this task, then move the task on.
 
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Starting refinement: ${task.title}`,
-    metadata: { session_type: 'refinement' },
-  });
+## Task
 
-  // Spawn Claude with restricted permissions — no GH_TOKEN, only API access
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'refinement', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
+**ID:** ${task.id}
+**Title:** ${task.title}
+**Description:**
+${task.description || '(no description)'}
+${task.pr_url ? `**PR:** ${task.pr_url}\n` : ''}${task.branch_name ? `**Branch:** ${task.branch_name}\n` : ''}
+## Instructions for "${column.label}"
 
-  claude.stdin?.end();
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
+${column.instructions || `Complete the "${column.label}" step for this task.`}
 
-  let stdout = '';
-  let stderr = '';
+## When You Are Done
 
-  claude.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
-  claude.stderr?.on('data', (data: Buffer) => { stderr += data.toString(); });
+Explain what you did and found in a comment:
 
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
-    const success = code === 0;
+\`\`\`bash
+curl -s -X POST "$KANBAN_API_URL/api/tasks/${task.id}/comments" \\
+  -H "Authorization: Bearer $KANBAN_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{"author":"orchestrator","author_type":"bot","content":"<SUMMARY>","comment_type":"summary"}'
+\`\`\`
 
-    log(success ? 'INFO' : 'ERROR', 'Refinement session ended', {
-      sessionId, projectId, taskId: task.id, exitCode: code,
-    });
+### If the task passes this step, move it to the next column:
 
-    // Save Claude session ID for future resumption
-    if (success) {
-      await saveClaudeSessionId(task, stdout);
-    }
+\`\`\`bash
+curl -s -X PATCH "$KANBAN_API_URL/api/tasks/${task.id}" \\
+  -H "Authorization: Bearer $KANBAN_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{"status": "${nextStatus}"}'
+\`\`\`
 
-    try {
-      await apiPatch(`/api/sessions/${sessionId}`, {
-        status: success ? 'completed' : 'error',
-        summary: success
-          ? `Refined: ${task.title}`
-          : `Refinement failed (exit ${code}): ${stderr.slice(-500)}`,
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to update refinement session', { error: String(e) });
-    }
+### If it needs a human decision or changes you cannot make, move it to review:
 
-    try {
-      await apiPost('/api/events', {
-        event_type: 'session_end',
-        session_id: sessionId,
-        task_id: task.id,
-        message: success
-          ? `Refined: ${task.title}`
-          : `Refinement failed (exit ${code}): ${stderr.slice(-200)}`,
-        metadata: { session_type: 'refinement' },
-      });
-    } catch (e) {
-      log('ERROR', 'Failed to report refinement session end', { error: String(e) });
-    }
+\`\`\`bash
+curl -s -X PATCH "$KANBAN_API_URL/api/tasks/${task.id}" \\
+  -H "Authorization: Bearer $KANBAN_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{"status": "review", "completion_notes": "<REASON>"}'
+\`\`\`
 
-    // On failure, increment error count but leave in refinement status
-    if (!success) {
-      try {
-        await apiPatch(`/api/tasks/${task.id}`, {
-          error_count: task.error_count + 1,
-        });
-      } catch (e) {
-        log('ERROR', 'Failed to update task after refinement failure', { error: String(e) });
-      }
-    }
-    // On success, the prompt instructs Claude to update the task status
-  });
+## Rules
 
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn refinement Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
-  });
+- Always move the task out of "${column.label}" before you finish, or it will be picked up again
+- Stay within the column's instructions; do not start unrelated work on the task
+`;
 }
 
 // ── Stuck session detection ─────────────────────────────────────────
@@ -2057,33 +2053,40 @@ function isProcessAlive(pid: number): boolean {
   }
 }
 
+// Kill the agent process (SIGTERM, then SIGKILL after 5s)
+function terminateSession(entry: ActiveSession): void {
+  const pid = entry.process.pid;
+  if (pid == null) return;
+  entry.process.kill('SIGTERM');
+  setTimeout(() => {
+    if (isProcessAlive(pid)) {
+      entry.process.kill('SIGKILL');
+    }
+  }, 5000);
+}
+
 async function checkStuckSessions(): Promise<void> {
   const now = Date.now();
 
-  for (const [projectId, entry] of activeSessions) {
+  for (const [sessionId, entry] of activeSessions) {
     const ageMins = Math.round((now - entry.startedAt) / 60000);
     const pid = entry.process.pid;
-    const timedOut = (now - entry.startedAt) >= SESSION_TIMEOUT_MS;
+    const timedOut = (now - entry.startedAt) >= entry.settings.sessionTimeoutMs;
     const dead = pid != null && !isProcessAlive(pid);
 
     if (!timedOut && !dead) continue;
 
     const reason = dead ? 'dead process' : 'timeout';
     log('WARN', 'Killing stuck session', {
-      sessionId: entry.sessionId, taskId: entry.taskId, projectId, reason, ageMinutes: ageMins,
+      sessionId, taskId: entry.taskId, projectId: entry.projectId, reason, ageMinutes: ageMins,
     });
 
-    // Kill the process (SIGTERM, then SIGKILL after 5s)
-    if (pid != null && !dead) {
-      entry.process.kill('SIGTERM');
-      setTimeout(() => {
-        if (isProcessAlive(pid)) {
-          entry.process.kill('SIGKILL');
-        }
-      }, 5000);
+    if (!dead) {
+      terminateSession(entry);
     }
 
-    activeSessions.delete(projectId);
+    // The worktree is kept: the retry continues on the same branch
+    activeSessions.delete(sessionId);
 
     // Update session status to error
     try {
@@ -2103,7 +2106,9 @@ async function checkStuckSessions(): Promise<void> {
         status: 'todo',
         assigned_to: null,
         error_count: newErrorCount,
+        next_attempt_at: nextAttemptAt(entry.settings, newErrorCount),
       });
+      await releaseLease(entry.taskId);
       await postBotComment(
         entry.taskId,
         `Session killed by orchestrator: ${reason} after ${ageMins} minutes. Task reset to todo. Error count: ${newErrorCount}.`,
@@ -2127,6 +2132,119 @@ async function checkStuckSessions(): Promise<void> {
   }
 }
 
+// ── Budgets ─────────────────────────────────────────────────────────
+//
+// Spend caps from /api/budgets: daily and monthly for the workspace and per
+// project, plus a per-task cap. A session is not started when an average
+// session would take a budget past its cap, and running sessions are stopped
+// once recorded spend reaches one. Sessions report their cost when they exit,
+// so spend only moves as sessions finish.
+
+interface BudgetLimitRecord {
+  task_list_id: string | null;
+  daily_limit_usd: number | null;
+  monthly_limit_usd: number | null;
+  task_limit_usd: number | null;
+}
+
+interface BudgetSpend {
+  daily_usd: number;
+  monthly_usd: number;
+}
+
+interface BudgetData {
+  limits: BudgetLimitRecord[];
+  spend: { workspace: BudgetSpend; projects: Record<string, BudgetSpend> };
+  avg_session_cost_usd: number;
+}
+
+interface BudgetTrip {
+  // Unique per scope, period and cap, so each trip is reported once
+  key: string;
+  reason: string;
+}
+
+const reportedBudgetTrips = new Set<string>();
+
+async function getBudgets(): Promise<BudgetData | null> {
+  try {
+    return await apiGet<BudgetData>('/api/budgets');
+  } catch (e) {
+    log('WARN', 'Failed to fetch budgets, not enforcing them this cycle', { error: String(e) });
+    return null;
+  }
+}
+
+// First cap that spending `extra` more would take past (or, with extra = 0, that
+// spend has already reached). Days and months are UTC, matching the API.
+function findBudgetTrip(budgets: BudgetData, projectId: string, taskId: string, taskCostUsd: number, extra: number): BudgetTrip | null {
+  const day = new Date().toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  const workspaceLimit = budgets.limits.find(l => l.task_list_id === null);
+  const projectLimit = budgets.limits.find(l => l.task_list_id === projectId);
+  const projectSpend = budgets.spend.projects[projectId] ?? { daily_usd: 0, monthly_usd: 0 };
+
+  const checks: Array<[scope: string, label: string, spent: number, limit: number | null | undefined]> = [
+    [`workspace:${day}`, 'Workspace daily budget', budgets.spend.workspace.daily_usd, workspaceLimit?.daily_limit_usd],
+    [`workspace:${month}`, 'Workspace monthly budget', budgets.spend.workspace.monthly_usd, workspaceLimit?.monthly_limit_usd],
+    [`project:${projectId}:${day}`, 'Project daily budget', projectSpend.daily_usd, projectLimit?.daily_limit_usd],
+    [`project:${projectId}:${month}`, 'Project monthly budget', projectSpend.monthly_usd, projectLimit?.monthly_limit_usd],
+    [`task:${taskId}`, 'Task budget', taskCostUsd, projectLimit?.task_limit_usd ?? workspaceLimit?.task_limit_usd],
+  ];
+
+  for (const [scope, label, spent, limit] of checks) {
+    if (limit == null) continue;
+    const tripped = extra > 0 ? spent + extra > limit : spent >= limit;
+    if (tripped) {
+      return {
+        key: `${scope}:${limit}`,
+        reason: `${label} of $${limit.toFixed(2)} ${extra > 0 ? 'would be exceeded' : 'reached'} ($${spent.toFixed(2)} spent)`,
+      };
+    }
+  }
+  return null;
+}
+
+async function reportBudgetTrip(trip: BudgetTrip, message: string, taskId: string, sessionId?: string): Promise<void> {
+  if (reportedBudgetTrips.has(trip.key)) return;
+  reportedBudgetTrips.add(trip.key);
+
+  log('WARN', 'Budget tripped', { budget: trip.key, taskId, sessionId, reason: trip.reason });
+  try {
+    await apiPost('/api/events', {
+      event_type: 'budget_exceeded',
+      session_id: sessionId,
+      task_id: taskId,
+      message,
+      metadata: { budget: trip.key },
+    });
+  } catch (e) {
+    log('ERROR', 'Failed to post budget event', { error: String(e) });
+  }
+}
+
+// Stop our sessions whose budget is used up. The close handler records their
+// usage and puts the task back in the queue. Spend only includes sessions that
+// have exited (agents report cost once, at the end of the run), so this never
+// sees a running session's own cost: it catches caps that finished sessions
+// reached meanwhile, and a single session can still overrun its cap.
+async function stopSessionsOverBudget(budgets: BudgetData): Promise<void> {
+  for (const [sessionId, entry] of activeSessions) {
+    if (entry.stop || entry.leaseLost) continue;
+
+    const trip = findBudgetTrip(budgets, entry.projectId, entry.taskId, entry.taskCostUsd, 0);
+    if (!trip) continue;
+
+    log('WARN', 'Stopping session over budget', { sessionId, taskId: entry.taskId, projectId: entry.projectId, budget: trip.key });
+    entry.stop = {
+      reason: trip.reason,
+      comment: `Session stopped by orchestrator: ${trip.reason}. The task will be picked up again once the budget allows.`,
+    };
+    terminateSession(entry);
+    await reportBudgetTrip(trip, `${trip.reason}. Running session stopped.`, entry.taskId, sessionId);
+  }
+}
+
 // ── Message sessions (async chat) ───────────────────────────────────
 
 interface TaskComment {
@@ -2202,136 +2320,678 @@ function buildMessageSessionPrompt(task: Task, project: TaskList | null, comment
   ].filter(Boolean).join('\n');
 }
 
-async function startMessageSession(projectId: string, task: Task, llmData?: LlmData | null): Promise<void> {
-  if (activeSessions.size >= MAX_CONCURRENT) {
-    log('WARN', 'Concurrency limit reached, skipping message session', { projectId, maxConcurrent: MAX_CONCURRENT });
-    return;
-  }
+// ── Stage pipeline ──────────────────────────────────────────────────
+//
+// Every workflow stage the orchestrator drives is declared once in STAGES:
+// which tasks it picks up, how its prompt is built, which LLM session type it
+// runs as and where the task goes afterwards. pollCycle walks the registry in
+// priority order and startStageSession handles registration, events, spawning
+// and status transitions, so a new stage is a new entry, not a new function.
+// Orchestrated custom workflow columns join the registry as workflowColumnStage.
+
+interface StageContext {
+  toggles: FeatureToggle[];
+  columns: WorkflowColumn[];
+  llmData: LlmData | null;
+  projects: Map<string, TaskList>;
+  // null when budgets couldn't be fetched; nothing is enforced then
+  budgets: BudgetData | null;
+  policies: RunPolicyRecord[];
+  // null when WIP limits couldn't be fetched; nothing is enforced then
+  wip: WipData | null;
+}
 
-  if (activeSessions.has(projectId)) {
-    log('INFO', 'Session already active for project, skipping message session', { projectId });
-    return;
-  }
+interface StageEscalation {
+  status: string;
+  notes: string;
+}
 
-  const project = await getProjectInfo(projectId);
-  const workDir = project?.working_directory || WORKSPACE_ROOT;
+interface StageDefinition {
+  // Selects the provider/model and agent runner overrides
+  sessionType: LlmSessionType;
+  // Lower runs first
+  priority: number;
+  // Used in logs, e.g. "Starting AI review session"
+  label: string;
+  // Status the stage picks tasks from (null when fetchTasks decides)
+  inputStatus: string | null;
+  enabled: (ctx: StageContext) => boolean;
+  // Defaults to every task in inputStatus, grouped by project
+  fetchTasks?: (ctx: StageContext) => Promise<Map<string, Task[]>>;
+  // Keep the API order (oldest first) instead of sorting by task priority
+  fifo?: boolean;
+  buildPrompt: (task: Task, project: TaskList | null, ctx: StageContext) => string | Promise<string>;
+  // Returns an escalation when the task can't run this stage (e.g. no PR to review)
+  precheck?: (task: Task, ctx: StageContext) => StageEscalation | null;
+  // Status while the agent runs; the task is also assigned to the orchestrator
+  runningStatus?: string;
+  // Status on success. Omitted = the prompt tells the agent to move the task itself
+  successStatus?: (ctx: StageContext) => string;
+  // Where the agent moves the task itself on success; checked against WIP limits
+  handsOffTo?: (ctx: StageContext, projectId: string) => string[];
+  // Status on failure. Omitted = the task stays where it is
+  failureStatus?: string;
+  failureNotes?: (code: number | null) => string;
+  // Failures increment error_count; at the retry limit the task goes to onRetryLimit,
+  // or is skipped and reported as stuck when the stage has nowhere to send it
+  countsFailures: boolean;
+  onRetryLimit?: (task: Task) => StageEscalation;
+  githubAccess: boolean;
+  // session_type in event metadata, when it differs from sessionType
+  eventTag?: string;
+  text: {
+    active: (task: Task) => string;
+    start: (task: Task) => string;
+    done: (task: Task) => string;
+    failed: string;
+  };
+  successComment?: (task: Task, nextStatus: string | null) => string;
+  failureComment?: (task: Task, code: number | null, errorDetail: string) => string;
+}
 
-  // Fetch comments for context
-  let comments: TaskComment[] = [];
+async function fetchCommentHistory(task: Task): Promise<TaskComment[]> {
   try {
-    const { comments: fetchedComments } = await apiGet<{ comments: TaskComment[] }>(
-      `/api/tasks/${task.id}/comments?limit=50`
-    );
+    const { comments } = await apiGet<{ comments: TaskComment[] }>(`/api/tasks/${task.id}/comments?limit=50`);
     // Reverse to get chronological order (API returns newest first)
-    comments = fetchedComments.reverse();
+    return comments.reverse();
   } catch (e) {
     log('WARN', 'Failed to fetch task comments for message session', { error: String(e) });
+    return [];
   }
+}
 
-  const systemPrompt = buildMessageSessionPrompt(task, project, comments);
+function fixFailureComment(label: string) {
+  return (task: Task, code: number | null, errorDetail: string) =>
+    `${label} failed (exit ${code}). Error count: ${task.error_count + 1}.${errorDetail ? `\n\n\`\`\`\n${errorDetail}\n\`\`\`` : ''}`;
+}
 
-  // Register session with API
-  const { session } = await apiPost<{ session: Session }>('/api/sessions', {
-    project_id: projectId,
-    current_task_id: task.id,
-    status: 'active',
-    summary: `Responding to message on: ${task.title}`,
-  });
+const STAGES: StageDefinition[] = [
+  {
+    // Async chat: a human left a message on the task
+    sessionType: 'message',
+    priority: 0,
+    label: 'message',
+    inputStatus: null,
+    enabled: () => true,
+    fetchTasks: async () => groupByProject(await getPendingMessageTasks()),
+    fifo: true,
+    buildPrompt: async (task, project) => buildMessageSessionPrompt(task, project, await fetchCommentHistory(task)),
+    // Message sessions never change workflow state
+    countsFailures: false,
+    githubAccess: true,
+    text: {
+      active: (task) => `Responding to message on: ${task.title}`,
+      start: (task) => `Responding to user message on: ${task.title}`,
+      done: (task) => `Responded to message on: ${task.title}`,
+      failed: 'Message session failed',
+    },
+    failureComment: (_task, code) =>
+      `Failed to process your message (session error, exit ${code}). Please try again or check with a human.`,
+  },
+  {
+    sessionType: 'fix_review',
+    priority: 1,
+    label: 'fix review',
+    inputStatus: 'review_rejected',
+    enabled: (ctx) => isAiReviewEnabled(ctx.toggles),
+    buildPrompt: (task, project) => buildFixReviewPrompt(task, project),
+    runningStatus: 'in_progress',
+    handsOffTo: () => ['ai_review'],
+    failureStatus: 'review_rejected',
+    countsFailures: true,
+    onRetryLimit: (task) => ({
+      status: 'review',
+      notes: `Escalated to human review after ${task.error_count} fix attempts`,
+    }),
+    githubAccess: true,
+    text: {
+      active: (task) => `Fixing review feedback: ${task.title}`,
+      start: (task) => `Fixing review feedback: ${task.title}`,
+      done: (task) => `Fixed review feedback: ${task.title}`,
+      failed: 'Fix review failed',
+    },
+    successComment: () => 'Fix review session completed. Fixes pushed for re-review.',
+    failureComment: fixFailureComment('Fix review session'),
+  },
+  {
+    sessionType: 'fix_test_failure',
+    priority: 2,
+    label: 'fix test failure',
+    inputStatus: 'test_failed',
+    enabled: (ctx) => isLocalTestingEnabled(ctx.toggles),
+    buildPrompt: (task, project) => buildFixTestFailurePrompt(task, project),
+    runningStatus: 'in_progress',
+    handsOffTo: () => ['testing'],
+    failureStatus: 'test_failed',
+    countsFailures: true,
+    onRetryLimit: (task) => ({
+      status: 'review',
+      notes: `Escalated to human review after ${task.error_count} fix attempts`,
+    }),
+    githubAccess: true,
+    text: {
+      active: (task) => `Fixing test failures: ${task.title}`,
+      start: (task) => `Fixing test failures: ${task.title}`,
+      done: (task) => `Fixed test failures: ${task.title}`,
+      failed: 'Fix test failure failed',
+    },
+    successComment: () => 'Fix test failure session completed. Fixes pushed for re-test.',
+    failureComment: fixFailureComment('Fix test failure session'),
+  },
+  {
+    sessionType: 'ai_review',
+    priority: 3,
+    label: 'AI review',
+    inputStatus: 'ai_review',
+    enabled: (ctx) => isAiReviewEnabled(ctx.toggles),
+    buildPrompt: (task, project, ctx) =>
+      buildAiReviewPrompt(task, project, getAiReviewConfig(ctx.toggles), isLocalTestingEnabled(ctx.toggles)),
+    precheck: (task, ctx) => {
+      const reviewRounds = task.review_rounds || 0;
+      if (reviewRounds >= getAiReviewConfig(ctx.toggles).max_review_rounds) {
+        return { status: 'review', notes: `Escalated to human review after ${reviewRounds} AI review rounds` };
+      }
+      if (!task.pr_url) {
+        return { status: 'review', notes: 'Moved to human review: no PR URL for AI review' };
+      }
+      return null;
+    },
+    // Rejections go back to review_rejected and are never held up
+    handsOffTo: (ctx) => [
+      isLocalTestingEnabled(ctx.toggles) ? 'testing'
+        : getAiReviewConfig(ctx.toggles).auto_advance_on_approve ? 'done'
+        : 'review',
+    ],
+    // A crashed review falls back to a human
+    failureStatus: 'review',
+    failureNotes: (code) => `AI review session failed (exit ${code}), escalated to human review`,
+    countsFailures: false,
+    githubAccess: true,
+    text: {
+      active: (task) => `AI Review: ${task.title}`,
+      start: (task) => `Starting AI review (round ${(task.review_rounds || 0) + 1}): ${task.title}`,
+      done: (task) => `AI Review completed: ${task.title}`,
+      failed: 'AI Review failed',
+    },
+    successComment: (task) => `AI review session completed for "${task.title}".`,
+    failureComment: (_task, code) => `AI review session failed (exit ${code}). Escalated to human review.`,
+  },
+  {
+    sessionType: 'testing',
+    priority: 4,
+    label: 'testing',
+    inputStatus: 'testing',
+    enabled: (ctx) => isLocalTestingEnabled(ctx.toggles),
+    buildPrompt: (task, project, ctx) => buildTestingPrompt(task, project, getLocalTestingConfig(ctx.toggles)),
+    precheck: (task) => task.pr_url ? null : { status: 'review', notes: 'Skipped local testing: no PR URL' },
+    handsOffTo: () => ['review'],
+    // A crash is not a test failure (the prompt reports those) — move on so the task isn't stuck
+    failureStatus: 'review',
+    failureNotes: (code) => `Testing session crashed (exit ${code}), escalated past testing`,
+    countsFailures: false,
+    githubAccess: true,
+    eventTag: 'local_testing',
+    text: {
+      active: (task) => `Testing: ${task.title}`,
+      start: (task) => `Starting browser tests: ${task.title}`,
+      done: (task) => `Tests completed: ${task.title}`,
+      failed: 'Testing failed',
+    },
+    failureComment: (_task, code) => `Testing session crashed (exit ${code}). Task moved to review.`,
+  },
+  {
+    sessionType: 'task',
+    priority: 5,
+    label: 'task',
+    inputStatus: 'todo',
+    enabled: () => true,
+    fetchTasks: () => getProjectTasks(),
+    buildPrompt: (task, project) => buildSystemPrompt(task, project),
+    runningStatus: 'in_progress',
+    successStatus: (ctx) =>
+      isAiReviewEnabled(ctx.toggles) ? 'ai_review'
+        : isLocalTestingEnabled(ctx.toggles) ? 'testing'
+        : 'review',
+    failureStatus: 'todo',
+    countsFailures: true,
+    githubAccess: true,
+    text: {
+      active: (task) => `Working on: ${task.title}`,
+      start: (task) => `Starting work on: ${task.title}`,
+      done: (task) => `Completed: ${task.title}`,
+      failed: 'Failed',
+    },
+    successComment: (_task, nextStatus) => `Session completed successfully. Task moved to ${nextStatus}.`,
+    failureComment: fixFailureComment('Session'),
+  },
+  {
+    sessionType: 'refinement',
+    priority: 6,
+    label: 'refinement',
+    inputStatus: 'refinement',
+    enabled: (ctx) => isRefinementEnabled(ctx.toggles),
+    fetchTasks: () => getRefinementTasks(),
+    buildPrompt: (task, project, ctx) => buildRefinementPrompt(task, project, getRefinementConfig(ctx.toggles)),
+    handsOffTo: (ctx) => (getRefinementConfig(ctx.toggles).auto_advance ? ['todo'] : []),
+    // Failures stay in refinement until the retry limit sends them to todo
+    countsFailures: true,
+    onRetryLimit: (task) => ({
+      status: 'todo',
+      notes: `Refinement failed after ${task.error_count} attempts, moved to todo`,
+    }),
+    // Refinement only talks to the kanban API — no GitHub credentials
+    githubAccess: false,
+    text: {
+      active: (task) => `Refining: ${task.title}`,
+      start: (task) => `Starting refinement: ${task.title}`,
+      done: (task) => `Refined: ${task.title}`,
+      failed: 'Refinement failed',
+    },
+  },
+];
+
+// Orchestrated custom columns get a stage each, rebuilt from the workspace's columns every
+// poll. The agent moves the task on itself, like the AI review.
+function workflowColumnStage(column: WorkflowColumn): StageDefinition {
+  return {
+    sessionType: 'task',
+    // After review and testing, before new work
+    priority: 4.5,
+    label: column.label,
+    inputStatus: column.status,
+    enabled: () => true,
+    fetchTasks: async () => {
+      const grouped = await getTasksByStatus(column.status);
+      if (column.task_list_id) {
+        for (const projectId of grouped.keys()) {
+          if (projectId !== column.task_list_id) grouped.delete(projectId);
+        }
+      }
+      return grouped;
+    },
+    buildPrompt: (task, _project, ctx) =>
+      buildWorkflowColumnPrompt(task, column, nextBoardStatus(column.status, ctx.toggles, ctx.columns, task.task_list_id || 'default')),
+    handsOffTo: (ctx, projectId) => [nextBoardStatus(column.status, ctx.toggles, ctx.columns, projectId)],
+    // Failures stay in the column until the retry limit hands the task to a human
+    countsFailures: true,
+    onRetryLimit: (task) => ({
+      status: 'review',
+      notes: `${column.label} failed after ${task.error_count} attempts, escalated to human review`,
+    }),
+    githubAccess: true,
+    eventTag: 'workflow_column',
+    text: {
+      active: (task) => `${column.label}: ${task.title}`,
+      start: (task) => `Starting ${column.label}: ${task.title}`,
+      done: (task) => `${column.label} completed: ${task.title}`,
+      failed: `${column.label} failed`,
+    },
+    successComment: () => `${column.label} session completed.`,
+    failureComment: fixFailureComment(`${column.label} session`),
+  };
+}
 
-  const sessionId = session.id;
+async function escalateTask(task: Task, escalation: StageEscalation): Promise<void> {
+  try {
+    await apiPatch(`/api/tasks/${task.id}`, {
+      status: escalation.status,
+      completion_notes: escalation.notes,
+    });
+  } catch (e) {
+    log('ERROR', 'Failed to escalate task', { taskId: task.id, status: escalation.status, error: String(e) });
+  }
+}
 
-  log('INFO', 'Starting message session', {
-    sessionId, projectId, taskId: task.id, taskTitle: task.title,
-  });
+// Undoes a claim whose session never got going: the task goes back to the status it
+// was claimed from, as a failed attempt like an expired lease would be, and the lease is released
+async function abandonClaim(
+  stage: StageDefinition, task: Task, settings: RunSettings, sessionId: string | null, reason: string
+): Promise<void> {
+  if (sessionId) {
+    try {
+      await apiPatch(`/api/sessions/${sessionId}`, { status: 'error', summary: reason });
+    } catch (e) {
+      log('ERROR', 'Failed to update session', { sessionId, error: String(e) });
+    }
+  }
+
+  const update: Record<string, unknown> = {};
+  if (stage.runningStatus) {
+    update.status = task.status;
+    update.assigned_to = null;
+  }
+  if (stage.countsFailures) {
+    update.error_count = task.error_count + 1;
+    update.next_attempt_at = nextAttemptAt(settings, task.error_count + 1);
+  }
+  if (Object.keys(update).length > 0) {
+    try {
+      await apiPatch(`/api/tasks/${task.id}`, update);
+    } catch (e) {
+      log('ERROR', 'Failed to reset task', { taskId: task.id, error: String(e) });
+    }
+  }
+
+  await releaseLease(task.id);
+}
+
+interface LaunchedAgent {
+  repoDir: string;
+  worktree?: string;
+  sessionId: string;
+  runner: AgentRunner;
+  agent: ChildProcess;
+  eventMetadata: Record<string, string>;
+}
+
+// Everything between taking the lease and a spawned agent. A failure gives the claim
+// back before rethrowing, so the task doesn't sit in its running status until the lease expires.
+async function launchStageAgent(
+  stage: StageDefinition, projectId: string, task: Task, ctx: StageContext, settings: RunSettings
+): Promise<LaunchedAgent> {
+  let sessionId: string | null = null;
+  try {
+    const project = await getProjectInfo(projectId);
+    const repoDir = project?.working_directory || WORKSPACE_ROOT;
+
+    // Parallel sessions each get a worktree
+    const workDir = projectConcurrency(project) > 1 ? await prepareWorktree(repoDir, projectId, task) : repoDir;
+    const worktree = workDir !== repoDir ? workDir : undefined;
+
+    // Prompts resolve CLAUDE.md and .memory from the project's working directory
+    const sessionProject = project && worktree ? { ...project, working_directory: worktree } : project;
+    const stagePrompt = await stage.buildPrompt(task, sessionProject, ctx);
+    const systemPrompt = worktree ? `${buildWorktreeNote(task, worktree)}\n${stagePrompt}` : stagePrompt;
+    const eventMetadata = { session_type: stage.eventTag ?? stage.sessionType };
+    const sessionLlm = resolveSessionEnv(ctx.llmData, stage.sessionType, projectId);
+
+    // Register session with API
+    const { session } = await apiPost<{ session: Session }>('/api/sessions', {
+      project_id: projectId,
+      current_task_id: task.id,
+      status: 'active',
+      summary: stage.text.active(task),
+      holder_id: ORCHESTRATOR_ID,
+      session_type: stage.sessionType,
+      provider: sessionLlm.provider,
+      configured_model: sessionLlm.model,
+    });
+
+    sessionId = session.id;
+
+    log('INFO', `Starting ${stage.label} session`, { sessionId, projectId, taskId: task.id, taskTitle: task.title });
+
+    // Report session start
+    await apiPost('/api/events', {
+      event_type: 'session_start',
+      session_id: sessionId,
+      task_id: task.id,
+      message: stage.text.start(task),
+      metadata: eventMetadata,
+    });
+
+    // Spawn the project's agent (the Claude runner passes skip-permissions, needed for
+    // non-interactive sessions that must run bash commands like curl for progress reporting)
+    const runner = resolveAgentRunner(ctx.llmData, project, stage.sessionType, projectId);
+    const agent = runner.start({
+      task,
+      prompt: systemPrompt,
+      cwd: workDir,
+      env: {
+        ...CLEAN_ENV,
+        ...sessionLlm.env,
+        KANBAN_API_URL: API_URL,
+        KANBAN_API_KEY: API_KEY,
+        KANBAN_SESSION_ID: sessionId,
+        KANBAN_TASK_ID: task.id,
+        ...(stage.githubAccess ? { GH_TOKEN } : {}),
+      },
+    });
+
+    return { repoDir, worktree, sessionId, runner, agent, eventMetadata };
+  } catch (e) {
+    await abandonClaim(stage, task, settings, sessionId, `Failed to start: ${String(e)}`);
+    throw e;
+  }
+}
+
+async function startStageSession(stage: StageDefinition, projectId: string, task: Task, ctx: StageContext): Promise<boolean> {
+  const maxConcurrent = maxConcurrentSessions(ctx.policies);
+  if (activeSessions.size >= maxConcurrent) {
+    log('WARN', `Concurrency limit reached, skipping ${stage.label} session`, { projectId, maxConcurrent });
+    return false;
+  }
+
+  const projectLimit = projectConcurrency(ctx.projects.get(projectId));
+  if (countProjectSessions(projectId) >= projectLimit) {
+    log('INFO', `Project at its session limit, skipping ${stage.label} session`, { projectId, projectLimit });
+    return false;
+  }
+
+  if (isTaskActive(task.id)) {
+    log('INFO', `Task already has an active session, skipping ${stage.label} session`, { projectId, taskId: task.id });
+    return false;
+  }
+
+  // The task stays queued until the budget has room again
+  const budgetTrip = ctx.budgets &&
+    findBudgetTrip(ctx.budgets, projectId, task.id, task.cost_usd ?? 0, ctx.budgets.avg_session_cost_usd);
+  if (budgetTrip) {
+    log('INFO', `Over budget, skipping ${stage.label} session`, { projectId, taskId: task.id, budget: budgetTrip.key });
+    await reportBudgetTrip(budgetTrip, `${budgetTrip.reason}. New sessions are paused.`, task.id);
+    return false;
+  }
+
+  // Check retry limit
+  const settings = resolveRunSettings(ctx.policies, projectId, stage.sessionType, task);
+  if (stage.countsFailures && task.error_count >= settings.maxRetries) {
+    if (stage.onRetryLimit) {
+      log('WARN', 'Task exceeded retry limit, escalating', { taskId: task.id, stage: stage.sessionType, errorCount: task.error_count });
+      await escalateTask(task, stage.onRetryLimit(task));
+    } else {
+      log('WARN', 'Task exceeded retry limit, skipping', { taskId: task.id, errorCount: task.error_count });
+      await apiPost('/api/events', {
+        event_type: 'stuck',
+        task_id: task.id,
+        message: `Task blocked after ${task.error_count} failures. Manual intervention needed.`,
+      });
+    }
+    return false;
+  }
+
+  const escalation = stage.precheck?.(task, ctx);
+  if (escalation) {
+    log('WARN', `Task cannot run ${stage.label} session, escalating`, {
+      taskId: task.id, status: escalation.status, reason: escalation.notes,
+    });
+    await escalateTask(task, escalation);
+    return false;
+  }
 
-  await apiPost('/api/events', {
-    event_type: 'session_start',
-    session_id: sessionId,
-    task_id: task.id,
-    message: `Responding to user message on: ${task.title}`,
-    metadata: { session_type: 'message' },
+  // Take the lease before anything visible happens — another orchestrator may be on it
+  if (!(await claimTask(task, stage.runningStatus))) {
+    return false;
+  }
+
+  const { repoDir, worktree, sessionId, runner, agent, eventMetadata } =
+    await launchStageAgent(stage, projectId, task, ctx, settings);
+
+  activeSessions.set(sessionId, {
+    process: agent, sessionId, projectId, taskId: task.id, startedAt: Date.now(), worktree, taskCostUsd: task.cost_usd ?? 0, settings,
   });
 
-  // Use --resume if we have a claude_session_id (full AI memory of previous work)
-  const claudeArgs = buildClaudeArgs(task, systemPrompt);
-  const sessionEnv = resolveSessionEnv(llmData ?? null, 'message', projectId);
-  const claude = spawn('claude', claudeArgs, {
-    cwd: workDir,
-    env: {
-      ...CLEAN_ENV,
-      ...sessionEnv,
-      KANBAN_API_URL: API_URL,
-      KANBAN_API_KEY: API_KEY,
-      KANBAN_SESSION_ID: sessionId,
-      KANBAN_TASK_ID: task.id,
-      GH_TOKEN: GH_TOKEN,
-    },
-    stdio: ['pipe', 'pipe', 'pipe'],
+  const transcript = createTranscriptWriter(sessionId);
+  let spawnFailed = false;
+  let stdoutTail = '';
+  let stderr = '';
+  let resultText: string | null = null;
+  let agentSessionId: string | null = null;
+  let model: string | null = null;
+  let usage: AgentUsage | null = null;
+
+  onLines(agent.stdout, (line) => {
+    stdoutTail = (stdoutTail + line + '\n').slice(-OUTPUT_TAIL_CHARS);
+    const output = runner.parseLine(line);
+    for (const entry of output.entries) transcript.push(entry);
+    if (output.resultText !== undefined) resultText = output.resultText;
+    if (output.sessionId) agentSessionId = output.sessionId;
+    if (output.model) model = output.model;
+    if (output.usage) usage = output.usage;
+  });
+  onLines(agent.stderr, (line) => {
+    stderr = (stderr + line + '\n').slice(-OUTPUT_TAIL_CHARS);
+    transcript.push({ kind: 'stderr', content: line });
   });
 
-  claude.stdin?.end();
-  activeSessions.set(projectId, { process: claude, sessionId, taskId: task.id, startedAt: Date.now() });
+  agent.on('close', async (code) => {
+    if (spawnFailed) return;
+    const entry = activeSessions.get(sessionId);
+    activeSessions.delete(sessionId);
+    await transcript.close();
 
-  let stdout = '';
-  let stderr = '';
+    // Tokens are spent whether or not the run succeeded
+    const usageReport = {
+      ...(model ? { model } : {}),
+      ...(usage ? { usage } : {}),
+    };
 
-  claude.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
-  claude.stderr?.on('data', (data: Buffer) => { stderr += data.toString(); });
+    // The task may belong to another orchestrator by now — leave it alone
+    if (entry?.leaseLost) {
+      try {
+        await apiPatch(`/api/sessions/${sessionId}`, { status: 'error', summary: 'Stopped: task lease lost', ...usageReport });
+      } catch (e) {
+        log('ERROR', 'Failed to update session', { sessionId, error: String(e) });
+      }
+      if (worktree) {
+        await removeWorktree(repoDir, projectId, task.id, 'lease lost');
+      }
+      return;
+    }
+
+    // Not the task's fault: requeue it without counting a failure (the worktree is kept)
+    if (entry?.stop) {
+      try {
+        await apiPatch(`/api/sessions/${sessionId}`, { status: 'error', summary: `Stopped: ${entry.stop.reason}`, ...usageReport });
+        if (stage.runningStatus && stage.inputStatus) {
+          await apiPatch(`/api/tasks/${task.id}`, { status: stage.inputStatus, assigned_to: null });
+        }
+      } catch (e) {
+        log('ERROR', 'Failed to update stopped session', { sessionId, error: String(e) });
+      }
+      await releaseLease(task.id);
+      await postBotComment(task.id, entry.stop.comment, 'error');
+      finishDrainIfIdle();
+      return;
+    }
+
+    // Handle --resume failure: if exit code indicates session not found, retry without resume
+    if (code !== 0 && runner.supportsResume && task.claude_session_id && stderr.includes('session')) {
+      log('WARN', 'Claude --resume may have failed, retrying without resume', { taskId: task.id });
+      task.claude_session_id = null;
+      try {
+        await apiPatch(`/api/sessions/${sessionId}`, { status: 'error', summary: 'Resume failed, retrying without resume' });
+        await apiPatch(`/api/tasks/${task.id}`, { claude_session_id: null });
+        await startStageSession(stage, projectId, task, ctx);
+        return;
+      } catch (retryErr) {
+        log('ERROR', 'Retry without resume also failed', { error: String(retryErr) });
+      }
+    }
 
-  claude.on('close', async (code) => {
-    activeSessions.delete(projectId);
     const success = code === 0;
 
-    log(success ? 'INFO' : 'ERROR', 'Message session ended', {
+    log(success ? 'INFO' : 'ERROR', `Session ended (${stage.label})`, {
       sessionId, projectId, taskId: task.id, exitCode: code,
     });
 
-    // Save Claude session ID for future resumption
+    // Save the agent's session ID for future resumption
     if (success) {
-      await saveClaudeSessionId(task, stdout);
+      await saveAgentSessionId(runner, task, agentSessionId);
     }
 
+    // Update session
     try {
       await apiPatch(`/api/sessions/${sessionId}`, {
         status: success ? 'completed' : 'error',
         summary: success
-          ? `Responded to message on: ${task.title}`
-          : `Message session failed (exit ${code}): ${stderr.slice(-500)}`,
+          ? stage.text.done(task)
+          : `${stage.text.failed} (exit ${code}): ${stderr.slice(-500)}`,
+        ...usageReport,
       });
     } catch (e) {
-      log('ERROR', 'Failed to update message session', { error: String(e) });
+      log('ERROR', 'Failed to update session', { sessionId, error: String(e) });
     }
 
+    // Report session end
     try {
       await apiPost('/api/events', {
         event_type: 'session_end',
         session_id: sessionId,
         task_id: task.id,
         message: success
-          ? `Responded to message on: ${task.title}`
-          : `Message session failed (exit ${code}): ${stderr.slice(-200)}`,
-        metadata: { session_type: 'message' },
+          ? stage.text.done(task)
+          : `${stage.text.failed} (exit ${code}): ${stderr.slice(-200)}`,
+        metadata: eventMetadata,
       });
     } catch (e) {
-      log('ERROR', 'Failed to report message session end', { error: String(e) });
+      log('ERROR', 'Failed to report session end', { sessionId, error: String(e) });
     }
 
-    // On failure, post an error comment so the user knows
-    if (!success) {
-      await postBotComment(
-        task.id,
-        `Failed to process your message (session error, exit ${code}). Please try again or check with a human.`,
-        'error'
-      );
+    // Update task status
+    const nextStatus = success && stage.successStatus ? stage.successStatus(ctx) : null;
+    try {
+      if (nextStatus) {
+        await apiPatch(`/api/tasks/${task.id}`, {
+          status: nextStatus,
+          completion_notes: (resultText ?? stdoutTail).slice(-1000),
+        });
+        log('INFO', 'Task advanced', { taskId: task.id, status: nextStatus });
+      } else if (!success) {
+        const update: Record<string, unknown> = {};
+        if (stage.failureStatus) update.status = stage.failureStatus;
+        if (stage.failureNotes) update.completion_notes = stage.failureNotes(code);
+        if (stage.countsFailures) {
+          update.error_count = task.error_count + 1;
+          update.next_attempt_at = nextAttemptAt(settings, task.error_count + 1);
+        }
+        if (stage.runningStatus) update.assigned_to = null;
+        if (Object.keys(update).length > 0) {
+          await apiPatch(`/api/tasks/${task.id}`, update);
+        }
+      }
+    } catch (e) {
+      log('ERROR', 'Failed to update task', { taskId: task.id, error: String(e) });
+    }
+
+    await releaseLease(task.id);
+
+    // Post bot comment with session result
+    const errorDetail = stderr.trim().slice(-500) || (resultText ?? stdoutTail).trim().slice(-500);
+    const comment = success
+      ? stage.successComment?.(task, nextStatus)
+      : stage.failureComment?.(task, code, errorDetail);
+    if (comment) {
+      await postBotComment(task.id, comment, success ? 'summary' : 'error');
     }
-    // On success, the prompt instructs Claude to post a response comment
-    // Do NOT change task status — message sessions don't modify workflow state
+
+    // Work may have been left waiting for this slot
+    if (pollAtCapacity) {
+      void requestPoll();
+    }
+    finishDrainIfIdle();
   });
 
-  claude.on('error', (err) => {
-    log('ERROR', 'Failed to spawn message session Claude process', { error: err.message, projectId });
-    activeSessions.delete(projectId);
+  // 'close' may or may not follow a spawn error; whichever handler runs first cleans up
+  agent.on('error', async (err) => {
+    if (!activeSessions.delete(sessionId)) return;
+    spawnFailed = true;
+    log('ERROR', `Failed to spawn ${stage.label} agent process`, { error: err.message, projectId });
+    await transcript.close();
+    await abandonClaim(stage, task, settings, sessionId, `Failed to spawn agent: ${err.message}`);
+    finishDrainIfIdle();
   });
+
+  return true;
 }
 
 // ── Main loop ───────────────────────────────────────────────────────
@@ -2344,188 +3004,360 @@ function sortByPriority(tasks: Task[]): Task[] {
   );
 }
 
+function pickStageTasks(stage: StageDefinition, projectId: string, tasks: Task[], limit: number, policies: RunPolicyRecord[]): Task[] {
+  const ordered = stage.fifo ? tasks : sortByPriority(tasks);
+
+  // Exhausted tasks with an escalation path are handed to startStageSession to move on
+  if (!stage.countsFailures || stage.onRetryLimit) return ordered.slice(0, limit);
+
+  // Otherwise skip them so they don't block the rest of the project's queue
+  const picked: Task[] = [];
+  for (const task of ordered) {
+    if (picked.length >= limit) break;
+    if (task.error_count < resolveRunSettings(policies, projectId, stage.sessionType, task).maxRetries) {
+      picked.push(task);
+      continue;
+    }
+    log('INFO', 'Skipping task (retry limit), trying next', { taskId: task.id, errorCount: task.error_count });
+  }
+  if (picked.length === 0) {
+    log('WARN', 'All tasks in project exceeded retry limit', { projectId, stage: stage.sessionType, taskCount: ordered.length });
+  }
+  return picked;
+}
+
 async function pollCycle() {
-  log('INFO', `Poll cycle starting (${activeSessions.size}/${MAX_CONCURRENT} active sessions)`);
+  log('INFO', `Poll cycle starting (${activeSessions.size} active sessions)`);
+  earliestRetryAt = null;
 
   try {
     // Check for stuck or dead sessions before doing anything else
     await checkStuckSessions();
 
+    // Return tasks abandoned by crashed orchestrators (ours included) to the queue
+    await reclaimExpiredLeases();
+
+    // Send webhook deliveries whose retry is due
+    await retryWebhookDeliveries();
+
     // Initialize any new projects (clone repos) before processing tasks
     await initializeProjects();
 
+    const projects = await getProjects();
+    await cleanupWorktrees(projects);
+
     // Fetch feature toggles and LLM config
     const toggles = await getFeatureToggles();
+    const columns = await getWorkflowColumns();
     const llmData = await getLlmConfig();
-    const aiReviewEnabled = isAiReviewEnabled(toggles);
-    const aiReviewConfig = aiReviewEnabled ? getAiReviewConfig(toggles) : null;
-    const refinementEnabled = isRefinementEnabled(toggles);
-    const localTestingEnabled = isLocalTestingEnabled(toggles);
-    const localTestingConfig = localTestingEnabled ? getLocalTestingConfig(toggles) : null;
-
-    const activeProjectIds = await getActiveSessions();
+    const budgets = await getBudgets();
+    if (budgets) {
+      await stopSessionsOverBudget(budgets);
+    }
 
-    // Also add locally tracked sessions
-    for (const projectId of activeSessions.keys()) {
-      activeProjectIds.add(projectId);
+    // Paused or draining: running sessions are still supervised, nothing new starts
+    if (schedulerState !== 'running') {
+      log('INFO', `Scheduling ${schedulerState}, not starting new sessions (${activeSessions.size} active)`);
+      return;
     }
 
+    const policies = await getRunPolicies();
+    const maxConcurrent = maxConcurrentSessions(policies);
+    const wip = await getWipData(columns);
+    // Tasks our new sessions move into each status this cycle
+    const pendingWip = new Map<string, number>();
+
+    const remoteSessions = await getActiveSessions();
+    const freeSlots = (projectId: string) =>
+      projectConcurrency(projects.get(projectId)) - countProjectSessions(projectId) - (remoteSessions.get(projectId) ?? 0);
+
     let started = 0;
+    const ctx: StageContext = { toggles, columns, llmData, projects, budgets, policies, wip };
+    const stages = [...STAGES, ...columns.filter(c => c.orchestrated).map(workflowColumnStage)]
+      .sort((a, b) => a.priority - b.priority);
 
-    // Priority 0 (highest): Process pending user messages (async chat)
-    const pendingMessages = await getPendingMessageTasks();
-    for (const task of pendingMessages) {
-      const projectId = task.task_list_id || 'default';
-      if (activeProjectIds.has(projectId)) continue;
-      if (activeSessions.size >= MAX_CONCURRENT) break;
+    // Up to max_concurrent_sessions per project: earlier stages get first pick
+    for (const stage of stages) {
+      if (!stage.enabled(ctx)) continue;
 
-      try {
-        await startMessageSession(projectId, task, llmData);
-        started++;
-        activeProjectIds.add(projectId);
-      } catch (e) {
-        log('ERROR', 'Failed to start message session', { taskId: task.id, error: String(e) });
+      if (activeSessions.size >= maxConcurrent) {
+        log('INFO', 'Concurrency limit reached, waiting for next cycle');
+        break;
       }
-    }
 
-    // Priority 1: Process review_rejected tasks (fix for re-review)
-    if (aiReviewEnabled) {
-      const rejectedTasks = await getTasksByStatus('review_rejected');
-      for (const [projectId, tasks] of rejectedTasks) {
-        if (activeProjectIds.has(projectId)) continue;
-        if (activeSessions.size >= MAX_CONCURRENT) break;
-
-        const task = sortByPriority(tasks)[0];
-        try {
-          await startFixReviewSession(projectId, task, llmData);
-          started++;
-          activeProjectIds.add(projectId);
-        } catch (e) {
-          log('ERROR', 'Failed to start fix review session', { projectId, taskId: task.id, error: String(e) });
+      const grouped = stage.fetchTasks
+        ? await stage.fetchTasks(ctx)
+        : stage.inputStatus ? await getTasksByStatus(stage.inputStatus) : new Map<string, Task[]>();
+
+      for (const [projectId, tasks] of grouped) {
+        if (activeSessions.size >= maxConcurrent) break;
+
+        const free = freeSlots(projectId);
+        if (free <= 0) continue;
+
+        const candidates = tasks.filter(t => !isTaskActive(t.id));
+        if (candidates.length === 0) continue;
+
+        // Everywhere a session of this stage puts the task, while running and afterwards
+        const targets = [
+          ...(stage.runningStatus ? [stage.runningStatus] : []),
+          ...(stage.successStatus ? [stage.successStatus(ctx)] : []),
+          ...(stage.handsOffTo?.(ctx, projectId) ?? []),
+        ];
+
+        for (const task of pickStageTasks(stage, projectId, candidates, free, policies)) {
+          if (activeSessions.size >= maxConcurrent) break;
+          const fullColumn = wip && findFullColumn(wip, targets, pendingWip);
+          if (fullColumn) {
+            log('INFO', `Column ${fullColumn} is at its WIP limit, holding ${stage.label} sessions`, { projectId });
+            break;
+          }
+          try {
+            if (await startStageSession(stage, projectId, task, ctx)) {
+              started++;
+              for (const status of targets) {
+                pendingWip.set(status, (pendingWip.get(status) ?? 0) + 1);
+              }
+            }
+          } catch (e) {
+            log('ERROR', `Failed to start ${stage.label} session`, { projectId, taskId: task.id, error: String(e) });
+          }
         }
       }
     }
 
-    // Priority 2: Process test_failed tasks (fix for re-test)
-    if (localTestingEnabled) {
-      const testFailedTasks = await getTasksByStatus('test_failed');
-      for (const [projectId, tasks] of testFailedTasks) {
-        if (activeProjectIds.has(projectId)) continue;
-        if (activeSessions.size >= MAX_CONCURRENT) break;
-
-        const task = sortByPriority(tasks)[0];
-        try {
-          await startFixTestFailureSession(projectId, task, llmData);
-          started++;
-          activeProjectIds.add(projectId);
-        } catch (e) {
-          log('ERROR', 'Failed to start fix test failure session', { projectId, taskId: task.id, error: String(e) });
-        }
-      }
-    }
+    pollAtCapacity = activeSessions.size >= maxConcurrent;
+    scheduleRetryWake();
+    log('INFO', `Poll cycle complete. Started ${started} new session(s), ${activeSessions.size}/${maxConcurrent} active`);
+  } catch (e) {
+    log('ERROR', 'Poll cycle failed', { error: String(e) });
+  }
+}
 
-    // Priority 3: Process ai_review tasks
-    if (aiReviewEnabled && aiReviewConfig) {
-      const aiReviewTasks = await getTasksByStatus('ai_review');
-      for (const [projectId, tasks] of aiReviewTasks) {
-        if (activeProjectIds.has(projectId)) continue;
-        if (activeSessions.size >= MAX_CONCURRENT) break;
-
-        const task = sortByPriority(tasks)[0];
-        try {
-          await startAiReviewSession(projectId, task, aiReviewConfig, localTestingEnabled, llmData);
-          started++;
-          activeProjectIds.add(projectId);
-        } catch (e) {
-          log('ERROR', 'Failed to start AI review session', { projectId, taskId: task.id, error: String(e) });
-        }
-      }
-    }
+// ── Orchestrator control ────────────────────────────────────────────
+//
+// We register with the dashboard through a periodic heartbeat carrying our
+// version, scheduling state, running sessions and effective config. The
+// response hands us commands queued from the dashboard: pause/resume
+// scheduling, drain (finish running sessions, then exit), kill a session or
+// poll now. Queuing a command also emits an 'orchestrator_command' work
+// signal, so a subscribed orchestrator heartbeats at once.
+
+type SchedulerState = 'running' | 'paused' | 'draining';
+
+interface ControlCommand {
+  id: number;
+  command: 'pause' | 'resume' | 'drain' | 'kill_session' | 'poll';
+  session_id: string | null;
+}
 
-    // Priority 4: Process testing tasks (run browser tests)
-    if (localTestingEnabled && localTestingConfig) {
-      const testingTasks = await getTasksByStatus('testing');
-      for (const [projectId, tasks] of testingTasks) {
-        if (activeProjectIds.has(projectId)) continue;
-        if (activeSessions.size >= MAX_CONCURRENT) break;
-
-        const task = sortByPriority(tasks)[0];
-        try {
-          await startTestingSession(projectId, task, localTestingConfig, llmData);
-          started++;
-          activeProjectIds.add(projectId);
-        } catch (e) {
-          log('ERROR', 'Failed to start testing session', { projectId, taskId: task.id, error: String(e) });
-        }
-      }
-    }
+let schedulerState: SchedulerState = 'running';
+let shuttingDown = false;
+let heartbeatRunning = false;
+let heartbeatQueued = false;
 
-    // Priority 5: Process todo tasks
-    const projectTasks = await getProjectTasks();
-    for (const [projectId, tasks] of projectTasks) {
-      if (activeProjectIds.has(projectId)) {
-        log('INFO', 'Project already has active session, skipping', { projectId });
-        continue;
-      }
+// Settings we run with — nothing secret
+function reportedConfig(): Record<string, unknown> {
+  return {
+    apiUrl: API_URL,
+    pollInterval: POLL_INTERVAL,
+    maxConcurrent: MAX_CONCURRENT,
+    maxRetries: MAX_RETRIES,
+    sessionTimeoutMs: SESSION_TIMEOUT_MS,
+    retryBackoffSeconds: RETRY_BACKOFF_SECONDS,
+    retryBackoffMaxSeconds: RETRY_BACKOFF_MAX_SECONDS,
+    wakeOnSignals: WAKE_ON_SIGNALS,
+    leaseTtlSeconds: LEASE_TTL_SECONDS,
+    heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
+    projectsDir: PROJECTS_DIR,
+    worktreesDir: WORKTREES_DIR,
+  };
+}
 
-      if (activeSessions.size >= MAX_CONCURRENT) {
-        log('INFO', 'Concurrency limit reached, waiting for next cycle');
+async function sendHeartbeat(state: SchedulerState | 'stopped'): Promise<ControlCommand[]> {
+  const { commands } = await apiPost<{ commands: ControlCommand[] }>('/api/orchestrator/heartbeat', {
+    orchestrator_id: ORCHESTRATOR_ID,
+    hostname: hostname(),
+    pid: process.pid,
+    version: VERSION,
+    state,
+    config: reportedConfig(),
+    active_sessions: [...activeSessions.values()].map(entry => ({
+      session_id: entry.sessionId,
+      task_id: entry.taskId,
+      project_id: entry.projectId,
+      started_at: new Date(entry.startedAt).toISOString(),
+    })),
+  });
+  return commands;
+}
+
+async function runCommand(command: ControlCommand): Promise<void> {
+  log('INFO', 'Control command received', { commandId: command.id, command: command.command, sessionId: command.session_id });
+
+  let status: 'done' | 'failed' = 'done';
+  let result: string;
+  switch (command.command) {
+    case 'pause':
+      schedulerState = 'paused';
+      result = 'Scheduling paused';
+      break;
+    case 'resume':
+      schedulerState = 'running';
+      result = 'Scheduling resumed';
+      void requestPoll();
+      break;
+    case 'drain':
+      schedulerState = 'draining';
+      result = `Draining: exiting after ${activeSessions.size} running session(s) finish`;
+      break;
+    case 'poll':
+      result = 'Poll cycle started';
+      void requestPoll();
+      break;
+    case 'kill_session': {
+      const entry = command.session_id ? activeSessions.get(command.session_id) : undefined;
+      if (!entry) {
+        status = 'failed';
+        result = 'Session is not running on this orchestrator';
         break;
       }
+      entry.stop = {
+        reason: 'killed from the dashboard',
+        comment: 'Session killed from the dashboard. The task is back in the queue; pause the orchestrator or move the task to keep it from starting again.',
+      };
+      terminateSession(entry);
+      result = 'Session killed';
+      break;
+    }
+    default:
+      status = 'failed';
+      result = `Unknown command: ${String((command as { command: unknown }).command)}`;
+  }
 
-      // Try tasks in priority order — skip ones that hit retry limit
-      const sorted = sortByPriority(tasks);
-      let sessionStarted = false;
-      for (const task of sorted) {
-        if (task.error_count >= MAX_RETRIES) {
-          log('INFO', 'Skipping task (retry limit), trying next', { taskId: task.id, errorCount: task.error_count });
-          continue;
-        }
-        try {
-          await startClaudeSession(projectId, task, { aiReviewEnabled, localTestingEnabled }, llmData);
-          started++;
-          activeProjectIds.add(projectId);
-          sessionStarted = true;
-          break;
-        } catch (e) {
-          log('ERROR', 'Failed to start session', { projectId, taskId: task.id, error: String(e) });
+  try {
+    await apiPatch(`/api/orchestrator/commands/${command.id}`, { status, result });
+  } catch (e) {
+    log('WARN', 'Failed to report control command result', { commandId: command.id, error: String(e) });
+  }
+}
+
+// Heartbeats never overlap: a request during one queues exactly one more
+async function requestHeartbeat(): Promise<void> {
+  if (heartbeatRunning) {
+    heartbeatQueued = true;
+    return;
+  }
+  heartbeatRunning = true;
+  try {
+    do {
+      heartbeatQueued = false;
+      try {
+        const commands = await sendHeartbeat(schedulerState);
+        for (const command of commands) {
+          await runCommand(command);
         }
+      } catch (e) {
+        log('WARN', 'Heartbeat failed', { error: String(e) });
       }
-      if (!sessionStarted && sorted.every(t => t.error_count >= MAX_RETRIES)) {
-        log('WARN', 'All tasks in project exceeded retry limit', { projectId, taskCount: sorted.length });
-      }
-    }
+    } while (heartbeatQueued);
+  } finally {
+    heartbeatRunning = false;
+  }
+  finishDrainIfIdle();
+}
 
-    // Priority 6: Process refinement tasks (lowest priority)
-    if (refinementEnabled) {
-      const refinementConfig = getRefinementConfig(toggles);
-      const refinementTasks = await getRefinementTasks();
+function finishDrainIfIdle(): void {
+  if (schedulerState === 'draining' && activeSessions.size === 0) {
+    log('INFO', 'Drain complete, no sessions left running');
+    shutdown();
+  }
+}
 
-      for (const [projectId, tasks] of refinementTasks) {
-        if (activeProjectIds.has(projectId)) {
-          log('INFO', 'Project already has active session, skipping refinement', { projectId });
-          continue;
-        }
+// Kill running sessions, tell the dashboard we are gone and exit
+function shutdown(): void {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  log('INFO', 'Shutting down orchestrator...');
+  for (const { process: proc, projectId, taskId } of activeSessions.values()) {
+    log('INFO', `Killing Claude session for ${projectId}`, { taskId });
+    proc.kill('SIGTERM');
+  }
+  sendHeartbeat('stopped').catch((e) => {
+    log('WARN', 'Failed to report shutdown', { error: String(e) });
+  });
+  setTimeout(() => process.exit(0), 5000);
+}
 
-        if (activeSessions.size >= MAX_CONCURRENT) {
-          log('INFO', 'Concurrency limit reached, waiting for next cycle');
-          break;
-        }
+// ── Wake-up signals ─────────────────────────────────────────────────
+//
+// The dashboard records a "work available" signal whenever a task moves into
+// a status we pick up from or a human leaves a message. We long-poll that feed
+// and run a cycle straight away; POLL_INTERVAL is only the fallback. Control
+// commands ride the same feed and trigger a heartbeat instead.
 
-        const task = sortByPriority(tasks)[0];
-        try {
-          await startRefinementSession(projectId, task, refinementConfig, llmData);
-          started++;
-          activeProjectIds.add(projectId);
-        } catch (e) {
-          log('ERROR', 'Failed to start refinement session', { projectId, taskId: task.id, error: String(e) });
-        }
+const SIGNAL_WAIT_SECONDS = 25;
+const SIGNAL_RETRY_MIN_MS = 5_000;
+const SIGNAL_RETRY_MAX_MS = 5 * 60_000;
+
+interface WorkSignalsResponse {
+  signals: Array<{ id: number; reason: string; task_id: string | null }>;
+  cursor: number;
+}
+
+let pollRunning = false;
+let pollQueued = false;
+let pollAtCapacity = false;
+
+// Cycles never overlap: a wake-up during a running cycle queues exactly one more
+async function requestPoll(): Promise<void> {
+  if (pollRunning) {
+    pollQueued = true;
+    return;
+  }
+  pollRunning = true;
+  try {
+    do {
+      pollQueued = false;
+      await pollCycle();
+    } while (pollQueued);
+  } finally {
+    pollRunning = false;
+  }
+}
+
+async function subscribeToWorkSignals(): Promise<void> {
+  let cursor: number | null = null;
+  let retryMs = SIGNAL_RETRY_MIN_MS;
+
+  for (;;) {
+    try {
+      const path = cursor === null
+        ? '/api/orchestrator/signals'
+        : `/api/orchestrator/signals?after=${cursor}&wait=${SIGNAL_WAIT_SECONDS}`;
+      const res: WorkSignalsResponse = await apiGet<WorkSignalsResponse>(
+        path, AbortSignal.timeout((SIGNAL_WAIT_SECONDS + 15) * 1000)
+      );
+      const { signals } = res;
+
+      const work = signals.filter(s => s.reason !== 'orchestrator_command');
+      if (cursor !== null && work.length > 0) {
+        log('INFO', 'Work signal received, starting poll cycle', {
+          signals: work.length,
+          reasons: [...new Set(work.map(s => s.reason))],
+        });
+        void requestPoll();
+      }
+      if (cursor !== null && work.length < signals.length) {
+        void requestHeartbeat();
       }
+      cursor = res.cursor;
+      retryMs = SIGNAL_RETRY_MIN_MS;
+    } catch (e) {
+      log('WARN', 'Work signal subscription failed, retrying', { error: String(e), retryInMs: retryMs });
+      await new Promise(resolve => setTimeout(resolve, retryMs));
+      retryMs = Math.min(retryMs * 2, SIGNAL_RETRY_MAX_MS);
     }
-
-    log('INFO', `Poll cycle complete. Started ${started} new session(s), ${activeSessions.size} active`);
-  } catch (e) {
-    log('ERROR', 'Poll cycle failed', { error: String(e) });
   }
 }
 
@@ -2536,6 +3368,12 @@ async function main() {
     maxConcurrent: MAX_CONCURRENT,
     maxRetries: MAX_RETRIES,
     sessionTimeoutMs: SESSION_TIMEOUT_MS,
+    retryBackoffSeconds: RETRY_BACKOFF_SECONDS,
+    retryBackoffMaxSeconds: RETRY_BACKOFF_MAX_SECONDS,
+    wakeOnSignals: WAKE_ON_SIGNALS,
+    orchestratorId: ORCHESTRATOR_ID,
+    leaseTtlSeconds: LEASE_TTL_SECONDS,
+    heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
     projectsDir: PROJECTS_DIR,
   });
 
@@ -2548,22 +3386,26 @@ async function main() {
     log('WARN', 'GH_TOKEN not set. Agents will not be able to create GitHub PRs.');
   }
 
+  // Register before the first cycle so commands queued while we were down (pause) apply
+  await requestHeartbeat();
+
   // Initial poll
-  await pollCycle();
+  await requestPoll();
 
-  // Schedule recurring polls
-  setInterval(pollCycle, POLL_INTERVAL);
+  // Fallback schedule — signals normally trigger cycles long before this fires
+  setInterval(() => { void requestPoll(); }, POLL_INTERVAL);
 
-  // Graceful shutdown
-  const shutdown = () => {
-    log('INFO', 'Shutting down orchestrator...');
-    for (const [projectId, { process: proc }] of activeSessions) {
-      log('INFO', `Killing Claude session for ${projectId}`);
-      proc.kill('SIGTERM');
-    }
-    setTimeout(() => process.exit(0), 5000);
-  };
+  // Keep leases on running tasks alive
+  setInterval(() => { void renewLeases(); }, Math.max(LEASE_TTL_SECONDS * 1000 / 3, 10_000));
 
+  // Report status and pick up control commands
+  setInterval(() => { void requestHeartbeat(); }, HEARTBEAT_INTERVAL_SECONDS * 1000);
+
+  if (WAKE_ON_SIGNALS) {
+    void subscribeToWorkSignals();
+  }
+
+  // Graceful shutdown
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 }